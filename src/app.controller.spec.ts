@@ -1,22 +1,75 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
+import { NotifyService } from './notify/notify.service';
+import { DigestService } from './digest';
 
 describe('AppController', () => {
   let appController: AppController;
+  let notify: jest.Mock;
+  let send: jest.Mock;
 
   beforeEach(async () => {
+    notify = jest.fn().mockResolvedValue({ wechat: true, telegram: true });
+    send = jest.fn().mockResolvedValue({ summary: {}, results: {} });
+
     const app: TestingModule = await Test.createTestingModule({
       controllers: [AppController],
-      providers: [AppService],
+      providers: [
+        AppService,
+        { provide: NotifyService, useValue: { notify } },
+        { provide: DigestService, useValue: { send } },
+      ],
     }).compile();
 
     appController = app.get<AppController>(AppController);
   });
 
   describe('root', () => {
-    it('should return "Hello World!"', () => {
-      expect(appController.getHello()).toBe('Hello World!');
+    it('should report that the service is running', () => {
+      expect(appController.getHello()).toBe('OKX订单订阅服务正在运行');
+    });
+  });
+
+  describe('testNotify', () => {
+    it('should send to every channel ignoring mutes', async () => {
+      const result = await appController.testNotify();
+
+      expect(notify).toHaveBeenCalledWith(
+        expect.objectContaining({ title: '测试通知' }),
+        undefined,
+        { ignoreMute: true },
+      );
+      expect(result).toMatchObject({
+        success: true,
+        message: '测试通知发送成功',
+      });
+    });
+
+    it('should fail when any channel fails or none is enabled', async () => {
+      notify.mockResolvedValueOnce({ wechat: true, telegram: false });
+      expect((await appController.testNotify()).success).toBe(false);
+
+      notify.mockResolvedValueOnce({});
+      expect((await appController.testNotify()).success).toBe(false);
+    });
+  });
+
+  describe('sendDigest', () => {
+    it('should default to the last 24 hours', async () => {
+      await appController.sendDigest({ to: 1_700_000_000_000 });
+      expect(send).toHaveBeenCalledWith(
+        1_700_000_000_000 - 24 * 60 * 60 * 1000,
+        1_700_000_000_000,
+        undefined,
+      );
+    });
+
+    it('should reject a range that ends before it starts', async () => {
+      await expect(
+        appController.sendDigest({ from: 2_000, to: 1_000 }),
+      ).rejects.toThrow(BadRequestException);
     });
   });
 });
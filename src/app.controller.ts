@@ -1,29 +1,42 @@
-import { Controller, Get, Post } from '@nestjs/common';
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Post,
+} from '@nestjs/common';
 import { AppService } from './app.service';
-import { WechatService } from './wechat/wechat.service';
+import { NotifyService } from './notify/notify.service';
+import type { NotifyResult } from './notify/notify.service';
+import { DigestService } from './digest';
+import type { DigestSummary } from './digest';
+import { parseTimeParam } from './common/utils/query.util';
+import { RequireRole } from './auth';
 
 @Controller()
 export class AppController {
   constructor(
     private readonly appService: AppService,
-    private readonly wechatService: WechatService,
+    private readonly notifyService: NotifyService,
+    private readonly digestService: DigestService,
   ) {}
 
   @Get()
+  @RequireRole('read')
   getHello(): string {
     return this.appService.getHello();
   }
 
-  @Get('health')
-  getHealth(): { status: string; timestamp: string } {
-    return this.appService.getHealth();
-  }
-
   /**
-   * 测试发送微信通知（用于调试）
+   * 测试发送通知到所有已启用的渠道（用于调试）
    */
   @Post('test-notify')
-  async testNotify(): Promise<{ success: boolean; message: string }> {
+  @RequireRole('admin')
+  async testNotify(): Promise<{
+    success: boolean;
+    message: string;
+    results: NotifyResult;
+  }> {
     const time = new Date().toLocaleString('zh-CN', {
       year: 'numeric',
       month: '2-digit',
@@ -33,17 +46,52 @@ export class AppController {
       second: '2-digit',
     });
 
-    const success = await this.wechatService.sendOrderNotification(
-      time,
-      'BTC-USDT-SWAP', // 交易品种
-      '买入', // 交易方向
-      '0.1 @ 95000', // 成交数量
-      '完全成交', // 订单状态
+    const results = await this.notifyService.notify(
+      {
+        title: '测试通知',
+        time,
+        instId: 'BTC-USDT-SWAP', // 交易品种
+        side: '买入', // 交易方向
+        size: '0.1 @ 95000', // 成交数量
+        state: '完全成交', // 订单状态
+      },
+      undefined,
+      { ignoreMute: true },
     );
 
+    const channels = Object.keys(results);
+    const success =
+      channels.length > 0 && channels.every((channel) => results[channel]);
+
     return {
       success,
       message: success ? '测试通知发送成功' : '测试通知发送失败',
+      results,
     };
   }
+
+  /**
+   * 手动发送指定时间范围的交易汇总
+   * @param body.from 开始时间（毫秒时间戳或 ISO 时间），默认结束时间前 24 小时
+   * @param body.to 结束时间（毫秒时间戳或 ISO 时间），默认当前时间
+   * @param body.account 只汇总指定账户
+   */
+  @Post('digest')
+  @RequireRole('admin')
+  async sendDigest(
+    @Body()
+    body: {
+      from?: string | number;
+      to?: string | number;
+      account?: string;
+    } = {},
+  ): Promise<{ summary: DigestSummary; results: NotifyResult }> {
+    const to = parseTimeParam('to', body.to?.toString()) ?? Date.now();
+    const from =
+      parseTimeParam('from', body.from?.toString()) ?? to - 24 * 60 * 60 * 1000;
+    if (from > to) {
+      throw new BadRequestException('from 不能晚于 to');
+    }
+    return this.digestService.send(from, to, body.account);
+  }
 }
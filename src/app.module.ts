@@ -1,20 +1,41 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { OkxModule } from './okx/okx.module';
 import { WechatModule } from './wechat/wechat.module';
+import { NotifyModule } from './notify/notify.module';
 import { LoggingModule } from './common/logging';
+import { DigestModule } from './digest';
+import { EventsModule } from './events';
+import { DashboardModule } from './dashboard';
+import { HealthModule } from './health';
+import { MetricsModule } from './metrics';
+import { TradeModule } from './trade';
+import { AuthModule } from './auth';
+import { ConfigReportModule, validateEnv } from './config';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
       envFilePath: '.env',
+      validate: validateEnv,
     }),
+    ScheduleModule.forRoot(),
     LoggingModule,
+    AuthModule,
+    EventsModule,
+    MetricsModule,
     OkxModule,
     WechatModule,
+    NotifyModule,
+    DigestModule,
+    DashboardModule,
+    HealthModule,
+    TradeModule,
+    ConfigReportModule,
   ],
   controllers: [AppController],
   providers: [AppService],
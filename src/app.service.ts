@@ -5,11 +5,4 @@ export class AppService {
   getHello(): string {
     return 'OKX订单订阅服务正在运行';
   }
-
-  getHealth(): { status: string; timestamp: string } {
-    return {
-      status: 'ok',
-      timestamp: new Date().toISOString(),
-    };
-  }
 }
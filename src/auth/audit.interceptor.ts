@@ -0,0 +1,56 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  HttpException,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { Observable, tap } from 'rxjs';
+import { LoggingService } from '../common/logging';
+import type { AuthenticatedRequest } from './auth.guard';
+
+/**
+ * 审计日志拦截器：记录需要 admin 角色的请求（调用方、路径、结果和耗时）
+ */
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  constructor(private loggingService: LoggingService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    if (request.authRequirement !== 'admin') {
+      return next.handle();
+    }
+
+    const startedAt = Date.now();
+    const audit = (status: number, error?: string) => {
+      void this.loggingService.logAudit(error ? 'WARN' : 'INFO', '管理操作', {
+        principal: request.principal?.name,
+        authMethod: request.principal?.method,
+        ip: request.principal?.ip,
+        method: request.method,
+        path: request.originalUrl.split('?')[0],
+        status,
+        durationMs: Date.now() - startedAt,
+        error,
+      });
+    };
+
+    return next.handle().pipe(
+      tap({
+        next: () =>
+          audit(context.switchToHttp().getResponse<Response>().statusCode),
+        error: (error: unknown) =>
+          audit(
+            error instanceof HttpException ? error.getStatus() : 500,
+            error instanceof Error ? error.message : 'Unknown error',
+          ),
+      }),
+    );
+  }
+}
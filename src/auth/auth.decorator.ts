@@ -0,0 +1,17 @@
+import { SetMetadata } from '@nestjs/common';
+import type { AuthRequirement } from './auth.interface';
+
+export const AUTH_REQUIREMENT_KEY = 'auth:requirement';
+
+/**
+ * 指定接口所需的角色
+ *
+ * 未指定时 GET 请求需要 read，其他请求需要 admin
+ */
+export const RequireRole = (requirement: AuthRequirement) =>
+  SetMetadata(AUTH_REQUIREMENT_KEY, requirement);
+
+/**
+ * 无需认证的接口（仍受 IP 允许列表限制）
+ */
+export const Public = () => RequireRole('public');
@@ -0,0 +1,55 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import { AuthService } from './auth.service';
+import { AUTH_REQUIREMENT_KEY } from './auth.decorator';
+import type { AuthPrincipal, AuthRequirement } from './auth.interface';
+
+/**
+ * 经过认证的请求
+ */
+export interface AuthenticatedRequest extends Request {
+  principal?: AuthPrincipal;
+  authRequirement?: AuthRequirement;
+  rawBody?: Buffer;
+}
+
+/**
+ * 全局认证守卫
+ *
+ * 按 @RequireRole / @Public 声明的权限校验请求，
+ * 未声明时 GET/HEAD 请求需要 read 角色，其他请求需要 admin 角色
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private authService: AuthService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (context.getType() !== 'http') {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const requirement =
+      this.reflector.getAllAndOverride<AuthRequirement | undefined>(
+        AUTH_REQUIREMENT_KEY,
+        [context.getHandler(), context.getClass()],
+      ) ?? (['GET', 'HEAD'].includes(request.method) ? 'read' : 'admin');
+
+    request.authRequirement = requirement;
+    request.principal = await this.authService.authorize(
+      {
+        method: request.method,
+        url: request.originalUrl,
+        headers: request.headers,
+        remoteAddress: request.socket.remoteAddress,
+        body: request.rawBody?.toString('utf-8'),
+      },
+      requirement,
+    );
+    return true;
+  }
+}
@@ -0,0 +1,46 @@
+import type { IncomingHttpHeaders } from 'http';
+
+/**
+ * 角色：read 只能查询，admin 可执行管理操作（admin 包含 read 的权限）
+ */
+export type AuthRole = 'read' | 'admin';
+
+/**
+ * 接口所需的权限，public 表示无需认证
+ */
+export type AuthRequirement = AuthRole | 'public';
+
+/**
+ * 认证方式
+ */
+export type AuthMethod = 'key' | 'hmac';
+
+/**
+ * API Key 配置
+ */
+export interface ApiKeyConfig {
+  name: string; // 名称（HMAC 签名时作为 X-Api-Key 传递，也用于审计日志）
+  role: AuthRole;
+  key: string; // 静态密钥，同时作为 HMAC 签名密钥
+}
+
+/**
+ * 调用方
+ */
+export interface AuthPrincipal {
+  name: string;
+  role: AuthRole;
+  method: AuthMethod | 'none'; // none 表示未开启认证
+  ip: string;
+}
+
+/**
+ * 待认证的请求（HTTP 请求和 WebSocket 升级请求共用）
+ */
+export interface AuthRequest {
+  method: string;
+  url: string; // 路径和查询参数，如 /logs?level=ERROR
+  headers: IncomingHttpHeaders;
+  remoteAddress?: string;
+  body?: string; // 原始请求体（HMAC 签名使用）
+}
@@ -0,0 +1,16 @@
+import { Global, Module } from '@nestjs/common';
+import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
+import { AuthService } from './auth.service';
+import { AuthGuard } from './auth.guard';
+import { AuditInterceptor } from './audit.interceptor';
+
+@Global()
+@Module({
+  providers: [
+    AuthService,
+    { provide: APP_GUARD, useClass: AuthGuard },
+    { provide: APP_INTERCEPTOR, useClass: AuditInterceptor },
+  ],
+  exports: [AuthService],
+})
+export class AuthModule {}
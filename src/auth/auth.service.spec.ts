@@ -0,0 +1,182 @@
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthService } from './auth.service';
+import { AuthRequest } from './auth.interface';
+import { LoggingService } from '../common/logging';
+import { signOkxRequest } from '../okx/okx-sign.util';
+import { toTypedConfig } from '../config/config.loader';
+
+describe('AuthService', () => {
+  const createService = (config: Record<string, string> = {}) =>
+    new AuthService(
+      {
+        get: (key: string) =>
+          toTypedConfig({
+            AUTH_API_KEYS: 'viewer:read:read-key,ops:admin:admin:key',
+            ...config,
+          })[key],
+      } as unknown as ConfigService,
+      new Proxy(
+        {},
+        { get: () => jest.fn().mockResolvedValue(undefined) },
+      ) as LoggingService,
+    );
+
+  const request = (
+    headers: Record<string, string> = {},
+    overrides: Partial<AuthRequest> = {},
+  ): AuthRequest => ({
+    method: 'GET',
+    url: '/logs',
+    headers,
+    remoteAddress: '::ffff:10.0.0.5',
+    ...overrides,
+  });
+
+  const signed = (
+    name: string,
+    key: string,
+    method: string,
+    url: string,
+    body = '',
+    timestamp = Date.now().toString(),
+  ): AuthRequest =>
+    request(
+      {
+        'x-api-key': name,
+        'x-timestamp': timestamp,
+        'x-signature': signOkxRequest(key, timestamp, method, url, body),
+      },
+      { method, url, body },
+    );
+
+  it('should allow everything when no keys are configured', async () => {
+    const service = createService({ AUTH_API_KEYS: '' });
+    expect(service.enabled).toBe(false);
+    await expect(
+      service.authorize(request({}, { method: 'POST' }), 'admin'),
+    ).resolves.toMatchObject({ role: 'admin', method: 'none' });
+  });
+
+  it('should authenticate static keys from headers and query', async () => {
+    const service = createService();
+    await expect(
+      service.authorize(request({ 'x-api-key': 'read-key' }), 'read'),
+    ).resolves.toEqual({
+      name: 'viewer',
+      role: 'read',
+      method: 'key',
+      ip: '10.0.0.5',
+    });
+    await expect(
+      service.authorize(request({ authorization: 'Bearer admin:key' }), 'read'),
+    ).resolves.toMatchObject({ name: 'ops', role: 'admin' });
+    await expect(
+      service.authorize(
+        request({}, { url: '/events/stream?apiKey=read-key' }),
+        'read',
+      ),
+    ).resolves.toMatchObject({ name: 'viewer' });
+
+    await expect(service.authorize(request(), 'read')).rejects.toThrow(
+      UnauthorizedException,
+    );
+    await expect(
+      service.authorize(request({ 'x-api-key': 'wrong' }), 'read'),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should enforce roles', async () => {
+    const service = createService();
+    await expect(
+      service.authorize(request({ 'x-api-key': 'read-key' }), 'admin'),
+    ).rejects.toThrow(ForbiddenException);
+    await expect(
+      service.authorize(request({ 'x-api-key': 'admin:key' }), 'admin'),
+    ).resolves.toMatchObject({ role: 'admin' });
+    await expect(service.authorize(request(), 'public')).resolves.toBe(
+      undefined,
+    );
+  });
+
+  it('should verify HMAC signatures and reject replays', async () => {
+    const service = createService();
+    const signedRequest = signed(
+      'ops',
+      'admin:key',
+      'POST',
+      '/logs/clear',
+      '{}',
+    );
+    await expect(
+      service.authorize(signedRequest, 'admin'),
+    ).resolves.toMatchObject({ name: 'ops', method: 'hmac' });
+    await expect(service.authorize(signedRequest, 'admin')).rejects.toThrow(
+      '签名已使用',
+    );
+
+    // 请求体被篡改
+    await expect(
+      service.authorize(
+        {
+          ...signed('ops', 'admin:key', 'POST', '/logs/clear'),
+          body: '{"a":1}',
+        },
+        'admin',
+      ),
+    ).rejects.toThrow('签名无效');
+
+    // 时间戳超出允许的偏差
+    await expect(
+      service.authorize(
+        signed(
+          'ops',
+          'admin:key',
+          'GET',
+          '/logs',
+          '',
+          (Date.now() - 600000).toString(),
+        ),
+        'read',
+      ),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should only accept the configured methods', async () => {
+    const service = createService({ AUTH_METHODS: 'hmac' });
+    await expect(
+      service.authorize(request({ 'x-api-key': 'read-key' }), 'read'),
+    ).rejects.toThrow('需要 HMAC 签名');
+    await expect(
+      service.authorize(signed('viewer', 'read-key', 'GET', '/logs'), 'read'),
+    ).resolves.toMatchObject({ name: 'viewer' });
+  });
+
+  it('should check the IP allowlist before anything else', async () => {
+    const service = createService({
+      AUTH_IP_ALLOWLIST: '127.0.0.1,10.0.0.0/24',
+    });
+    await expect(
+      service.authorize(request({ 'x-api-key': 'read-key' }), 'read'),
+    ).resolves.toBeDefined();
+    await expect(
+      service.authorize(
+        request({}, { remoteAddress: '192.168.1.1' }),
+        'public',
+      ),
+    ).rejects.toThrow(ForbiddenException);
+
+    // 默认不信任 X-Forwarded-For
+    const forwarded = request(
+      { 'x-api-key': 'read-key', 'x-forwarded-for': '192.168.1.1' },
+      { remoteAddress: '127.0.0.1' },
+    );
+    await expect(service.authorize(forwarded, 'read')).resolves.toBeDefined();
+    await expect(
+      createService({
+        AUTH_IP_ALLOWLIST: '127.0.0.1',
+        AUTH_TRUST_PROXY: 'true',
+      }).authorize(forwarded, 'read'),
+    ).rejects.toThrow(ForbiddenException);
+  });
+});
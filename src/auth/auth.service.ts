@@ -0,0 +1,294 @@
+import {
+  ForbiddenException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { BlockList, isIP } from 'net';
+import { LoggingService } from '../common/logging';
+import { signOkxRequest } from '../okx/okx-sign.util';
+import {
+  ApiKeyConfig,
+  AuthMethod,
+  AuthPrincipal,
+  AuthRequest,
+  AuthRole,
+} from './auth.interface';
+
+const AUTH_ROLES: AuthRole[] = ['read', 'admin'];
+const AUTH_METHODS: AuthMethod[] = ['key', 'hmac'];
+
+/**
+ * 取单个请求头的值
+ */
+function getHeader(request: AuthRequest, name: string): string | undefined {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * 按固定时间比较两个字符串，避免通过响应时间猜测密钥
+ */
+function safeEqual(a: string, b: string): boolean {
+  const hashA = crypto.createHash('sha256').update(a).digest();
+  const hashB = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * HTTP 接口认证
+ *
+ * 配置了 AUTH_API_KEYS 时开启，支持两种方式：
+ * 1. 静态密钥：X-Api-Key / Authorization: Bearer 请求头或 apiKey 查询参数携带密钥
+ * 2. HMAC 签名：X-Api-Key 携带名称，X-Timestamp 为毫秒时间戳，
+ *    X-Signature 为 Base64(HMAC-SHA256(timestamp + method + path + body))，与 OKX 签名算法相同
+ * 配置了 AUTH_IP_ALLOWLIST 时，不在列表中的 IP 一律拒绝（含无需认证的接口）
+ */
+@Injectable()
+export class AuthService implements OnModuleInit {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly keys: ApiKeyConfig[];
+  private readonly methods: AuthMethod[];
+  private readonly maxSkewMs: number;
+  private readonly trustProxy: boolean;
+  private readonly allowlist?: BlockList;
+  // 签名 -> 过期时间，时间窗口内拒绝重复使用同一签名
+  private readonly usedSignatures = new Map<string, number>();
+
+  constructor(
+    private configService: ConfigService,
+    private loggingService: LoggingService,
+  ) {
+    this.keys = this.parseKeys(
+      this.configService.get<string[]>('AUTH_API_KEYS') ?? [],
+    );
+    this.methods = this.configService
+      .get<string[]>('AUTH_METHODS')!
+      .map((method) => method.toLowerCase() as AuthMethod)
+      .filter((method) => AUTH_METHODS.includes(method));
+    this.maxSkewMs =
+      this.configService.get<number>('AUTH_HMAC_MAX_SKEW_SEC')! * 1000;
+    this.trustProxy = this.configService.get<boolean>('AUTH_TRUST_PROXY')!;
+    this.allowlist = this.parseAllowlist(
+      this.configService.get<string[]>('AUTH_IP_ALLOWLIST') ?? [],
+    );
+  }
+
+  onModuleInit() {
+    if (this.keys.length === 0) {
+      this.logger.warn('未配置 AUTH_API_KEYS，HTTP 接口无需认证');
+    } else {
+      this.logger.log(
+        `已开启接口认证: ${this.keys.length} 个 API Key，方式 ${this.methods.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * 是否开启认证
+   */
+  get enabled(): boolean {
+    return this.keys.length > 0;
+  }
+
+  /**
+   * 校验 IP、认证并检查角色，失败时记录审计日志并抛出 401/403
+   */
+  async authorize(
+    request: AuthRequest,
+    role: AuthRole | 'public',
+  ): Promise<AuthPrincipal | undefined> {
+    const ip = this.getClientIp(request);
+    try {
+      if (!this.isIpAllowed(ip)) {
+        throw new ForbiddenException(`IP 不在允许列表中: ${ip}`);
+      }
+      if (role === 'public') {
+        return undefined;
+      }
+
+      const principal = this.authenticate(request, ip);
+      if (!this.hasRole(principal, role)) {
+        throw new ForbiddenException(`权限不足：需要 ${role} 角色`);
+      }
+      return principal;
+    } catch (error: unknown) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(
+        `拒绝访问: ${request.method} ${request.url} (${ip}) ${reason}`,
+      );
+      await this.loggingService.logAudit('WARN', '拒绝访问', {
+        method: request.method,
+        path: request.url.split('?')[0],
+        ip,
+        name: getHeader(request, 'x-api-key')?.substring(0, 32),
+        reason,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 认证请求，未开启认证时返回匿名管理员
+   */
+  authenticate(request: AuthRequest, ip: string): AuthPrincipal {
+    if (!this.enabled) {
+      return { name: 'anonymous', role: 'admin', method: 'none', ip };
+    }
+
+    const signature = getHeader(request, 'x-signature');
+    if (signature !== undefined) {
+      return this.verifySignature(request, signature, ip);
+    }
+    if (!this.methods.includes('key')) {
+      throw new UnauthorizedException('需要 HMAC 签名');
+    }
+
+    const authorization = getHeader(request, 'authorization') ?? '';
+    const key =
+      getHeader(request, 'x-api-key') ??
+      (authorization.startsWith('Bearer ')
+        ? authorization.slice('Bearer '.length)
+        : undefined) ??
+      new URL(request.url, 'http://localhost').searchParams.get('apiKey') ??
+      undefined;
+    if (!key) {
+      throw new UnauthorizedException('缺少 API Key');
+    }
+
+    const config = this.keys.find((item) => safeEqual(item.key, key));
+    if (!config) {
+      throw new UnauthorizedException('API Key 无效');
+    }
+    return { name: config.name, role: config.role, method: 'key', ip };
+  }
+
+  /**
+   * 角色是否满足要求（admin 包含 read）
+   */
+  hasRole(principal: AuthPrincipal, role: AuthRole): boolean {
+    return principal.role === 'admin' || principal.role === role;
+  }
+
+  /**
+   * 客户端 IP（AUTH_TRUST_PROXY=true 时取 X-Forwarded-For 的第一个地址）
+   */
+  getClientIp(request: AuthRequest): string {
+    const forwarded = this.trustProxy
+      ? getHeader(request, 'x-forwarded-for')?.split(',')[0]?.trim()
+      : undefined;
+    const ip = forwarded || request.remoteAddress || '';
+    return ip.startsWith('::ffff:') ? ip.slice('::ffff:'.length) : ip;
+  }
+
+  /**
+   * IP 是否在允许列表中（未配置时全部允许）
+   */
+  isIpAllowed(ip: string): boolean {
+    if (!this.allowlist) {
+      return true;
+    }
+    const type = isIP(ip);
+    return type !== 0 && this.allowlist.check(ip, type === 6 ? 'ipv6' : 'ipv4');
+  }
+
+  /**
+   * 校验 HMAC 签名
+   */
+  private verifySignature(
+    request: AuthRequest,
+    signature: string,
+    ip: string,
+  ): AuthPrincipal {
+    if (!this.methods.includes('hmac')) {
+      throw new UnauthorizedException('未开启 HMAC 签名认证');
+    }
+
+    const name = getHeader(request, 'x-api-key');
+    const timestamp = getHeader(request, 'x-timestamp') ?? '';
+    const config = this.keys.find((item) => item.name === name);
+    if (!config) {
+      throw new UnauthorizedException('API Key 无效');
+    }
+
+    const now = Date.now();
+    if (
+      !/^\d+$/.test(timestamp) ||
+      Math.abs(now - parseInt(timestamp)) > this.maxSkewMs
+    ) {
+      throw new UnauthorizedException('X-Timestamp 缺失或超出允许的时间偏差');
+    }
+
+    const expected = signOkxRequest(
+      config.key,
+      timestamp,
+      request.method.toUpperCase(),
+      request.url,
+      request.body ?? '',
+    );
+    if (!safeEqual(expected, signature)) {
+      throw new UnauthorizedException('签名无效');
+    }
+
+    // 清理过期签名后检查重放
+    for (const [used, expiresAt] of this.usedSignatures) {
+      if (expiresAt < now) {
+        this.usedSignatures.delete(used);
+      }
+    }
+    if (this.usedSignatures.has(signature)) {
+      throw new UnauthorizedException('签名已使用');
+    }
+    this.usedSignatures.set(signature, now + this.maxSkewMs);
+
+    return { name: config.name, role: config.role, method: 'hmac', ip };
+  }
+
+  /**
+   * 解析 AUTH_API_KEYS（名称:角色:密钥，逗号分隔）
+   */
+  private parseKeys(items: string[]): ApiKeyConfig[] {
+    const keys: ApiKeyConfig[] = [];
+    for (const item of items) {
+      const [name, role, ...rest] = item.split(':');
+      const key = rest.join(':');
+      if (!name || !key || !AUTH_ROLES.includes(role as AuthRole)) {
+        this.logger.error(
+          `忽略无效的 API Key 配置（应为 名称:read|admin:密钥）: ${name}`,
+        );
+        continue;
+      }
+      keys.push({ name, role: role as AuthRole, key });
+    }
+    return keys;
+  }
+
+  /**
+   * 解析 AUTH_IP_ALLOWLIST（IP 或 CIDR，逗号分隔）
+   */
+  private parseAllowlist(entries: string[]): BlockList | undefined {
+    if (entries.length === 0) {
+      return undefined;
+    }
+
+    const allowlist = new BlockList();
+    for (const entry of entries) {
+      const [address, prefix] = entry.split('/');
+      const type = isIP(address);
+      if (type === 0 || (prefix !== undefined && !/^\d+$/.test(prefix))) {
+        this.logger.error(`忽略无效的 IP 允许列表项: ${entry}`);
+        continue;
+      }
+      const family = type === 6 ? 'ipv6' : 'ipv4';
+      if (prefix !== undefined) {
+        allowlist.addSubnet(address, parseInt(prefix), family);
+      } else {
+        allowlist.addAddress(address, family);
+      }
+    }
+    return allowlist;
+  }
+}
@@ -0,0 +1,6 @@
+export * from './auth.interface';
+export * from './auth.decorator';
+export * from './auth.service';
+export * from './auth.guard';
+export * from './audit.interceptor';
+export * from './auth.module';
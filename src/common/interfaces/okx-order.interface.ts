@@ -18,6 +18,9 @@ export interface OkxOrderData {
   tradeId: string; // 最新成交ID
   fillSz: string; // 最新成交数量
   fillTime: string; // 最新成交时间
+  fillFee: string; // 最新一笔成交的手续费
+  fillFeeCcy: string; // 最新一笔成交的手续费币种
+  fillPnl: string; // 最新一笔成交的收益
   state: string; // 订单状态
   avgPx: string; // 成交均价
   lever: string; // 杠杆倍数
@@ -31,6 +34,7 @@ export interface OkxOrderData {
   rebate: string; // 返佣金额
   pnl: string; // 收益
   category: string; // 订单种类
+  notionalUsd: string; // 委托单预估美元价值
   uTime: string; // 订单更新时间
   cTime: string; // 订单创建时间
   reqId: string; // 请求ID
@@ -39,21 +43,258 @@ export interface OkxOrderData {
   msg: string; // 错误信息
 }
 
+/**
+ * OKX策略委托数据接口（orders-algo / algo-advance 频道）
+ */
+export interface OkxAlgoOrderData {
+  instType: string; // 产品类型
+  instId: string; // 产品ID
+  ordId: string; // 触发后生成的订单ID
+  algoId: string; // 策略委托单ID
+  algoClOrdId: string; // 客户自定义策略订单ID
+  clOrdId: string; // 客户自定义订单ID
+  sz: string; // 委托数量
+  ordType: string; // 订单类型 conditional、oco、trigger、move_order_stop、iceberg、twap
+  side: string; // 订单方向 buy/sell
+  posSide: string; // 持仓方向
+  tdMode: string; // 交易模式
+  tgtCcy: string; // 委托数量的类型
+  state: string; // 策略委托状态
+  lever: string; // 杠杆倍数
+  tpTriggerPx: string; // 止盈触发价
+  tpTriggerPxType: string; // 止盈触发价类型
+  tpOrdPx: string; // 止盈委托价
+  slTriggerPx: string; // 止损触发价
+  slTriggerPxType: string; // 止损触发价类型
+  slOrdPx: string; // 止损委托价
+  triggerPx: string; // 计划委托触发价
+  triggerPxType: string; // 计划委托触发价类型
+  ordPx: string; // 计划委托委托价
+  actualSz: string; // 实际委托量
+  actualPx: string; // 实际委托价
+  actualSide: string; // 实际触发方向 tp：止盈 sl：止损
+  triggerTime: string; // 策略委托触发时间
+  notionalUsd: string; // 委托单预估美元价值
+  tag: string; // 订单标签
+  cTime: string; // 创建时间
+  uTime: string; // 更新时间
+  callbackRatio?: string; // 回调幅度的比例（algo-advance）
+  callbackSpread?: string; // 回调幅度的价距（algo-advance）
+  activePx?: string; // 移动止盈止损激活价格（algo-advance）
+  moveTriggerPx?: string; // 移动止盈止损触发价格（algo-advance）
+  pxVar?: string; // 价格比例（algo-advance）
+  pxSpread?: string; // 价距（algo-advance）
+  szLimit?: string; // 单笔数量（algo-advance）
+  pxLimit?: string; // 挂单限制价（algo-advance）
+  timeInterval?: string; // 下单间隔（algo-advance）
+  count?: string; // 策略订单计数（algo-advance）
+}
+
+/**
+ * OKX持仓数据接口（positions 频道）
+ */
+export interface OkxPositionData {
+  instType: string; // 产品类型
+  mgnMode: string; // 保证金模式 cross/isolated
+  posId: string; // 持仓ID
+  posSide: string; // 持仓方向 long/short/net
+  pos: string; // 持仓数量
+  posCcy: string; // 持仓数量币种
+  availPos: string; // 可平仓数量
+  avgPx: string; // 开仓均价
+  upl: string; // 未实现收益
+  uplRatio: string; // 未实现收益率
+  instId: string; // 产品ID
+  lever: string; // 杠杆倍数
+  liqPx: string; // 预估强平价
+  markPx: string; // 最新标记价格
+  imr: string; // 初始保证金
+  margin: string; // 保证金余额
+  mgnRatio: string; // 维持保证金率
+  mmr: string; // 维持保证金
+  liab: string; // 负债额
+  liabCcy: string; // 负债币种
+  interest: string; // 利息
+  tradeId: string; // 最新成交ID
+  notionalUsd: string; // 以美金价值为单位的持仓数量
+  adl: string; // 自动减仓信号区
+  ccy: string; // 占用保证金的币种
+  last: string; // 最新成交价
+  realizedPnl: string; // 已实现收益
+  pnl: string; // 平仓订单累计收益额
+  fee: string; // 累计手续费金额
+  fundingFee: string; // 累计资金费用
+  cTime: string; // 持仓创建时间
+  uTime: string; // 持仓更新时间
+  pTime: string; // 持仓信息推送时间
+}
+
+/**
+ * OKX账户余额数据接口（account 频道）
+ */
+export interface OkxAccountData {
+  uTime: string; // 账户信息更新时间
+  totalEq: string; // 美金层面权益
+  isoEq: string; // 美金层面逐仓仓位权益
+  adjEq: string; // 美金层面有效保证金
+  ordFroz: string; // 美金层面全仓挂单占用保证金
+  imr: string; // 美金层面占用保证金
+  mmr: string; // 美金层面维持保证金
+  notionalUsd: string; // 以美金价值为单位的持仓数量
+  mgnRatio: string; // 美金层面维持保证金率
+  details: OkxAccountBalanceDetail[]; // 各币种资产详细信息
+}
+
+/**
+ * OKX账户币种余额明细
+ */
+export interface OkxAccountBalanceDetail {
+  ccy: string; // 币种
+  eq: string; // 币种总权益
+  cashBal: string; // 币种余额
+  uTime: string; // 币种余额信息的更新时间
+  isoEq: string; // 币种逐仓仓位权益
+  availEq: string; // 可用保证金
+  disEq: string; // 美金层面币种折算权益
+  availBal: string; // 可用余额
+  frozenBal: string; // 币种占用金额
+  ordFrozen: string; // 挂单冻结数量
+  liab: string; // 币种负债额
+  upl: string; // 未实现盈亏
+  mgnRatio: string; // 币种维持保证金率
+  interest: string; // 计息
+  eqUsd: string; // 币种权益美金价值
+}
+
+/**
+ * OKX账户余额和持仓数据接口（balance_and_position 频道）
+ */
+export interface OkxBalanceAndPositionData {
+  pTime: string; // 推送时间
+  eventType: string; // 事件类型
+  balData: {
+    ccy: string; // 币种
+    cashBal: string; // 币种余额
+    uTime: string; // 币种余额信息的更新时间
+  }[];
+  posData: {
+    posId: string; // 持仓ID
+    tradeId: string; // 最新成交ID
+    instId: string; // 产品ID
+    instType: string; // 产品类型
+    mgnMode: string; // 保证金模式
+    posSide: string; // 持仓方向
+    pos: string; // 持仓数量
+    ccy: string; // 占用保证金的币种
+    posCcy: string; // 持仓数量币种
+    avgPx: string; // 开仓均价
+    uTime: string; // 持仓更新时间
+  }[];
+  trades: {
+    instId: string; // 产品ID
+    tradeId: string; // 成交ID
+  }[];
+}
+
+/**
+ * OKX成交明细接口（REST /api/v5/trade/fills）
+ */
+export interface OkxFillData {
+  instType: string; // 产品类型
+  instId: string; // 产品ID
+  tradeId: string; // 成交ID
+  ordId: string; // 订单ID
+  clOrdId: string; // 客户自定义订单ID
+  billId: string; // 账单ID
+  tag: string; // 订单标签
+  fillPx: string; // 成交价格
+  fillSz: string; // 成交数量
+  fillPnl: string; // 成交收益
+  side: string; // 订单方向 buy/sell
+  posSide: string; // 持仓方向
+  execType: string; // 流动性方向 T：taker M：maker
+  feeCcy: string; // 手续费币种
+  fee: string; // 手续费（负数为扣除，正数为返佣）
+  ts: string; // 成交明细产生时间
+  fillTime: string; // 成交时间
+}
+
+/**
+ * OKX行情数据接口（tickers 公共频道）
+ */
+export interface OkxTickerData {
+  instType: string; // 产品类型
+  instId: string; // 产品ID
+  last: string; // 最新成交价
+  lastSz: string; // 最新成交数量
+  askPx: string; // 卖一价
+  bidPx: string; // 买一价
+  open24h: string; // 24小时开盘价
+  high24h: string; // 24小时最高价
+  low24h: string; // 24小时最低价
+  vol24h: string; // 24小时成交量
+  ts: string; // 数据产生时间
+}
+
+/**
+ * OKX资金费率数据接口（funding-rate 公共频道）
+ */
+export interface OkxFundingRateData {
+  instType: string; // 产品类型
+  instId: string; // 产品ID
+  fundingRate: string; // 当前资金费率
+  nextFundingRate: string; // 下一期预测资金费率
+  fundingTime: string; // 资金费时间
+  nextFundingTime: string; // 下一期资金费时间
+  ts: string; // 数据更新时间
+}
+
+/**
+ * OKX REST 接口响应
+ */
+export interface OkxRestResponse<T> {
+  code: string; // 0 表示成功
+  msg: string;
+  data: T[];
+}
+
+/**
+ * OKX频道订阅参数
+ */
+export interface OkxSubscribeArg {
+  channel: string;
+  instType?: string;
+  instId?: string;
+}
+
 /**
  * OKX WebSocket消息接口
  */
-export interface OkxWsMessage {
-  arg?: {
-    channel: string;
-    instType?: string;
-    instId?: string;
+export interface OkxWsMessage<T = unknown> {
+  arg?: OkxSubscribeArg & {
+    uid?: string;
   };
+  id?: string; // 交易请求的响应中回传的请求 id
+  op?: string; // 交易请求的响应中回传的操作
   event?: string;
-  data?: OkxOrderData[];
+  data?: T[];
   code?: string;
   msg?: string;
 }
 
+/**
+ * WebSocket 交易请求（下单、撤单、改单）的响应
+ */
+export interface OkxWsOpResponse<T = unknown> {
+  id: string; // 请求 id
+  op: string; // 操作，如 order、batch-orders、cancel-order
+  code: string; // 0 全部成功，1 全部失败，2 批量部分成功
+  msg: string;
+  data: T[]; // 每笔请求的结果（含 sCode/sMsg）
+  inTime?: string; // 网关收到请求的时间（微秒）
+  outTime?: string; // 网关发出响应的时间（微秒）
+}
+
 /**
  * 订单状态映射
  */
@@ -65,6 +306,59 @@ export const ORDER_STATE_MAP: Record<string, string> = {
   mmp_canceled: '做市商保护撤销',
 };
 
+/**
+ * 策略委托状态映射
+ */
+export const ALGO_STATE_MAP: Record<string, string> = {
+  live: '待生效',
+  pause: '暂停生效',
+  partially_effective: '部分生效',
+  effective: '已生效',
+  canceled: '已撤销',
+  order_failed: '委托失败',
+  partially_failed: '部分委托失败',
+};
+
+/**
+ * 策略委托类型映射
+ */
+export const ALGO_ORD_TYPE_MAP: Record<string, string> = {
+  conditional: '止盈止损',
+  oco: '双向止盈止损',
+  trigger: '计划委托',
+  move_order_stop: '移动止盈止损',
+  iceberg: '冰山委托',
+  twap: '时间加权委托',
+  chase: '追逐限价委托',
+};
+
+/**
+ * 持仓方向映射
+ */
+export const POS_SIDE_MAP: Record<string, string> = {
+  long: '多头',
+  short: '空头',
+  net: '净持仓',
+};
+
+/**
+ * 余额和持仓事件类型映射
+ */
+export const BALANCE_EVENT_TYPE_MAP: Record<string, string> = {
+  snapshot: '首推快照',
+  delivered: '交割',
+  exercised: '行权',
+  transferred: '划转',
+  filled: '成交',
+  liquidation: '强平',
+  claw_back: '穿仓补偿',
+  adl: '自动减仓',
+  funding_fee: '资金费',
+  adjust_margin: '调整保证金',
+  set_leverage: '设置杠杆',
+  interest_deduction: '扣息',
+};
+
 /**
  * 订单方向映射
  */
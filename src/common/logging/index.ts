@@ -1,3 +1,7 @@
 export * from './logging.service';
+export * from './log-file.writer';
+export * from './log-format.util';
+export * from './log-query.interface';
+export * from './log-query.service';
 export * from './logging.module';
 export * from './logging.controller';
@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { LogFileWriter } from './log-file.writer';
+
+describe('LogFileWriter', () => {
+  let dir: string;
+
+  const createWriter = (maxSize: number, maxFiles = 0) =>
+    new LogFileWriter({
+      dir,
+      baseName: 'okx',
+      maxSize,
+      retentionDays: 0,
+      maxFiles,
+      compress: true,
+    });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'log-writer-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should append lines in call order', async () => {
+    const writer = createWriter(0);
+    await Promise.all(
+      Array.from({ length: 50 }, (_, i) => writer.append(`${i}\n`)),
+    );
+
+    const lines = fs.readFileSync(writer.filePath, 'utf-8').trim().split('\n');
+    expect(lines).toEqual(Array.from({ length: 50 }, (_, i) => String(i)));
+  });
+
+  it('should rotate and gzip when the size limit is exceeded', async () => {
+    const writer = createWriter(10);
+    void writer.append('line-1\n');
+    void writer.append('line-2\n');
+    await writer.append('line-3\n');
+
+    const files = writer.listFiles();
+    expect(files.map((file) => path.basename(file))).toEqual([
+      'okx.jsonl',
+      expect.stringMatching(/^okx-\d{4}-\d{2}-\d{2}\.2\.jsonl\.gz$/),
+      expect.stringMatching(/^okx-\d{4}-\d{2}-\d{2}\.1\.jsonl\.gz$/),
+    ]);
+    expect(fs.readFileSync(files[0], 'utf-8')).toBe('line-3\n');
+    expect(zlib.gunzipSync(fs.readFileSync(files[2])).toString()).toBe(
+      'line-1\n',
+    );
+  });
+
+  it('should keep at most maxFiles rotated files', async () => {
+    const writer = createWriter(10, 1);
+    for (let i = 1; i <= 4; i++) {
+      await writer.append(`line-${i}\n`);
+    }
+
+    const files = writer.listFiles();
+    expect(files).toHaveLength(2);
+    expect(zlib.gunzipSync(fs.readFileSync(files[1])).toString()).toBe(
+      'line-3\n',
+    );
+  });
+
+  it('should truncate the current file', async () => {
+    const writer = createWriter(0);
+    await writer.append('line-1\n');
+    await writer.truncate();
+    await writer.append('line-2\n');
+
+    expect(fs.readFileSync(writer.filePath, 'utf-8')).toBe('line-2\n');
+  });
+});
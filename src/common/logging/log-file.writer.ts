@@ -0,0 +1,192 @@
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { pipeline } from 'stream/promises';
+
+/**
+ * 日志文件写入选项
+ */
+export interface LogFileOptions {
+  dir: string; // 日志目录
+  baseName: string; // 文件名前缀，当前文件为 <baseName>.jsonl
+  maxSize: number; // 单个文件最大字节数，超过后轮转（0 表示不按大小轮转）
+  retentionDays: number; // 轮转文件保留天数（0 表示不按天数清理）
+  maxFiles: number; // 最多保留的轮转文件数（0 表示不限制）
+  compress: boolean; // 是否 gzip 压缩轮转文件
+}
+
+/**
+ * 轮转文件名：<baseName>-<日期>.<序号>.jsonl[.gz]
+ */
+const ROTATED_PATTERN = /^(.+)-(\d{4}-\d{2}-\d{2})\.(\d+)\.jsonl(\.gz)?$/;
+
+const dayFormat = new Intl.DateTimeFormat('en-CA', {
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+});
+
+/**
+ * 本地日期 YYYY-MM-DD
+ */
+function localDate(date: Date): string {
+  return dayFormat.format(date);
+}
+
+/**
+ * 追加写入的日志文件
+ *
+ * 所有写操作经由队列串行执行；跨日或超过大小上限时轮转为带日期和序号的文件并 gzip 压缩，
+ * 轮转后按保留天数和文件数清理旧文件
+ */
+export class LogFileWriter {
+  private readonly logger = new Logger(LogFileWriter.name);
+  readonly filePath: string;
+  private queue: Promise<void> = Promise.resolve();
+  private size = 0;
+  private fileDate: string;
+
+  constructor(private readonly options: LogFileOptions) {
+    this.filePath = path.join(options.dir, `${options.baseName}.jsonl`);
+    this.fileDate = localDate(new Date());
+
+    try {
+      fs.mkdirSync(options.dir, { recursive: true });
+      if (fs.existsSync(this.filePath)) {
+        const stat = fs.statSync(this.filePath);
+        this.size = stat.size;
+        this.fileDate = localDate(stat.mtime);
+      }
+    } catch (error) {
+      this.logger.error(`初始化日志文件失败: ${this.filePath}`, error);
+    }
+  }
+
+  /**
+   * 追加内容（按调用顺序写入）
+   */
+  append(content: string): Promise<void> {
+    return this.enqueue(() => this.write(content));
+  }
+
+  /**
+   * 清空当前日志文件
+   */
+  truncate(): Promise<void> {
+    return this.enqueue(async () => {
+      await fs.promises.writeFile(this.filePath, '', 'utf-8');
+      this.size = 0;
+    });
+  }
+
+  /**
+   * 等待队列中的写操作全部完成
+   */
+  flush(): Promise<void> {
+    return this.queue;
+  }
+
+  /**
+   * 列出全部日志文件，从新到旧（当前文件在最前）
+   */
+  listFiles(): string[] {
+    const files = fs.existsSync(this.filePath) ? [this.filePath] : [];
+    return files.concat(
+      this.listRotated().map((file) => path.join(this.options.dir, file.name)),
+    );
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.queue = this.queue.then(task).catch((error) => {
+      this.logger.error(`写入日志失败: ${this.filePath}`, error);
+    });
+    return this.queue;
+  }
+
+  private async write(content: string) {
+    const today = localDate(new Date());
+    const bytes = Buffer.byteLength(content);
+    const oversized =
+      this.options.maxSize > 0 && this.size + bytes > this.options.maxSize;
+    if (this.size > 0 && (today !== this.fileDate || oversized)) {
+      await this.rotate();
+    }
+
+    await fs.promises.appendFile(this.filePath, content, 'utf-8');
+    this.size += bytes;
+    this.fileDate = today;
+  }
+
+  /**
+   * 轮转当前文件
+   */
+  private async rotate() {
+    const { dir, baseName, compress } = this.options;
+    // 序号在同一日期的已有文件基础上递增（清理后也不会复用，保证排序正确）
+    const seq =
+      Math.max(
+        0,
+        ...this.listRotated()
+          .filter((file) => file.date === this.fileDate)
+          .map((file) => file.seq),
+      ) + 1;
+    const rotated = path.join(dir, `${baseName}-${this.fileDate}.${seq}.jsonl`);
+
+    await fs.promises.rename(this.filePath, rotated);
+    this.size = 0;
+
+    if (compress) {
+      try {
+        await pipeline(
+          fs.createReadStream(rotated),
+          zlib.createGzip(),
+          fs.createWriteStream(`${rotated}.gz`),
+        );
+        await fs.promises.unlink(rotated);
+      } catch (error) {
+        this.logger.error(`压缩日志文件失败: ${rotated}`, error);
+      }
+    }
+
+    await this.cleanup();
+  }
+
+  /**
+   * 按保留天数和文件数删除旧的轮转文件
+   */
+  private async cleanup() {
+    const { dir, retentionDays, maxFiles } = this.options;
+    const expireBefore = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+
+    for (const [index, file] of this.listRotated().entries()) {
+      const filePath = path.join(dir, file.name);
+      const expired =
+        (retentionDays > 0 && fs.statSync(filePath).mtimeMs < expireBefore) ||
+        (maxFiles > 0 && index >= maxFiles);
+      if (expired) {
+        await fs.promises.unlink(filePath);
+        this.logger.log(`已删除过期日志: ${file.name}`);
+      }
+    }
+  }
+
+  /**
+   * 轮转文件列表，从新到旧
+   */
+  private listRotated(): { name: string; date: string; seq: number }[] {
+    if (!fs.existsSync(this.options.dir)) {
+      return [];
+    }
+    return fs
+      .readdirSync(this.options.dir)
+      .map((name) => ({ name, match: ROTATED_PATTERN.exec(name) }))
+      .filter(({ match }) => match && match[1] === this.options.baseName)
+      .map(({ name, match }) => ({
+        name,
+        date: match![2],
+        seq: parseInt(match![3], 10),
+      }))
+      .sort((a, b) => b.date.localeCompare(a.date) || b.seq - a.seq);
+  }
+}
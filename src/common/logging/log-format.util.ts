@@ -0,0 +1,99 @@
+import type { LogCategory, LogLevel, OkxLogEntry } from './logging.service';
+
+const LEVEL_ICONS: Record<LogLevel, string> = {
+  INFO: '✅',
+  WARN: '⚠️',
+  ERROR: '❌',
+  DEBUG: '🔍',
+};
+
+const CATEGORY_ICONS: Record<LogCategory, string> = {
+  CONNECTION: '🔗',
+  AUTH: '🔐',
+  SUBSCRIBE: '📡',
+  ORDER: '📦',
+  ALGO: '🎯',
+  POSITION: '📊',
+  ACCOUNT: '💰',
+  RISK: '🚨',
+  ALERT: '🔔',
+  NOTIFY: '📱',
+  AUDIT: '🛡️',
+  SYSTEM: '⚙️',
+};
+
+/**
+ * 安全的 JSON 序列化
+ */
+export function safeStringify(obj: unknown): string {
+  try {
+    if (typeof obj === 'string') {
+      return obj;
+    }
+    return JSON.stringify(obj, null, 0);
+  } catch {
+    return '[无法序列化]';
+  }
+}
+
+/**
+ * 将日志条目渲染为易读的多行文本
+ */
+export function renderPrettyLog(entry: OkxLogEntry): string {
+  const separator = '═'.repeat(80);
+  const levelIcon = LEVEL_ICONS[entry.level] || '📝';
+  const categoryIcon = CATEGORY_ICONS[entry.category] || '📋';
+  const timestamp = new Date(entry.timestamp).toLocaleString('zh-CN', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hour12: false,
+  });
+
+  const lines: string[] = [
+    separator,
+    `📅 ${timestamp}`,
+    `${levelIcon} [${entry.level}] ${categoryIcon} [${entry.category}]`,
+    `💬 ${entry.message}`,
+  ];
+
+  if (entry.account) {
+    lines.push(`👤 账户: ${entry.account}`);
+  }
+
+  if (entry.data !== undefined) {
+    const dataStr = safeStringify(entry.data);
+    // 截断过长的数据
+    const maxLength = 2000;
+    const truncated =
+      dataStr.length > maxLength
+        ? dataStr.substring(0, maxLength) + '...(已截断)'
+        : dataStr;
+    lines.push(`📦 数据: ${truncated}`);
+  }
+
+  lines.push(''); // 空行分隔
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * 解析 JSONL 日志内容，跳过无法解析的行
+ */
+export function parseLogLines(content: string): OkxLogEntry[] {
+  const entries: OkxLogEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as OkxLogEntry);
+    } catch {
+      // 忽略损坏的行（如进程退出时写了一半）
+    }
+  }
+  return entries;
+}
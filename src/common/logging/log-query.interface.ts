@@ -0,0 +1,50 @@
+import type { LogCategory, LogLevel, OkxLogEntry } from './logging.service';
+
+/**
+ * 日志查询条件
+ */
+export interface LogQuery {
+  levels?: LogLevel[];
+  categories?: LogCategory[];
+  account?: string;
+  ordId?: string; // 匹配 data.ordId
+  instId?: string; // 匹配 data.instId
+  text?: string; // 在消息和数据中搜索（不区分大小写）
+  from?: number; // 时间下限（毫秒时间戳，含）
+  to?: number; // 时间上限（毫秒时间戳，含）
+  cursor?: string; // 上一页返回的 nextCursor
+  limit: number;
+}
+
+/**
+ * 日志查询结果（从新到旧）
+ */
+export interface LogPage {
+  items: OkxLogEntry[];
+  nextCursor: string | null; // 没有更多结果时为 null
+}
+
+/**
+ * 通知发送统计
+ */
+export interface NotifyStats {
+  attempts: number; // 发送次数（含重试）
+  failed: number; // 失败次数
+  failureRate: number; // 失败率 0~1
+  byChannel: Record<string, { attempts: number; failed: number }>;
+}
+
+/**
+ * 日志统计
+ */
+export interface LogStats {
+  from: number;
+  to: number;
+  total: number;
+  byLevel: Partial<Record<LogLevel, number>>;
+  byCategory: Partial<Record<LogCategory, number>>;
+  byCategoryLevel: Partial<
+    Record<LogCategory, Partial<Record<LogLevel, number>>>
+  >;
+  notify: NotifyStats;
+}
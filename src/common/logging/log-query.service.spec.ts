@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigService } from '@nestjs/config';
+import { LoggingService } from './logging.service';
+import { LogQueryService } from './log-query.service';
+import { toTypedConfig } from '../../config/config.loader';
+
+describe('LogQueryService', () => {
+  let dir: string;
+  let loggingService: LoggingService;
+  let service: LogQueryService;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'log-query-'));
+    const config: Record<string, string> = {
+      LOG_DIR: dir,
+      // 每条日志约 150 字节，频繁轮转以覆盖跨文件查询
+      LOG_MAX_SIZE_MB: String(600 / 1024 / 1024),
+    };
+    loggingService = new LoggingService({
+      get: (key: string) => toTypedConfig(config)[key],
+    } as unknown as ConfigService);
+    service = new LogQueryService(loggingService);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should page through all files with a cursor, newest first', async () => {
+    for (let i = 0; i < 25; i++) {
+      void loggingService.logOrder(`订单 ${i}`, {
+        ordId: String(i),
+        instId: 'BTC-USDT-SWAP',
+      });
+    }
+    await loggingService.flush();
+    expect(loggingService.getLogFiles().length).toBeGreaterThan(2);
+
+    const messages: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await service.query({ limit: 7, cursor });
+      messages.push(...page.items.map((entry) => entry.message));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(messages).toEqual(
+      Array.from({ length: 25 }, (_, i) => `订单 ${24 - i}`),
+    );
+  });
+
+  it('should filter by level, category, ordId and text', async () => {
+    void loggingService.logOrder('订单更新', { ordId: '1', instId: 'BTC' });
+    void loggingService.logOrder('订单更新', { ordId: '2', instId: 'ETH' });
+    void loggingService.logError('CONNECTION', 'WebSocket连接错误', {
+      error: 'ENOTFOUND',
+    });
+    await loggingService.flush();
+
+    const query = async (filters: object) =>
+      (await service.query({ limit: 10, ...filters })).items.map(
+        (entry) => entry.message,
+      );
+
+    expect(await query({ levels: ['ERROR'] })).toEqual(['WebSocket连接错误']);
+    expect(await query({ categories: ['ORDER'], ordId: '2' })).toHaveLength(1);
+    expect(await query({ instId: 'BTC' })).toEqual(['订单更新']);
+    expect(await query({ text: 'enotfound' })).toEqual(['WebSocket连接错误']);
+  });
+
+  it('should count entries and notification failures', async () => {
+    void loggingService.logNotify('wechat 通知发送成功', true, {
+      channel: 'wechat',
+      attempt: 1,
+    });
+    void loggingService.logNotify('telegram 通知发送失败', false, {
+      channel: 'telegram',
+      attempt: 1,
+    });
+    void loggingService.logNotify('telegram 通知发送成功', true, {
+      channel: 'telegram',
+      attempt: 2,
+    });
+    void loggingService.logSystem('INFO', '服务启动');
+    await loggingService.flush();
+
+    const stats = await service.stats(Date.now() - 60_000, Date.now());
+    expect(stats.total).toBe(4);
+    expect(stats.byCategory).toEqual({ NOTIFY: 3, SYSTEM: 1 });
+    expect(stats.byCategoryLevel.NOTIFY).toEqual({ INFO: 2, ERROR: 1 });
+    expect(stats.notify).toEqual({
+      attempts: 3,
+      failed: 1,
+      failureRate: 0.3333,
+      byChannel: {
+        wechat: { attempts: 1, failed: 0 },
+        telegram: { attempts: 2, failed: 1 },
+      },
+    });
+  });
+});
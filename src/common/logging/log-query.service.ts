@@ -0,0 +1,222 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import { LoggingService, OkxLogEntry } from './logging.service';
+import { parseLogLines, safeStringify } from './log-format.util';
+import { LogPage, LogQuery, LogStats } from './log-query.interface';
+
+/**
+ * 分页游标：已返回到的时间戳，以及该时间戳上已经遍历过的日志条数
+ */
+interface LogCursor {
+  t: number;
+  n: number;
+}
+
+/**
+ * 日志查询
+ *
+ * 从新到旧依次读取当前日志和已轮转（含 gzip）的日志文件；
+ * 游标基于时间戳而不是文件位置，翻页期间发生轮转也不会错位
+ */
+@Injectable()
+export class LogQueryService {
+  private readonly logger = new Logger(LogQueryService.name);
+
+  constructor(private readonly loggingService: LoggingService) {}
+
+  /**
+   * 按条件查询日志，从新到旧
+   */
+  async query(query: LogQuery): Promise<LogPage> {
+    const cursor = query.cursor ? this.decodeCursor(query.cursor) : null;
+    const items: OkxLogEntry[] = [];
+    let nextCursor: LogCursor | null = null;
+    let hasMore = false;
+
+    // 当前遍历到的时间戳及其出现次数（含未匹配的日志）
+    let runTime = NaN;
+    let runCount = 0;
+
+    await this.loggingService.flush();
+    for (const entry of this.entries(query.from)) {
+      const time = Date.parse(entry.timestamp);
+      if (time === runTime) {
+        runCount++;
+      } else {
+        runTime = time;
+        runCount = 1;
+      }
+
+      if (
+        cursor &&
+        (time > cursor.t || (time === cursor.t && runCount <= cursor.n))
+      ) {
+        continue;
+      }
+      if (query.to !== undefined && time > query.to) {
+        continue;
+      }
+      if (query.from !== undefined && time < query.from) {
+        break;
+      }
+      if (!this.matches(entry, query)) {
+        continue;
+      }
+
+      if (nextCursor) {
+        hasMore = true;
+        break;
+      }
+      items.push(entry);
+      if (items.length === query.limit) {
+        nextCursor = { t: runTime, n: runCount };
+      }
+    }
+
+    return {
+      items,
+      nextCursor: hasMore && nextCursor ? this.encodeCursor(nextCursor) : null,
+    };
+  }
+
+  /**
+   * 统计时间范围内各分类、级别的日志数量和通知失败率
+   */
+  async stats(from: number, to: number): Promise<LogStats> {
+    const stats: LogStats = {
+      from,
+      to,
+      total: 0,
+      byLevel: {},
+      byCategory: {},
+      byCategoryLevel: {},
+      notify: { attempts: 0, failed: 0, failureRate: 0, byChannel: {} },
+    };
+
+    await this.loggingService.flush();
+    for (const entry of this.entries(from)) {
+      const time = Date.parse(entry.timestamp);
+      if (time > to) {
+        continue;
+      }
+      if (time < from) {
+        break;
+      }
+
+      stats.total++;
+      stats.byLevel[entry.level] = (stats.byLevel[entry.level] || 0) + 1;
+      stats.byCategory[entry.category] =
+        (stats.byCategory[entry.category] || 0) + 1;
+      const levels = (stats.byCategoryLevel[entry.category] ??= {});
+      levels[entry.level] = (levels[entry.level] || 0) + 1;
+
+      // 通知发送记录带有 channel 和 attempt 字段
+      const data = entry.data as
+        | { channel?: string; attempt?: number }
+        | undefined;
+      if (
+        entry.category === 'NOTIFY' &&
+        data?.channel &&
+        data.attempt !== undefined
+      ) {
+        const channel = (stats.notify.byChannel[data.channel] ??= {
+          attempts: 0,
+          failed: 0,
+        });
+        const failed = entry.level === 'ERROR' ? 1 : 0;
+        stats.notify.attempts++;
+        stats.notify.failed += failed;
+        channel.attempts++;
+        channel.failed += failed;
+      }
+    }
+
+    if (stats.notify.attempts > 0) {
+      stats.notify.failureRate =
+        Math.round((stats.notify.failed / stats.notify.attempts) * 1e4) / 1e4;
+    }
+    return stats;
+  }
+
+  /**
+   * 按从新到旧的顺序遍历日志（遇到早于 from 的轮转文件即停止读取）
+   */
+  private *entries(from?: number): Generator<OkxLogEntry> {
+    const currentFile = this.loggingService.getLogFilePath();
+    for (const file of this.loggingService.getLogFiles()) {
+      let content: string;
+      try {
+        // 轮转文件的修改时间不早于其中最后一条日志
+        if (
+          from !== undefined &&
+          file !== currentFile &&
+          fs.statSync(file).mtimeMs < from
+        ) {
+          return;
+        }
+        const raw = fs.readFileSync(file);
+        content = file.endsWith('.gz')
+          ? zlib.gunzipSync(raw).toString('utf-8')
+          : raw.toString('utf-8');
+      } catch (error) {
+        // 文件可能在读取期间被轮转或清理
+        this.logger.warn(`读取日志文件失败: ${file} (${String(error)})`);
+        continue;
+      }
+
+      const entries = parseLogLines(content);
+      for (let i = entries.length - 1; i >= 0; i--) {
+        yield entries[i];
+      }
+    }
+  }
+
+  private matches(entry: OkxLogEntry, query: LogQuery): boolean {
+    const data = (entry.data ?? {}) as Record<string, unknown>;
+    if (query.levels?.length && !query.levels.includes(entry.level)) {
+      return false;
+    }
+    if (
+      query.categories?.length &&
+      !query.categories.includes(entry.category)
+    ) {
+      return false;
+    }
+    if (query.account && entry.account !== query.account) {
+      return false;
+    }
+    if (query.ordId && data.ordId !== query.ordId) {
+      return false;
+    }
+    if (query.instId && data.instId !== query.instId) {
+      return false;
+    }
+    if (query.text) {
+      const haystack =
+        `${entry.message} ${entry.account ?? ''} ${safeStringify(entry.data)}`.toLowerCase();
+      if (!haystack.includes(query.text.toLowerCase())) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private encodeCursor(cursor: LogCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeCursor(value: string): LogCursor {
+    try {
+      const cursor = JSON.parse(
+        Buffer.from(value, 'base64url').toString('utf-8'),
+      ) as LogCursor;
+      if (typeof cursor.t === 'number' && typeof cursor.n === 'number') {
+        return cursor;
+      }
+    } catch {
+      // 统一按无效游标处理
+    }
+    throw new BadRequestException(`无效的游标: ${value}`);
+  }
+}
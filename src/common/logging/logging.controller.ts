@@ -5,26 +5,121 @@ import {
   Query,
   HttpCode,
   HttpStatus,
+  BadRequestException,
 } from '@nestjs/common';
-import { LoggingService } from './logging.service';
+import { LoggingService, LOG_CATEGORIES, LOG_LEVELS } from './logging.service';
+import { LogQueryService } from './log-query.service';
+import type { LogPage, LogStats } from './log-query.interface';
+import { parseDurationParam, parseTimeParam } from '../utils/query.util';
+import { RequireRole } from '../../auth/auth.decorator';
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+const DEFAULT_STATS_WINDOW = 60 * 60 * 1000;
+
+/**
+ * 解析逗号分隔的枚举参数（不区分大小写）
+ */
+function parseListParam<T extends string>(
+  name: string,
+  value: string | undefined,
+  allowed: T[],
+): T[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const items = value.split(',').map((item) => item.trim().toUpperCase());
+  const invalid = items.filter((item) => !allowed.includes(item as T));
+  if (invalid.length > 0) {
+    throw new BadRequestException(
+      `${name} 不支持: ${invalid.join(', ')}（可选: ${allowed.join(', ')}）`,
+    );
+  }
+  return items as T[];
+}
 
 @Controller('logs')
 export class LoggingController {
-  constructor(private readonly loggingService: LoggingService) {}
+  constructor(
+    private readonly loggingService: LoggingService,
+    private readonly logQueryService: LogQueryService,
+  ) {}
 
   /**
-   * 获取最近的日志
-   * @param lines 要获取的行数，默认 100
+   * 查询日志（含已轮转的文件），从新到旧
+   * @param level 日志级别，逗号分隔
+   * @param category 日志分类，逗号分隔
+   * @param q 在消息和数据中搜索的关键字
+   * @param from 开始时间（毫秒时间戳或 ISO 时间）
+   * @param to 结束时间（毫秒时间戳或 ISO 时间）
+   * @param cursor 上一页返回的 nextCursor
+   * @param limit 每页条数，默认 100，最大 1000
    */
   @Get()
-  getRecentLogs(@Query('lines') lines?: string): {
+  @RequireRole('read')
+  getLogs(
+    @Query('level') level?: string,
+    @Query('category') category?: string,
+    @Query('account') account?: string,
+    @Query('ordId') ordId?: string,
+    @Query('instId') instId?: string,
+    @Query('q') q?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: string,
+  ): Promise<LogPage> {
+    return this.logQueryService.query({
+      levels: parseListParam('level', level, LOG_LEVELS),
+      categories: parseListParam('category', category, LOG_CATEGORIES),
+      account,
+      ordId,
+      instId,
+      text: q,
+      from: parseTimeParam('from', from),
+      to: parseTimeParam('to', to),
+      cursor,
+      limit: Math.min(
+        Math.max(parseInt(limit || '', 10) || DEFAULT_LIMIT, 1),
+        MAX_LIMIT,
+      ),
+    });
+  }
+
+  /**
+   * 统计各分类、级别的日志数量和通知失败率
+   * @param window 统计最近一段时间（如 15m、1h、7d），默认 1h
+   * @param from 开始时间，指定后忽略 window
+   * @param to 结束时间，默认当前时间
+   */
+  @Get('stats')
+  @RequireRole('read')
+  getStats(
+    @Query('window') window?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<LogStats> {
+    const end = parseTimeParam('to', to) ?? Date.now();
+    const start =
+      parseTimeParam('from', from) ??
+      end - (parseDurationParam('window', window) ?? DEFAULT_STATS_WINDOW);
+    return this.logQueryService.stats(start, end);
+  }
+
+  /**
+   * 获取最近的日志（易读格式）
+   * @param lines 要获取的日志条数，默认 100
+   */
+  @Get('recent')
+  @RequireRole('read')
+  async getRecentLogs(@Query('lines') lines?: string): Promise<{
     path: string;
     content: string;
-  } {
-    const lineCount = lines ? parseInt(lines, 10) : 100;
+  }> {
+    const count = lines ? parseInt(lines, 10) : 100;
     return {
       path: this.loggingService.getLogFilePath(),
-      content: this.loggingService.getRecentLogs(lineCount),
+      content: await this.loggingService.getRecentLogs(count),
     };
   }
 
@@ -32,6 +127,7 @@ export class LoggingController {
    * 获取日志文件路径
    */
   @Get('path')
+  @RequireRole('read')
   getLogPath(): { path: string } {
     return {
       path: this.loggingService.getLogFilePath(),
@@ -42,10 +138,10 @@ export class LoggingController {
    * 清空日志
    */
   @Post('clear')
+  @RequireRole('admin')
   @HttpCode(HttpStatus.OK)
-  clearLogs(): { message: string } {
-    this.loggingService.clearLogs();
+  async clearLogs(): Promise<{ message: string }> {
+    await this.loggingService.clearLogs();
     return { message: '日志已清空' };
   }
 }
-
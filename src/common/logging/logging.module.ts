@@ -1,12 +1,13 @@
 import { Module, Global } from '@nestjs/common';
 import { LoggingService } from './logging.service';
 import { LoggingController } from './logging.controller';
+import { LogQueryService } from './log-query.service';
 
 @Global()
 @Module({
   controllers: [LoggingController],
-  providers: [LoggingService],
-  exports: [LoggingService],
+  providers: [LoggingService, LogQueryService],
+  exports: [LoggingService, LogQueryService],
 })
 export class LoggingModule {}
 
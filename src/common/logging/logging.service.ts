@@ -1,6 +1,13 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import * as fs from 'fs';
 import * as path from 'path';
+import { LogFileWriter } from './log-file.writer';
+import {
+  parseLogLines,
+  renderPrettyLog,
+  safeStringify,
+} from './log-format.util';
 
 export type LogLevel = 'INFO' | 'WARN' | 'ERROR' | 'DEBUG';
 export type LogCategory =
@@ -8,160 +15,80 @@ export type LogCategory =
   | 'AUTH'
   | 'SUBSCRIBE'
   | 'ORDER'
+  | 'ALGO'
+  | 'POSITION'
+  | 'ACCOUNT'
+  | 'RISK'
+  | 'ALERT'
   | 'NOTIFY'
+  | 'AUDIT'
   | 'SYSTEM';
 
+export const LOG_LEVELS: LogLevel[] = ['INFO', 'WARN', 'ERROR', 'DEBUG'];
+export const LOG_CATEGORIES: LogCategory[] = [
+  'CONNECTION',
+  'AUTH',
+  'SUBSCRIBE',
+  'ORDER',
+  'ALGO',
+  'POSITION',
+  'ACCOUNT',
+  'RISK',
+  'ALERT',
+  'NOTIFY',
+  'AUDIT',
+  'SYSTEM',
+];
+
 export interface OkxLogEntry {
-  timestamp: string;
+  timestamp: string; // ISO 时间
   level: LogLevel;
   category: LogCategory;
   message: string;
+  account?: string; // 所属OKX账户
   data?: any;
 }
 
 @Injectable()
-export class LoggingService {
+export class LoggingService implements OnModuleDestroy {
   private readonly logger = new Logger(LoggingService.name);
-  private readonly logDir: string;
-  private readonly logFile: string;
+  private readonly writer: LogFileWriter;
 
-  constructor() {
-    // 日志目录设置为程序运行目录下的 logs 文件夹
-    this.logDir = path.join(process.cwd(), 'logs');
-    this.logFile = path.join(this.logDir, 'okx.log');
-    this.ensureLogDir();
+  constructor(private configService: ConfigService) {
+    // 日志目录默认为程序运行目录下的 logs 文件夹
+    const logDir = path.resolve(this.configService.get<string>('LOG_DIR')!);
+    this.writer = new LogFileWriter({
+      dir: logDir,
+      baseName: 'okx',
+      maxSize: this.configService.get<number>('LOG_MAX_SIZE_MB')! * 1024 * 1024,
+      retentionDays: this.configService.get<number>('LOG_RETENTION_DAYS')!,
+      maxFiles: this.configService.get<number>('LOG_MAX_FILES')!,
+      compress: this.configService.get<boolean>('LOG_COMPRESS')!,
+    });
   }
 
-  /**
-   * 确保日志目录存在
-   */
-  private ensureLogDir(): void {
-    try {
-      if (!fs.existsSync(this.logDir)) {
-        fs.mkdirSync(this.logDir, { recursive: true });
-        this.logger.log(`创建日志目录: ${this.logDir}`);
-      }
-    } catch (error) {
-      this.logger.error('创建日志目录失败', error);
-    }
+  async onModuleDestroy() {
+    await this.flush();
   }
 
   /**
-   * 获取当前时间字符串
+   * 获取当前时间（ISO 格式）
    */
   private getTimestamp(): string {
-    return new Date().toLocaleString('zh-CN', {
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      hour12: false,
-    });
+    return new Date().toISOString();
   }
 
   /**
-   * 写入日志（最新的放在最前面）
+   * 追加写入一行 JSON 日志
    */
   private async writeLog(entry: OkxLogEntry): Promise<void> {
+    let line: string;
     try {
-      const logLine = this.formatLogEntry(entry);
-
-      // 读取现有内容
-      let existingContent = '';
-      if (fs.existsSync(this.logFile)) {
-        existingContent = fs.readFileSync(this.logFile, 'utf-8');
-      }
-
-      // 将新日志写在最前面
-      const newContent = logLine + existingContent;
-
-      // 限制日志文件大小（保留最近 10000 行）
-      const lines = newContent.split('\n');
-      const maxLines = 10000;
-      const trimmedContent =
-        lines.length > maxLines
-          ? lines.slice(0, maxLines).join('\n')
-          : newContent;
-
-      fs.writeFileSync(this.logFile, trimmedContent, 'utf-8');
-    } catch (error) {
-      this.logger.error('写入日志失败', error);
-    }
-  }
-
-  /**
-   * 格式化日志条目
-   */
-  private formatLogEntry(entry: OkxLogEntry): string {
-    const separator = '═'.repeat(80);
-    const levelIcon = this.getLevelIcon(entry.level);
-    const categoryIcon = this.getCategoryIcon(entry.category);
-
-    const lines: string[] = [
-      separator,
-      `📅 ${entry.timestamp}`,
-      `${levelIcon} [${entry.level}] ${categoryIcon} [${entry.category}]`,
-      `💬 ${entry.message}`,
-    ];
-
-    if (entry.data !== undefined) {
-      const dataStr = this.safeStringify(entry.data);
-      // 截断过长的数据
-      const maxLength = 2000;
-      const truncated =
-        dataStr.length > maxLength
-          ? dataStr.substring(0, maxLength) + '...(已截断)'
-          : dataStr;
-      lines.push(`📦 数据: ${truncated}`);
-    }
-
-    lines.push(''); // 空行分隔
-
-    return lines.join('\n') + '\n';
-  }
-
-  /**
-   * 获取日志级别图标
-   */
-  private getLevelIcon(level: LogLevel): string {
-    const icons: Record<LogLevel, string> = {
-      INFO: '✅',
-      WARN: '⚠️',
-      ERROR: '❌',
-      DEBUG: '🔍',
-    };
-    return icons[level] || '📝';
-  }
-
-  /**
-   * 获取分类图标
-   */
-  private getCategoryIcon(category: LogCategory): string {
-    const icons: Record<LogCategory, string> = {
-      CONNECTION: '🔗',
-      AUTH: '🔐',
-      SUBSCRIBE: '📡',
-      ORDER: '📦',
-      NOTIFY: '📱',
-      SYSTEM: '⚙️',
-    };
-    return icons[category] || '📋';
-  }
-
-  /**
-   * 安全的 JSON 序列化
-   */
-  private safeStringify(obj: any): string {
-    try {
-      if (typeof obj === 'string') {
-        return obj;
-      }
-      return JSON.stringify(obj, null, 0);
+      line = JSON.stringify(entry);
     } catch {
-      return '[无法序列化]';
+      line = JSON.stringify({ ...entry, data: safeStringify(entry.data) });
     }
+    await this.writer.append(line + '\n');
   }
 
   // ========== 公共日志方法 ==========
@@ -208,16 +135,111 @@ export class LoggingService {
   /**
    * 记录订单日志
    */
-  async logOrder(message: string, orderData?: any): Promise<void> {
+  async logOrder(
+    message: string,
+    orderData?: any,
+    account?: string,
+  ): Promise<void> {
     await this.writeLog({
       timestamp: this.getTimestamp(),
       level: 'INFO',
       category: 'ORDER',
       message,
+      account,
       data: orderData,
     });
   }
 
+  /**
+   * 记录策略委托日志
+   */
+  async logAlgoOrder(
+    message: string,
+    algoData?: Record<string, unknown>,
+    account?: string,
+  ): Promise<void> {
+    await this.writeLog({
+      timestamp: this.getTimestamp(),
+      level: 'INFO',
+      category: 'ALGO',
+      message,
+      account,
+      data: algoData,
+    });
+  }
+
+  /**
+   * 记录持仓日志
+   */
+  async logPosition(
+    message: string,
+    positionData?: Record<string, unknown>,
+    account?: string,
+  ): Promise<void> {
+    await this.writeLog({
+      timestamp: this.getTimestamp(),
+      level: 'INFO',
+      category: 'POSITION',
+      message,
+      account,
+      data: positionData,
+    });
+  }
+
+  /**
+   * 记录账户余额日志
+   */
+  async logAccount(
+    message: string,
+    accountData?: Record<string, unknown>,
+    account?: string,
+  ): Promise<void> {
+    await this.writeLog({
+      timestamp: this.getTimestamp(),
+      level: 'INFO',
+      category: 'ACCOUNT',
+      message,
+      account,
+      data: accountData,
+    });
+  }
+
+  /**
+   * 记录风险日志
+   */
+  async logRisk(
+    level: LogLevel,
+    message: string,
+    riskData?: Record<string, unknown>,
+    account?: string,
+  ): Promise<void> {
+    await this.writeLog({
+      timestamp: this.getTimestamp(),
+      level,
+      category: 'RISK',
+      message,
+      account,
+      data: riskData,
+    });
+  }
+
+  /**
+   * 记录价格提醒日志
+   */
+  async logAlert(
+    level: LogLevel,
+    message: string,
+    alertData?: Record<string, unknown>,
+  ): Promise<void> {
+    await this.writeLog({
+      timestamp: this.getTimestamp(),
+      level,
+      category: 'ALERT',
+      message,
+      data: alertData,
+    });
+  }
+
   /**
    * 记录通知日志
    */
@@ -235,6 +257,23 @@ export class LoggingService {
     });
   }
 
+  /**
+   * 记录审计日志（管理操作和认证失败）
+   */
+  async logAudit(
+    level: LogLevel,
+    message: string,
+    auditData?: Record<string, unknown>,
+  ): Promise<void> {
+    await this.writeLog({
+      timestamp: this.getTimestamp(),
+      level,
+      category: 'AUDIT',
+      message,
+      data: auditData,
+    });
+  }
+
   /**
    * 记录系统日志
    */
@@ -271,20 +310,38 @@ export class LoggingService {
    * 获取日志文件路径
    */
   getLogFilePath(): string {
-    return this.logFile;
+    return this.writer.filePath;
+  }
+
+  /**
+   * 等待已提交的日志全部写入
+   */
+  flush(): Promise<void> {
+    return this.writer.flush();
+  }
+
+  /**
+   * 获取全部日志文件（含已轮转的文件），从新到旧
+   */
+  getLogFiles(): string[] {
+    return this.writer.listFiles();
   }
 
   /**
-   * 读取最近的日志
+   * 读取当前日志文件中最近的日志，渲染为易读格式（最新的在前）
    */
-  getRecentLogs(lines: number = 100): string {
+  async getRecentLogs(count: number = 100): Promise<string> {
     try {
-      if (!fs.existsSync(this.logFile)) {
+      await this.flush();
+      if (!fs.existsSync(this.writer.filePath)) {
         return '暂无日志';
       }
-      const content = fs.readFileSync(this.logFile, 'utf-8');
-      const allLines = content.split('\n');
-      return allLines.slice(0, lines).join('\n');
+      const content = fs.readFileSync(this.writer.filePath, 'utf-8');
+      return parseLogLines(content)
+        .slice(-count)
+        .reverse()
+        .map((entry) => renderPrettyLog(entry))
+        .join('');
     } catch (error) {
       this.logger.error('读取日志失败', error);
       return '读取日志失败';
@@ -292,16 +349,10 @@ export class LoggingService {
   }
 
   /**
-   * 清空日志
+   * 清空当前日志文件
    */
-  clearLogs(): void {
-    try {
-      if (fs.existsSync(this.logFile)) {
-        fs.writeFileSync(this.logFile, '', 'utf-8');
-        this.logger.log('日志已清空');
-      }
-    } catch (error) {
-      this.logger.error('清空日志失败', error);
-    }
+  async clearLogs(): Promise<void> {
+    await this.writer.truncate();
+    this.logger.log('日志已清空');
   }
 }
@@ -0,0 +1,56 @@
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * 数据目录（程序运行目录下的 data 文件夹）
+ */
+export function getDataDir(): string {
+  return path.join(process.cwd(), 'data');
+}
+
+/**
+ * 基于 JSON 文件的简单持久化存储
+ *
+ * 写入时先写临时文件再重命名，避免进程中断导致文件损坏
+ */
+export class JsonFileStore<T> {
+  private readonly logger = new Logger(JsonFileStore.name);
+  readonly filePath: string;
+
+  constructor(
+    fileName: string,
+    private readonly defaultValue: T,
+  ) {
+    this.filePath = path.join(getDataDir(), fileName);
+  }
+
+  /**
+   * 读取数据，文件不存在或损坏时返回默认值
+   */
+  load(): T {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return this.defaultValue;
+      }
+      return JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as T;
+    } catch (error) {
+      this.logger.error(`读取数据文件失败: ${this.filePath}`, error);
+      return this.defaultValue;
+    }
+  }
+
+  /**
+   * 保存数据
+   */
+  save(value: T): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpFile = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpFile, JSON.stringify(value), 'utf-8');
+      fs.renameSync(tmpFile, this.filePath);
+    } catch (error) {
+      this.logger.error(`写入数据文件失败: ${this.filePath}`, error);
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDataDir } from './json-file.store';
+
+/**
+ * 基于 JSONL 文件的追加写入存储（每行一条 JSON 记录）
+ */
+export class JsonlFileStore<T> {
+  private readonly logger = new Logger(JsonlFileStore.name);
+  readonly filePath: string;
+
+  constructor(fileName: string) {
+    this.filePath = path.join(getDataDir(), fileName);
+  }
+
+  /**
+   * 读取全部记录，跳过无法解析的行
+   */
+  readAll(): T[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    const records: T[] = [];
+    try {
+      const lines = fs.readFileSync(this.filePath, 'utf-8').split('\n');
+      for (const line of lines) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          records.push(JSON.parse(line) as T);
+        } catch {
+          this.logger.warn(`跳过无法解析的记录: ${line.substring(0, 100)}`);
+        }
+      }
+    } catch (error) {
+      this.logger.error(`读取数据文件失败: ${this.filePath}`, error);
+    }
+    return records;
+  }
+
+  /**
+   * 追加一条记录
+   */
+  append(record: T): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, JSON.stringify(record) + '\n', 'utf-8');
+    } catch (error) {
+      this.logger.error(`写入数据文件失败: ${this.filePath}`, error);
+    }
+  }
+
+  /**
+   * 用给定记录覆盖整个文件（用于压缩），先写临时文件再重命名
+   */
+  rewrite(records: T[]): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpFile = `${this.filePath}.tmp`;
+      fs.writeFileSync(
+        tmpFile,
+        records.map((record) => JSON.stringify(record) + '\n').join(''),
+        'utf-8',
+      );
+      fs.renameSync(tmpFile, this.filePath);
+    } catch (error) {
+      this.logger.error(`写入数据文件失败: ${this.filePath}`, error);
+    }
+  }
+}
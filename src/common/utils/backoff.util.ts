@@ -0,0 +1,14 @@
+/**
+ * 指数退避（带抖动）：在 [delay/2, delay] 之间随机
+ * @param attempts 第几次重试（从 1 开始）
+ * @param baseDelay 初始延迟（毫秒）
+ * @param maxDelay 最大延迟（毫秒）
+ */
+export function getBackoffDelay(
+  attempts: number,
+  baseDelay: number,
+  maxDelay: number,
+): number {
+  const delay = Math.min(maxDelay, baseDelay * Math.pow(2, attempts - 1));
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
@@ -0,0 +1,24 @@
+/**
+ * 转义 CSV 字段
+ */
+function escapeCsv(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const str = typeof value === 'string' ? value : JSON.stringify(value);
+  return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+/**
+ * 将对象数组转为 CSV 文本
+ */
+export function toCsv<T extends object>(
+  rows: T[],
+  columns: (keyof T & string)[],
+): string {
+  const lines = [columns.join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((column) => escapeCsv(row[column])).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
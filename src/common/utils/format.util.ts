@@ -0,0 +1,50 @@
+/**
+ * 格式化日期（毫秒时间戳字符串）
+ */
+export function formatDate(timestamp: string): string {
+  const date = new Date(parseInt(timestamp));
+  return date.toLocaleString('zh-CN', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+/**
+ * 判断价格/数量字段是否有值（OKX 使用空字符串或 '0' 表示无值）
+ */
+export function hasValue(value?: string): value is string {
+  return !!value && value !== '0';
+}
+
+/**
+ * 十进制字符串相减，避免浮点误差（如 0.3 - 0.1）
+ */
+export function subtractDecimal(a: string, b: string): string {
+  const decimals = Math.max(
+    (a.split('.')[1] || '').length,
+    (b.split('.')[1] || '').length,
+  );
+  const result = (parseFloat(a || '0') - parseFloat(b || '0')).toFixed(
+    decimals,
+  );
+  return decimals > 0 ? result.replace(/\.?0+$/, '') : result;
+}
+
+/**
+ * 格式化时长（毫秒），如 45秒、12分30秒、2小时5分
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}秒`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}分${seconds % 60}秒`;
+  }
+  return `${Math.floor(minutes / 60)}小时${minutes % 60}分`;
+}
@@ -0,0 +1,44 @@
+import { BadRequestException } from '@nestjs/common';
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * 解析时间参数（毫秒时间戳或 ISO 时间字符串）
+ */
+export function parseTimeParam(
+  name: string,
+  value?: string,
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const time = /^\d+$/.test(value) ? parseInt(value, 10) : Date.parse(value);
+  if (isNaN(time)) {
+    throw new BadRequestException(`${name} 不是有效的时间: ${value}`);
+  }
+  return time;
+}
+
+/**
+ * 解析时长参数（如 30s、15m、1h、7d），返回毫秒
+ */
+export function parseDurationParam(
+  name: string,
+  value?: string,
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const match = /^(\d+(?:\.\d+)?)([smhd])$/.exec(value);
+  if (!match) {
+    throw new BadRequestException(
+      `${name} 不是有效的时长（如 15m、1h、7d）: ${value}`,
+    );
+  }
+  return parseFloat(match[1]) * DURATION_UNITS[match[2]];
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { ConfigReportService } from './config-report.service';
+import { ConfigController } from './config.controller';
+
+@Module({
+  controllers: [ConfigController],
+  providers: [ConfigReportService],
+})
+export class ConfigReportModule {}
@@ -0,0 +1,52 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigEntry, ConfigOption, ConfigReport } from './config.interface';
+import { CONFIG_SCHEMA } from './config.schema';
+import { getAccountConfigOptions, getLoadedConfig } from './config.loader';
+
+/**
+ * 脱敏后的密钥
+ */
+const REDACTED = '******';
+
+/**
+ * 当前生效配置（密钥脱敏）
+ *
+ * 展示启动时解析的原始值，未配置的项显示 schema 中的默认值
+ */
+@Injectable()
+export class ConfigReportService {
+  getReport(): ConfigReport {
+    const loaded = getLoadedConfig();
+    const values = loaded?.values ?? {};
+    const options: [string, ConfigOption][] = [
+      ...CONFIG_SCHEMA.map((option): [string, ConfigOption] => [
+        option.key,
+        option,
+      ]),
+      ...getAccountConfigOptions(values.OKX_ACCOUNTS),
+    ];
+
+    const entries = options.map(([key, option]): ConfigEntry => {
+      const value = values[key]?.trim();
+      const secret = !!option.secret;
+      if (!value) {
+        return {
+          key,
+          value: option.default,
+          source: option.default !== undefined ? 'default' : 'unset',
+          secret,
+          description: option.description,
+        };
+      }
+      return {
+        key,
+        value: secret ? REDACTED : value,
+        source: loaded?.sources[key] ?? 'env',
+        secret,
+        description: option.description,
+      };
+    });
+
+    return { configFile: loaded?.configFile, entries };
+  }
+}
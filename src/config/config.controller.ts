@@ -0,0 +1,18 @@
+import { Controller, Get } from '@nestjs/common';
+import { ConfigReportService } from './config-report.service';
+import type { ConfigReport } from './config.interface';
+import { RequireRole } from '../auth';
+
+@Controller('config')
+export class ConfigController {
+  constructor(private readonly configReportService: ConfigReportService) {}
+
+  /**
+   * 当前生效的配置及来源（密钥脱敏）
+   */
+  @Get()
+  @RequireRole('admin')
+  getConfig(): ConfigReport {
+    return this.configReportService.getReport();
+  }
+}
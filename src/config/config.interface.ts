@@ -0,0 +1,100 @@
+/**
+ * 配置项的值类型
+ */
+export type ConfigValueType =
+  | 'string'
+  | 'int'
+  | 'number'
+  | 'boolean'
+  | 'url'
+  | 'timezone'
+  | 'list'; // 逗号分隔的列表
+
+/**
+ * 配置项定义
+ */
+export interface ConfigOption {
+  key: string;
+  type: ConfigValueType;
+  description: string;
+  default?: string; // 未配置时使用的默认值
+  secret?: boolean; // 是否为密钥（/config 中脱敏）
+  required?: boolean; // 是否必填
+  min?: number; // int / number 的最小值
+  max?: number; // int / number 的最大值
+  values?: string[]; // 允许的取值（list 为每一项，不区分大小写）
+  validate?: (value: string) => string | undefined; // 自定义校验（list 为每一项），返回错误信息
+}
+
+/**
+ * 按类型转换后的配置值（int / number 为数字，boolean 为布尔值，list 为数组）
+ */
+export type ConfigValue = string | number | boolean | string[];
+
+/**
+ * 按类型转换后的配置（ConfigService.get 读取的值）
+ */
+export type TypedConfig = Record<string, ConfigValue | undefined>;
+
+/**
+ * 配置值的来源
+ */
+export type ConfigSource = 'env' | 'file' | 'secret-file' | 'default';
+
+/**
+ * 配置文件中的账户
+ */
+export interface ConfigFileAccount {
+  name: string;
+  apiKey?: string;
+  apiKeyFile?: string;
+  secretKey?: string;
+  secretKeyFile?: string;
+  passphrase?: string;
+  passphraseFile?: string;
+  simulated?: boolean;
+  channels?: string[];
+  wechatOpenids?: string[];
+}
+
+/**
+ * 配置文件结构（JSON 或 YAML）
+ *
+ * 大写的顶层键与环境变量同名；accounts、channels 展开为对应的环境变量；
+ * notifyRules 为通知规则（同规则文件格式）
+ */
+export interface ConfigFile {
+  accounts?: ConfigFileAccount[];
+  channels?: Record<string, Record<string, unknown>>;
+  notifyRules?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * 解析后的配置
+ */
+export interface ResolvedConfig {
+  values: Record<string, string | undefined>;
+  sources: Record<string, ConfigSource>;
+  configFile?: string; // 配置文件的绝对路径
+  errors: string[];
+}
+
+/**
+ * /config 中的单个配置项
+ */
+export interface ConfigEntry {
+  key: string;
+  value?: string; // 密钥已脱敏
+  source: ConfigSource | 'unset';
+  secret: boolean;
+  description: string;
+}
+
+/**
+ * /config 返回的当前生效配置
+ */
+export interface ConfigReport {
+  configFile?: string;
+  entries: ConfigEntry[];
+}
@@ -0,0 +1,218 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { resolveConfig, validateEnv } from './config.loader';
+
+describe('resolveConfig', () => {
+  const credentials = {
+    OKX_API_KEY: 'key',
+    OKX_SECRET_KEY: 'secret',
+    OKX_PASSPHRASE: 'pass',
+  };
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should report every invalid value at once', () => {
+    const { errors } = resolveConfig(
+      {
+        OKX_PING_INTERVAL_MS: '10s',
+        OKX_SIMULATED: 'yes',
+        OKX_CHANNELS: 'orders,trades',
+        REPORT_TIMEZONE: 'Mars/Olympus',
+        AUTH_API_KEYS: 'ops:root:secret',
+        TRADE_API_ENABLED: 'true',
+      },
+      tmpDir,
+    );
+
+    expect(errors).toEqual([
+      'OKX_SIMULATED: 应为 true 或 false',
+      'OKX_CHANNELS: 不支持 trades（可选: orders, orders-algo, algo-advance, positions, balance_and_position, account）',
+      'OKX_PING_INTERVAL_MS: 应为整数',
+      'AUTH_API_KEYS: 应为 名称:read|admin:密钥',
+      'REPORT_TIMEZONE: 不是有效的时区',
+      expect.stringContaining('OKX_API_KEY: 缺少必填配置'),
+      expect.stringContaining('OKX_SECRET_KEY: 缺少必填配置'),
+      expect.stringContaining('OKX_PASSPHRASE: 缺少必填配置'),
+      'TRADE_API_TOKEN: 开启交易接口（TRADE_API_ENABLED=true）时必须配置',
+    ]);
+    expect(() => validateEnv({ OKX_SIMULATED: 'yes' })).toThrow(
+      /配置校验失败:\n {2}- OKX_SIMULATED/,
+    );
+  });
+
+  it('should normalize booleans and keep unrelated variables', () => {
+    const { values, errors } = resolveConfig(
+      { ...credentials, OKX_SIMULATED: ' TRUE ', HOME: '/root' },
+      tmpDir,
+    );
+    expect(errors).toEqual([]);
+    expect(values.OKX_SIMULATED).toBe('true');
+    expect(values.HOME).toBe('/root');
+  });
+
+  it('should return typed values with schema defaults', () => {
+    const config = validateEnv({
+      ...credentials,
+      OKX_ACCOUNTS: 'main',
+      OKX_MAIN_API_KEY: 'key',
+      OKX_MAIN_SECRET_KEY: 'secret',
+      OKX_MAIN_PASSPHRASE: 'pass',
+      OKX_MAIN_SIMULATED: 'TRUE',
+      OKX_PING_INTERVAL_MS: '20000',
+      OKX_ALERT_AFTER_MINUTES: '0.5',
+      OKX_CHANNELS: 'orders, positions',
+      OUTBOX_MAX_DELAY_MS: ' ',
+      HOME: '/root',
+    });
+
+    expect(config).toMatchObject({
+      OKX_ACCOUNTS: ['main'],
+      OKX_MAIN_SIMULATED: true,
+      OKX_PING_INTERVAL_MS: 20000,
+      OKX_ALERT_AFTER_MINUTES: 0.5,
+      OKX_CHANNELS: ['orders', 'positions'],
+      OKX_PONG_TIMEOUT_MS: 10000,
+      OKX_PUBLIC_ENABLED: true,
+      OUTBOX_MAX_DELAY_MS: 600000,
+      AUTH_METHODS: ['key', 'hmac'],
+      HOME: '/root',
+    });
+    expect(config.OKX_MAIN_CHANNELS).toBeUndefined();
+    expect(config.REPORT_TIMEZONE).toBeUndefined();
+  });
+
+  it('should read secrets from files', () => {
+    fs.writeFileSync(path.join(tmpDir, 'okx_secret'), 's3cret\n');
+    const { values, sources, errors } = resolveConfig(
+      {
+        OKX_API_KEY: 'key',
+        OKX_SECRET_KEY_FILE: 'okx_secret',
+        OKX_PASSPHRASE_FILE: path.join(tmpDir, 'missing'),
+      },
+      tmpDir,
+    );
+    expect(values.OKX_SECRET_KEY).toBe('s3cret');
+    expect(sources.OKX_SECRET_KEY).toBe('secret-file');
+    expect(errors).toEqual([
+      expect.stringContaining('OKX_PASSPHRASE_FILE: 读取密钥文件失败'),
+      expect.stringContaining('OKX_PASSPHRASE: 缺少必填配置'),
+    ]);
+
+    expect(
+      resolveConfig({ ...credentials, OKX_API_KEY_FILE: 'okx_secret' }, tmpDir)
+        .errors,
+    ).toEqual(['OKX_API_KEY: 不能同时配置 OKX_API_KEY 和 OKX_API_KEY_FILE']);
+  });
+
+  it('should expand the config file with env taking precedence', () => {
+    fs.writeFileSync(path.join(tmpDir, 'main_key'), 'main-key');
+    fs.writeFileSync(
+      path.join(tmpDir, 'config.yaml'),
+      [
+        'OKX_PING_INTERVAL_MS: 20000',
+        'OKX_ALERT_AFTER_MINUTES: 5',
+        'accounts:',
+        '  - name: main',
+        '    apiKeyFile: main_key',
+        '    secretKey: main-secret',
+        '    passphrase: main-pass',
+        '    channels: [orders, positions]',
+        '  - name: sub-1',
+        '    apiKey: sub-key',
+        '    secretKey: sub-secret',
+        '    passphrase: sub-pass',
+        '    simulated: true',
+        'channels:',
+        '  telegram:',
+        '    botToken: bot',
+        '    chatId: 42',
+        '  email:',
+        '    host: smtp.example.com',
+        '    to: [a@example.com, b@example.com]',
+        'notifyRules:',
+        '  defaultAction: send',
+        '  rules: []',
+      ].join('\n'),
+    );
+
+    const { values, sources, errors, configFile } = resolveConfig(
+      { CONFIG_FILE: 'config.yaml', OKX_ALERT_AFTER_MINUTES: '10' },
+      tmpDir,
+    );
+    expect(errors).toEqual([]);
+    expect(configFile).toBe(path.join(tmpDir, 'config.yaml'));
+    expect(values).toMatchObject({
+      OKX_PING_INTERVAL_MS: '20000',
+      OKX_ALERT_AFTER_MINUTES: '10',
+      OKX_ACCOUNTS: 'main,sub-1',
+      OKX_MAIN_API_KEY: 'main-key',
+      OKX_MAIN_CHANNELS: 'orders,positions',
+      OKX_SUB_1_SIMULATED: 'true',
+      TELEGRAM_BOT_TOKEN: 'bot',
+      TELEGRAM_CHAT_ID: '42',
+      SMTP_TO: 'a@example.com,b@example.com',
+      NOTIFY_RULES_FILE: configFile,
+    });
+    expect(sources).toMatchObject({
+      OKX_PING_INTERVAL_MS: 'file',
+      OKX_ALERT_AFTER_MINUTES: 'env',
+      OKX_MAIN_API_KEY: 'secret-file',
+    });
+  });
+
+  it('should let env override secret files from the other source', () => {
+    fs.writeFileSync(path.join(tmpDir, 'okx_key'), 'file-key');
+    fs.writeFileSync(
+      path.join(tmpDir, 'config.yaml'),
+      ['OKX_API_KEY_FILE: okx_key', 'OKX_SECRET_KEY: file-secret'].join('\n'),
+    );
+
+    const { values, sources, errors } = resolveConfig(
+      {
+        CONFIG_FILE: 'config.yaml',
+        OKX_API_KEY: 'env-key',
+        OKX_SECRET_KEY_FILE: 'okx_key',
+        OKX_PASSPHRASE: 'pass',
+      },
+      tmpDir,
+    );
+    expect(errors).toEqual([]);
+    expect(values).toMatchObject({
+      OKX_API_KEY: 'env-key',
+      OKX_SECRET_KEY: 'file-key',
+    });
+    expect(sources).toMatchObject({
+      OKX_API_KEY: 'env',
+      OKX_SECRET_KEY: 'secret-file',
+    });
+  });
+
+  it('should reject unknown keys and missing account credentials', () => {
+    fs.writeFileSync(
+      path.join(tmpDir, 'config.json'),
+      JSON.stringify({
+        OKX_PING_INTERVAL: 20000,
+        accounts: [{ name: 'main', apiKey: 'key', simulate: true }],
+        channels: { sms: { to: '1' } },
+      }),
+    );
+
+    expect(
+      resolveConfig({ CONFIG_FILE: 'config.json' }, tmpDir).errors,
+    ).toEqual([
+      'accounts[0].simulate: 未知的账户配置项',
+      expect.stringContaining('channels.sms: 未知的通知渠道'),
+      'OKX_PING_INTERVAL: 配置文件中有未知的配置项',
+      expect.stringContaining('OKX_MAIN_SECRET_KEY: 缺少必填配置'),
+      expect.stringContaining('OKX_MAIN_PASSPHRASE: 缺少必填配置'),
+    ]);
+  });
+});
@@ -0,0 +1,490 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { getAccountEnvPrefix } from '../okx/okx-account.config';
+import {
+  ConfigFile,
+  ConfigOption,
+  ConfigSource,
+  ConfigValue,
+  ResolvedConfig,
+  TypedConfig,
+} from './config.interface';
+import { ACCOUNT_CONFIG_SCHEMA, CONFIG_SCHEMA } from './config.schema';
+
+/**
+ * 以 _FILE 结尾的变量从文件读取对应配置（Docker / Kubernetes secrets）
+ */
+const SECRET_FILE_SUFFIX = '_FILE';
+
+/**
+ * 配置文件 channels 中各渠道对应的变量前缀
+ */
+const CHANNEL_PREFIXES: Record<string, string> = {
+  wechat: 'WECHAT',
+  telegram: 'TELEGRAM',
+  dingtalk: 'DINGTALK',
+  feishu: 'FEISHU',
+  slack: 'SLACK',
+  email: 'SMTP',
+  webhook: 'WEBHOOK',
+};
+
+/**
+ * 配置文件 accounts 中各字段对应的变量后缀
+ */
+const ACCOUNT_FIELDS: Record<string, string> = {
+  apiKey: 'API_KEY',
+  apiKeyFile: 'API_KEY_FILE',
+  secretKey: 'SECRET_KEY',
+  secretKeyFile: 'SECRET_KEY_FILE',
+  passphrase: 'PASSPHRASE',
+  passphraseFile: 'PASSPHRASE_FILE',
+  simulated: 'SIMULATED',
+  channels: 'CHANNELS',
+  wechatOpenids: 'WECHAT_OPENID',
+};
+
+const SCHEMA_BY_KEY = new Map(
+  CONFIG_SCHEMA.map((option) => [option.key, option]),
+);
+
+/**
+ * 启动时解析的配置（供 /config 展示来源）
+ */
+let loadedConfig: ResolvedConfig | undefined;
+
+/**
+ * 驼峰转大写下划线，如 webhookUrl -> WEBHOOK_URL
+ */
+function toEnvName(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+/**
+ * 拆分逗号分隔的配置项
+ */
+function splitList(value?: string): string[] {
+  return (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * 配置文件中的值转为变量值（数组按逗号拼接）
+ */
+function toEnvValue(
+  value: unknown,
+  location: string,
+  errors: string[],
+): string | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (Array.isArray(value)) {
+    const items = value.map((item) => toEnvValue(item, location, errors));
+    return items.every((item) => item !== undefined)
+      ? items.join(',')
+      : undefined;
+  }
+  if (['string', 'number', 'boolean'].includes(typeof value)) {
+    return String(value as string | number | boolean);
+  }
+  errors.push(`${location}: 应为字符串、数字、布尔值或列表`);
+  return undefined;
+}
+
+/**
+ * 读取配置文件（.json 按 JSON 解析，其余按 YAML 解析）
+ */
+export function readConfigFile(filePath: string): ConfigFile {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const raw: unknown = /\.json$/i.test(filePath)
+    ? JSON.parse(content)
+    : parseYaml(content);
+  if (raw === null || raw === undefined) {
+    return {};
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('配置文件顶层应为对象');
+  }
+  return raw as ConfigFile;
+}
+
+/**
+ * 将配置文件展开为变量
+ *
+ * 大写的顶层键原样作为变量；accounts 展开为 OKX_ACCOUNTS 和 OKX_<NAME>_*；
+ * channels 展开为各渠道前缀的变量，如 telegram.botToken -> TELEGRAM_BOT_TOKEN
+ */
+export function flattenConfigFile(
+  file: ConfigFile,
+  errors: string[],
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  const set = (key: string, value: unknown, location: string) => {
+    const envValue = toEnvValue(value, location, errors);
+    if (envValue !== undefined) {
+      values[key] = envValue;
+    }
+  };
+
+  for (const [key, value] of Object.entries(file)) {
+    if (key === 'accounts' || key === 'channels' || key === 'notifyRules') {
+      continue;
+    }
+    if (!/^[A-Z][A-Z0-9_]*$/.test(key)) {
+      errors.push(`${key}: 未知的配置项`);
+      continue;
+    }
+    set(key, value, key);
+  }
+
+  if (file.accounts !== undefined) {
+    if (!Array.isArray(file.accounts)) {
+      errors.push('accounts: 应为列表');
+    } else {
+      const names: string[] = [];
+      file.accounts.forEach((account, index) => {
+        const location = `accounts[${index}]`;
+        if (typeof account?.name !== 'string' || !account.name.trim()) {
+          errors.push(`${location}.name: 缺少账户名称`);
+          return;
+        }
+        names.push(account.name.trim());
+        const prefix = getAccountEnvPrefix(account.name.trim());
+        for (const [field, value] of Object.entries(account)) {
+          if (field === 'name') {
+            continue;
+          }
+          const suffix = ACCOUNT_FIELDS[field];
+          if (!suffix) {
+            errors.push(`${location}.${field}: 未知的账户配置项`);
+            continue;
+          }
+          set(`${prefix}${suffix}`, value, `${location}.${field}`);
+        }
+      });
+      values.OKX_ACCOUNTS = names.join(',');
+    }
+  }
+
+  if (file.channels !== undefined) {
+    for (const [channel, options] of Object.entries(file.channels ?? {})) {
+      const prefix = CHANNEL_PREFIXES[channel];
+      if (!prefix) {
+        errors.push(
+          `channels.${channel}: 未知的通知渠道（可选: ${Object.keys(CHANNEL_PREFIXES).join(', ')}）`,
+        );
+        continue;
+      }
+      if (typeof options !== 'object' || options === null) {
+        errors.push(`channels.${channel}: 应为对象`);
+        continue;
+      }
+      for (const [field, value] of Object.entries(options)) {
+        set(
+          `${prefix}_${toEnvName(field)}`,
+          value,
+          `channels.${channel}.${field}`,
+        );
+      }
+    }
+  }
+
+  return values;
+}
+
+/**
+ * 校验单个配置值，返回规范化后的值（布尔值转小写）或错误信息
+ */
+function validateValue(
+  option: ConfigOption,
+  value: string,
+): { value: string; error?: string } {
+  const check = (item: string): string | undefined => {
+    if (
+      option.values &&
+      !option.values.some(
+        (allowed) => allowed.toLowerCase() === item.toLowerCase(),
+      )
+    ) {
+      return `不支持 ${item}（可选: ${option.values.join(', ')}）`;
+    }
+    return option.validate?.(item);
+  };
+
+  switch (option.type) {
+    case 'int':
+    case 'number': {
+      const pattern = option.type === 'int' ? /^-?\d+$/ : /^-?\d+(\.\d+)?$/;
+      if (!pattern.test(value)) {
+        return {
+          value,
+          error: option.type === 'int' ? '应为整数' : '应为数字',
+        };
+      }
+      const number = parseFloat(value);
+      if (option.min !== undefined && number < option.min) {
+        return { value, error: `不能小于 ${option.min}` };
+      }
+      if (option.max !== undefined && number > option.max) {
+        return { value, error: `不能大于 ${option.max}` };
+      }
+      return { value };
+    }
+    case 'boolean': {
+      const normalized = value.toLowerCase();
+      return ['true', 'false'].includes(normalized)
+        ? { value: normalized }
+        : { value, error: '应为 true 或 false' };
+    }
+    case 'url': {
+      try {
+        const url = new URL(value);
+        return ['http:', 'https:'].includes(url.protocol)
+          ? { value }
+          : { value, error: '应为 http(s) 地址' };
+      } catch {
+        return { value, error: '应为 http(s) 地址' };
+      }
+    }
+    case 'timezone': {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: value });
+        return { value };
+      } catch {
+        return { value, error: '不是有效的时区' };
+      }
+    }
+    case 'list': {
+      const errors = splitList(value)
+        .map((item) => check(item))
+        .filter((error): error is string => !!error);
+      return { value, error: errors[0] };
+    }
+    default:
+      return { value, error: check(value) };
+  }
+}
+
+/**
+ * 将校验通过的配置值转为对应类型
+ */
+function toTypedValue(option: ConfigOption, value: string): ConfigValue {
+  switch (option.type) {
+    case 'int':
+    case 'number':
+      return parseFloat(value);
+    case 'boolean':
+      return value.toLowerCase() === 'true';
+    case 'list':
+      return splitList(value);
+    default:
+      return value;
+  }
+}
+
+/**
+ * 当前账户的配置项（变量名 -> 定义）
+ */
+export function getAccountConfigOptions(
+  accountsValue: string | undefined,
+): [string, ConfigOption][] {
+  return splitList(accountsValue).flatMap((name) =>
+    ACCOUNT_CONFIG_SCHEMA.map((option): [string, ConfigOption] => [
+      `${getAccountEnvPrefix(name)}${option.key}`,
+      option,
+    ]),
+  );
+}
+
+/**
+ * 解析并校验配置
+ *
+ * 环境变量优先于配置文件（CONFIG_FILE）；X_FILE 指向的文件内容作为 X 的值。
+ * 返回全部变量（含未在 schema 中的），错误汇总在 errors 中
+ */
+export function resolveConfig(
+  env: Record<string, string | undefined>,
+  cwd = process.cwd(),
+): ResolvedConfig {
+  const errors: string[] = [];
+  const values: Record<string, string | undefined> = { ...env };
+  const sources: Record<string, ConfigSource> = {};
+  const isSet = (key: string) => !!values[key]?.trim();
+
+  for (const key of Object.keys(values)) {
+    if (isSet(key)) {
+      sources[key] = 'env';
+    }
+  }
+
+  // 配置文件
+  let configFile: string | undefined;
+  const fileKeys: string[] = [];
+  if (isSet('CONFIG_FILE')) {
+    configFile = path.resolve(cwd, values.CONFIG_FILE!.trim());
+    try {
+      const file = readConfigFile(configFile);
+      for (const [key, value] of Object.entries(
+        flattenConfigFile(file, errors),
+      )) {
+        fileKeys.push(key);
+        if (!isSet(key)) {
+          values[key] = value;
+          sources[key] = 'file';
+        }
+      }
+      // 规则随配置文件一起热加载
+      if (file.notifyRules !== undefined && !isSet('NOTIFY_RULES_FILE')) {
+        values.NOTIFY_RULES_FILE = configFile;
+        sources.NOTIFY_RULES_FILE = 'file';
+      }
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      errors.push(
+        `CONFIG_FILE: 读取配置文件失败 ${configFile}: ${errorMessage}`,
+      );
+    }
+  }
+
+  const accountNames = splitList(values.OKX_ACCOUNTS);
+  const accountKeys = new Map(getAccountConfigOptions(values.OKX_ACCOUNTS));
+  const isKnown = (key: string) =>
+    SCHEMA_BY_KEY.has(key) || accountKeys.has(key);
+
+  for (const key of fileKeys) {
+    const baseKey = key.endsWith(SECRET_FILE_SUFFIX)
+      ? key.slice(0, -SECRET_FILE_SUFFIX.length)
+      : key;
+    if (!isKnown(baseKey)) {
+      errors.push(`${key}: 配置文件中有未知的配置项`);
+    }
+  }
+
+  // 从文件读取密钥
+  for (const key of Object.keys(values)) {
+    const target = key.slice(0, -SECRET_FILE_SUFFIX.length);
+    if (!key.endsWith(SECRET_FILE_SUFFIX) || !isSet(key) || !isKnown(target)) {
+      continue;
+    }
+    // 同一来源同时配置 X 和 X_FILE 视为冲突，来源不同时环境变量优先
+    if (isSet(target)) {
+      if (sources[target] === sources[key]) {
+        errors.push(`${target}: 不能同时配置 ${target} 和 ${key}`);
+        continue;
+      }
+      if (sources[target] === 'env') {
+        continue;
+      }
+    }
+    const secretFile = path.resolve(cwd, values[key]!.trim());
+    try {
+      values[target] = fs
+        .readFileSync(secretFile, 'utf-8')
+        .replace(/\r?\n$/, '');
+      sources[target] = 'secret-file';
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      errors.push(`${key}: 读取密钥文件失败 ${secretFile}: ${errorMessage}`);
+    }
+  }
+
+  // 按类型校验
+  const options: [string, ConfigOption][] = [
+    ...CONFIG_SCHEMA.map((option): [string, ConfigOption] => [
+      option.key,
+      option,
+    ]),
+    ...accountKeys,
+  ];
+  for (const [key, option] of options) {
+    const value = values[key]?.trim();
+    if (!value) {
+      continue;
+    }
+    const result = validateValue(option, value);
+    values[key] = result.value;
+    if (result.error) {
+      errors.push(`${key}: ${result.error}`);
+    }
+  }
+
+  // 必填项
+  const required =
+    accountNames.length > 0
+      ? [...accountKeys]
+          .filter(([, option]) => option.required)
+          .map(([key]) => key)
+      : ['OKX_API_KEY', 'OKX_SECRET_KEY', 'OKX_PASSPHRASE'];
+  for (const key of required.filter((item) => !isSet(item))) {
+    errors.push(
+      `${key}: 缺少必填配置（可通过环境变量、${key}_FILE 或配置文件设置）`,
+    );
+  }
+
+  const prefixes = accountNames.map((name) => getAccountEnvPrefix(name));
+  const duplicated = accountNames.filter(
+    (_, index) => prefixes.indexOf(prefixes[index]) !== index,
+  );
+  if (duplicated.length > 0) {
+    errors.push(`OKX_ACCOUNTS: 账户名称重复: ${duplicated.join(', ')}`);
+  }
+  if (values.TRADE_API_ENABLED === 'true' && !isSet('TRADE_API_TOKEN')) {
+    errors.push(
+      'TRADE_API_TOKEN: 开启交易接口（TRADE_API_ENABLED=true）时必须配置',
+    );
+  }
+
+  return { values, sources, configFile, errors };
+}
+
+/**
+ * 按 schema 转换配置值的类型并补上默认值
+ *
+ * int / number 转为数字，boolean 转为布尔值，list 转为数组；
+ * 未配置的项使用 schema 中的默认值，不在 schema 中的变量原样保留
+ */
+export function toTypedConfig(
+  values: Record<string, string | undefined>,
+): TypedConfig {
+  const config: TypedConfig = { ...values };
+  const options: [string, ConfigOption][] = [
+    ...CONFIG_SCHEMA.map((option): [string, ConfigOption] => [
+      option.key,
+      option,
+    ]),
+    ...getAccountConfigOptions(values.OKX_ACCOUNTS),
+  ];
+  for (const [key, option] of options) {
+    const value = values[key]?.trim() || option.default;
+    config[key] = value === undefined ? undefined : toTypedValue(option, value);
+  }
+  return config;
+}
+
+/**
+ * ConfigModule 的 validate 函数：校验失败时列出全部错误并终止启动，
+ * 否则返回按类型转换后的配置（ConfigService.get 读取的值）
+ */
+export function validateEnv(env: Record<string, unknown>): TypedConfig {
+  const resolved = resolveConfig(env as Record<string, string | undefined>);
+  if (resolved.errors.length > 0) {
+    throw new Error(
+      `配置校验失败:\n${resolved.errors.map((error) => `  - ${error}`).join('\n')}`,
+    );
+  }
+  loadedConfig = resolved;
+  return toTypedConfig(resolved.values);
+}
+
+/**
+ * 启动时解析的配置（未经 validateEnv 启动时为 undefined）
+ */
+export function getLoadedConfig(): ResolvedConfig | undefined {
+  return loadedConfig;
+}
@@ -0,0 +1,568 @@
+import { isIP } from 'net';
+import { ConfigOption } from './config.interface';
+
+/**
+ * 可订阅的私有频道
+ */
+export const PRIVATE_CHANNELS = [
+  'orders',
+  'orders-algo',
+  'algo-advance',
+  'positions',
+  'balance_and_position',
+  'account',
+];
+
+/**
+ * 产品类型
+ */
+const INST_TYPES = ['SPOT', 'MARGIN', 'SWAP', 'FUTURES', 'OPTION'];
+
+/**
+ * 校验 IP 或 CIDR
+ */
+function validateIpOrCidr(value: string): string | undefined {
+  const [address, prefix] = value.split('/');
+  const type = isIP(address);
+  const maxPrefix = type === 6 ? 128 : 32;
+  if (
+    type === 0 ||
+    (prefix !== undefined &&
+      (!/^\d+$/.test(prefix) || parseInt(prefix) > maxPrefix))
+  ) {
+    return '应为 IP 或 CIDR';
+  }
+  return undefined;
+}
+
+/**
+ * 全局配置项（账户相关的 OKX_<NAME>_* 另行校验）
+ *
+ * 未配置的项使用默认值（见 config.loader.ts 的 toTypedConfig）
+ */
+export const CONFIG_SCHEMA: ConfigOption[] = [
+  // 服务
+  {
+    key: 'PORT',
+    type: 'int',
+    min: 1,
+    max: 65535,
+    default: '3000',
+    description: 'HTTP 端口',
+  },
+  {
+    key: 'CONFIG_FILE',
+    type: 'string',
+    description: '配置文件路径（JSON 或 YAML）',
+  },
+
+  // OKX 账户
+  { key: 'OKX_ACCOUNTS', type: 'list', description: '多账户名称列表' },
+  {
+    key: 'OKX_API_KEY',
+    type: 'string',
+    secret: true,
+    description: '单账户 API Key',
+  },
+  {
+    key: 'OKX_SECRET_KEY',
+    type: 'string',
+    secret: true,
+    description: '单账户 Secret Key',
+  },
+  {
+    key: 'OKX_PASSPHRASE',
+    type: 'string',
+    secret: true,
+    description: '单账户 Passphrase',
+  },
+  {
+    key: 'OKX_SIMULATED',
+    type: 'boolean',
+    default: 'false',
+    description: '单账户是否模拟盘',
+  },
+  {
+    key: 'OKX_CHANNELS',
+    type: 'list',
+    values: PRIVATE_CHANNELS,
+    default: 'orders',
+    description: '默认订阅的私有频道',
+  },
+
+  // 心跳与重连
+  {
+    key: 'OKX_PING_INTERVAL_MS',
+    type: 'int',
+    min: 1000,
+    default: '25000',
+    description: '心跳间隔（毫秒）',
+  },
+  {
+    key: 'OKX_PONG_TIMEOUT_MS',
+    type: 'int',
+    min: 1000,
+    default: '10000',
+    description: '心跳超时（毫秒）',
+  },
+  {
+    key: 'OKX_RECONNECT_BASE_DELAY_MS',
+    type: 'int',
+    min: 0,
+    default: '1000',
+    description: '重连初始延迟（毫秒）',
+  },
+  {
+    key: 'OKX_RECONNECT_MAX_DELAY_MS',
+    type: 'int',
+    min: 0,
+    default: '60000',
+    description: '重连最大延迟（毫秒）',
+  },
+  {
+    key: 'OKX_ALERT_AFTER_FAILURES',
+    type: 'int',
+    min: 0,
+    default: '5',
+    description: '连续重连失败告警次数',
+  },
+  {
+    key: 'OKX_ALERT_AFTER_MINUTES',
+    type: 'number',
+    min: 0,
+    default: '5',
+    description: '离线告警分钟数',
+  },
+
+  // REST 与断线补单
+  {
+    key: 'OKX_REST_BASE_URL',
+    type: 'url',
+    default: 'https://www.okx.com',
+    description: 'REST 接口地址',
+  },
+  {
+    key: 'OKX_REST_TIMEOUT_MS',
+    type: 'int',
+    min: 1,
+    default: '10000',
+    description: 'REST 请求超时（毫秒）',
+  },
+  {
+    key: 'OKX_REST_MAX_RETRIES',
+    type: 'int',
+    min: 0,
+    default: '3',
+    description: 'REST 请求最大重试次数',
+  },
+  {
+    key: 'OKX_REST_RETRY_BASE_DELAY_MS',
+    type: 'int',
+    min: 0,
+    default: '500',
+    description: 'REST 重试初始延迟（毫秒）',
+  },
+  {
+    key: 'OKX_RECOVERY_ENABLED',
+    type: 'boolean',
+    default: 'true',
+    description: '是否开启断线补单',
+  },
+  {
+    key: 'OKX_RECOVERY_LOOKBACK_HOURS',
+    type: 'number',
+    min: 0,
+    default: '24',
+    description: '断线补单最多回溯小时数',
+  },
+  {
+    key: 'OKX_RECOVERY_INST_TYPES',
+    type: 'list',
+    values: INST_TYPES,
+    default: INST_TYPES.join(','),
+    description: '断线补单的产品类型',
+  },
+  {
+    key: 'OKX_RECOVERY_MAX_PAGES',
+    type: 'int',
+    min: 1,
+    default: '5',
+    description: '断线补单每类最多翻页数',
+  },
+
+  // 公共频道与价格提醒
+  {
+    key: 'OKX_PUBLIC_ENABLED',
+    type: 'boolean',
+    default: 'true',
+    description: '是否连接公共频道',
+  },
+  {
+    key: 'OKX_PUBLIC_SIMULATED',
+    type: 'boolean',
+    default: 'false',
+    description: '公共频道是否使用模拟盘行情',
+  },
+  {
+    key: 'PRICE_ALERT_COOLDOWN_MINUTES',
+    type: 'number',
+    min: 0,
+    default: '5',
+    description: '价格提醒默认最小间隔（分钟）',
+  },
+
+  // 账户组合与风险
+  {
+    key: 'PORTFOLIO_CACHE_TTL_SEC',
+    type: 'int',
+    min: 0,
+    default: '30',
+    description: '余额和持仓缓存有效期（秒）',
+  },
+  {
+    key: 'PORTFOLIO_ENRICH_NOTIFICATIONS',
+    type: 'boolean',
+    default: 'false',
+    description: '成交通知是否附带持仓',
+  },
+  {
+    key: 'RISK_MGN_RATIO_THRESHOLDS',
+    type: 'list',
+    default: '3,2,1.5',
+    description: '保证金率告警阈值',
+    validate: (value) => (/^\d+(\.\d+)?$/.test(value) ? undefined : '应为数字'),
+  },
+  {
+    key: 'RISK_LIQ_DISTANCE_PCT',
+    type: 'number',
+    min: 0,
+    default: '5',
+    description: '距强平价告警百分比',
+  },
+  {
+    key: 'RISK_HYSTERESIS_PCT',
+    type: 'number',
+    min: 0,
+    default: '10',
+    description: '告警解除回差百分比',
+  },
+
+  // 接口认证与交易
+  {
+    key: 'AUTH_API_KEYS',
+    type: 'list',
+    secret: true,
+    description: '接口认证 API Key 列表',
+    validate: (value) =>
+      /^[^:]+:(read|admin):.+$/.test(value)
+        ? undefined
+        : '应为 名称:read|admin:密钥',
+  },
+  {
+    key: 'AUTH_METHODS',
+    type: 'list',
+    values: ['key', 'hmac'],
+    default: 'key,hmac',
+    description: '允许的认证方式',
+  },
+  {
+    key: 'AUTH_HMAC_MAX_SKEW_SEC',
+    type: 'int',
+    min: 1,
+    default: '300',
+    description: 'HMAC 签名时间戳允许的偏差（秒）',
+  },
+  {
+    key: 'AUTH_IP_ALLOWLIST',
+    type: 'list',
+    description: '允许访问的 IP 或 CIDR',
+    validate: validateIpOrCidr,
+  },
+  {
+    key: 'AUTH_TRUST_PROXY',
+    type: 'boolean',
+    default: 'false',
+    description: '是否信任 X-Forwarded-For',
+  },
+  {
+    key: 'TRADE_API_ENABLED',
+    type: 'boolean',
+    default: 'false',
+    description: '是否开启交易接口',
+  },
+  {
+    key: 'TRADE_API_TOKEN',
+    type: 'string',
+    secret: true,
+    description: '交易接口 Token',
+  },
+  {
+    key: 'TRADE_REQUEST_TIMEOUT_MS',
+    type: 'int',
+    min: 1,
+    default: '10000',
+    description: '交易请求超时（毫秒）',
+  },
+
+  // 订单历史
+  {
+    key: 'ORDER_HISTORY_RETENTION_DAYS',
+    type: 'number',
+    min: 0,
+    default: '90',
+    description: '订单历史保留天数（0 不按时间清理）',
+  },
+  {
+    key: 'ORDER_HISTORY_MAX_ORDERS',
+    type: 'int',
+    min: 0,
+    default: '10000',
+    description: '订单历史最多保留的订单数（0 不限制）',
+  },
+
+  // 报表与汇总
+  {
+    key: 'REPORT_TIMEZONE',
+    type: 'timezone',
+    description: '成交报表时区（默认服务器时区）',
+  },
+  {
+    key: 'DIGEST_DAILY_CRON',
+    type: 'string',
+    description: '每日汇总 cron 表达式',
+  },
+  {
+    key: 'DIGEST_WEEKLY_CRON',
+    type: 'string',
+    description: '每周汇总 cron 表达式',
+  },
+  {
+    key: 'DIGEST_TIMEZONE',
+    type: 'timezone',
+    description: '汇总时区（默认 REPORT_TIMEZONE）',
+  },
+  {
+    key: 'DIGEST_TOP_TRADES',
+    type: 'int',
+    min: 0,
+    default: '3',
+    description: '汇总中展示的最大成交笔数',
+  },
+
+  // 通知
+  {
+    key: 'NOTIFY_RULES_FILE',
+    type: 'string',
+    default: 'notify-rules.json',
+    description: '通知规则文件',
+  },
+  {
+    key: 'NOTIFY_RATE_LIMIT_PER_MINUTE',
+    type: 'int',
+    min: 0,
+    default: '20',
+    description: '每个渠道每分钟最多发送条数',
+  },
+  {
+    key: 'OUTBOX_MAX_ATTEMPTS',
+    type: 'int',
+    min: 1,
+    default: '8',
+    description: '通知最大尝试次数',
+  },
+  {
+    key: 'OUTBOX_BASE_DELAY_MS',
+    type: 'int',
+    min: 0,
+    default: '2000',
+    description: '通知重试初始延迟（毫秒）',
+  },
+  {
+    key: 'OUTBOX_MAX_DELAY_MS',
+    type: 'int',
+    min: 0,
+    default: '600000',
+    description: '通知重试最大延迟（毫秒）',
+  },
+  {
+    key: 'OUTBOX_POLL_INTERVAL_MS',
+    type: 'int',
+    min: 100,
+    default: '1000',
+    description: '发件箱轮询间隔（毫秒）',
+  },
+  {
+    key: 'WECHAT_API_URL',
+    type: 'url',
+    secret: true,
+    description: '微信通知接口地址',
+  },
+  { key: 'WECHAT_OPENID', type: 'string', description: '微信默认接收人' },
+  { key: 'WECHAT_TEMPLATE_ID', type: 'string', description: '微信模板 ID' },
+  {
+    key: 'TELEGRAM_API_URL',
+    type: 'url',
+    default: 'https://api.telegram.org',
+    description: 'Telegram API 地址',
+  },
+  {
+    key: 'TELEGRAM_BOT_TOKEN',
+    type: 'string',
+    secret: true,
+    description: 'Telegram Bot Token',
+  },
+  { key: 'TELEGRAM_CHAT_ID', type: 'list', description: 'Telegram Chat ID' },
+  {
+    key: 'DINGTALK_WEBHOOK_URL',
+    type: 'url',
+    secret: true,
+    description: '钉钉机器人 Webhook',
+  },
+  {
+    key: 'DINGTALK_SECRET',
+    type: 'string',
+    secret: true,
+    description: '钉钉加签密钥',
+  },
+  {
+    key: 'FEISHU_WEBHOOK_URL',
+    type: 'url',
+    secret: true,
+    description: '飞书机器人 Webhook',
+  },
+  {
+    key: 'FEISHU_SECRET',
+    type: 'string',
+    secret: true,
+    description: '飞书签名校验密钥',
+  },
+  {
+    key: 'SLACK_WEBHOOK_URL',
+    type: 'url',
+    secret: true,
+    description: 'Slack Incoming Webhook',
+  },
+  { key: 'SMTP_HOST', type: 'string', description: 'SMTP 服务器' },
+  {
+    key: 'SMTP_PORT',
+    type: 'int',
+    min: 1,
+    max: 65535,
+    default: '465',
+    description: 'SMTP 端口',
+  },
+  {
+    key: 'SMTP_SECURE',
+    type: 'boolean',
+    default: 'true',
+    description: 'SMTP 是否使用 TLS',
+  },
+  { key: 'SMTP_USER', type: 'string', description: 'SMTP 用户名' },
+  { key: 'SMTP_PASS', type: 'string', secret: true, description: 'SMTP 密码' },
+  { key: 'SMTP_FROM', type: 'string', description: '发件人' },
+  { key: 'SMTP_TO', type: 'list', description: '收件人' },
+  { key: 'WEBHOOK_URL', type: 'url', description: '通用 Webhook 地址' },
+  {
+    key: 'WEBHOOK_SECRET',
+    type: 'string',
+    secret: true,
+    description: '通用 Webhook 签名密钥',
+  },
+
+  // 日志、事件、健康检查和指标
+  { key: 'LOG_DIR', type: 'string', default: 'logs', description: '日志目录' },
+  {
+    key: 'LOG_MAX_SIZE_MB',
+    type: 'number',
+    min: 0,
+    default: '10',
+    description: '单个日志文件最大大小（MB）',
+  },
+  {
+    key: 'LOG_RETENTION_DAYS',
+    type: 'int',
+    min: 0,
+    default: '14',
+    description: '日志保留天数',
+  },
+  {
+    key: 'LOG_MAX_FILES',
+    type: 'int',
+    min: 0,
+    default: '0',
+    description: '最多保留的日志文件数',
+  },
+  {
+    key: 'LOG_COMPRESS',
+    type: 'boolean',
+    default: 'true',
+    description: '是否压缩轮转的日志',
+  },
+  {
+    key: 'EVENTS_BUFFER_SIZE',
+    type: 'int',
+    min: 0,
+    default: '500',
+    description: '事件流保留的最近事件数',
+  },
+  {
+    key: 'HEALTH_MAX_SILENCE_SEC',
+    type: 'int',
+    min: 1,
+    default: '60',
+    description: '未收到消息视为未就绪的秒数',
+  },
+  {
+    key: 'HEALTH_NOTIFY_MAX_FAILURES',
+    type: 'int',
+    min: 0,
+    default: '3',
+    description: '通知连续失败视为未就绪的次数',
+  },
+  {
+    key: 'METRICS_DEFAULT_METRICS',
+    type: 'boolean',
+    default: 'true',
+    description: '是否输出进程默认指标',
+  },
+];
+
+/**
+ * 账户配置项（变量名为 OKX_<账户名大写>_<后缀>）
+ */
+export const ACCOUNT_CONFIG_SCHEMA: ConfigOption[] = [
+  {
+    key: 'API_KEY',
+    type: 'string',
+    secret: true,
+    required: true,
+    description: 'API Key',
+  },
+  {
+    key: 'SECRET_KEY',
+    type: 'string',
+    secret: true,
+    required: true,
+    description: 'Secret Key',
+  },
+  {
+    key: 'PASSPHRASE',
+    type: 'string',
+    secret: true,
+    required: true,
+    description: 'Passphrase',
+  },
+  {
+    key: 'SIMULATED',
+    type: 'boolean',
+    default: 'false',
+    description: '是否模拟盘',
+  },
+  {
+    key: 'CHANNELS',
+    type: 'list',
+    values: PRIVATE_CHANNELS,
+    description: '订阅的私有频道（默认 OKX_CHANNELS）',
+  },
+  { key: 'WECHAT_OPENID', type: 'list', description: '通知接收人' },
+];
@@ -0,0 +1,6 @@
+export * from './config.interface';
+export * from './config.schema';
+export * from './config.loader';
+export * from './config-report.service';
+export * from './config.controller';
+export * from './config-report.module';
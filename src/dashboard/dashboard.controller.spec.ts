@@ -0,0 +1,128 @@
+import * as vm from 'vm';
+import { DashboardController } from './dashboard.controller';
+
+/**
+ * 页面元素的最小替身
+ */
+class FakeElement {
+  innerHTML = '';
+  textContent = '';
+  className = '';
+  onclick?: () => void;
+  rows = { length: 0 };
+  insertAdjacentHTML = jest.fn((_position: string, html: string) => {
+    this.innerHTML = html + this.innerHTML;
+    this.rows.length++;
+  });
+  deleteRow = jest.fn(() => {
+    this.rows.length--;
+  });
+}
+
+/**
+ * 记录页面创建的实时事件连接
+ */
+class FakeEventSource {
+  static instances: FakeEventSource[] = [];
+  onmessage?: (message: { data: string }) => void;
+
+  constructor(readonly url: string) {
+    FakeEventSource.instances.push(this);
+  }
+}
+
+describe('DashboardController', () => {
+  const html = new DashboardController().getDashboard();
+  const script = /<script>([\s\S]*)<\/script>/.exec(html)?.[1] ?? '';
+
+  let elements: Map<string, FakeElement>;
+  let requests: string[];
+
+  const element = (id: string) => {
+    if (!elements.has(id)) {
+      elements.set(id, new FakeElement());
+    }
+    return elements.get(id)!;
+  };
+
+  const receive = (event: Record<string, unknown>) =>
+    FakeEventSource.instances[0].onmessage?.({ data: JSON.stringify(event) });
+
+  const responses: Record<string, unknown> = {
+    '/okx/status': { accounts: [] },
+    '/orders': { items: [] },
+    '/logs/stats': { notify: { byChannel: {} } },
+    '/events': [],
+  };
+
+  beforeEach(async () => {
+    elements = new Map();
+    requests = [];
+    FakeEventSource.instances = [];
+    vm.runInNewContext(script, {
+      document: { getElementById: element },
+      localStorage: { getItem: () => null, setItem: jest.fn() },
+      location: { reload: jest.fn() },
+      prompt: jest.fn(),
+      setInterval: jest.fn(),
+      fetch: (url: string) => {
+        requests.push(url);
+        const body = responses[url.split('?')[0]];
+        return Promise.resolve({
+          status: 200,
+          json: () => Promise.resolve(body),
+        });
+      },
+      EventSource: FakeEventSource,
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+  });
+
+  it('should serve a page that loads the status and history APIs', () => {
+    expect(html).toContain('<title>OKX 订单订阅服务</title>');
+    expect(requests).toEqual(
+      expect.arrayContaining([
+        '/okx/status',
+        '/orders?pageSize=50',
+        '/logs/stats?window=24h',
+        '/events?category=NOTIFY&limit=50',
+      ]),
+    );
+    expect(FakeEventSource.instances[0].url).toMatch(/^\/events\/stream\?/);
+  });
+
+  it('should only render order updates as order rows', () => {
+    receive({
+      category: 'ORDER',
+      type: 'trade.result',
+      data: { operation: 'place-order', code: '0' },
+    });
+    expect(element('orders').insertAdjacentHTML).not.toHaveBeenCalled();
+
+    receive({
+      category: 'ORDER',
+      type: 'order.update',
+      account: 'main',
+      data: {
+        instId: 'BTC-USDT-SWAP',
+        side: 'buy',
+        state: 'filled',
+        transition: '部分成交 → 完全成交',
+        sz: '1',
+        accFillSz: '1',
+        avgPx: '95000',
+      },
+    });
+    expect(element('orders').innerHTML).toContain('部分成交 → 完全成交');
+    expect(element('orders').innerHTML).toContain('main');
+  });
+
+  it('should mark muted notifications', () => {
+    receive({
+      category: 'NOTIFY',
+      type: 'notify.muted',
+      data: { title: '订单更新' },
+    });
+    expect(element('notify-events').innerHTML).toContain('已静音');
+  });
+});
@@ -0,0 +1,17 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { DASHBOARD_HTML } from './dashboard.page';
+import { Public } from '../auth';
+
+@Controller('dashboard')
+export class DashboardController {
+  /**
+   * 仪表盘页面（页面本身无需认证，数据接口使用页面中填写的 API Key）
+   */
+  @Get()
+  @Public()
+  @Header('Content-Type', 'text/html; charset=utf-8')
+  @Header('Cache-Control', 'no-cache')
+  getDashboard(): string {
+    return DASHBOARD_HTML;
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * 仪表盘页面（单文件，内联样式和脚本，便于打包进单个 main.js）
+ *
+ * 数据来源：/okx/status、/orders、/logs/stats、/events 和 /events/stream，
+ * 开启接口认证时在页面中填写 API Key（保存在浏览器 localStorage）
+ */
+export const DASHBOARD_HTML = `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>OKX 订单订阅服务</title>
+<style>
+  body { font-family: -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; margin: 0; background: #f5f6f8; color: #222; }
+  header { display: flex; align-items: center; justify-content: space-between; padding: 12px 24px; background: #1f2329; color: #fff; }
+  header h1 { font-size: 18px; margin: 0; }
+  main { padding: 16px 24px; display: grid; gap: 16px; }
+  section { background: #fff; border-radius: 6px; padding: 12px 16px; box-shadow: 0 1px 2px rgba(0,0,0,.06); }
+  h2 { font-size: 15px; margin: 0 0 8px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #eee; white-space: nowrap; }
+  th { color: #666; font-weight: normal; }
+  .ok { color: #1a7f37; } .bad { color: #cf222e; } .warn { color: #9a6700; } .muted { color: #888; }
+  .grid { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; }
+  button { background: #2f6feb; color: #fff; border: 0; border-radius: 4px; padding: 6px 14px; cursor: pointer; }
+  button:disabled { opacity: .6; }
+  #live { font-size: 12px; margin-right: 12px; }
+  @media (max-width: 900px) { .grid { grid-template-columns: 1fr; } }
+</style>
+</head>
+<body>
+<header>
+  <h1>OKX 订单订阅服务</h1>
+  <div><span id="live" class="muted">实时连接中…</span><button id="api-key">API Key</button> <button id="test-notify">发送测试通知</button> <span id="test-result"></span></div>
+</header>
+<main>
+  <section>
+    <h2>WebSocket 连接</h2>
+    <table>
+      <thead><tr><th>账户</th><th>模式</th><th>状态</th><th>登录</th><th>订阅</th><th>连接时间</th><th>最后消息</th><th>重连次数</th><th>最近错误</th></tr></thead>
+      <tbody id="connections"></tbody>
+    </table>
+  </section>
+  <section>
+    <h2>最近订单</h2>
+    <table>
+      <thead><tr><th>时间</th><th>账户</th><th>产品</th><th>方向</th><th>状态变化</th><th>数量</th><th>成交均价</th></tr></thead>
+      <tbody id="orders"></tbody>
+    </table>
+  </section>
+  <div class="grid">
+    <section>
+      <h2>通知渠道（最近 24 小时）</h2>
+      <table>
+        <thead><tr><th>渠道</th><th>发送次数</th><th>失败次数</th><th>失败率</th></tr></thead>
+        <tbody id="notify-stats"></tbody>
+      </table>
+    </section>
+    <section>
+      <h2>最近通知</h2>
+      <table>
+        <thead><tr><th>时间</th><th>渠道</th><th>结果</th><th>内容</th></tr></thead>
+        <tbody id="notify-events"></tbody>
+      </table>
+    </section>
+  </div>
+</main>
+<script>
+  const MAX_ROWS = 50;
+  const esc = (value) => String(value ?? '').replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+  const time = (ts) => ts ? new Date(Number(ts) || ts).toLocaleString('zh-CN', { hour12: false }) : '-';
+  const ago = (ts) => {
+    if (!ts) return '-';
+    const seconds = Math.round((Date.now() - ts) / 1000);
+    return seconds < 60 ? seconds + ' 秒前' : Math.round(seconds / 60) + ' 分钟前';
+  };
+  const apiKey = () => localStorage.getItem('apiKey') || '';
+  const promptApiKey = () => {
+    const key = prompt('请输入 API Key', apiKey());
+    if (key !== null) { localStorage.setItem('apiKey', key.trim()); location.reload(); }
+  };
+  const request = async (url, options = {}) => {
+    const res = await fetch(url, { ...options, headers: apiKey() ? { 'X-Api-Key': apiKey() } : {} });
+    // 并发请求同时返回 401 时只提示一次
+    if (res.status === 401 && !request.prompted) { request.prompted = true; promptApiKey(); }
+    return res;
+  };
+  const getJson = async (url) => (await request(url)).json();
+  const prependRow = (tbodyId, html) => {
+    const tbody = document.getElementById(tbodyId);
+    tbody.insertAdjacentHTML('afterbegin', html);
+    while (tbody.rows.length > MAX_ROWS) tbody.deleteRow(-1);
+  };
+
+  async function loadConnections() {
+    const { accounts } = await getJson('/okx/status');
+    document.getElementById('connections').innerHTML = accounts.map((c) => {
+      const stateClass = c.readyState === 'OPEN' ? 'ok' : c.readyState === 'CONNECTING' ? 'warn' : 'bad';
+      const subs = c.subscriptions.map((s) =>
+        '<span class="' + (s.acknowledged ? 'ok' : 'warn') + '">' + esc(s.channel) + (s.acknowledged ? ' ✓' : ' …') + '</span>').join(' ');
+      return '<tr><td>' + esc(c.account) + '</td><td>' + (c.simulated ? '模拟盘' : '实盘') +
+        '</td><td class="' + stateClass + '">' + esc(c.readyState) +
+        '</td><td class="' + (c.endpoint === 'public' ? 'muted' : c.loggedIn ? 'ok' : 'bad') + '">' +
+        (c.endpoint === 'public' ? '公共频道' : c.loggedIn ? '已登录' : '未登录') +
+        '</td><td>' + subs + '</td><td>' + time(c.connectedAt) + '</td><td>' + ago(c.lastMessageAt) +
+        '</td><td>' + c.reconnectCount + '</td><td class="bad">' + esc(c.lastError) + '</td></tr>';
+    }).join('');
+  }
+
+  function orderRow(o) {
+    const stateClass = o.state === 'filled' ? 'ok' : o.state === 'canceled' ? 'muted' : '';
+    return '<tr><td>' + time(o.uTime) + '</td><td>' + esc(o.account) + '</td><td>' + esc(o.instId) +
+      '</td><td>' + esc(o.side) + '</td><td class="' + stateClass + '">' + esc(o.transition || o.state) +
+      '</td><td>' + esc(o.accFillSz || 0) + ' / ' + esc(o.sz) + '</td><td>' + esc(o.avgPx || '-') + '</td></tr>';
+  }
+
+  async function loadOrders() {
+    const { items } = await getJson('/orders?pageSize=' + MAX_ROWS);
+    document.getElementById('orders').innerHTML = items.map(orderRow).join('');
+  }
+
+  async function loadNotifyStats() {
+    const { notify } = await getJson('/logs/stats?window=24h');
+    const rows = Object.entries(notify.byChannel).map(([channel, s]) => {
+      const rate = s.attempts ? s.failed / s.attempts : 0;
+      return '<tr><td>' + esc(channel) + '</td><td>' + s.attempts + '</td><td>' + s.failed +
+        '</td><td class="' + (rate > 0.2 ? 'bad' : rate > 0 ? 'warn' : 'ok') + '">' + (rate * 100).toFixed(1) + '%</td></tr>';
+    });
+    document.getElementById('notify-stats').innerHTML = rows.join('') || '<tr><td colspan="4" class="muted">暂无通知</td></tr>';
+  }
+
+  function notifyRow(e) {
+    const ok = e.type === 'notify.sent';
+    const muted = e.type === 'notify.muted';
+    const result = ok ? '成功' : muted ? '已静音' : e.type === 'notify.dead' ? '移入死信' : '失败';
+    return '<tr><td>' + time(e.timestamp) + '</td><td>' + esc(e.data && e.data.channel) +
+      '</td><td class="' + (ok ? 'ok' : muted ? 'muted' : 'bad') + '">' + result + '</td><td>' +
+      esc([e.data && e.data.title, e.instId, e.data && e.data.state].filter(Boolean).join(' ')) + '</td></tr>';
+  }
+
+  async function loadNotifyEvents() {
+    const events = await getJson('/events?category=NOTIFY&limit=' + MAX_ROWS);
+    document.getElementById('notify-events').innerHTML = events.reverse().map(notifyRow).join('');
+  }
+
+  function connectStream() {
+    const live = document.getElementById('live');
+    const source = new EventSource('/events/stream?category=CONNECTION,AUTH,SUBSCRIBE,ORDER,NOTIFY&replay=0' +
+      (apiKey() ? '&apiKey=' + encodeURIComponent(apiKey()) : ''));
+    source.onopen = () => { live.textContent = '● 实时'; live.className = 'ok'; };
+    source.onerror = () => { live.textContent = '● 已断开，重连中…'; live.className = 'bad'; };
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data);
+      if (event.category === 'ORDER') {
+        // 只展示订单频道的推送，交易接口的下单结果（trade.result）不是订单数据
+        if (event.type === 'order.update') {
+          prependRow('orders', orderRow({ ...event.data, account: event.account }));
+        }
+      } else if (event.category === 'NOTIFY') {
+        prependRow('notify-events', notifyRow(event));
+        loadNotifyStats();
+      } else {
+        loadConnections();
+      }
+    };
+  }
+
+  document.getElementById('api-key').onclick = promptApiKey;
+  document.getElementById('test-notify').onclick = async (e) => {
+    const button = e.target;
+    const result = document.getElementById('test-result');
+    button.disabled = true;
+    try {
+      const res = await (await request('/test-notify', { method: 'POST' })).json();
+      result.textContent = res.message;
+      result.className = res.success ? 'ok' : 'bad';
+    } catch (error) {
+      result.textContent = '请求失败';
+      result.className = 'bad';
+    } finally {
+      button.disabled = false;
+    }
+  };
+
+  loadConnections();
+  loadOrders();
+  loadNotifyStats();
+  loadNotifyEvents();
+  connectStream();
+  // 刷新“最后消息”等相对时间
+  setInterval(loadConnections, 5000);
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,2 @@
+export * from './dashboard.controller';
+export * from './dashboard.module';
@@ -0,0 +1,30 @@
+import { TradeRecord, TradeReportRow } from '../trades/trade-record.interface';
+
+/**
+ * 汇总周期
+ */
+export type DigestPeriod = 'daily' | 'weekly' | 'custom';
+
+/**
+ * 定时汇总计划
+ */
+export interface DigestSchedule {
+  period: Exclude<DigestPeriod, 'custom'>;
+  cron: string; // cron 表达式
+  rangeMs: number; // 每次汇总覆盖的时长（截止到触发时间）
+}
+
+/**
+ * 交易汇总
+ */
+export interface DigestSummary {
+  period: DigestPeriod;
+  from: number; // 开始时间（毫秒时间戳，含）
+  to: number; // 结束时间（毫秒时间戳，含）
+  account?: string; // 只汇总指定账户
+  orders: number; // 期间有更新的订单数
+  ordersByState: Record<string, number>; // 按最新状态统计订单数
+  instruments: TradeReportRow[]; // 按产品汇总成交（同一产品按手续费币种拆分）
+  totals: TradeReportRow[]; // 按手续费币种汇总
+  largestTrades: TradeRecord[]; // 成交金额最大的几笔成交
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { DigestService } from './digest.service';
+import { NotifyModule } from '../notify/notify.module';
+import { OrdersModule } from '../orders';
+import { TradesModule } from '../trades';
+
+@Module({
+  imports: [NotifyModule, OrdersModule, TradesModule],
+  providers: [DigestService],
+  exports: [DigestService],
+})
+export class DigestModule {}
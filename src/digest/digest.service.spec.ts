@@ -0,0 +1,109 @@
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { DigestService } from './digest.service';
+import { LoggingService } from '../common/logging';
+import { NotifyService } from '../notify/notify.service';
+import { OrderHistoryService } from '../orders/order-history.service';
+import { TradeLedgerService } from '../trades/trade-ledger.service';
+import { TradeRecord, TradeReportRow } from '../trades/trade-record.interface';
+import { toTypedConfig } from '../config/config.loader';
+
+describe('DigestService', () => {
+  const row = (overrides: Partial<TradeReportRow>): TradeReportRow => ({
+    group: 'BTC-USDT-SWAP',
+    ccy: 'USDT',
+    trades: 1,
+    volume: 1,
+    notional: 100,
+    pnl: 10,
+    fee: -1,
+    rebate: 0,
+    net: 9,
+    ...overrides,
+  });
+  const trade = (tradeId: string, fillSz: string, fillPx: string) =>
+    ({
+      account: 'main',
+      tradeId,
+      instId: 'BTC-USDT-SWAP',
+      side: 'buy',
+      fillSz,
+      fillPx,
+      fillTime: Date.UTC(2025, 11, 1, 12),
+    }) as TradeRecord;
+
+  let service: DigestService;
+
+  beforeEach(() => {
+    const orderHistoryService = {
+      query: () => ({
+        total: 3,
+        page: 1,
+        pageSize: 3,
+        items: [
+          { state: 'filled' },
+          { state: 'canceled' },
+          { state: 'filled' },
+        ],
+      }),
+    } as unknown as OrderHistoryService;
+    const tradeLedgerService = {
+      timeZone: 'UTC',
+      report: () => [
+        row({}),
+        row({ group: 'ETH-USDT-SWAP', trades: 2, pnl: -4, fee: -2, net: -6 }),
+      ],
+      query: () => [trade('1', '1', '10'), trade('2', '2', '100')],
+    } as unknown as TradeLedgerService;
+
+    service = new DigestService(
+      {
+        get: (key: string) => toTypedConfig({})[key],
+      } as unknown as ConfigService,
+      {} as SchedulerRegistry,
+      orderHistoryService,
+      tradeLedgerService,
+      {} as NotifyService,
+      {} as LoggingService,
+    );
+  });
+
+  it('should summarize orders and trades for the period', () => {
+    const summary = service.build(0, 1000);
+
+    expect(summary.orders).toBe(3);
+    expect(summary.ordersByState).toEqual({ filled: 2, canceled: 1 });
+    expect(summary.totals).toEqual([
+      {
+        group: 'total',
+        ccy: 'USDT',
+        trades: 3,
+        volume: 2,
+        notional: 200,
+        pnl: 6,
+        fee: -3,
+        rebate: 0,
+        net: 3,
+      },
+    ]);
+    expect(summary.largestTrades.map((item) => item.tradeId)).toEqual([
+      '2',
+      '1',
+    ]);
+  });
+
+  it('should render a compact message with details', () => {
+    const message = service.toMessage(
+      service.build(Date.UTC(2025, 11, 1), Date.UTC(2025, 11, 2)),
+    );
+
+    expect(message).toMatchObject({
+      title: '交易汇总',
+      instId: '2 个品种',
+      side: '订单 3 笔',
+      size: '成交额 200 USDT',
+      state: '净收益 +3 USDT',
+    });
+    expect(message.details).toContain('订单状态：完全成交 2，已撤销 1');
+  });
+});
@@ -0,0 +1,298 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { LoggingService } from '../common/logging';
+import {
+  ORDER_SIDE_MAP,
+  ORDER_STATE_MAP,
+} from '../common/interfaces/okx-order.interface';
+import { NotificationMessage } from '../notify/notifier.interface';
+import { NotifyResult, NotifyService } from '../notify/notify.service';
+import { OrderHistoryService } from '../orders/order-history.service';
+import { TradeLedgerService } from '../trades/trade-ledger.service';
+import { TradeReportRow } from '../trades/trade-record.interface';
+import {
+  DigestPeriod,
+  DigestSchedule,
+  DigestSummary,
+} from './digest.interface';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIOD_TITLES: Record<DigestPeriod, string> = {
+  daily: '每日交易汇总',
+  weekly: '每周交易汇总',
+  custom: '交易汇总',
+};
+
+/**
+ * 保留 8 位小数，消除浮点累加误差
+ */
+function round(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+/**
+ * 带正负号的金额
+ */
+function signed(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
+
+/**
+ * 交易汇总
+ *
+ * 按 cron 表达式（时区感知）定时汇总期间的订单和成交，通过所有已启用的通知渠道发送
+ */
+@Injectable()
+export class DigestService implements OnModuleInit {
+  private readonly logger = new Logger(DigestService.name);
+  private readonly timeZone: string;
+  private readonly topTrades: number;
+  private readonly schedules: DigestSchedule[];
+
+  constructor(
+    private configService: ConfigService,
+    private schedulerRegistry: SchedulerRegistry,
+    private orderHistoryService: OrderHistoryService,
+    private tradeLedgerService: TradeLedgerService,
+    private notifyService: NotifyService,
+    private loggingService: LoggingService,
+  ) {
+    this.timeZone =
+      this.configService.get<string>('DIGEST_TIMEZONE') ||
+      this.tradeLedgerService.timeZone;
+    this.topTrades = this.configService.get<number>('DIGEST_TOP_TRADES')!;
+
+    const schedules: DigestSchedule[] = [
+      {
+        period: 'daily',
+        cron: this.configService.get<string>('DIGEST_DAILY_CRON') || '',
+        rangeMs: DAY_MS,
+      },
+      {
+        period: 'weekly',
+        cron: this.configService.get<string>('DIGEST_WEEKLY_CRON') || '',
+        rangeMs: 7 * DAY_MS,
+      },
+    ];
+    this.schedules = schedules.filter((schedule) => schedule.cron.trim());
+  }
+
+  onModuleInit() {
+    for (const schedule of this.schedules) {
+      try {
+        const job = CronJob.from({
+          cronTime: schedule.cron,
+          onTick: () => this.runSchedule(schedule),
+          timeZone: this.timeZone,
+          start: true,
+        });
+        this.schedulerRegistry.addCronJob(`digest:${schedule.period}`, job);
+        this.logger.log(
+          `已启用${PERIOD_TITLES[schedule.period]}: ${schedule.cron} (${this.timeZone})`,
+        );
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error';
+        this.logger.error(
+          `无效的汇总计划 ${schedule.period}: ${schedule.cron} (${errorMessage})`,
+        );
+      }
+    }
+  }
+
+  /**
+   * 汇总指定时间范围内的订单和成交
+   */
+  build(
+    from: number,
+    to: number,
+    account?: string,
+    period: DigestPeriod = 'custom',
+  ): DigestSummary {
+    const orders = this.orderHistoryService.query({
+      account,
+      from,
+      to,
+      page: 1,
+      pageSize: Number.MAX_SAFE_INTEGER,
+    });
+    const ordersByState: Record<string, number> = {};
+    for (const order of orders.items) {
+      ordersByState[order.state] = (ordersByState[order.state] || 0) + 1;
+    }
+
+    const tradeQuery = { account, from, to };
+    const instruments = this.tradeLedgerService.report(tradeQuery, 'instId');
+
+    // 按手续费币种合计
+    const totals = new Map<string, TradeReportRow>();
+    for (const row of instruments) {
+      const total = totals.get(row.ccy) ?? {
+        group: 'total',
+        ccy: row.ccy,
+        trades: 0,
+        volume: 0,
+        notional: 0,
+        pnl: 0,
+        fee: 0,
+        rebate: 0,
+        net: 0,
+      };
+      total.trades += row.trades;
+      total.volume = round(total.volume + row.volume);
+      total.notional = round(total.notional + row.notional);
+      total.pnl = round(total.pnl + row.pnl);
+      total.fee = round(total.fee + row.fee);
+      total.rebate = round(total.rebate + row.rebate);
+      total.net = round(total.net + row.net);
+      totals.set(row.ccy, total);
+    }
+
+    const notional = (fillSz: string, fillPx: string) =>
+      (parseFloat(fillSz) || 0) * (parseFloat(fillPx) || 0);
+    const largestTrades = this.tradeLedgerService
+      .query(tradeQuery)
+      .sort(
+        (a, b) => notional(b.fillSz, b.fillPx) - notional(a.fillSz, a.fillPx),
+      )
+      .slice(0, this.topTrades);
+
+    return {
+      period,
+      from,
+      to,
+      account,
+      orders: orders.total,
+      ordersByState,
+      instruments,
+      totals: [...totals.values()],
+      largestTrades,
+    };
+  }
+
+  /**
+   * 汇总并发送通知
+   */
+  async send(
+    from: number,
+    to: number,
+    account?: string,
+    period: DigestPeriod = 'custom',
+  ): Promise<{ summary: DigestSummary; results: NotifyResult }> {
+    const summary = this.build(from, to, account, period);
+    const results = await this.notifyService.notify(this.toMessage(summary), {
+      digest: period,
+      from,
+      to,
+      account,
+    });
+    await this.loggingService.logSystem(
+      'INFO',
+      `已发送${PERIOD_TITLES[period]}`,
+      {
+        from,
+        to,
+        account,
+        orders: summary.orders,
+        trades: summary.totals.reduce((sum, row) => sum + row.trades, 0),
+        results,
+      },
+    );
+    return { summary, results };
+  }
+
+  /**
+   * 生成通知内容（模板消息只展示概要，文本渠道附带明细）
+   */
+  toMessage(summary: DigestSummary): NotificationMessage {
+    const instIds = new Set(summary.instruments.map((row) => row.group));
+    const format = (rows: TradeReportRow[], field: keyof TradeReportRow) =>
+      rows.map((row) => `${row[field]} ${row.ccy}`).join(' / ') || '0';
+
+    const details: string[] = [];
+    const states = Object.entries(summary.ordersByState)
+      .sort((a, b) => b[1] - a[1])
+      .map(([state, count]) => `${ORDER_STATE_MAP[state] || state} ${count}`);
+    if (states.length > 0) {
+      details.push(`订单状态：${states.join('，')}`);
+    }
+
+    if (summary.instruments.length > 0) {
+      details.push('', '品种成交：');
+      for (const row of summary.instruments) {
+        details.push(
+          `${row.group}  ${row.trades}笔  数量 ${row.volume}  金额 ${row.notional}  ` +
+            `收益 ${signed(row.pnl)}  手续费 ${row.fee}  ${row.ccy}`,
+        );
+      }
+    }
+
+    if (summary.totals.length > 0) {
+      details.push('', '合计：');
+      for (const row of summary.totals) {
+        details.push(
+          `${row.ccy}  收益 ${signed(row.pnl)}  手续费 ${row.fee}  ` +
+            `返佣 ${row.rebate}  净收益 ${signed(row.net)}`,
+        );
+      }
+    }
+
+    if (summary.largestTrades.length > 0) {
+      details.push('', '最大成交：');
+      for (const trade of summary.largestTrades) {
+        const side = ORDER_SIDE_MAP[trade.side] || trade.side;
+        const account = summary.account ? '' : ` [${trade.account}]`;
+        details.push(
+          `${this.formatTime(trade.fillTime)}  ${trade.instId} ${side} ` +
+            `${trade.fillSz} @ ${trade.fillPx}${account}`,
+        );
+      }
+    }
+
+    return {
+      title: PERIOD_TITLES[summary.period],
+      time: `${this.formatTime(summary.from)} ~ ${this.formatTime(summary.to)}`,
+      instId: `${instIds.size} 个品种`,
+      side: `订单 ${summary.orders} 笔`,
+      size: `成交额 ${format(summary.totals, 'notional')}`,
+      state: `净收益 ${summary.totals.map((row) => `${signed(row.net)} ${row.ccy}`).join(' / ') || '0'}`,
+      account: summary.account,
+      details,
+    };
+  }
+
+  /**
+   * 定时任务触发：汇总截止到当前时间的一个周期
+   */
+  private async runSchedule(schedule: DigestSchedule) {
+    const to = Date.now();
+    try {
+      await this.send(to - schedule.rangeMs, to, undefined, schedule.period);
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`发送交易汇总失败: ${errorMessage}`);
+      await this.loggingService.logError('SYSTEM', '发送交易汇总失败', {
+        period: schedule.period,
+        error: errorMessage,
+      });
+    }
+  }
+
+  /**
+   * 按汇总时区格式化时间
+   */
+  private formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleString('zh-CN', {
+      timeZone: this.timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+}
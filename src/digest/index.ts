@@ -0,0 +1,3 @@
+export * from './digest.interface';
+export * from './digest.service';
+export * from './digest.module';
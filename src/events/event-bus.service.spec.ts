@@ -0,0 +1,56 @@
+import { ConfigService } from '@nestjs/config';
+import { EventBusService } from './event-bus.service';
+import { BusEvent } from './event.interface';
+import { toTypedConfig } from '../config/config.loader';
+
+describe('EventBusService', () => {
+  let eventBus: EventBusService;
+
+  beforeEach(() => {
+    eventBus = new EventBusService({
+      get: (key: string) => toTypedConfig({ EVENTS_BUFFER_SIZE: '3' })[key],
+    } as unknown as ConfigService);
+  });
+
+  const publishOrder = (instId: string) =>
+    eventBus.publish({
+      category: 'ORDER',
+      type: 'order.update',
+      message: '订单更新',
+      instId,
+    });
+
+  it('should keep only the most recent events', () => {
+    for (const instId of ['A', 'B', 'C', 'D']) {
+      publishOrder(instId);
+    }
+    expect(eventBus.recent({}, 10).map((event) => event.instId)).toEqual([
+      'B',
+      'C',
+      'D',
+    ]);
+    expect(eventBus.recent({}, 10, 3).map((event) => event.id)).toEqual([4]);
+  });
+
+  it('should replay then stream events matching the filter', () => {
+    publishOrder('BTC');
+    publishOrder('ETH');
+
+    const received: BusEvent[] = [];
+    const subscription = eventBus
+      .stream({ categories: ['ORDER'], instIds: ['BTC'] }, 10)
+      .subscribe((event) => received.push(event));
+
+    eventBus.publish({
+      category: 'CONNECTION',
+      type: 'connection.open',
+      message: 'WebSocket连接已建立',
+    });
+    publishOrder('ETH');
+    publishOrder('BTC');
+    subscription.unsubscribe();
+    publishOrder('BTC');
+
+    expect(received.map((event) => event.id)).toEqual([1, 5]);
+  });
+});
@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Observable, Subject, concat, defer, filter, from } from 'rxjs';
+import { BusEvent, BusEventInput, EventFilter } from './event.interface';
+
+/**
+ * 判断事件是否满足过滤条件
+ */
+export function matchesEventFilter(
+  event: BusEvent,
+  eventFilter: EventFilter,
+): boolean {
+  return (
+    (!eventFilter.categories?.length ||
+      eventFilter.categories.includes(event.category)) &&
+    (!eventFilter.instIds?.length ||
+      (!!event.instId && eventFilter.instIds.includes(event.instId))) &&
+    (!eventFilter.accounts?.length ||
+      (!!event.account && eventFilter.accounts.includes(event.account)))
+  );
+}
+
+/**
+ * 进程内事件总线
+ *
+ * 连接状态、认证、订阅、订单更新和通知结果都发布到这里，
+ * 保留最近的事件供新连接的客户端回放
+ */
+@Injectable()
+export class EventBusService {
+  private readonly subject = new Subject<BusEvent>();
+  private readonly buffer: BusEvent[] = [];
+  private readonly bufferSize: number;
+  private nextId = 1;
+
+  constructor(private configService: ConfigService) {
+    this.bufferSize = this.configService.get<number>('EVENTS_BUFFER_SIZE')!;
+  }
+
+  /**
+   * 发布事件
+   */
+  publish(input: BusEventInput): BusEvent {
+    const event: BusEvent = {
+      id: this.nextId++,
+      timestamp: new Date().toISOString(),
+      ...input,
+    };
+
+    this.buffer.push(event);
+    if (this.buffer.length > this.bufferSize) {
+      this.buffer.splice(0, this.buffer.length - this.bufferSize);
+    }
+    this.subject.next(event);
+    return event;
+  }
+
+  /**
+   * 最近的事件（从旧到新）
+   * @param limit 最多返回条数
+   * @param afterId 只返回序号大于该值的事件
+   */
+  recent(eventFilter: EventFilter, limit: number, afterId = 0): BusEvent[] {
+    if (limit <= 0) {
+      return [];
+    }
+    return this.buffer
+      .filter(
+        (event) => event.id > afterId && matchesEventFilter(event, eventFilter),
+      )
+      .slice(-limit);
+  }
+
+  /**
+   * 订阅事件流：先回放最近的事件，再推送新事件
+   */
+  stream(
+    eventFilter: EventFilter,
+    replay: number,
+    afterId = 0,
+  ): Observable<BusEvent> {
+    return concat(
+      defer(() => from(this.recent(eventFilter, replay, afterId))),
+      this.subject.pipe(
+        filter((event) => matchesEventFilter(event, eventFilter)),
+      ),
+    );
+  }
+}
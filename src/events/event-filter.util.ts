@@ -0,0 +1,58 @@
+import { BadRequestException } from '@nestjs/common';
+import { LOG_CATEGORIES, LogCategory } from '../common/logging';
+import { EventFilter } from './event.interface';
+
+/**
+ * 事件过滤参数（逗号分隔）
+ */
+export interface EventFilterParams {
+  category?: string;
+  instId?: string;
+  account?: string;
+}
+
+/**
+ * 拆分逗号分隔的参数
+ */
+function splitParam(value?: string): string[] | undefined {
+  const items = (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * 解析事件过滤参数
+ */
+export function parseEventFilter(params: EventFilterParams): EventFilter {
+  const categories = splitParam(params.category)?.map((item) =>
+    item.toUpperCase(),
+  );
+  const invalid = categories?.filter(
+    (item) => !LOG_CATEGORIES.includes(item as LogCategory),
+  );
+  if (invalid?.length) {
+    throw new BadRequestException(
+      `category 不支持: ${invalid.join(', ')}（可选: ${LOG_CATEGORIES.join(', ')}）`,
+    );
+  }
+
+  return {
+    categories: categories as LogCategory[] | undefined,
+    instIds: splitParam(params.instId),
+    accounts: splitParam(params.account),
+  };
+}
+
+/**
+ * 解析回放条数（默认 defaultValue，不超过 max）
+ */
+export function parseReplayParam(
+  value: string | undefined,
+  defaultValue: number,
+  max: number,
+): number {
+  const replay = value ? parseInt(value, 10) : defaultValue;
+  return Math.min(Math.max(isNaN(replay) ? defaultValue : replay, 0), max);
+}
@@ -0,0 +1,29 @@
+import type { LogCategory } from '../common/logging';
+
+/**
+ * 实时事件
+ */
+export interface BusEvent {
+  id: number; // 递增序号（用于 SSE 断线续传）
+  timestamp: string; // ISO 时间
+  category: LogCategory;
+  type: string; // 事件类型，如 connection.open、auth.success、order.update
+  message: string;
+  account?: string; // 所属OKX账户
+  instId?: string; // 产品ID
+  data?: unknown;
+}
+
+/**
+ * 待发布的事件（序号和时间由事件总线填充）
+ */
+export type BusEventInput = Omit<BusEvent, 'id' | 'timestamp'>;
+
+/**
+ * 客户端订阅过滤条件（为空表示不过滤）
+ */
+export interface EventFilter {
+  categories?: LogCategory[];
+  instIds?: string[];
+  accounts?: string[];
+}
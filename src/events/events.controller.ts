@@ -0,0 +1,65 @@
+import {
+  Controller,
+  Get,
+  Headers,
+  MessageEvent,
+  Query,
+  Sse,
+} from '@nestjs/common';
+import { Observable, map } from 'rxjs';
+import { EventBusService } from './event-bus.service';
+import type { BusEvent } from './event.interface';
+import { parseEventFilter, parseReplayParam } from './event-filter.util';
+
+export const DEFAULT_REPLAY = 50;
+export const MAX_REPLAY = 500;
+
+@Controller('events')
+export class EventsController {
+  constructor(private readonly eventBus: EventBusService) {}
+
+  /**
+   * 最近的事件（从旧到新）
+   * @param category 事件分类，逗号分隔
+   * @param instId 产品ID，逗号分隔
+   * @param account 账户名称，逗号分隔
+   * @param limit 返回条数，默认 50，最大 500
+   */
+  @Get()
+  getRecentEvents(
+    @Query('category') category?: string,
+    @Query('instId') instId?: string,
+    @Query('account') account?: string,
+    @Query('limit') limit?: string,
+  ): BusEvent[] {
+    return this.eventBus.recent(
+      parseEventFilter({ category, instId, account }),
+      parseReplayParam(limit, DEFAULT_REPLAY, MAX_REPLAY),
+    );
+  }
+
+  /**
+   * 实时事件流（Server-Sent Events）
+   *
+   * 连接时先回放最近 replay 条事件；断线重连时浏览器携带 Last-Event-ID，只补发之后的事件
+   */
+  @Sse('stream')
+  stream(
+    @Headers('last-event-id') lastEventId?: string,
+    @Query('category') category?: string,
+    @Query('instId') instId?: string,
+    @Query('account') account?: string,
+    @Query('replay') replay?: string,
+  ): Observable<MessageEvent> {
+    const afterId = parseInt(lastEventId || '', 10) || 0;
+    return this.eventBus
+      .stream(
+        parseEventFilter({ category, instId, account }),
+        afterId > 0
+          ? MAX_REPLAY
+          : parseReplayParam(replay, DEFAULT_REPLAY, MAX_REPLAY),
+        afterId,
+      )
+      .pipe(map((event) => ({ id: String(event.id), data: event })));
+  }
+}
@@ -0,0 +1,168 @@
+import {
+  HttpException,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { HttpAdapterHost } from '@nestjs/core';
+import { STATUS_CODES } from 'http';
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import WebSocket, { WebSocketServer } from 'ws';
+import { Subscription } from 'rxjs';
+import { EventBusService } from './event-bus.service';
+import { EventFilter } from './event.interface';
+import {
+  EventFilterParams,
+  parseEventFilter,
+  parseReplayParam,
+} from './event-filter.util';
+import { DEFAULT_REPLAY, MAX_REPLAY } from './events.controller';
+import { AuthService } from '../auth/auth.service';
+
+export const EVENTS_WS_PATH = '/events/ws';
+
+/**
+ * 客户端发送的订阅消息
+ */
+interface SubscribeRequest extends EventFilterParams {
+  op: 'subscribe';
+  replay?: number;
+}
+
+/**
+ * 本地事件 WebSocket 网关
+ *
+ * 连接 ws://host:port/events/ws?category=ORDER&instId=BTC-USDT-SWAP&replay=50，
+ * 连接后可发送 {"op":"subscribe","category":"..."} 更换过滤条件；
+ * 开启接口认证时需通过 apiKey 参数或 X-Api-Key 请求头携带 read 及以上角色的 API Key
+ */
+@Injectable()
+export class EventsGateway implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(EventsGateway.name);
+  private readonly wss = new WebSocketServer({ noServer: true });
+  private readonly subscriptions = new Map<WebSocket, Subscription>();
+
+  constructor(
+    private readonly adapterHost: HttpAdapterHost,
+    private readonly eventBus: EventBusService,
+    private readonly authService: AuthService,
+  ) {}
+
+  onApplicationBootstrap() {
+    const server = this.adapterHost.httpAdapter?.getHttpServer() as
+      | Server
+      | undefined;
+    if (!server) {
+      return;
+    }
+
+    server.on(
+      'upgrade',
+      (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        if (url.pathname !== EVENTS_WS_PATH) {
+          socket.destroy();
+          return;
+        }
+        this.authService
+          .authorize(
+            {
+              method: req.method || 'GET',
+              url: req.url || '/',
+              headers: req.headers,
+              remoteAddress: req.socket.remoteAddress,
+            },
+            'read',
+          )
+          .then(() =>
+            this.wss.handleUpgrade(req, socket, head, (ws) =>
+              this.handleConnection(ws, url.searchParams),
+            ),
+          )
+          .catch((error: unknown) => {
+            const status =
+              error instanceof HttpException ? error.getStatus() : 500;
+            socket.end(`HTTP/1.1 ${status} ${STATUS_CODES[status]}\r\n\r\n`);
+          });
+      },
+    );
+    this.logger.log(`事件WebSocket已启用: ${EVENTS_WS_PATH}`);
+  }
+
+  onModuleDestroy() {
+    for (const [ws, subscription] of this.subscriptions) {
+      subscription.unsubscribe();
+      ws.close();
+    }
+    this.subscriptions.clear();
+    this.wss.close();
+  }
+
+  private handleConnection(ws: WebSocket, params: URLSearchParams) {
+    this.subscribe(ws, {
+      op: 'subscribe',
+      category: params.get('category') ?? undefined,
+      instId: params.get('instId') ?? undefined,
+      account: params.get('account') ?? undefined,
+      replay: parseReplayParam(
+        params.get('replay') ?? undefined,
+        DEFAULT_REPLAY,
+        MAX_REPLAY,
+      ),
+    });
+
+    // 默认 binaryType 下消息为 Buffer
+    ws.on('message', (data: WebSocket.RawData) => {
+      try {
+        const request = JSON.parse(
+          (data as Buffer).toString('utf-8'),
+        ) as SubscribeRequest;
+        if (request.op !== 'subscribe') {
+          throw new Error(`不支持的操作: ${String(request.op)}`);
+        }
+        // 更换过滤条件时默认不再回放
+        this.subscribe(ws, { ...request, replay: request.replay ?? 0 });
+      } catch (error: unknown) {
+        this.sendError(ws, error);
+      }
+    });
+
+    ws.on('close', () => {
+      this.subscriptions.get(ws)?.unsubscribe();
+      this.subscriptions.delete(ws);
+    });
+  }
+
+  /**
+   * 按过滤条件（重新）订阅事件
+   */
+  private subscribe(ws: WebSocket, request: SubscribeRequest) {
+    let eventFilter: EventFilter;
+    try {
+      eventFilter = parseEventFilter(request);
+    } catch (error: unknown) {
+      this.sendError(ws, error);
+      return;
+    }
+
+    this.subscriptions.get(ws)?.unsubscribe();
+    const replay = Math.min(Math.max(request.replay ?? 0, 0), MAX_REPLAY);
+    this.subscriptions.set(
+      ws,
+      this.eventBus.stream(eventFilter, replay).subscribe((event) => {
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(JSON.stringify({ op: 'event', event }));
+        }
+      }),
+    );
+  }
+
+  private sendError(ws: WebSocket, error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ op: 'error', message }));
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { Global, Module } from '@nestjs/common';
+import { EventBusService } from './event-bus.service';
+import { EventsController } from './events.controller';
+import { EventsGateway } from './events.gateway';
+
+@Global()
+@Module({
+  controllers: [EventsController],
+  providers: [EventBusService, EventsGateway],
+  exports: [EventBusService],
+})
+export class EventsModule {}
@@ -0,0 +1,6 @@
+export * from './event.interface';
+export * from './event-bus.service';
+export * from './event-filter.util';
+export * from './events.controller';
+export * from './events.gateway';
+export * from './events.module';
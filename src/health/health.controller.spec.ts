@@ -0,0 +1,60 @@
+import { Reflector } from '@nestjs/core';
+import type { Response } from 'express';
+import { HealthController } from './health.controller';
+import { HealthService } from './health.service';
+import { ReadinessReport } from './health.interface';
+import { AUTH_REQUIREMENT_KEY } from '../auth';
+
+describe('HealthController', () => {
+  const report: ReadinessReport = {
+    status: 'degraded',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    problems: ['[main] 未登录'],
+    accounts: [
+      {
+        account: 'main',
+        healthy: false,
+        problems: ['未登录'],
+        readyState: 'OPEN',
+        loggedIn: false,
+        ordersSubscribed: false,
+        subscriptions: [],
+        reconnectCount: 2,
+        lastError: '登录失败: Invalid sign',
+      },
+    ],
+    notifiers: [],
+  };
+
+  let res: { status: jest.Mock };
+  let controller: HealthController;
+
+  beforeEach(() => {
+    res = { status: jest.fn() };
+    controller = new HealthController({
+      getReadiness: () => report,
+    } as unknown as HealthService);
+  });
+
+  const requirementOf = (handler: keyof HealthController) =>
+    new Reflector().getAllAndOverride<string>(AUTH_REQUIREMENT_KEY, [
+      HealthController.prototype[handler],
+      HealthController,
+    ]);
+
+  it('should only expose the overall state publicly', () => {
+    expect(controller.getReadiness(res as unknown as Response)).toEqual({
+      status: 'degraded',
+      timestamp: report.timestamp,
+    });
+    expect(res.status).toHaveBeenCalledWith(503);
+    expect(requirementOf('getReadiness')).toBe('public');
+    expect(requirementOf('getHealth')).toBe('public');
+  });
+
+  it('should require the read role for the detailed report', () => {
+    expect(controller.getDetails(res as unknown as Response)).toBe(report);
+    expect(res.status).toHaveBeenCalledWith(503);
+    expect(requirementOf('getDetails')).toBe('read');
+  });
+});
@@ -0,0 +1,53 @@
+import { Controller, Get, HttpStatus, Res } from '@nestjs/common';
+import type { Response } from 'express';
+import { HealthService } from './health.service';
+import type { ReadinessReport, ReadinessSummary } from './health.interface';
+import { Public, RequireRole } from '../auth';
+
+@Public()
+@Controller('health')
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  /**
+   * 健康检查（同 /health/ready）
+   */
+  @Get()
+  getHealth(@Res({ passthrough: true }) res: Response): ReadinessSummary {
+    return this.getReadiness(res);
+  }
+
+  /**
+   * 存活检查
+   */
+  @Get('live')
+  getLiveness(): { status: 'ok'; timestamp: string; uptime: number } {
+    return this.healthService.getLiveness();
+  }
+
+  /**
+   * 就绪检查，不健康时返回 503（无需认证，只返回总体状态）
+   */
+  @Get('ready')
+  getReadiness(@Res({ passthrough: true }) res: Response): ReadinessSummary {
+    const { status, timestamp } = this.getReport(res);
+    return { status, timestamp };
+  }
+
+  /**
+   * 就绪检查详情（各账户连接和通知渠道的状态、错误信息），不健康时返回 503
+   */
+  @Get('details')
+  @RequireRole('read')
+  getDetails(@Res({ passthrough: true }) res: Response): ReadinessReport {
+    return this.getReport(res);
+  }
+
+  private getReport(res: Response): ReadinessReport {
+    const report = this.healthService.getReadiness();
+    if (report.status !== 'ok') {
+      res.status(HttpStatus.SERVICE_UNAVAILABLE);
+    }
+    return report;
+  }
+}
@@ -0,0 +1,51 @@
+import type { OkxConnectionStatus } from '../okx/okx-connection';
+
+/**
+ * 健康状态
+ */
+export type HealthStatus = 'ok' | 'degraded';
+
+/**
+ * 单个账户连接的健康检查结果
+ */
+export interface AccountHealth {
+  account: string;
+  healthy: boolean;
+  problems: string[]; // 不健康的原因
+  readyState: OkxConnectionStatus['readyState'];
+  loggedIn: boolean;
+  ordersSubscribed: boolean; // orders 频道订阅是否已确认
+  subscriptions: { channel: string; acknowledged: boolean }[];
+  lastMessageAgoMs?: number; // 距最近一次收到消息的时间
+  lastPongAgoMs?: number; // 距最近一次收到 pong 的时间
+  reconnectCount: number;
+  lastError?: string;
+}
+
+/**
+ * 单个通知渠道的健康检查结果
+ */
+export interface NotifierHealth {
+  name: string;
+  healthy: boolean;
+  consecutiveFailures: number;
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+  lastError?: string;
+}
+
+/**
+ * 就绪检查结果
+ */
+export interface ReadinessReport {
+  status: HealthStatus;
+  timestamp: string;
+  problems: string[]; // 所有不健康原因的汇总
+  accounts: AccountHealth[];
+  notifiers: NotifierHealth[];
+}
+
+/**
+ * 公开的就绪检查结果（不含账户和渠道明细）
+ */
+export type ReadinessSummary = Pick<ReadinessReport, 'status' | 'timestamp'>;
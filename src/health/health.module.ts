@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { HealthService } from './health.service';
+import { HealthController } from './health.controller';
+import { OkxModule } from '../okx/okx.module';
+import { NotifyModule } from '../notify/notify.module';
+
+@Module({
+  imports: [OkxModule, NotifyModule],
+  controllers: [HealthController],
+  providers: [HealthService],
+})
+export class HealthModule {}
@@ -0,0 +1,90 @@
+import { ConfigService } from '@nestjs/config';
+import { HealthService } from './health.service';
+import { OkxService } from '../okx/okx.service';
+import { OkxConnectionStatus } from '../okx/okx-connection';
+import { NotifierRegistry } from '../notify/notifier.registry';
+import { OutboxService } from '../notify/outbox/outbox.service';
+import { ChannelHealth } from '../notify/outbox/outbox.interface';
+import { toTypedConfig } from '../config/config.loader';
+
+describe('HealthService', () => {
+  let statuses: OkxConnectionStatus[];
+  let channelHealth: ChannelHealth[];
+  let service: HealthService;
+
+  const healthyStatus = (): OkxConnectionStatus => ({
+    account: 'main',
+    endpoint: 'private',
+    simulated: false,
+    readyState: 'OPEN',
+    loggedIn: true,
+    subscriptions: [{ channel: 'orders', instType: 'ANY', acknowledged: true }],
+    connectedAt: Date.now() - 120_000,
+    lastMessageAt: Date.now() - 5_000,
+    lastPongAt: Date.now() - 5_000,
+    reconnectCount: 0,
+    reconnectAttempts: 0,
+  });
+
+  beforeEach(() => {
+    statuses = [healthyStatus()];
+    channelHealth = [];
+    service = new HealthService(
+      {
+        get: (key: string) => toTypedConfig({})[key],
+      } as unknown as ConfigService,
+      { getStatus: () => statuses } as unknown as OkxService,
+      {
+        getEnabled: () => [{ name: 'wechat' }],
+      } as unknown as NotifierRegistry,
+      { getChannelHealth: () => channelHealth } as unknown as OutboxService,
+    );
+  });
+
+  it('should be ready when connected, logged in and subscribed', () => {
+    const report = service.getReadiness();
+    expect(report.status).toBe('ok');
+    expect(report.accounts[0]).toMatchObject({
+      healthy: true,
+      ordersSubscribed: true,
+    });
+  });
+
+  it('should report each connection problem', () => {
+    statuses = [
+      {
+        ...healthyStatus(),
+        readyState: 'CLOSED',
+        loggedIn: false,
+        subscriptions: [
+          { channel: 'orders', instType: 'ANY', acknowledged: false },
+        ],
+      },
+    ];
+
+    const report = service.getReadiness();
+    expect(report.status).toBe('degraded');
+    expect(report.problems).toEqual([
+      '[main] WebSocket未连接 (CLOSED)',
+      '[main] 未登录',
+      '[main] 订阅未确认: orders',
+    ]);
+  });
+
+  it('should be degraded when no message arrives in time', () => {
+    statuses = [{ ...healthyStatus(), lastMessageAt: Date.now() - 90_000 }];
+    expect(service.getReadiness().problems).toEqual([
+      '[main] 超过 60 秒未收到消息',
+    ]);
+  });
+
+  it('should be degraded when a notifier keeps failing', () => {
+    channelHealth = [{ channel: 'wechat', consecutiveFailures: 3 }];
+    const report = service.getReadiness();
+    expect(report.status).toBe('degraded');
+    expect(report.notifiers[0]).toMatchObject({
+      name: 'wechat',
+      healthy: false,
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OkxService } from '../okx/okx.service';
+import { OkxConnectionStatus } from '../okx/okx-connection';
+import { NotifierRegistry } from '../notify/notifier.registry';
+import { OutboxService } from '../notify/outbox/outbox.service';
+import {
+  AccountHealth,
+  NotifierHealth,
+  ReadinessReport,
+} from './health.interface';
+
+/**
+ * 健康检查
+ *
+ * 就绪条件：每个账户的连接已建立、已登录、订阅已确认、最近收到过消息，
+ * 且至少有一个已启用的通知渠道、没有渠道连续失败超过阈值
+ */
+@Injectable()
+export class HealthService {
+  private readonly maxSilenceMs: number;
+  private readonly maxNotifyFailures: number;
+
+  constructor(
+    private configService: ConfigService,
+    private okxService: OkxService,
+    private notifierRegistry: NotifierRegistry,
+    private outboxService: OutboxService,
+  ) {
+    this.maxSilenceMs =
+      this.configService.get<number>('HEALTH_MAX_SILENCE_SEC')! * 1000;
+    this.maxNotifyFailures = this.configService.get<number>(
+      'HEALTH_NOTIFY_MAX_FAILURES',
+    )!;
+  }
+
+  /**
+   * 存活检查（进程能响应即存活）
+   */
+  getLiveness(): { status: 'ok'; timestamp: string; uptime: number } {
+    return {
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      uptime: Math.round(process.uptime()),
+    };
+  }
+
+  /**
+   * 就绪检查
+   */
+  getReadiness(): ReadinessReport {
+    const now = Date.now();
+    const accounts = this.okxService
+      .getStatus()
+      .map((status) => this.checkAccount(status, now));
+    const notifiers = this.checkNotifiers();
+
+    const problems = accounts.flatMap((account) =>
+      account.problems.map((problem) => `[${account.account}] ${problem}`),
+    );
+    if (notifiers.length === 0) {
+      problems.push('没有已启用的通知渠道');
+    }
+    for (const notifier of notifiers.filter((item) => !item.healthy)) {
+      problems.push(
+        `[${notifier.name}] 通知连续失败 ${notifier.consecutiveFailures} 次`,
+      );
+    }
+
+    return {
+      status: problems.length === 0 ? 'ok' : 'degraded',
+      timestamp: new Date(now).toISOString(),
+      problems,
+      accounts,
+      notifiers,
+    };
+  }
+
+  private checkAccount(
+    status: OkxConnectionStatus,
+    now: number,
+  ): AccountHealth {
+    const problems: string[] = [];
+    if (status.readyState !== 'OPEN') {
+      problems.push(`WebSocket未连接 (${status.readyState})`);
+    }
+    if (status.endpoint === 'private' && !status.loggedIn) {
+      problems.push('未登录');
+    }
+    const pending = status.subscriptions.filter((sub) => !sub.acknowledged);
+    if (pending.length > 0) {
+      problems.push(
+        `订阅未确认: ${pending.map((sub) => sub.channel).join(', ')}`,
+      );
+    }
+
+    const lastMessageAgoMs =
+      status.lastMessageAt !== undefined
+        ? now - status.lastMessageAt
+        : undefined;
+    if (
+      status.readyState === 'OPEN' &&
+      (lastMessageAgoMs ?? now - (status.connectedAt ?? now)) >
+        this.maxSilenceMs
+    ) {
+      problems.push(`超过 ${this.maxSilenceMs / 1000} 秒未收到消息`);
+    }
+
+    return {
+      account: status.account,
+      healthy: problems.length === 0,
+      problems,
+      readyState: status.readyState,
+      loggedIn: status.loggedIn,
+      ordersSubscribed: status.subscriptions.some(
+        (sub) => sub.channel === 'orders' && sub.acknowledged,
+      ),
+      subscriptions: status.subscriptions.map((sub) => ({
+        channel: sub.channel,
+        acknowledged: sub.acknowledged,
+      })),
+      lastMessageAgoMs,
+      lastPongAgoMs:
+        status.lastPongAt !== undefined ? now - status.lastPongAt : undefined,
+      reconnectCount: status.reconnectCount,
+      lastError: status.lastError,
+    };
+  }
+
+  private checkNotifiers(): NotifierHealth[] {
+    const channelHealth = new Map(
+      this.outboxService
+        .getChannelHealth()
+        .map((health) => [health.channel, health]),
+    );
+
+    return this.notifierRegistry.getEnabled().map((notifier) => {
+      const health = channelHealth.get(notifier.name);
+      const consecutiveFailures = health?.consecutiveFailures ?? 0;
+      return {
+        name: notifier.name,
+        healthy:
+          this.maxNotifyFailures <= 0 ||
+          consecutiveFailures < this.maxNotifyFailures,
+        consecutiveFailures,
+        lastSuccessAt: health?.lastSuccessAt,
+        lastFailureAt: health?.lastFailureAt,
+        lastError: health?.lastError,
+      };
+    });
+  }
+}
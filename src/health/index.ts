@@ -0,0 +1,4 @@
+export * from './health.interface';
+export * from './health.service';
+export * from './health.controller';
+export * from './health.module';
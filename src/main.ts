@@ -1,8 +1,11 @@
 import { NestFactory } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
-  await app.listen(process.env.PORT ?? 3000);
+  const app = await NestFactory.create(AppModule, {
+    rawBody: true, // HMAC 签名校验需要原始请求体
+  });
+  await app.listen(app.get(ConfigService).get<number>('PORT')!);
 }
 bootstrap();
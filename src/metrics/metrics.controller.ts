@@ -0,0 +1,22 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { Registry } from 'prom-client';
+import { MetricsService } from './metrics.service';
+import { OkxService } from '../okx/okx.service';
+
+@Controller('metrics')
+export class MetricsController {
+  constructor(
+    private readonly metricsService: MetricsService,
+    private readonly okxService: OkxService,
+  ) {}
+
+  /**
+   * Prometheus 指标（文本格式）
+   */
+  @Get()
+  @Header('Content-Type', Registry.PROMETHEUS_CONTENT_TYPE)
+  getMetrics(): Promise<string> {
+    this.metricsService.updateConnections(this.okxService.getStatus());
+    return this.metricsService.getMetrics();
+  }
+}
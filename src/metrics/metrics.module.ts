@@ -0,0 +1,13 @@
+import { Global, Module } from '@nestjs/common';
+import { MetricsService } from './metrics.service';
+import { MetricsController } from './metrics.controller';
+import { OkxModule } from '../okx/okx.module';
+
+@Global()
+@Module({
+  imports: [OkxModule],
+  controllers: [MetricsController],
+  providers: [MetricsService],
+  exports: [MetricsService],
+})
+export class MetricsModule {}
@@ -0,0 +1,56 @@
+import { ConfigService } from '@nestjs/config';
+import { MetricsService } from './metrics.service';
+import { OkxConnectionStatus } from '../okx/okx-connection';
+import { toTypedConfig } from '../config/config.loader';
+
+describe('MetricsService', () => {
+  let service: MetricsService;
+
+  beforeEach(() => {
+    service = new MetricsService({
+      get: (key: string) =>
+        toTypedConfig({ METRICS_DEFAULT_METRICS: 'false' })[key],
+    } as unknown as ConfigService);
+  });
+
+  it('should expose counters and histograms in Prometheus format', async () => {
+    service.recordMessage('main', 'orders');
+    service.recordMessage('main', 'orders');
+    service.recordOrder('main', 'filled', 'SWAP');
+    service.recordNotify('wechat', true, 0.2);
+    service.recordNotify('wechat', false, 3);
+
+    const text = await service.getMetrics();
+    expect(text).toContain(
+      'okx_ws_messages_received_total{account="main",channel="orders"} 2',
+    );
+    expect(text).toContain(
+      'okx_orders_total{account="main",state="filled",inst_type="SWAP"} 1',
+    );
+    expect(text).toContain('okx_notify_attempts_total{channel="wechat"} 2');
+    expect(text).toContain('okx_notify_failures_total{channel="wechat"} 1');
+    expect(text).toContain(
+      'okx_notify_duration_seconds_bucket{le="0.25",channel="wechat",result="success"} 1',
+    );
+  });
+
+  it('should refresh connection gauges from the latest status', async () => {
+    const now = Date.now();
+    const status = {
+      account: 'main',
+      readyState: 'OPEN',
+      loggedIn: true,
+      lastMessageAt: now - 12_000,
+    } as OkxConnectionStatus;
+
+    service.updateConnections([status, { ...status, account: 'sub' }], now);
+    service.updateConnections([{ ...status, loggedIn: false }], now);
+
+    const text = await service.getMetrics();
+    expect(text).toContain('okx_ws_connection_up{account="main"} 0');
+    expect(text).toContain(
+      'okx_ws_last_message_age_seconds{account="main"} 12',
+    );
+    expect(text).not.toContain('account="sub"');
+  });
+});
@@ -0,0 +1,204 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from 'prom-client';
+import { OkxConnectionStatus } from '../okx/okx-connection';
+
+// 通知发送耗时的分桶（秒）
+const NOTIFY_DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+/**
+ * Prometheus 指标
+ *
+ * 使用独立的 Registry，计数器和直方图由各模块在事件发生时更新，
+ * 连接状态相关的仪表在每次采集时根据最新状态刷新
+ */
+@Injectable()
+export class MetricsService {
+  readonly registry = new Registry();
+
+  private readonly messagesReceived = new Counter({
+    name: 'okx_ws_messages_received_total',
+    help: '收到的推送数据消息数',
+    labelNames: ['account', 'channel'],
+    registers: [this.registry],
+  });
+
+  private readonly orders = new Counter({
+    name: 'okx_orders_total',
+    help: '订单更新数（去重后）',
+    labelNames: ['account', 'state', 'inst_type'],
+    registers: [this.registry],
+  });
+
+  private readonly reconnects = new Counter({
+    name: 'okx_ws_reconnects_total',
+    help: 'WebSocket重连次数',
+    labelNames: ['account'],
+    registers: [this.registry],
+  });
+
+  private readonly loginFailures = new Counter({
+    name: 'okx_ws_login_failures_total',
+    help: '登录失败次数',
+    labelNames: ['account'],
+    registers: [this.registry],
+  });
+
+  private readonly messageErrors = new Counter({
+    name: 'okx_ws_message_errors_total',
+    help: '解析（stage=parse）或处理（stage=handler）消息失败次数',
+    labelNames: ['account', 'stage'],
+    registers: [this.registry],
+  });
+
+  private readonly connectionUp = new Gauge({
+    name: 'okx_ws_connection_up',
+    help: 'WebSocket是否已连接并登录（1 是，0 否）',
+    labelNames: ['account'],
+    registers: [this.registry],
+  });
+
+  private readonly lastMessageAge = new Gauge({
+    name: 'okx_ws_last_message_age_seconds',
+    help: '距最近一次收到消息（含 pong）的秒数',
+    labelNames: ['account'],
+    registers: [this.registry],
+  });
+
+  private readonly notifyAttempts = new Counter({
+    name: 'okx_notify_attempts_total',
+    help: '通知发送次数（含重试）',
+    labelNames: ['channel'],
+    registers: [this.registry],
+  });
+
+  private readonly notifySuccesses = new Counter({
+    name: 'okx_notify_successes_total',
+    help: '通知发送成功次数',
+    labelNames: ['channel'],
+    registers: [this.registry],
+  });
+
+  private readonly notifyFailures = new Counter({
+    name: 'okx_notify_failures_total',
+    help: '通知发送失败次数',
+    labelNames: ['channel'],
+    registers: [this.registry],
+  });
+
+  private readonly notifyDuration = new Histogram({
+    name: 'okx_notify_duration_seconds',
+    help: '通知发送耗时',
+    labelNames: ['channel', 'result'],
+    buckets: NOTIFY_DURATION_BUCKETS,
+    registers: [this.registry],
+  });
+
+  private readonly wechatDuration = new Histogram({
+    name: 'okx_wechat_template_message_duration_seconds',
+    help: '微信模板消息接口请求耗时',
+    labelNames: ['result'],
+    buckets: NOTIFY_DURATION_BUCKETS,
+    registers: [this.registry],
+  });
+
+  constructor(private configService: ConfigService) {
+    if (this.configService.get<boolean>('METRICS_DEFAULT_METRICS')) {
+      collectDefaultMetrics({ register: this.registry });
+    }
+  }
+
+  /**
+   * 记录收到的推送数据
+   */
+  recordMessage(account: string, channel: string) {
+    this.messagesReceived.inc({ account, channel });
+  }
+
+  /**
+   * 记录订单更新
+   */
+  recordOrder(account: string, state: string, instType: string) {
+    this.orders.inc({ account, state, inst_type: instType });
+  }
+
+  /**
+   * 记录重连
+   */
+  recordReconnect(account: string) {
+    this.reconnects.inc({ account });
+  }
+
+  /**
+   * 记录登录失败
+   */
+  recordLoginFailure(account: string) {
+    this.loginFailures.inc({ account });
+  }
+
+  /**
+   * 记录消息失败
+   * @param stage parse 为消息无法解析，handler 为频道处理器等下游处理失败
+   */
+  recordMessageError(account: string, stage: 'parse' | 'handler') {
+    this.messageErrors.inc({ account, stage });
+  }
+
+  /**
+   * 记录一次通知发送
+   * @param seconds 发送耗时（秒）
+   */
+  recordNotify(channel: string, success: boolean, seconds: number) {
+    this.notifyAttempts.inc({ channel });
+    (success ? this.notifySuccesses : this.notifyFailures).inc({ channel });
+    this.notifyDuration.observe(
+      { channel, result: success ? 'success' : 'failure' },
+      seconds,
+    );
+  }
+
+  /**
+   * 记录一次微信模板消息请求
+   * @param seconds 请求耗时（秒）
+   */
+  recordWechatRequest(success: boolean, seconds: number) {
+    this.wechatDuration.observe(
+      { result: success ? 'success' : 'failure' },
+      seconds,
+    );
+  }
+
+  /**
+   * 按最新的连接状态刷新连接仪表
+   */
+  updateConnections(statuses: OkxConnectionStatus[], now = Date.now()) {
+    this.connectionUp.reset();
+    this.lastMessageAge.reset();
+    for (const status of statuses) {
+      const labels = { account: status.account };
+      this.connectionUp.set(
+        labels,
+        status.readyState === 'OPEN' &&
+          (status.loggedIn || status.endpoint === 'public')
+          ? 1
+          : 0,
+      );
+      if (status.lastMessageAt !== undefined) {
+        this.lastMessageAge.set(labels, (now - status.lastMessageAt) / 1000);
+      }
+    }
+  }
+
+  /**
+   * 以 Prometheus 文本格式输出全部指标
+   */
+  getMetrics(): Promise<string> {
+    return this.registry.metrics();
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * 通知静音
+ */
+export interface NotifyMute {
+  id: string;
+  instId?: string; // 只静音该产品的通知，为空时静音全部通知
+  until?: number; // 静音截止时间（毫秒时间戳），为空时直到手动取消
+  allowUrgent?: boolean; // 紧急通知是否照常发送（为空时视为 true）
+  reason?: string;
+  createdAt: number;
+}
+
+/**
+ * 创建静音的参数
+ */
+export interface NotifyMuteInput {
+  instId?: string;
+  duration?: string; // 静音时长，如 30m、2h、1d
+  until?: string | number; // 截止时间（毫秒时间戳或 ISO 时间），与 duration 二选一
+  allowUrgent?: boolean; // 默认 true
+  reason?: string;
+}
+
+/**
+ * 免打扰时段（每天重复，可跨零点）
+ */
+export interface QuietHours {
+  start: string; // 开始时间 HH:mm
+  end: string; // 结束时间 HH:mm
+  timeZone: string;
+  allowUrgent: boolean; // 紧急通知（连接告警、风险告警等）是否照常发送
+}
+
+/**
+ * 静音状态（持久化在 data/notify-mutes.json）
+ */
+export interface NotifyMuteState {
+  mutes: NotifyMute[];
+  quietHours?: QuietHours;
+}
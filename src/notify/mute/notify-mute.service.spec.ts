@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NotifyMuteService } from './notify-mute.service';
+import { NotificationMessage } from '../notifier.interface';
+import { toTypedConfig } from '../../config/config.loader';
+
+describe('NotifyMuteService', () => {
+  const cwd = process.cwd();
+  let tmpDir: string;
+  let service: NotifyMuteService;
+
+  // 2026-01-01 12:00 UTC
+  const noon = Date.UTC(2026, 0, 1, 12, 0);
+
+  const message = (
+    instId: string,
+    level?: NotificationMessage['level'],
+  ): NotificationMessage => ({
+    title: '订单更新',
+    time: '',
+    instId,
+    side: '',
+    size: '',
+    state: '',
+    level,
+  });
+
+  const createService = () =>
+    new NotifyMuteService({
+      get: (key: string) => toTypedConfig({})[key],
+    } as unknown as ConfigService);
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'notify-mute-'));
+    process.chdir(tmpDir);
+    service = createService();
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should mute a single instrument until the mute expires', () => {
+    const mute = service.mute(
+      { instId: 'btc-usdt-swap', duration: '30m' },
+      noon,
+    );
+    expect(mute).toMatchObject({
+      instId: 'BTC-USDT-SWAP',
+      until: noon + 30 * 60 * 1000,
+    });
+
+    expect(service.check(message('BTC-USDT-SWAP'), noon)).toBe(
+      'BTC-USDT-SWAP 已静音',
+    );
+    expect(service.check(message('ETH-USDT-SWAP'), noon)).toBeUndefined();
+    expect(
+      service.check(message('BTC-USDT-SWAP'), noon + 31 * 60 * 1000),
+    ).toBeUndefined();
+    expect(service.getMutes(noon + 31 * 60 * 1000)).toEqual([]);
+  });
+
+  it('should mute everything until unmuted and persist mutes', () => {
+    const mute = service.mute({ reason: '维护' }, noon);
+    expect(service.check(message('ETH-USDT'), noon)).toBe('全部通知已静音');
+
+    // 重启后仍然生效
+    service = createService();
+    expect(service.getMutes(noon)).toEqual([mute]);
+    expect(service.unmute(mute.id)).toBe(true);
+    expect(service.unmute(mute.id)).toBe(false);
+    expect(service.check(message('ETH-USDT'), noon)).toBeUndefined();
+  });
+
+  it('should let urgent notifications through mutes unless disallowed', () => {
+    service.mute({}, noon);
+    service.mute({ instId: 'BTC-USDT-SWAP' }, noon);
+    expect(
+      service.check(message('BTC-USDT-SWAP', 'urgent'), noon),
+    ).toBeUndefined();
+
+    service.mute({ instId: 'BTC-USDT-SWAP', allowUrgent: false }, noon);
+    expect(service.check(message('BTC-USDT-SWAP', 'urgent'), noon)).toBe(
+      'BTC-USDT-SWAP 已静音',
+    );
+    expect(
+      service.check(message('ETH-USDT-SWAP', 'urgent'), noon),
+    ).toBeUndefined();
+    expect(service.check(message('ETH-USDT-SWAP'), noon)).toBe(
+      '全部通知已静音',
+    );
+  });
+
+  it('should validate mute input', () => {
+    expect(() => service.mute({ duration: '10x' }, noon)).toThrow(
+      BadRequestException,
+    );
+    expect(() => service.mute({ until: noon - 1 }, noon)).toThrow(
+      'until 必须晚于当前时间',
+    );
+    expect(() =>
+      service.mute({ duration: '1h', until: noon + 1000 }, noon),
+    ).toThrow('duration 和 until 只能指定一个');
+  });
+
+  it('should hold non-urgent notifications during quiet hours', () => {
+    service.setQuietHours({ start: '23:00', end: '07:00', timeZone: 'UTC' });
+
+    const night = Date.UTC(2026, 0, 1, 23, 30);
+    const morning = Date.UTC(2026, 0, 2, 6, 59);
+    expect(service.isQuietTime(noon)).toBe(false);
+    expect(service.isQuietTime(night)).toBe(true);
+    expect(service.isQuietTime(morning)).toBe(true);
+    expect(service.isQuietTime(Date.UTC(2026, 0, 2, 7, 0))).toBe(false);
+
+    expect(service.check(message('BTC-USDT'), night)).toBe('免打扰时段');
+    expect(service.check(message('BTC-USDT', 'urgent'), night)).toBeUndefined();
+
+    service.setQuietHours({
+      start: '12:00',
+      end: '13:00',
+      timeZone: 'Asia/Shanghai',
+      allowUrgent: false,
+    });
+    // UTC 04:30 = 上海 12:30
+    expect(
+      service.check(message('BTC-USDT', 'urgent'), Date.UTC(2026, 0, 1, 4, 30)),
+    ).toBe('免打扰时段');
+
+    expect(service.clearQuietHours()).toBe(true);
+    expect(service.isQuietTime(night)).toBe(false);
+    expect(() =>
+      service.setQuietHours({ start: '25:00', end: '07:00' }),
+    ).toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,219 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { JsonFileStore } from '../../common/storage/json-file.store';
+import {
+  parseDurationParam,
+  parseTimeParam,
+} from '../../common/utils/query.util';
+import { NotificationMessage } from '../notifier.interface';
+import {
+  NotifyMute,
+  NotifyMuteInput,
+  NotifyMuteState,
+  QuietHours,
+} from './notify-mute.interface';
+
+/**
+ * 解析 HH:mm，返回当天的分钟数
+ */
+function parseClock(name: string, value: unknown): number {
+  const match =
+    typeof value === 'string' ? /^(\d{1,2}):(\d{2})$/.exec(value) : null;
+  if (!match || parseInt(match[1]) > 23 || parseInt(match[2]) > 59) {
+    throw new BadRequestException(
+      `${name} 不是有效的时间（HH:mm）: ${String(value)}`,
+    );
+  }
+  return parseInt(match[1]) * 60 + parseInt(match[2]);
+}
+
+/**
+ * 通知静音和免打扰时段
+ *
+ * 静音可针对全部通知或单个产品，到期自动失效；
+ * 免打扰时段每天重复。静音和免打扰期间默认都照常发送紧急通知。
+ * 被静音的通知直接丢弃，不进入发件箱
+ */
+@Injectable()
+export class NotifyMuteService {
+  private readonly logger = new Logger(NotifyMuteService.name);
+  private readonly store = new JsonFileStore<NotifyMuteState>(
+    'notify-mutes.json',
+    { mutes: [] },
+  );
+  private readonly defaultTimeZone: string;
+  private state: NotifyMuteState;
+
+  constructor(private configService: ConfigService) {
+    this.defaultTimeZone =
+      this.configService.get<string>('REPORT_TIMEZONE') ||
+      Intl.DateTimeFormat().resolvedOptions().timeZone;
+    this.state = this.store.load();
+  }
+
+  /**
+   * 生效中的静音（清理已过期的）
+   */
+  getMutes(now = Date.now()): NotifyMute[] {
+    const active = this.state.mutes.filter(
+      (mute) => mute.until === undefined || mute.until > now,
+    );
+    if (active.length !== this.state.mutes.length) {
+      this.state = { ...this.state, mutes: active };
+      this.store.save(this.state);
+    }
+    return active;
+  }
+
+  /**
+   * 添加静音
+   */
+  mute(input: NotifyMuteInput, now = Date.now()): NotifyMute {
+    if (input.duration && input.until !== undefined) {
+      throw new BadRequestException('duration 和 until 只能指定一个');
+    }
+    const until = input.duration
+      ? now + parseDurationParam('duration', input.duration)!
+      : parseTimeParam('until', input.until?.toString());
+    if (until !== undefined && until <= now) {
+      throw new BadRequestException('until 必须晚于当前时间');
+    }
+    if (input.instId !== undefined && typeof input.instId !== 'string') {
+      throw new BadRequestException('instId 必须是字符串');
+    }
+
+    const mute: NotifyMute = {
+      id: crypto.randomUUID(),
+      instId: input.instId?.trim().toUpperCase() || undefined,
+      until,
+      allowUrgent: input.allowUrgent !== false,
+      reason: input.reason,
+      createdAt: now,
+    };
+    this.state = {
+      ...this.state,
+      mutes: [...this.getMutes(now), mute],
+    };
+    this.store.save(this.state);
+    this.logger.log(
+      `通知已静音: ${mute.instId ?? '全部'}${until ? ` 至 ${new Date(until).toISOString()}` : ''}`,
+    );
+    return mute;
+  }
+
+  /**
+   * 取消静音
+   */
+  unmute(id: string): boolean {
+    const mutes = this.state.mutes.filter((mute) => mute.id !== id);
+    if (mutes.length === this.state.mutes.length) {
+      return false;
+    }
+    this.state = { ...this.state, mutes };
+    this.store.save(this.state);
+    this.logger.log(`已取消静音: ${id}`);
+    return true;
+  }
+
+  /**
+   * 当前的免打扰时段
+   */
+  getQuietHours(): QuietHours | undefined {
+    return this.state.quietHours;
+  }
+
+  /**
+   * 设置免打扰时段
+   */
+  setQuietHours(input: Partial<QuietHours>): QuietHours {
+    const startMinutes = parseClock('start', input.start);
+    const endMinutes = parseClock('end', input.end);
+    if (startMinutes === endMinutes) {
+      throw new BadRequestException('start 和 end 不能相同');
+    }
+    const timeZone = input.timeZone || this.defaultTimeZone;
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+    } catch {
+      throw new BadRequestException(`timeZone 不是有效的时区: ${timeZone}`);
+    }
+
+    const quietHours: QuietHours = {
+      start: input.start!,
+      end: input.end!,
+      timeZone,
+      allowUrgent: input.allowUrgent !== false,
+    };
+    this.state = { ...this.state, quietHours };
+    this.store.save(this.state);
+    this.logger.log(
+      `免打扰时段: ${quietHours.start}-${quietHours.end} (${timeZone})`,
+    );
+    return quietHours;
+  }
+
+  /**
+   * 取消免打扰时段
+   */
+  clearQuietHours(): boolean {
+    if (!this.state.quietHours) {
+      return false;
+    }
+    this.state = { mutes: this.state.mutes };
+    this.store.save(this.state);
+    return true;
+  }
+
+  /**
+   * 当前是否处于免打扰时段
+   */
+  isQuietTime(now = Date.now()): boolean {
+    const quietHours = this.state.quietHours;
+    if (!quietHours) {
+      return false;
+    }
+
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: quietHours.timeZone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+    const part = (type: string) =>
+      parseInt(parts.find((item) => item.type === type)?.value ?? '0');
+    const minutes = part('hour') * 60 + part('minute');
+    const start = parseClock('start', quietHours.start);
+    const end = parseClock('end', quietHours.end);
+
+    // 开始晚于结束时跨零点，如 23:00-07:00
+    return start < end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+  }
+
+  /**
+   * 判断通知是否被静音，返回原因；未静音时返回 undefined
+   */
+  check(message: NotificationMessage, now = Date.now()): string | undefined {
+    const urgent = message.level === 'urgent';
+    for (const mute of this.getMutes(now)) {
+      if (urgent && mute.allowUrgent !== false) {
+        continue;
+      }
+      if (!mute.instId) {
+        return '全部通知已静音';
+      }
+      if (mute.instId === message.instId.toUpperCase()) {
+        return `${mute.instId} 已静音`;
+      }
+    }
+    if (
+      this.isQuietTime(now) &&
+      !(this.state.quietHours!.allowUrgent && urgent)
+    ) {
+      return '免打扰时段';
+    }
+    return undefined;
+  }
+}
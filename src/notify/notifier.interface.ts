@@ -0,0 +1,42 @@
+/**
+ * 通知级别
+ */
+export type NotificationLevel = 'normal' | 'urgent';
+
+/**
+ * 通知消息
+ *
+ * 字段与微信模板消息的五个关键词一一对应，其他渠道渲染为文本
+ */
+export interface NotificationMessage {
+  title: string; // 通知标题，如 订单更新、风险告警
+  time: string; // 交易时间
+  instId: string; // 交易品种
+  side: string; // 交易方向
+  size: string; // 成交数量
+  state: string; // 订单状态
+  account?: string; // 账户名称
+  level?: NotificationLevel; // 通知级别，默认 normal
+  recipients?: Record<string, string[]>; // 按渠道指定接收人，如 { wechat: [openid] }
+  details?: string[]; // 附加明细行（模板消息渠道不展示）
+}
+
+/**
+ * 通知渠道
+ */
+export interface Notifier {
+  /**
+   * 渠道名称
+   */
+  readonly name: string;
+
+  /**
+   * 是否已配置启用
+   */
+  isEnabled(): boolean;
+
+  /**
+   * 发送通知，成功返回 true
+   */
+  send(message: NotificationMessage): Promise<boolean>;
+}
@@ -0,0 +1,60 @@
+import { Injectable } from '@nestjs/common';
+import { Notifier } from './notifier.interface';
+import { WechatService } from '../wechat/wechat.service';
+import { TelegramNotifier } from './notifiers/telegram.notifier';
+import { DingtalkNotifier } from './notifiers/dingtalk.notifier';
+import { FeishuNotifier } from './notifiers/feishu.notifier';
+import { SlackNotifier } from './notifiers/slack.notifier';
+import { EmailNotifier } from './notifiers/email.notifier';
+import { WebhookNotifier } from './notifiers/webhook.notifier';
+
+/**
+ * 通知渠道注册表
+ */
+@Injectable()
+export class NotifierRegistry {
+  private readonly notifiers = new Map<string, Notifier>();
+
+  constructor(
+    wechatService: WechatService,
+    telegramNotifier: TelegramNotifier,
+    dingtalkNotifier: DingtalkNotifier,
+    feishuNotifier: FeishuNotifier,
+    slackNotifier: SlackNotifier,
+    emailNotifier: EmailNotifier,
+    webhookNotifier: WebhookNotifier,
+  ) {
+    [
+      wechatService,
+      telegramNotifier,
+      dingtalkNotifier,
+      feishuNotifier,
+      slackNotifier,
+      emailNotifier,
+      webhookNotifier,
+    ].forEach((notifier) => this.register(notifier));
+  }
+
+  /**
+   * 注册通知渠道
+   */
+  register(notifier: Notifier) {
+    this.notifiers.set(notifier.name, notifier);
+  }
+
+  /**
+   * 获取通知渠道
+   */
+  get(name: string): Notifier | undefined {
+    return this.notifiers.get(name);
+  }
+
+  /**
+   * 获取所有已启用的通知渠道
+   */
+  getEnabled(): Notifier[] {
+    return [...this.notifiers.values()].filter((notifier) =>
+      notifier.isEnabled(),
+    );
+  }
+}
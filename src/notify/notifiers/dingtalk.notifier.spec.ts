@@ -0,0 +1,85 @@
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import * as crypto from 'crypto';
+import { DingtalkNotifier } from './dingtalk.notifier';
+import { NotificationMessage } from '../notifier.interface';
+import { toTypedConfig } from '../../config/config.loader';
+
+describe('DingtalkNotifier', () => {
+  const message: NotificationMessage = {
+    title: '订单成交',
+    time: '2026-01-01 00:00:00',
+    instId: 'BTC-USDT-SWAP',
+    side: '买入',
+    size: '0.1 @ 95000',
+    state: '完全成交',
+  };
+
+  let post: jest.SpyInstance;
+
+  const createNotifier = (env: Record<string, string>) =>
+    new DingtalkNotifier({
+      get: (key: string) => toTypedConfig(env)[key],
+    } as unknown as ConfigService);
+
+  beforeEach(() => {
+    post = jest
+      .spyOn(axios, 'post')
+      .mockResolvedValue({ data: { errcode: 0, errmsg: 'ok' } });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should post a text message and @all for urgent messages', async () => {
+    const notifier = createNotifier({
+      DINGTALK_WEBHOOK_URL:
+        'https://oapi.dingtalk.com/robot/send?access_token=t',
+    });
+
+    await expect(notifier.send({ ...message, level: 'urgent' })).resolves.toBe(
+      true,
+    );
+
+    const [url, payload] = post.mock.calls[0] as [
+      string,
+      { msgtype: string; text: { content: string }; at: { isAtAll: boolean } },
+    ];
+    expect(url).toBe('https://oapi.dingtalk.com/robot/send?access_token=t');
+    expect(payload.msgtype).toBe('text');
+    expect(payload.text.content).toContain('【⚠️ 订单成交】');
+    expect(payload.text.content).toContain('交易品种：BTC-USDT-SWAP');
+    expect(payload.at).toEqual({ isAtAll: true });
+  });
+
+  it('should sign the webhook url when a secret is configured', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+    const notifier = createNotifier({
+      DINGTALK_WEBHOOK_URL:
+        'https://oapi.dingtalk.com/robot/send?access_token=t',
+      DINGTALK_SECRET: 'SEC123',
+    });
+
+    await notifier.send(message);
+
+    const sign = crypto
+      .createHmac('sha256', 'SEC123')
+      .update('1700000000000\nSEC123')
+      .digest('base64');
+    const [signedUrl] = post.mock.calls[0] as [string];
+    const url = new URL(signedUrl);
+    expect(url.searchParams.get('access_token')).toBe('t');
+    expect(url.searchParams.get('timestamp')).toBe('1700000000000');
+    expect(url.searchParams.get('sign')).toBe(sign);
+  });
+
+  it('should fail when DingTalk returns an error code', async () => {
+    post.mockResolvedValue({
+      data: { errcode: 310000, errmsg: 'sign not match' },
+    });
+    const notifier = createNotifier({ DINGTALK_WEBHOOK_URL: 'https://x' });
+
+    await expect(notifier.send(message)).resolves.toBe(false);
+  });
+});
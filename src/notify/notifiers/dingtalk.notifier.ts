@@ -0,0 +1,66 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import * as crypto from 'crypto';
+import { NotificationMessage, Notifier } from '../notifier.interface';
+import { describeError, renderText } from '../notify.util';
+
+/**
+ * 钉钉自定义机器人通知
+ */
+@Injectable()
+export class DingtalkNotifier implements Notifier {
+  readonly name = 'dingtalk';
+  private readonly logger = new Logger(DingtalkNotifier.name);
+  private readonly webhookUrl: string;
+  private readonly secret: string;
+
+  constructor(private configService: ConfigService) {
+    this.webhookUrl =
+      this.configService.get<string>('DINGTALK_WEBHOOK_URL') || '';
+    this.secret = this.configService.get<string>('DINGTALK_SECRET') || '';
+  }
+
+  isEnabled(): boolean {
+    return !!this.webhookUrl;
+  }
+
+  /**
+   * 加签：timestamp + "\n" + secret 做 HmacSHA256，再 Base64 和 URL 编码
+   */
+  private signUrl(): string {
+    if (!this.secret) {
+      return this.webhookUrl;
+    }
+    const timestamp = Date.now().toString();
+    const sign = crypto
+      .createHmac('sha256', this.secret)
+      .update(`${timestamp}\n${this.secret}`)
+      .digest('base64');
+    const separator = this.webhookUrl.includes('?') ? '&' : '?';
+    return `${this.webhookUrl}${separator}timestamp=${timestamp}&sign=${encodeURIComponent(sign)}`;
+  }
+
+  async send(message: NotificationMessage): Promise<boolean> {
+    try {
+      const response = await axios.post(
+        this.signUrl(),
+        {
+          msgtype: 'text',
+          text: { content: renderText(message) },
+          at: { isAtAll: message.level === 'urgent' },
+        },
+        { timeout: 10000 },
+      );
+      const resData = response.data as { errcode?: number; errmsg?: string };
+      if (resData?.errcode !== 0) {
+        this.logger.error(`钉钉通知返回错误: ${resData?.errmsg}`);
+        return false;
+      }
+      return true;
+    } catch (error: unknown) {
+      this.logger.error(`发送钉钉通知失败: ${describeError(error)}`);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as nodemailer from 'nodemailer';
+import { NotificationMessage, Notifier } from '../notifier.interface';
+import { describeError, renderText } from '../notify.util';
+
+/**
+ * SMTP 邮件通知
+ */
+@Injectable()
+export class EmailNotifier implements Notifier {
+  readonly name = 'email';
+  private readonly logger = new Logger(EmailNotifier.name);
+  private readonly transporter: nodemailer.Transporter | null = null;
+  private readonly from: string;
+  private readonly to: string[];
+
+  constructor(private configService: ConfigService) {
+    const host = this.configService.get<string>('SMTP_HOST');
+    this.from = this.configService.get<string>('SMTP_FROM') || '';
+    this.to = this.configService.get<string[]>('SMTP_TO') ?? [];
+
+    if (host) {
+      const user = this.configService.get<string>('SMTP_USER');
+      this.transporter = nodemailer.createTransport({
+        host,
+        port: this.configService.get<number>('SMTP_PORT'),
+        secure: this.configService.get<boolean>('SMTP_SECURE'),
+        auth: user
+          ? { user, pass: this.configService.get<string>('SMTP_PASS') }
+          : undefined,
+      });
+    }
+  }
+
+  isEnabled(): boolean {
+    return !!this.transporter && !!this.from && this.to.length > 0;
+  }
+
+  async send(message: NotificationMessage): Promise<boolean> {
+    if (!this.transporter) {
+      return false;
+    }
+
+    const to = message.recipients?.[this.name]?.length
+      ? message.recipients[this.name]
+      : this.to;
+    const prefix = message.level === 'urgent' ? '⚠️ ' : '';
+    const account = message.account ? ` [${message.account}]` : '';
+
+    try {
+      await this.transporter.sendMail({
+        from: this.from,
+        to: to.join(','),
+        subject: `${prefix}${message.title}: ${message.instId} ${message.state}${account}`,
+        text: renderText(message),
+      });
+      return true;
+    } catch (error: unknown) {
+      this.logger.error(`发送邮件通知失败: ${describeError(error)}`);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import * as crypto from 'crypto';
+import { FeishuNotifier } from './feishu.notifier';
+import { NotificationMessage } from '../notifier.interface';
+import { toTypedConfig } from '../../config/config.loader';
+
+describe('FeishuNotifier', () => {
+  const message: NotificationMessage = {
+    title: '订单成交',
+    time: '2026-01-01 00:00:00',
+    instId: 'BTC-USDT-SWAP',
+    side: '买入',
+    size: '0.1 @ 95000',
+    state: '完全成交',
+    account: 'main',
+  };
+  const webhookUrl = 'https://open.feishu.cn/open-apis/bot/v2/hook/abc';
+
+  let post: jest.SpyInstance;
+
+  const createNotifier = (env: Record<string, string>) =>
+    new FeishuNotifier({
+      get: (key: string) => toTypedConfig(env)[key],
+    } as unknown as ConfigService);
+
+  beforeEach(() => {
+    post = jest
+      .spyOn(axios, 'post')
+      .mockResolvedValue({ data: { code: 0, msg: 'success' } });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should post a text message without signature by default', async () => {
+    const notifier = createNotifier({ FEISHU_WEBHOOK_URL: webhookUrl });
+
+    await expect(notifier.send(message)).resolves.toBe(true);
+
+    const [url, payload] = post.mock.calls[0] as [
+      string,
+      Record<string, unknown>,
+    ];
+    expect(url).toBe(webhookUrl);
+    expect(payload).toEqual({
+      msg_type: 'text',
+      content: { text: expect.stringContaining('账户：main') as string },
+    });
+  });
+
+  it('should add timestamp and sign when a secret is configured', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+    const notifier = createNotifier({
+      FEISHU_WEBHOOK_URL: webhookUrl,
+      FEISHU_SECRET: 'SEC123',
+    });
+
+    await notifier.send(message);
+
+    const sign = crypto
+      .createHmac('sha256', '1700000000\nSEC123')
+      .update('')
+      .digest('base64');
+    const [, payload] = post.mock.calls[0] as [string, unknown];
+    expect(payload).toMatchObject({
+      timestamp: '1700000000',
+      sign,
+    });
+  });
+
+  it('should accept the legacy StatusCode response and fail on errors', async () => {
+    const notifier = createNotifier({ FEISHU_WEBHOOK_URL: webhookUrl });
+
+    post.mockResolvedValueOnce({ data: { StatusCode: 0 } });
+    await expect(notifier.send(message)).resolves.toBe(true);
+
+    post.mockResolvedValueOnce({
+      data: { code: 19021, msg: 'sign match fail' },
+    });
+    await expect(notifier.send(message)).resolves.toBe(false);
+  });
+});
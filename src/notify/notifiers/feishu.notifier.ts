@@ -0,0 +1,69 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import * as crypto from 'crypto';
+import { NotificationMessage, Notifier } from '../notifier.interface';
+import { describeError, renderText } from '../notify.util';
+
+/**
+ * 飞书/Lark 自定义机器人通知
+ */
+@Injectable()
+export class FeishuNotifier implements Notifier {
+  readonly name = 'feishu';
+  private readonly logger = new Logger(FeishuNotifier.name);
+  private readonly webhookUrl: string;
+  private readonly secret: string;
+
+  constructor(private configService: ConfigService) {
+    this.webhookUrl =
+      this.configService.get<string>('FEISHU_WEBHOOK_URL') || '';
+    this.secret = this.configService.get<string>('FEISHU_SECRET') || '';
+  }
+
+  isEnabled(): boolean {
+    return !!this.webhookUrl;
+  }
+
+  /**
+   * 签名校验：以 timestamp + "\n" + secret 为密钥对空字符串做 HmacSHA256，再 Base64
+   */
+  private sign(timestamp: string): string {
+    return crypto
+      .createHmac('sha256', `${timestamp}\n${this.secret}`)
+      .update('')
+      .digest('base64');
+  }
+
+  async send(message: NotificationMessage): Promise<boolean> {
+    const payload: Record<string, unknown> = {
+      msg_type: 'text',
+      content: { text: renderText(message) },
+    };
+
+    if (this.secret) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      payload.timestamp = timestamp;
+      payload.sign = this.sign(timestamp);
+    }
+
+    try {
+      const response = await axios.post(this.webhookUrl, payload, {
+        timeout: 10000,
+      });
+      const resData = response.data as {
+        code?: number;
+        StatusCode?: number;
+        msg?: string;
+      };
+      if ((resData?.code ?? resData?.StatusCode) !== 0) {
+        this.logger.error(`飞书通知返回错误: ${resData?.msg}`);
+        return false;
+      }
+      return true;
+    } catch (error: unknown) {
+      this.logger.error(`发送飞书通知失败: ${describeError(error)}`);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { NotificationMessage, Notifier } from '../notifier.interface';
+import { describeError, renderText } from '../notify.util';
+
+/**
+ * Slack Incoming Webhook 通知
+ */
+@Injectable()
+export class SlackNotifier implements Notifier {
+  readonly name = 'slack';
+  private readonly logger = new Logger(SlackNotifier.name);
+  private readonly webhookUrl: string;
+
+  constructor(private configService: ConfigService) {
+    this.webhookUrl = this.configService.get<string>('SLACK_WEBHOOK_URL') || '';
+  }
+
+  isEnabled(): boolean {
+    return !!this.webhookUrl;
+  }
+
+  async send(message: NotificationMessage): Promise<boolean> {
+    try {
+      await axios.post(
+        this.webhookUrl,
+        { text: renderText(message) },
+        { timeout: 10000 },
+      );
+      return true;
+    } catch (error: unknown) {
+      this.logger.error(`发送Slack通知失败: ${describeError(error)}`);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { NotificationMessage, Notifier } from '../notifier.interface';
+import { describeError, renderText } from '../notify.util';
+
+/**
+ * Telegram Bot 通知
+ */
+@Injectable()
+export class TelegramNotifier implements Notifier {
+  readonly name = 'telegram';
+  private readonly logger = new Logger(TelegramNotifier.name);
+  private readonly apiUrl: string;
+  private readonly botToken: string;
+  private readonly chatIds: string[];
+
+  constructor(private configService: ConfigService) {
+    this.apiUrl = this.configService.get<string>('TELEGRAM_API_URL')!;
+    this.botToken = this.configService.get<string>('TELEGRAM_BOT_TOKEN') || '';
+    this.chatIds = this.configService.get<string[]>('TELEGRAM_CHAT_ID') ?? [];
+  }
+
+  isEnabled(): boolean {
+    return !!this.botToken && this.chatIds.length > 0;
+  }
+
+  async send(message: NotificationMessage): Promise<boolean> {
+    const chatIds = message.recipients?.[this.name]?.length
+      ? message.recipients[this.name]
+      : this.chatIds;
+    const text = renderText(message);
+
+    let success = true;
+    for (const chatId of chatIds) {
+      try {
+        const response = await axios.post(
+          `${this.apiUrl}/bot${this.botToken}/sendMessage`,
+          { chat_id: chatId, text },
+          { timeout: 10000 },
+        );
+        const resData = response.data as { ok?: boolean };
+        if (!resData?.ok) {
+          success = false;
+        }
+      } catch (error: unknown) {
+        this.logger.error(`发送Telegram通知失败: ${describeError(error)}`);
+        success = false;
+      }
+    }
+    return success;
+  }
+}
@@ -0,0 +1,55 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import * as crypto from 'crypto';
+import { NotificationMessage, Notifier } from '../notifier.interface';
+import { describeError, renderText } from '../notify.util';
+
+/**
+ * 通用 JSON Webhook 通知
+ *
+ * 配置 WEBHOOK_SECRET 时，在 X-Signature 头中附带请求体的 HmacSHA256（hex）签名
+ */
+@Injectable()
+export class WebhookNotifier implements Notifier {
+  readonly name = 'webhook';
+  private readonly logger = new Logger(WebhookNotifier.name);
+  private readonly webhookUrl: string;
+  private readonly secret: string;
+
+  constructor(private configService: ConfigService) {
+    this.webhookUrl = this.configService.get<string>('WEBHOOK_URL') || '';
+    this.secret = this.configService.get<string>('WEBHOOK_SECRET') || '';
+  }
+
+  isEnabled(): boolean {
+    return !!this.webhookUrl;
+  }
+
+  async send(message: NotificationMessage): Promise<boolean> {
+    const body = JSON.stringify({
+      ...message,
+      recipients: undefined,
+      text: renderText(message),
+      timestamp: new Date().toISOString(),
+    });
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.secret) {
+      headers['X-Signature'] = crypto
+        .createHmac('sha256', this.secret)
+        .update(body)
+        .digest('hex');
+    }
+
+    try {
+      await axios.post(this.webhookUrl, body, { headers, timeout: 10000 });
+      return true;
+    } catch (error: unknown) {
+      this.logger.error(`发送Webhook通知失败: ${describeError(error)}`);
+      return false;
+    }
+  }
+}
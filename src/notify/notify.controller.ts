@@ -0,0 +1,167 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Param,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+} from '@nestjs/common';
+import { NotifyRulesService } from './rules/notify-rules.service';
+import { NotifyRuleSet } from './rules/notify-rule.interface';
+import { OutboxService } from './outbox/outbox.service';
+import { OutboxItem } from './outbox/outbox.interface';
+import { NotifyMuteService } from './mute/notify-mute.service';
+import type {
+  NotifyMute,
+  NotifyMuteInput,
+  QuietHours,
+} from './mute/notify-mute.interface';
+
+@Controller('notify')
+export class NotifyController {
+  constructor(
+    private readonly notifyRulesService: NotifyRulesService,
+    private readonly outboxService: OutboxService,
+    private readonly muteService: NotifyMuteService,
+  ) {}
+
+  /**
+   * 获取当前生效的通知规则
+   */
+  @Get('rules')
+  getRules(): { path: string; ruleSet: NotifyRuleSet } {
+    return {
+      path: this.notifyRulesService.getRulesFile(),
+      ruleSet: this.notifyRulesService.getRuleSet(),
+    };
+  }
+
+  /**
+   * 立即重新加载通知规则文件
+   */
+  @Post('rules/reload')
+  @HttpCode(HttpStatus.OK)
+  async reloadRules(): Promise<{ path: string; ruleSet: NotifyRuleSet }> {
+    return {
+      path: this.notifyRulesService.getRulesFile(),
+      ruleSet: await this.notifyRulesService.reload(),
+    };
+  }
+
+  /**
+   * 查看发件箱中待重试的通知
+   */
+  @Get('outbox')
+  getOutbox(): { pending: OutboxItem[]; deadCount: number } {
+    return {
+      pending: this.outboxService.getPending(),
+      deadCount: this.outboxService.getDeadLetters().length,
+    };
+  }
+
+  /**
+   * 查看死信列表
+   */
+  @Get('dead-letters')
+  getDeadLetters(): OutboxItem[] {
+    return this.outboxService.getDeadLetters();
+  }
+
+  /**
+   * 重新投递全部死信
+   */
+  @Post('dead-letters/retry')
+  @HttpCode(HttpStatus.OK)
+  redriveAll(): { count: number } {
+    return { count: this.outboxService.redrive() };
+  }
+
+  /**
+   * 重新投递指定死信
+   */
+  @Post('dead-letters/:id/retry')
+  @HttpCode(HttpStatus.OK)
+  redrive(@Param('id') id: string): { count: number } {
+    const count = this.outboxService.redrive(id);
+    if (count === 0) {
+      throw new NotFoundException(`死信不存在: ${id}`);
+    }
+    return { count };
+  }
+
+  /**
+   * 删除指定死信
+   */
+  @Delete('dead-letters/:id')
+  removeDeadLetter(@Param('id') id: string): { message: string } {
+    if (!this.outboxService.removeDeadLetter(id)) {
+      throw new NotFoundException(`死信不存在: ${id}`);
+    }
+    return { message: '死信已删除' };
+  }
+
+  /**
+   * 查看生效中的静音和免打扰时段
+   */
+  @Get('mutes')
+  getMutes(): {
+    mutes: NotifyMute[];
+    quietHours?: QuietHours;
+    quietNow: boolean;
+  } {
+    return {
+      mutes: this.muteService.getMutes(),
+      quietHours: this.muteService.getQuietHours(),
+      quietNow: this.muteService.isQuietTime(),
+    };
+  }
+
+  /**
+   * 静音全部通知或指定产品的通知
+   * @param body.instId 只静音该产品，为空时静音全部
+   * @param body.duration 静音时长（如 30m、2h），与 until 都为空时直到手动取消
+   * @param body.until 静音截止时间（毫秒时间戳或 ISO 时间）
+   */
+  @Post('mutes')
+  mute(@Body() body: NotifyMuteInput = {}): NotifyMute {
+    return this.muteService.mute(body);
+  }
+
+  /**
+   * 取消静音
+   */
+  @Delete('mutes/:id')
+  unmute(@Param('id') id: string): { message: string } {
+    if (!this.muteService.unmute(id)) {
+      throw new NotFoundException(`静音不存在: ${id}`);
+    }
+    return { message: '已取消静音' };
+  }
+
+  /**
+   * 设置免打扰时段（每天重复）
+   * @param body.start 开始时间 HH:mm
+   * @param body.end 结束时间 HH:mm，早于开始时间表示跨零点
+   * @param body.timeZone 时区，默认 REPORT_TIMEZONE
+   * @param body.allowUrgent 紧急通知是否照常发送，默认 true
+   */
+  @Put('quiet-hours')
+  setQuietHours(@Body() body: Partial<QuietHours> = {}): QuietHours {
+    return this.muteService.setQuietHours(body);
+  }
+
+  /**
+   * 取消免打扰时段
+   */
+  @Delete('quiet-hours')
+  clearQuietHours(): { message: string } {
+    if (!this.muteService.clearQuietHours()) {
+      throw new NotFoundException('未设置免打扰时段');
+    }
+    return { message: '已取消免打扰时段' };
+  }
+}
@@ -0,0 +1,40 @@
+import { Module } from '@nestjs/common';
+import { WechatModule } from '../wechat/wechat.module';
+import { NotifierRegistry } from './notifier.registry';
+import { NotifyService } from './notify.service';
+import { NotifyController } from './notify.controller';
+import { NotifyRulesService } from './rules/notify-rules.service';
+import { OutboxService } from './outbox/outbox.service';
+import { NotifyMuteService } from './mute/notify-mute.service';
+import { TelegramNotifier } from './notifiers/telegram.notifier';
+import { DingtalkNotifier } from './notifiers/dingtalk.notifier';
+import { FeishuNotifier } from './notifiers/feishu.notifier';
+import { SlackNotifier } from './notifiers/slack.notifier';
+import { EmailNotifier } from './notifiers/email.notifier';
+import { WebhookNotifier } from './notifiers/webhook.notifier';
+
+@Module({
+  imports: [WechatModule],
+  controllers: [NotifyController],
+  providers: [
+    NotifierRegistry,
+    NotifyService,
+    NotifyRulesService,
+    OutboxService,
+    NotifyMuteService,
+    TelegramNotifier,
+    DingtalkNotifier,
+    FeishuNotifier,
+    SlackNotifier,
+    EmailNotifier,
+    WebhookNotifier,
+  ],
+  exports: [
+    NotifyService,
+    NotifierRegistry,
+    NotifyRulesService,
+    OutboxService,
+    NotifyMuteService,
+  ],
+})
+export class NotifyModule {}
@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigService } from '@nestjs/config';
+import { NotifyService } from './notify.service';
+import { NotificationMessage, Notifier } from './notifier.interface';
+import { NotifierRegistry } from './notifier.registry';
+import { OutboxService } from './outbox/outbox.service';
+import { NotifyMuteService } from './mute/notify-mute.service';
+import { LoggingService } from '../common/logging';
+import { EventBusService } from '../events/event-bus.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { toTypedConfig } from '../config/config.loader';
+
+describe('NotifyService', () => {
+  const cwd = process.cwd();
+  let tmpDir: string;
+  let sent: string[];
+  let failing: Set<string>;
+  let outbox: OutboxService;
+  let service: NotifyService;
+
+  const message: NotificationMessage = {
+    title: '订单更新',
+    time: '',
+    instId: 'BTC-USDT-SWAP',
+    side: '买入',
+    size: '1',
+    state: '完全成交',
+    recipients: { wechat: ['openid-a', 'openid-b'] },
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'notify-service-'));
+    process.chdir(tmpDir);
+    sent = [];
+    failing = new Set();
+
+    const wechat: Notifier = {
+      name: 'wechat',
+      isEnabled: () => true,
+      send: (item) => {
+        const [openid] = item.recipients?.wechat ?? [];
+        sent.push(openid);
+        return Promise.resolve(!failing.has(openid));
+      },
+    };
+    const registry = {
+      get: (name: string) => (name === wechat.name ? wechat : undefined),
+      getEnabled: () => [wechat],
+    } as unknown as NotifierRegistry;
+    const loggingService = new Proxy(
+      {},
+      { get: () => jest.fn().mockResolvedValue(undefined) },
+    ) as LoggingService;
+    const eventBus = { publish: jest.fn() } as unknown as EventBusService;
+
+    outbox = new OutboxService(
+      {
+        get: (key: string) =>
+          toTypedConfig({
+            OUTBOX_BASE_DELAY_MS: '0',
+            OUTBOX_MAX_DELAY_MS: '0',
+          })[key],
+      } as unknown as ConfigService,
+      registry,
+      loggingService,
+      eventBus,
+      { recordNotify: jest.fn() } as unknown as MetricsService,
+    );
+    service = new NotifyService(
+      registry,
+      outbox,
+      { check: () => undefined } as unknown as NotifyMuteService,
+      loggingService,
+      eventBus,
+    );
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should send to each recipient separately', async () => {
+    await expect(service.notify(message)).resolves.toEqual({ wechat: true });
+    expect(sent).toEqual(['openid-a', 'openid-b']);
+    expect(outbox.getPending()).toHaveLength(0);
+  });
+
+  it('should only retry the recipients that failed', async () => {
+    failing.add('openid-b');
+    await expect(service.notify(message)).resolves.toEqual({ wechat: false });
+    expect(outbox.getPending()).toHaveLength(1);
+
+    failing.clear();
+    await outbox.processDue();
+
+    expect(sent).toEqual(['openid-a', 'openid-b', 'openid-b']);
+    expect(outbox.getPending()).toHaveLength(0);
+  });
+});
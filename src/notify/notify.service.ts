@@ -0,0 +1,124 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { LoggingService } from '../common/logging';
+import { EventBusService } from '../events/event-bus.service';
+import { NotificationMessage } from './notifier.interface';
+import { NotifierRegistry } from './notifier.registry';
+import { OutboxService } from './outbox/outbox.service';
+import { NotifyMuteService } from './mute/notify-mute.service';
+
+/**
+ * 各渠道首次发送结果（失败的通知会留在发件箱中重试）
+ */
+export type NotifyResult = Record<string, boolean>;
+
+/**
+ * 发送选项
+ */
+export interface NotifyOptions {
+  notifiers?: string[]; // 只发送到指定渠道
+  ignoreMute?: boolean; // 忽略静音和免打扰时段（如测试通知）
+}
+
+/**
+ * 按接收人拆分通知，每个接收人单独写入发件箱，
+ * 避免部分接收人失败时重试把通知重复发给已收到的接收人
+ */
+function splitByRecipient(
+  channel: string,
+  message: NotificationMessage,
+): NotificationMessage[] {
+  const recipients = message.recipients?.[channel];
+  if (!recipients || recipients.length <= 1) {
+    return [message];
+  }
+  return recipients.map((recipient) => ({
+    ...message,
+    recipients: { ...message.recipients, [channel]: [recipient] },
+  }));
+}
+
+/**
+ * 通知服务：为每个已启用的渠道写入发件箱并立即尝试发送，
+ * 静音中的通知直接丢弃
+ */
+@Injectable()
+export class NotifyService {
+  private readonly logger = new Logger(NotifyService.name);
+
+  constructor(
+    private readonly notifierRegistry: NotifierRegistry,
+    private readonly outboxService: OutboxService,
+    private readonly muteService: NotifyMuteService,
+    private readonly loggingService: LoggingService,
+    private readonly eventBus: EventBusService,
+  ) {}
+
+  /**
+   * 发送通知
+   * @param message 通知内容
+   * @param logData 附加到通知日志中的数据（如 ordId）
+   * @param options 发送选项
+   */
+  async notify(
+    message: NotificationMessage,
+    logData?: Record<string, unknown>,
+    options: NotifyOptions = {},
+  ): Promise<NotifyResult> {
+    const mutedReason = options.ignoreMute
+      ? undefined
+      : this.muteService.check(message);
+    if (mutedReason) {
+      this.logger.log(`通知未发送（${mutedReason}）: ${message.title}`);
+      this.eventBus.publish({
+        category: 'NOTIFY',
+        type: 'notify.muted',
+        message: `通知未发送（${mutedReason}）`,
+        account: message.account,
+        instId: message.instId,
+        data: {
+          title: message.title,
+          state: message.state,
+          reason: mutedReason,
+        },
+      });
+      await this.loggingService.logNotify('通知已静音', true, {
+        reason: mutedReason,
+        title: message.title,
+        instId: message.instId,
+        ...logData,
+      });
+      return {};
+    }
+
+    const notifiers = this.notifierRegistry
+      .getEnabled()
+      .filter(
+        (notifier) =>
+          !options.notifiers || options.notifiers.includes(notifier.name),
+      );
+    if (notifiers.length === 0) {
+      this.logger.warn('没有已启用的通知渠道');
+      return {};
+    }
+
+    // 先全部写入发件箱，再并行发送
+    const items = notifiers.flatMap((notifier) =>
+      splitByRecipient(notifier.name, message).map((item) =>
+        this.outboxService.enqueue(notifier.name, item, logData),
+      ),
+    );
+    const results = await Promise.all(
+      items.map(
+        async (item) =>
+          [item.channel, await this.outboxService.attempt(item)] as const,
+      ),
+    );
+
+    // 渠道的所有接收人都发送成功才算成功
+    const result: NotifyResult = {};
+    for (const [channel, success] of results) {
+      result[channel] = (result[channel] ?? true) && success;
+    }
+    return result;
+  }
+}
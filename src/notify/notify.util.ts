@@ -0,0 +1,40 @@
+import { NotificationMessage } from './notifier.interface';
+
+/**
+ * 将通知渲染为多行文本（用于非模板消息渠道）
+ */
+export function renderText(message: NotificationMessage): string {
+  const title =
+    message.level === 'urgent' ? `⚠️ ${message.title}` : message.title;
+  const lines = [
+    `【${title}】`,
+    `交易时间：${message.time}`,
+    `交易品种：${message.instId}`,
+    `交易方向：${message.side}`,
+    `成交数量：${message.size}`,
+    `订单状态：${message.state}`,
+  ];
+
+  if (message.account) {
+    lines.push(`账户：${message.account}`);
+  }
+
+  if (message.details?.length) {
+    lines.push('', ...message.details);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * 提取请求错误信息
+ */
+export function describeError(error: unknown): string {
+  const err = error as Error & {
+    response?: { status: number; data: unknown };
+  };
+  if (err.response) {
+    return `${err.message} (status: ${err.response.status}, data: ${JSON.stringify(err.response.data)})`;
+  }
+  return err instanceof Error ? err.message : 'Unknown error';
+}
@@ -0,0 +1,33 @@
+import { NotificationMessage } from '../notifier.interface';
+
+/**
+ * 发件箱条目状态
+ */
+export type OutboxStatus = 'pending' | 'dead';
+
+/**
+ * 发件箱条目（每个渠道的每个接收人一条）
+ */
+export interface OutboxItem {
+  id: string;
+  channel: string; // 通知渠道名称
+  message: NotificationMessage;
+  logData?: Record<string, unknown>; // 附加到通知日志中的数据
+  status: OutboxStatus;
+  attempts: number; // 已尝试次数
+  nextAttemptAt: number; // 下次尝试时间（毫秒时间戳）
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * 渠道最近的发送情况（进程内统计，重启后清零）
+ */
+export interface ChannelHealth {
+  channel: string;
+  consecutiveFailures: number; // 连续失败次数
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+  lastError?: string;
+}
@@ -0,0 +1,190 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigService } from '@nestjs/config';
+import { OutboxService } from './outbox.service';
+import { NotificationMessage } from '../notifier.interface';
+import { NotifierRegistry } from '../notifier.registry';
+import { LoggingService } from '../../common/logging';
+import { EventBusService } from '../../events/event-bus.service';
+import { MetricsService } from '../../metrics/metrics.service';
+import { toTypedConfig } from '../../config/config.loader';
+
+describe('OutboxService', () => {
+  const cwd = process.cwd();
+  const message: NotificationMessage = {
+    title: '订单更新',
+    time: '',
+    instId: 'BTC-USDT-SWAP',
+    side: '买入',
+    size: '1',
+    state: '完全成交',
+  };
+
+  let env: Record<string, string>;
+  let tmpDir: string;
+  let send: jest.Mock;
+  let publish: jest.Mock;
+  let service: OutboxService;
+
+  const createService = () =>
+    new OutboxService(
+      {
+        get: (key: string) => toTypedConfig(env)[key],
+      } as unknown as ConfigService,
+      {
+        get: (name: string) => (name === 'wechat' ? { send } : undefined),
+      } as unknown as NotifierRegistry,
+      new Proxy(
+        {},
+        { get: () => jest.fn().mockResolvedValue(undefined) },
+      ) as LoggingService,
+      { publish } as unknown as EventBusService,
+      { recordNotify: jest.fn() } as unknown as MetricsService,
+    );
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: Date.UTC(2026, 0, 1) });
+    // 抖动取上限，退避时间固定为 base * 2^(n-1)
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'outbox-'));
+    process.chdir(tmpDir);
+    send = jest.fn().mockResolvedValue(true);
+    publish = jest.fn();
+    env = {
+      OUTBOX_MAX_ATTEMPTS: '3',
+      OUTBOX_BASE_DELAY_MS: '1000',
+      OUTBOX_MAX_DELAY_MS: '1500',
+      NOTIFY_RATE_LIMIT_PER_MINUTE: '0',
+    };
+    service = createService();
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    process.chdir(cwd);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should retry with backoff until the notification is sent', async () => {
+    send.mockResolvedValueOnce(false).mockResolvedValueOnce(false);
+    const item = service.enqueue('wechat', message);
+
+    await expect(service.attempt(item)).resolves.toBe(false);
+    expect(item).toMatchObject({ attempts: 1, lastError: '发送失败' });
+    expect(item.nextAttemptAt - Date.now()).toBe(1000);
+
+    // 未到重试时间不发送
+    await jest.advanceTimersByTimeAsync(999);
+    await service.processDue();
+    expect(send).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await service.processDue();
+    expect(send).toHaveBeenCalledTimes(2);
+    // 第二次退避翻倍后受最大延迟限制
+    expect(item.nextAttemptAt - Date.now()).toBe(1500);
+
+    await jest.advanceTimersByTimeAsync(1500);
+    await service.processDue();
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(service.getPending()).toHaveLength(0);
+    expect(service.getChannelHealth()[0]).toMatchObject({
+      channel: 'wechat',
+      consecutiveFailures: 0,
+    });
+  });
+
+  it('should move to dead letters after the max attempts', async () => {
+    send.mockRejectedValue(new Error('timeout'));
+    const item = service.enqueue('wechat', message);
+
+    await service.attempt(item);
+    for (let i = 0; i < 2; i++) {
+      await jest.advanceTimersByTimeAsync(1500);
+      await service.processDue();
+    }
+
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(service.getPending()).toHaveLength(0);
+    expect(service.getDeadLetters()).toEqual([
+      expect.objectContaining({
+        id: item.id,
+        status: 'dead',
+        attempts: 3,
+        lastError: 'timeout',
+      }),
+    ]);
+    expect(publish).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'notify.dead' }),
+    );
+    expect(service.getChannelHealth()[0].consecutiveFailures).toBe(3);
+  });
+
+  it('should dead-letter notifications for unknown channels', async () => {
+    const item = service.enqueue('pigeon', message);
+    await service.attempt(item);
+
+    expect(service.getDeadLetters()[0].lastError).toContain('pigeon');
+  });
+
+  it('should redrive dead letters and send them again', async () => {
+    send.mockResolvedValue(false);
+    const first = service.enqueue('wechat', message);
+    const second = service.enqueue('wechat', message);
+    for (const item of [first, second]) {
+      item.attempts = 2;
+      await service.attempt(item);
+    }
+    expect(service.getDeadLetters()).toHaveLength(2);
+
+    expect(service.redrive(first.id)).toBe(1);
+    expect(first).toMatchObject({ status: 'pending', attempts: 0 });
+    expect(service.getDeadLetters()).toEqual([second]);
+
+    send.mockResolvedValue(true);
+    await jest.advanceTimersByTimeAsync(60_000);
+    await service.processDue();
+    expect(service.getPending()).toHaveLength(0);
+
+    expect(service.redrive()).toBe(1);
+    expect(service.redrive()).toBe(0);
+  });
+
+  it('should defer sends over the per-channel rate limit', async () => {
+    env.NOTIFY_RATE_LIMIT_PER_MINUTE = '2';
+    service = createService();
+    const items = [1, 2, 3].map(() => service.enqueue('wechat', message));
+    for (const item of items) {
+      await service.attempt(item);
+    }
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(items[2]).toMatchObject({ attempts: 0, status: 'pending' });
+    expect(items[2].nextAttemptAt - Date.now()).toBe(60_000);
+
+    await jest.advanceTimersByTimeAsync(60_000);
+    await service.processDue();
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(service.getPending()).toHaveLength(0);
+  });
+
+  it('should resume pending notifications after a restart', async () => {
+    send.mockResolvedValue(false);
+    await service.attempt(service.enqueue('wechat', message));
+    service.onModuleDestroy();
+
+    service = createService();
+    await service.onModuleInit();
+    expect(service.getPending()).toEqual([
+      expect.objectContaining({ channel: 'wechat', attempts: 1 }),
+    ]);
+
+    send.mockResolvedValue(true);
+    // 后台任务按轮询间隔处理到期的通知
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(service.getPending()).toHaveLength(0);
+  });
+});
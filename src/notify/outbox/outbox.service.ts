@@ -0,0 +1,378 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { LoggingService } from '../../common/logging';
+import { EventBusService } from '../../events/event-bus.service';
+import { MetricsService } from '../../metrics/metrics.service';
+import { JsonFileStore } from '../../common/storage/json-file.store';
+import { getBackoffDelay } from '../../common/utils/backoff.util';
+import { NotificationMessage } from '../notifier.interface';
+import { NotifierRegistry } from '../notifier.registry';
+import { ChannelHealth, OutboxItem } from './outbox.interface';
+
+/**
+ * 通知发件箱
+ *
+ * 所有通知先写入发件箱再发送，失败后按指数退避（带抖动）重试，
+ * 超过最大次数后移入死信列表，可通过接口重新投递。
+ */
+@Injectable()
+export class OutboxService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(OutboxService.name);
+  private readonly store = new JsonFileStore<OutboxItem[]>(
+    'notify-outbox.json',
+    [],
+  );
+  private readonly items = new Map<string, OutboxItem>();
+  private readonly inFlight = new Set<string>();
+  // 渠道 -> 最近一分钟内的发送时间
+  private readonly sentTimes = new Map<string, number[]>();
+  // 渠道 -> 最近的发送情况
+  private readonly channelHealth = new Map<string, ChannelHealth>();
+  private workerInterval: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+
+  private readonly maxAttempts: number;
+  private readonly baseDelay: number;
+  private readonly maxDelay: number;
+  private readonly rateLimitPerMinute: number;
+  private readonly pollInterval: number;
+
+  constructor(
+    private configService: ConfigService,
+    private notifierRegistry: NotifierRegistry,
+    private loggingService: LoggingService,
+    private eventBus: EventBusService,
+    private metrics: MetricsService,
+  ) {
+    this.maxAttempts = this.configService.get<number>('OUTBOX_MAX_ATTEMPTS')!;
+    this.baseDelay = this.configService.get<number>('OUTBOX_BASE_DELAY_MS')!;
+    this.maxDelay = this.configService.get<number>('OUTBOX_MAX_DELAY_MS')!;
+    this.rateLimitPerMinute = this.configService.get<number>(
+      'NOTIFY_RATE_LIMIT_PER_MINUTE',
+    )!;
+    this.pollInterval = this.configService.get<number>(
+      'OUTBOX_POLL_INTERVAL_MS',
+    )!;
+  }
+
+  async onModuleInit() {
+    for (const item of this.store.load()) {
+      this.items.set(item.id, item);
+    }
+
+    const pending = this.getPending().length;
+    if (pending > 0) {
+      this.logger.log(`恢复待发送通知 ${pending} 条`);
+      await this.loggingService.logSystem('INFO', '恢复待发送通知', {
+        pending,
+        dead: this.getDeadLetters().length,
+      });
+    }
+
+    this.workerInterval = setInterval(() => {
+      void this.processDue();
+    }, this.pollInterval);
+  }
+
+  onModuleDestroy() {
+    if (this.workerInterval) {
+      clearInterval(this.workerInterval);
+      this.workerInterval = null;
+    }
+    this.persist();
+  }
+
+  /**
+   * 写入发件箱
+   */
+  enqueue(
+    channel: string,
+    message: NotificationMessage,
+    logData?: Record<string, unknown>,
+  ): OutboxItem {
+    const now = Date.now();
+    const item: OutboxItem = {
+      id: crypto.randomUUID(),
+      channel,
+      message,
+      logData,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.items.set(item.id, item);
+    this.persist();
+    return item;
+  }
+
+  /**
+   * 尝试发送一条通知，成功后从发件箱移除
+   */
+  async attempt(item: OutboxItem): Promise<boolean> {
+    if (this.inFlight.has(item.id) || item.status !== 'pending') {
+      return false;
+    }
+
+    // 超过渠道速率限制，延后到窗口释放
+    const waitMs = this.getRateLimitWait(item.channel);
+    if (waitMs > 0) {
+      item.nextAttemptAt = Date.now() + waitMs;
+      item.updatedAt = Date.now();
+      this.persist();
+      return false;
+    }
+
+    const notifier = this.notifierRegistry.get(item.channel);
+    if (!notifier) {
+      await this.moveToDeadLetter(item, `未注册的通知渠道: ${item.channel}`);
+      return false;
+    }
+
+    this.inFlight.add(item.id);
+    this.recordSent(item.channel);
+    item.attempts++;
+
+    let success = false;
+    let lastError = '发送失败';
+    const startedAt = Date.now();
+    try {
+      success = await notifier.send(item.message);
+    } catch (error: unknown) {
+      lastError = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`${item.channel} 通知异常: ${lastError}`);
+    } finally {
+      this.inFlight.delete(item.id);
+    }
+
+    this.recordResult(item.channel, success, lastError);
+    this.metrics.recordNotify(
+      item.channel,
+      success,
+      (Date.now() - startedAt) / 1000,
+    );
+    this.eventBus.publish({
+      category: 'NOTIFY',
+      type: success ? 'notify.sent' : 'notify.failed',
+      message: success
+        ? `${item.channel} 通知发送成功`
+        : `${item.channel} 通知发送失败`,
+      account: item.message.account,
+      instId: item.message.instId,
+      data: {
+        id: item.id,
+        channel: item.channel,
+        attempt: item.attempts,
+        title: item.message.title,
+        state: item.message.state,
+        error: success ? undefined : lastError,
+      },
+    });
+    await this.loggingService.logNotify(
+      success ? `${item.channel} 通知发送成功` : `${item.channel} 通知发送失败`,
+      success,
+      {
+        channel: item.channel,
+        attempt: item.attempts,
+        title: item.message.title,
+        account: item.message.account,
+        instId: item.message.instId,
+        side: item.message.side,
+        size: item.message.size,
+        state: item.message.state,
+        ...item.logData,
+      },
+    );
+
+    if (success) {
+      this.items.delete(item.id);
+      this.persist();
+      return true;
+    }
+
+    item.lastError = lastError;
+    if (item.attempts >= this.maxAttempts) {
+      await this.moveToDeadLetter(item, lastError);
+      return false;
+    }
+
+    item.nextAttemptAt =
+      Date.now() +
+      getBackoffDelay(item.attempts, this.baseDelay, this.maxDelay);
+    item.updatedAt = Date.now();
+    this.persist();
+    return false;
+  }
+
+  /**
+   * 各渠道最近的发送情况
+   */
+  getChannelHealth(): ChannelHealth[] {
+    return [...this.channelHealth.values()];
+  }
+
+  /**
+   * 处理到期的待发送通知
+   */
+  async processDue(): Promise<void> {
+    if (this.isProcessing) {
+      return;
+    }
+    this.isProcessing = true;
+
+    try {
+      const now = Date.now();
+      const due = this.getPending()
+        .filter((item) => item.nextAttemptAt <= now)
+        .sort((a, b) => a.nextAttemptAt - b.nextAttemptAt);
+
+      for (const item of due) {
+        await this.attempt(item);
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * 获取待发送通知
+   */
+  getPending(): OutboxItem[] {
+    return [...this.items.values()].filter((item) => item.status === 'pending');
+  }
+
+  /**
+   * 获取死信列表
+   */
+  getDeadLetters(): OutboxItem[] {
+    return [...this.items.values()].filter((item) => item.status === 'dead');
+  }
+
+  /**
+   * 重新投递死信，返回重新投递的条数
+   */
+  redrive(id?: string): number {
+    const targets = id
+      ? this.getDeadLetters().filter((item) => item.id === id)
+      : this.getDeadLetters();
+
+    const now = Date.now();
+    for (const item of targets) {
+      item.status = 'pending';
+      item.attempts = 0;
+      item.nextAttemptAt = now;
+      item.updatedAt = now;
+    }
+
+    if (targets.length > 0) {
+      this.persist();
+    }
+    return targets.length;
+  }
+
+  /**
+   * 删除死信
+   */
+  removeDeadLetter(id: string): boolean {
+    const item = this.items.get(id);
+    if (!item || item.status !== 'dead') {
+      return false;
+    }
+    this.items.delete(id);
+    this.persist();
+    return true;
+  }
+
+  /**
+   * 移入死信列表
+   */
+  private async moveToDeadLetter(item: OutboxItem, reason: string) {
+    item.status = 'dead';
+    item.lastError = reason;
+    item.updatedAt = Date.now();
+    this.persist();
+
+    this.logger.error(`${item.channel} 通知移入死信: ${reason}`);
+    this.eventBus.publish({
+      category: 'NOTIFY',
+      type: 'notify.dead',
+      message: `${item.channel} 通知重试失败，已移入死信`,
+      account: item.message.account,
+      instId: item.message.instId,
+      data: {
+        id: item.id,
+        channel: item.channel,
+        attempts: item.attempts,
+        reason,
+        title: item.message.title,
+      },
+    });
+    await this.loggingService.logNotify(
+      `${item.channel} 通知重试失败，已移入死信`,
+      false,
+      {
+        id: item.id,
+        channel: item.channel,
+        attempts: item.attempts,
+        reason,
+        title: item.message.title,
+        instId: item.message.instId,
+        ...item.logData,
+      },
+    );
+  }
+
+  /**
+   * 记录渠道发送结果
+   */
+  private recordResult(channel: string, success: boolean, error: string) {
+    const health = this.channelHealth.get(channel) ?? {
+      channel,
+      consecutiveFailures: 0,
+    };
+    if (success) {
+      health.consecutiveFailures = 0;
+      health.lastSuccessAt = Date.now();
+    } else {
+      health.consecutiveFailures++;
+      health.lastFailureAt = Date.now();
+      health.lastError = error;
+    }
+    this.channelHealth.set(channel, health);
+  }
+
+  /**
+   * 距离渠道速率限制窗口释放还需等待的毫秒数，0 表示可以发送
+   */
+  private getRateLimitWait(channel: string): number {
+    if (this.rateLimitPerMinute <= 0) {
+      return 0;
+    }
+    const now = Date.now();
+    const recent = (this.sentTimes.get(channel) || []).filter(
+      (time) => now - time < 60000,
+    );
+    this.sentTimes.set(channel, recent);
+    if (recent.length < this.rateLimitPerMinute) {
+      return 0;
+    }
+    return 60000 - (now - recent[0]);
+  }
+
+  private recordSent(channel: string) {
+    const recent = this.sentTimes.get(channel) || [];
+    recent.push(Date.now());
+    this.sentTimes.set(channel, recent);
+  }
+
+  private persist() {
+    this.store.save([...this.items.values()]);
+  }
+}
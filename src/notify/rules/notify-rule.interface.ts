@@ -0,0 +1,52 @@
+import { NotificationLevel } from '../notifier.interface';
+
+/**
+ * 规则动作
+ */
+export type NotifyRuleAction = 'send' | 'drop';
+
+/**
+ * 规则匹配条件，未配置的条件视为匹配；数组表示任一值匹配
+ */
+export interface NotifyRuleMatch {
+  account?: string | string[]; // 账户名称
+  instId?: string | string[]; // 产品ID，支持 * 通配符，如 BTC-*
+  instType?: string | string[]; // 产品类型
+  side?: string | string[]; // 订单方向
+  state?: string | string[]; // 订单状态
+  ordType?: string | string[]; // 订单类型
+  category?: string | string[]; // 订单种类
+  tagPrefix?: string | string[]; // 订单标签前缀
+  clOrdIdPrefix?: string | string[]; // 客户自定义订单ID前缀
+  minNotional?: number; // 最小名义价值（USD）
+  maxNotional?: number; // 最大名义价值（USD）
+}
+
+/**
+ * 通知规则
+ */
+export interface NotifyRule {
+  name: string; // 规则名称
+  match: NotifyRuleMatch;
+  action: NotifyRuleAction;
+  notifiers?: string[]; // 只发送到指定渠道，不配置则发送到所有已启用渠道
+  level?: NotificationLevel; // 修改通知级别
+}
+
+/**
+ * 规则文件结构
+ */
+export interface NotifyRuleSet {
+  defaultAction: NotifyRuleAction; // 没有规则匹配时的动作
+  rules: NotifyRule[];
+}
+
+/**
+ * 规则评估结果
+ */
+export interface NotifyDecision {
+  action: NotifyRuleAction;
+  rule?: string; // 命中的规则名称
+  notifiers?: string[];
+  level?: NotificationLevel;
+}
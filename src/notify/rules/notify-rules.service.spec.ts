@@ -0,0 +1,100 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { NotifyRulesService } from './notify-rules.service';
+import { toTypedConfig } from '../../config/config.loader';
+import { LoggingService } from '../../common/logging';
+import { OkxOrderData } from '../../common/interfaces/okx-order.interface';
+
+describe('NotifyRulesService', () => {
+  let rulesService: NotifyRulesService;
+
+  const order = (overrides: Partial<OkxOrderData>): OkxOrderData =>
+    ({
+      instType: 'SWAP',
+      instId: 'BTC-USDT-SWAP',
+      side: 'buy',
+      state: 'filled',
+      ordType: 'limit',
+      category: 'normal',
+      tag: '',
+      clOrdId: '',
+      sz: '1',
+      px: '100000',
+      avgPx: '',
+      notionalUsd: '',
+      ...overrides,
+    }) as OkxOrderData;
+
+  beforeEach(async () => {
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotifyRulesService,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => toTypedConfig({})[key] },
+        },
+        { provide: LoggingService, useValue: {} },
+      ],
+    }).compile();
+
+    rulesService = app.get<NotifyRulesService>(NotifyRulesService);
+  });
+
+  it('should send everything without rules', () => {
+    expect(rulesService.evaluate('default', order({}))).toEqual({
+      action: 'send',
+    });
+  });
+
+  it('should apply the first matching rule', () => {
+    rulesService.apply({
+      defaultAction: 'send',
+      rules: [
+        { name: 'drop-live', match: { state: ['live'] }, action: 'drop' },
+        {
+          name: 'grid',
+          match: { tagPrefix: 'grid', state: 'partially_filled' },
+          action: 'drop',
+        },
+        {
+          name: 'big-btc',
+          match: { instId: 'BTC-*', minNotional: 50000 },
+          action: 'send',
+          notifiers: ['telegram'],
+          level: 'urgent',
+        },
+      ],
+    });
+
+    expect(rulesService.evaluate('default', order({ state: 'live' }))).toEqual(
+      expect.objectContaining({ action: 'drop', rule: 'drop-live' }),
+    );
+    expect(
+      rulesService.evaluate(
+        'default',
+        order({ tag: 'grid01', state: 'partially_filled' }),
+      ),
+    ).toEqual(expect.objectContaining({ action: 'drop', rule: 'grid' }));
+    expect(rulesService.evaluate('default', order({}))).toEqual({
+      action: 'send',
+      rule: 'big-btc',
+      notifiers: ['telegram'],
+      level: 'urgent',
+    });
+    expect(
+      rulesService.evaluate('default', order({ instId: 'ETH-USDT-SWAP' })),
+    ).toEqual({ action: 'send' });
+    expect(
+      rulesService.evaluate('default', order({ notionalUsd: '100' })),
+    ).toEqual({ action: 'send' });
+  });
+
+  it('should reject invalid rules and keep the previous rule set', () => {
+    rulesService.apply({ defaultAction: 'drop', rules: [] });
+
+    expect(() =>
+      rulesService.apply({ rules: [{ name: 'bad', action: 'mute' }] }),
+    ).toThrow('规则 bad 的 action 无效: mute');
+    expect(rulesService.getRuleSet().defaultAction).toBe('drop');
+  });
+});
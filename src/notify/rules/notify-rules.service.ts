@@ -0,0 +1,262 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { LoggingService } from '../../common/logging';
+import { OkxOrderData } from '../../common/interfaces/okx-order.interface';
+import { hasValue } from '../../common/utils/format.util';
+import {
+  NotifyDecision,
+  NotifyRule,
+  NotifyRuleMatch,
+  NotifyRuleSet,
+} from './notify-rule.interface';
+
+const RULE_ACTIONS = ['send', 'drop'];
+const RULE_LEVELS = ['normal', 'urgent'];
+
+/**
+ * 默认规则：全部发送（与未配置规则文件时的行为一致）
+ */
+const DEFAULT_RULE_SET: NotifyRuleSet = { defaultAction: 'send', rules: [] };
+
+/**
+ * 通知规则引擎
+ *
+ * 从 JSON/YAML 文件加载规则，文件变化时自动重新加载；
+ * 规则文件也可以是配置文件（CONFIG_FILE），此时读取其中的 notifyRules。
+ * 按顺序匹配，第一条命中的规则决定是否发送、发送渠道和通知级别。
+ */
+@Injectable()
+export class NotifyRulesService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(NotifyRulesService.name);
+  private readonly rulesFile: string;
+  private ruleSet: NotifyRuleSet = DEFAULT_RULE_SET;
+
+  constructor(
+    private configService: ConfigService,
+    private loggingService: LoggingService,
+  ) {
+    this.rulesFile = path.resolve(
+      process.cwd(),
+      this.configService.get<string>('NOTIFY_RULES_FILE')!,
+    );
+  }
+
+  async onModuleInit() {
+    await this.reload();
+    fs.watchFile(this.rulesFile, { interval: 2000 }, () => {
+      void this.reload();
+    });
+  }
+
+  onModuleDestroy() {
+    fs.unwatchFile(this.rulesFile);
+  }
+
+  /**
+   * 获取规则文件路径
+   */
+  getRulesFile(): string {
+    return this.rulesFile;
+  }
+
+  /**
+   * 获取当前生效的规则
+   */
+  getRuleSet(): NotifyRuleSet {
+    return this.ruleSet;
+  }
+
+  /**
+   * 重新加载规则文件，加载失败时保留原有规则
+   */
+  async reload(): Promise<NotifyRuleSet> {
+    if (!fs.existsSync(this.rulesFile)) {
+      this.ruleSet = DEFAULT_RULE_SET;
+      this.logger.log(`未找到通知规则文件，全部通知将发送: ${this.rulesFile}`);
+      return this.ruleSet;
+    }
+
+    try {
+      const content = fs.readFileSync(this.rulesFile, 'utf-8');
+      const raw: unknown = /\.ya?ml$/i.test(this.rulesFile)
+        ? parseYaml(content)
+        : JSON.parse(content);
+      this.apply(
+        raw && typeof raw === 'object' && 'notifyRules' in raw
+          ? raw.notifyRules
+          : raw,
+      );
+
+      this.logger.log(`通知规则已加载: ${this.ruleSet.rules.length} 条`);
+      await this.loggingService.logSystem('INFO', '通知规则已加载', {
+        file: this.rulesFile,
+        defaultAction: this.ruleSet.defaultAction,
+        rules: this.ruleSet.rules.map((rule) => rule.name),
+      });
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`通知规则加载失败: ${errorMessage}`);
+      await this.loggingService.logSystem('ERROR', '通知规则加载失败', {
+        file: this.rulesFile,
+        error: errorMessage,
+      });
+    }
+
+    return this.ruleSet;
+  }
+
+  /**
+   * 校验并应用规则
+   */
+  apply(raw: unknown): void {
+    this.ruleSet = this.validate(raw);
+  }
+
+  /**
+   * 评估订单应如何通知
+   */
+  evaluate(account: string, order: OkxOrderData): NotifyDecision {
+    for (const rule of this.ruleSet.rules) {
+      if (this.matches(rule.match, account, order)) {
+        return {
+          action: rule.action,
+          rule: rule.name,
+          notifiers: rule.notifiers,
+          level: rule.level,
+        };
+      }
+    }
+    return { action: this.ruleSet.defaultAction };
+  }
+
+  /**
+   * 判断订单是否满足匹配条件
+   */
+  private matches(
+    match: NotifyRuleMatch,
+    account: string,
+    order: OkxOrderData,
+  ): boolean {
+    const checks: [string | string[] | undefined, string, boolean][] = [
+      [match.account, account, false],
+      [match.instId, order.instId, false],
+      [match.instType, order.instType, false],
+      [match.side, order.side, false],
+      [match.state, order.state, false],
+      [match.ordType, order.ordType, false],
+      [match.category, order.category, false],
+      [match.tagPrefix, order.tag, true],
+      [match.clOrdIdPrefix, order.clOrdId, true],
+    ];
+
+    for (const [expected, actual, isPrefix] of checks) {
+      if (expected === undefined) {
+        continue;
+      }
+      const patterns = Array.isArray(expected) ? expected : [expected];
+      const matched = patterns.some((pattern) =>
+        isPrefix
+          ? (actual || '').startsWith(pattern)
+          : this.matchPattern(pattern, actual || ''),
+      );
+      if (!matched) {
+        return false;
+      }
+    }
+
+    if (match.minNotional !== undefined || match.maxNotional !== undefined) {
+      const notional = this.getNotional(order);
+      if (notional === undefined) {
+        return false;
+      }
+      if (match.minNotional !== undefined && notional < match.minNotional) {
+        return false;
+      }
+      if (match.maxNotional !== undefined && notional > match.maxNotional) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * 通配符匹配（* 匹配任意字符）
+   */
+  private matchPattern(pattern: string, value: string): boolean {
+    if (!pattern.includes('*')) {
+      return pattern === value;
+    }
+    const regex = pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${regex}$`).test(value);
+  }
+
+  /**
+   * 计算订单名义价值（USD），优先使用 notionalUsd
+   */
+  private getNotional(order: OkxOrderData): number | undefined {
+    if (hasValue(order.notionalUsd)) {
+      return parseFloat(order.notionalUsd);
+    }
+    const px = hasValue(order.avgPx) ? order.avgPx : order.px;
+    if (hasValue(px) && hasValue(order.sz)) {
+      return parseFloat(px) * parseFloat(order.sz);
+    }
+    return undefined;
+  }
+
+  /**
+   * 校验规则结构
+   */
+  private validate(raw: unknown): NotifyRuleSet {
+    if (!raw || typeof raw !== 'object') {
+      throw new Error('规则文件必须是对象');
+    }
+
+    const { defaultAction = 'send', rules = [] } = raw as Partial<
+      Record<keyof NotifyRuleSet, unknown>
+    >;
+
+    if (!RULE_ACTIONS.includes(defaultAction as string)) {
+      throw new Error(`defaultAction 无效: ${String(defaultAction)}`);
+    }
+    if (!Array.isArray(rules)) {
+      throw new Error('rules 必须是数组');
+    }
+
+    return {
+      defaultAction: defaultAction as NotifyRuleSet['defaultAction'],
+      rules: rules.map((rule: Partial<NotifyRule>, index) => {
+        const name = rule.name || `rule-${index + 1}`;
+        if (!RULE_ACTIONS.includes(rule.action as string)) {
+          throw new Error(`规则 ${name} 的 action 无效: ${rule.action}`);
+        }
+        if (rule.level !== undefined && !RULE_LEVELS.includes(rule.level)) {
+          throw new Error(`规则 ${name} 的 level 无效: ${rule.level}`);
+        }
+        if (rule.notifiers !== undefined && !Array.isArray(rule.notifiers)) {
+          throw new Error(`规则 ${name} 的 notifiers 必须是数组`);
+        }
+        return {
+          name,
+          match: rule.match || {},
+          action: rule.action!,
+          notifiers: rule.notifiers,
+          level: rule.level,
+        };
+      }),
+    };
+  }
+}
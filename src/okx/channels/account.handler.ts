@@ -0,0 +1,67 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { LoggingService } from '../../common/logging';
+import { PortfolioService } from '../../portfolio/portfolio.service';
+import {
+  OkxAccountData,
+  OkxSubscribeArg,
+} from '../../common/interfaces/okx-order.interface';
+import { OkxAccountConfig } from '../okx-account.config';
+import { OkxChannelHandler } from './okx-channel-handler.interface';
+
+/**
+ * 账户余额日志最小记录间隔（毫秒），account 频道会定时推送
+ */
+const ACCOUNT_LOG_INTERVAL = 60 * 1000;
+
+/**
+ * 账户频道处理器（更新账户组合缓存并记录日志，不发送通知）
+ */
+@Injectable()
+export class AccountChannelHandler implements OkxChannelHandler<OkxAccountData> {
+  private readonly logger = new Logger(AccountChannelHandler.name);
+  readonly channels = ['account'];
+
+  // 账户 -> 上次记录时间
+  private readonly lastLoggedAt = new Map<string, number>();
+
+  constructor(
+    private readonly loggingService: LoggingService,
+    private readonly portfolioService: PortfolioService,
+  ) {}
+
+  getSubscribeArg(channel: string): OkxSubscribeArg {
+    return { channel };
+  }
+
+  async handle(account: OkxAccountConfig, balances: OkxAccountData[]) {
+    this.portfolioService.updateBalance(account.name, balances);
+
+    const now = Date.now();
+    const last = this.lastLoggedAt.get(account.name) ?? 0;
+    if (now - last < ACCOUNT_LOG_INTERVAL) {
+      return;
+    }
+    this.lastLoggedAt.set(account.name, now);
+
+    for (const balance of balances) {
+      this.logger.log(`[${account.name}] 账户权益: ${balance.totalEq} USD`);
+      await this.loggingService.logAccount(
+        '账户余额更新',
+        {
+          totalEq: balance.totalEq,
+          adjEq: balance.adjEq,
+          imr: balance.imr,
+          mmr: balance.mmr,
+          mgnRatio: balance.mgnRatio,
+          details: balance.details.map((detail) => ({
+            ccy: detail.ccy,
+            eq: detail.eq,
+            availBal: detail.availBal,
+            upl: detail.upl,
+          })),
+        },
+        account.name,
+      );
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { NotifyService } from '../../notify/notify.service';
+import { LoggingService } from '../../common/logging';
+import {
+  OkxAlgoOrderData,
+  OkxSubscribeArg,
+  ALGO_ORD_TYPE_MAP,
+  ALGO_STATE_MAP,
+  ORDER_SIDE_MAP,
+} from '../../common/interfaces/okx-order.interface';
+import { formatDate, hasValue } from '../../common/utils/format.util';
+import { OkxAccountConfig, toNotificationOptions } from '../okx-account.config';
+import { OkxChannelHandler } from './okx-channel-handler.interface';
+
+/**
+ * 需要发送通知的策略委托状态（新挂单 live 只记录日志）
+ */
+const NOTIFY_STATES = [
+  'effective',
+  'partially_effective',
+  'order_failed',
+  'partially_failed',
+  'canceled',
+];
+
+/**
+ * 策略委托频道处理器（orders-algo / algo-advance）
+ */
+@Injectable()
+export class AlgoOrdersChannelHandler implements OkxChannelHandler<OkxAlgoOrderData> {
+  private readonly logger = new Logger(AlgoOrdersChannelHandler.name);
+  readonly channels = ['orders-algo', 'algo-advance'];
+
+  constructor(
+    private readonly notifyService: NotifyService,
+    private readonly loggingService: LoggingService,
+  ) {}
+
+  getSubscribeArg(channel: string): OkxSubscribeArg {
+    return { channel, instType: 'ANY' };
+  }
+
+  async handle(
+    account: OkxAccountConfig,
+    algoOrders: OkxAlgoOrderData[],
+    arg: OkxSubscribeArg,
+  ) {
+    for (const algo of algoOrders) {
+      this.logger.log(
+        `[${account.name}] 收到策略委托更新(${arg.channel}): ${JSON.stringify(algo)}`,
+      );
+
+      await this.loggingService.logAlgoOrder(
+        '收到策略委托更新',
+        {
+          channel: arg.channel,
+          algoId: algo.algoId,
+          ordId: algo.ordId,
+          instId: algo.instId,
+          ordType: algo.ordType,
+          side: algo.side,
+          state: algo.state,
+          sz: algo.sz,
+          triggerPx: algo.triggerPx,
+          tpTriggerPx: algo.tpTriggerPx,
+          slTriggerPx: algo.slTriggerPx,
+          actualSide: algo.actualSide,
+          actualPx: algo.actualPx,
+        },
+        account.name,
+      );
+
+      if (!NOTIFY_STATES.includes(algo.state)) {
+        continue;
+      }
+
+      const time = formatDate(
+        hasValue(algo.triggerTime) ? algo.triggerTime : algo.uTime,
+      );
+      const instId = algo.instId;
+      const side = ORDER_SIDE_MAP[algo.side] || algo.side;
+      const size = this.formatSize(algo);
+      const state = this.formatState(algo);
+
+      await this.notifyService.notify(
+        {
+          title: '策略委托',
+          time,
+          instId,
+          side,
+          size,
+          state,
+          ...toNotificationOptions(account),
+        },
+        { algoId: algo.algoId },
+      );
+    }
+  }
+
+  /**
+   * 格式化策略委托状态，止盈止损触发时区分止盈/止损
+   */
+  private formatState(algo: OkxAlgoOrderData): string {
+    const ordType = ALGO_ORD_TYPE_MAP[algo.ordType] || algo.ordType;
+
+    if (algo.state === 'effective') {
+      if (algo.actualSide === 'tp') {
+        return '止盈已触发';
+      }
+      if (algo.actualSide === 'sl') {
+        return '止损已触发';
+      }
+      return `${ordType}已触发`;
+    }
+
+    return `${ordType}${ALGO_STATE_MAP[algo.state] || algo.state}`;
+  }
+
+  /**
+   * 格式化委托数量（包含实际委托价或触发价）
+   */
+  private formatSize(algo: OkxAlgoOrderData): string {
+    const size = hasValue(algo.actualSz) ? algo.actualSz : algo.sz;
+
+    if (hasValue(algo.actualPx)) {
+      return `${size} @ ${algo.actualPx}`;
+    }
+    if (algo.actualSide === 'tp' && hasValue(algo.tpTriggerPx)) {
+      return `${size} @ ${algo.tpTriggerPx}`;
+    }
+    if (algo.actualSide === 'sl' && hasValue(algo.slTriggerPx)) {
+      return `${size} @ ${algo.slTriggerPx}`;
+    }
+    if (hasValue(algo.triggerPx)) {
+      return `${size} @ ${algo.triggerPx}`;
+    }
+    return size;
+  }
+}
@@ -0,0 +1,90 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { NotifyService } from '../../notify/notify.service';
+import { LoggingService } from '../../common/logging';
+import {
+  OkxBalanceAndPositionData,
+  OkxSubscribeArg,
+  BALANCE_EVENT_TYPE_MAP,
+  POS_SIDE_MAP,
+} from '../../common/interfaces/okx-order.interface';
+import { formatDate } from '../../common/utils/format.util';
+import { OkxAccountConfig, toNotificationOptions } from '../okx-account.config';
+import { OkxChannelHandler } from './okx-channel-handler.interface';
+
+/**
+ * 需要发送通知的事件类型
+ */
+const NOTIFY_EVENT_TYPES = [
+  'liquidation',
+  'adl',
+  'claw_back',
+  'delivered',
+  'exercised',
+];
+
+/**
+ * 账户余额和持仓频道处理器
+ */
+@Injectable()
+export class BalanceAndPositionChannelHandler implements OkxChannelHandler<OkxBalanceAndPositionData> {
+  private readonly logger = new Logger(BalanceAndPositionChannelHandler.name);
+  readonly channels = ['balance_and_position'];
+
+  constructor(
+    private readonly notifyService: NotifyService,
+    private readonly loggingService: LoggingService,
+  ) {}
+
+  getSubscribeArg(channel: string): OkxSubscribeArg {
+    return { channel };
+  }
+
+  async handle(account: OkxAccountConfig, events: OkxBalanceAndPositionData[]) {
+    for (const event of events) {
+      // 首推快照不记录
+      if (event.eventType === 'snapshot') {
+        continue;
+      }
+
+      const eventName =
+        BALANCE_EVENT_TYPE_MAP[event.eventType] || event.eventType;
+      this.logger.log(`[${account.name}] 余额和持仓变化: ${eventName}`);
+
+      await this.loggingService.logAccount(
+        `余额和持仓变化: ${eventName}`,
+        {
+          eventType: event.eventType,
+          balData: event.balData,
+          posData: event.posData,
+          trades: event.trades,
+        },
+        account.name,
+      );
+
+      if (!NOTIFY_EVENT_TYPES.includes(event.eventType)) {
+        continue;
+      }
+
+      for (const pos of event.posData) {
+        const time = formatDate(event.pTime);
+        const instId = pos.instId;
+        const side = POS_SIDE_MAP[pos.posSide] || pos.posSide;
+        const size = pos.pos;
+        const state = eventName;
+
+        await this.notifyService.notify(
+          {
+            title: '余额和持仓事件',
+            time,
+            instId,
+            side,
+            size,
+            state,
+            ...toNotificationOptions(account),
+          },
+          { eventType: event.eventType },
+        );
+      }
+    }
+  }
+}
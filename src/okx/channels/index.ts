@@ -0,0 +1,7 @@
+export * from './okx-channel-handler.interface';
+export * from './okx-channel.registry';
+export * from './orders.handler';
+export * from './algo-orders.handler';
+export * from './positions.handler';
+export * from './balance-and-position.handler';
+export * from './account.handler';
@@ -0,0 +1,28 @@
+import { OkxSubscribeArg } from '../../common/interfaces/okx-order.interface';
+import { OkxAccountConfig } from '../okx-account.config';
+
+/**
+ * 私有频道处理器
+ *
+ * 每个处理器负责一个或多个频道的订阅参数、日志记录和通知格式化
+ */
+export interface OkxChannelHandler<T = unknown> {
+  /**
+   * 处理的频道名称
+   */
+  readonly channels: string[];
+
+  /**
+   * 生成订阅参数
+   */
+  getSubscribeArg(channel: string): OkxSubscribeArg;
+
+  /**
+   * 处理频道推送数据
+   */
+  handle(
+    account: OkxAccountConfig,
+    data: T[],
+    arg: OkxSubscribeArg,
+  ): Promise<void>;
+}
@@ -0,0 +1,72 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OkxSubscribeArg } from '../../common/interfaces/okx-order.interface';
+import { OkxChannelHandler } from './okx-channel-handler.interface';
+import { OrdersChannelHandler } from './orders.handler';
+import { AlgoOrdersChannelHandler } from './algo-orders.handler';
+import { PositionsChannelHandler } from './positions.handler';
+import { BalanceAndPositionChannelHandler } from './balance-and-position.handler';
+import { AccountChannelHandler } from './account.handler';
+
+/**
+ * 频道处理器注册表
+ */
+@Injectable()
+export class OkxChannelRegistry {
+  private readonly logger = new Logger(OkxChannelRegistry.name);
+  private readonly handlers = new Map<string, OkxChannelHandler>();
+
+  constructor(
+    ordersHandler: OrdersChannelHandler,
+    algoOrdersHandler: AlgoOrdersChannelHandler,
+    positionsHandler: PositionsChannelHandler,
+    balanceAndPositionHandler: BalanceAndPositionChannelHandler,
+    accountHandler: AccountChannelHandler,
+  ) {
+    [
+      ordersHandler,
+      algoOrdersHandler,
+      positionsHandler,
+      balanceAndPositionHandler,
+      accountHandler,
+    ].forEach((handler) => this.register(handler));
+  }
+
+  /**
+   * 注册频道处理器
+   */
+  register(handler: OkxChannelHandler) {
+    for (const channel of handler.channels) {
+      this.handlers.set(channel, handler);
+    }
+  }
+
+  /**
+   * 获取频道处理器
+   */
+  get(channel: string): OkxChannelHandler | undefined {
+    return this.handlers.get(channel);
+  }
+
+  /**
+   * 获取所有支持的频道
+   */
+  getChannels(): string[] {
+    return [...this.handlers.keys()];
+  }
+
+  /**
+   * 生成订阅参数，忽略不支持的频道
+   */
+  getSubscribeArgs(channels: string[]): OkxSubscribeArg[] {
+    const args: OkxSubscribeArg[] = [];
+    for (const channel of channels) {
+      const handler = this.handlers.get(channel);
+      if (!handler) {
+        this.logger.warn(`不支持的频道: ${channel}，已忽略`);
+        continue;
+      }
+      args.push(handler.getSubscribeArg(channel));
+    }
+    return args;
+  }
+}
@@ -0,0 +1,94 @@
+import { OrdersChannelHandler } from './orders.handler';
+import { OrderStateService } from '../order-state.service';
+import { OkxAccountConfig } from '../okx-account.config';
+import { OkxOrderData } from '../../common/interfaces/okx-order.interface';
+import { NotifyService } from '../../notify/notify.service';
+import { NotificationMessage } from '../../notify/notifier.interface';
+import { NotifyRulesService } from '../../notify/rules/notify-rules.service';
+import { OrderHistoryService } from '../../orders';
+import { TradeLedgerService } from '../../trades';
+import { LoggingService } from '../../common/logging';
+import { EventBusService } from '../../events/event-bus.service';
+import { MetricsService } from '../../metrics/metrics.service';
+import { PortfolioService } from '../../portfolio/portfolio.service';
+
+describe('OrdersChannelHandler', () => {
+  const account = {
+    name: 'main',
+    wechatOpenids: [],
+  } as unknown as OkxAccountConfig;
+  const order = {
+    ordId: '1',
+    instType: 'SWAP',
+    instId: 'BTC-USDT-SWAP',
+    side: 'buy',
+    state: 'filled',
+    sz: '1',
+    accFillSz: '1',
+    uTime: '1000',
+  } as OkxOrderData;
+  let notify: jest.Mock<Promise<unknown>, [NotificationMessage]>;
+  let describeFill: jest.Mock;
+  let handler: OrdersChannelHandler;
+
+  beforeEach(() => {
+    notify = jest
+      .fn<Promise<unknown>, [NotificationMessage]>()
+      .mockResolvedValue(undefined);
+    describeFill = jest.fn();
+    handler = new OrdersChannelHandler(
+      { notify } as unknown as NotifyService,
+      {
+        evaluate: () => ({ action: 'send', level: 'normal' }),
+      } as unknown as NotifyRulesService,
+      new OrderStateService(),
+      { record: jest.fn() } as unknown as OrderHistoryService,
+      { recordFill: jest.fn() } as unknown as TradeLedgerService,
+      new Proxy(
+        {},
+        { get: () => jest.fn().mockResolvedValue(undefined) },
+      ) as LoggingService,
+      { publish: jest.fn() } as unknown as EventBusService,
+      { recordOrder: jest.fn() } as unknown as MetricsService,
+      {
+        enrichNotifications: true,
+        invalidate: jest.fn(),
+        describeFill,
+      } as unknown as PortfolioService,
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should attach the portfolio to fill notifications', async () => {
+    describeFill.mockResolvedValue(['持仓：多 1 张']);
+    await handler.handle(account, [order]);
+
+    expect(describeFill).toHaveBeenCalledWith(account, 'SWAP', 'BTC-USDT-SWAP');
+    expect(notify.mock.calls[0][0]).toMatchObject({
+      title: '订单更新',
+      details: ['持仓：多 1 张'],
+    });
+  });
+
+  it('should notify without details when the portfolio request fails', async () => {
+    describeFill.mockRejectedValue(new Error('timeout of 10000ms exceeded'));
+    await handler.handle(account, [order]);
+
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(notify.mock.calls[0][0].details).toBeUndefined();
+  });
+
+  it('should not wait for a slow portfolio request', async () => {
+    jest.useFakeTimers();
+    describeFill.mockReturnValue(new Promise(() => undefined));
+    const handled = handler.handle(account, [order]);
+
+    await jest.advanceTimersByTimeAsync(3000);
+    await handled;
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(notify.mock.calls[0][0].details).toBeUndefined();
+  });
+});
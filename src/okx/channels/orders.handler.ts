@@ -0,0 +1,237 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { NotifyService } from '../../notify/notify.service';
+import { NotifyRulesService } from '../../notify/rules/notify-rules.service';
+import { OrderHistoryService } from '../../orders';
+import { TradeLedgerService } from '../../trades';
+import { LoggingService } from '../../common/logging';
+import { EventBusService } from '../../events/event-bus.service';
+import { MetricsService } from '../../metrics/metrics.service';
+import { PortfolioService } from '../../portfolio/portfolio.service';
+import {
+  OkxOrderData,
+  OkxSubscribeArg,
+  ORDER_SIDE_MAP,
+} from '../../common/interfaces/okx-order.interface';
+import { formatDate, hasValue } from '../../common/utils/format.util';
+import { OkxAccountConfig, toNotificationOptions } from '../okx-account.config';
+import { OkxChannelHandler } from './okx-channel-handler.interface';
+import { OrderStateService, OrderTransition } from '../order-state.service';
+
+/**
+ * 成交通知等待账户组合的最长时间，超时后不附带持仓直接发送
+ */
+const ENRICH_TIMEOUT_MS = 3000;
+
+/**
+ * 订单频道处理器
+ */
+@Injectable()
+export class OrdersChannelHandler implements OkxChannelHandler<OkxOrderData> {
+  private readonly logger = new Logger(OrdersChannelHandler.name);
+  readonly channels = ['orders'];
+
+  constructor(
+    private readonly notifyService: NotifyService,
+    private readonly notifyRulesService: NotifyRulesService,
+    private readonly orderStateService: OrderStateService,
+    private readonly orderHistoryService: OrderHistoryService,
+    private readonly tradeLedgerService: TradeLedgerService,
+    private readonly loggingService: LoggingService,
+    private readonly eventBus: EventBusService,
+    private readonly metrics: MetricsService,
+    private readonly portfolioService: PortfolioService,
+  ) {}
+
+  getSubscribeArg(channel: string): OkxSubscribeArg {
+    return { channel, instType: 'ANY' };
+  }
+
+  async handle(account: OkxAccountConfig, orders: OkxOrderData[]) {
+    await this.handleOrderData(account, orders);
+  }
+
+  /**
+   * 处理断线补单拉取的订单
+   *
+   * processedFillSizes 为订单ID -> 补拉窗口之前已处理的累计成交数量，
+   * 重启后没有订单状态时，只把窗口内的成交计为新增，避免重复通知
+   */
+  async handleRecovered(
+    account: OkxAccountConfig,
+    orders: OkxOrderData[],
+    processedFillSizes: Map<string, string>,
+  ) {
+    await this.handleOrderData(account, orders, processedFillSizes);
+  }
+
+  /**
+   * 处理订单数据
+   */
+  private async handleOrderData(
+    account: OkxAccountConfig,
+    orders: OkxOrderData[],
+    processedFillSizes?: Map<string, string>,
+  ) {
+    for (const order of orders) {
+      this.logger.log(
+        `[${account.name}] 收到订单更新: ${JSON.stringify(order)}`,
+      );
+
+      // 丢弃重复或过期的推送
+      const transition = this.orderStateService.track(
+        account.name,
+        order,
+        processedFillSizes?.get(order.ordId),
+      );
+      if (!transition) {
+        this.logger.log(
+          `[${account.name}] 忽略重复订单更新: ${order.ordId} ${order.state}`,
+        );
+        continue;
+      }
+
+      // 持久化订单更新和成交
+      this.orderHistoryService.record(account.name, order);
+      this.tradeLedgerService.recordFill(account.name, order);
+
+      this.metrics.recordOrder(account.name, order.state, order.instType);
+
+      // 有新成交时余额和持仓已变化，下次读取账户组合时刷新
+      const filled = parseFloat(transition.fillDelta) > 0;
+      if (filled) {
+        this.portfolioService.invalidate(account.name);
+      }
+
+      // 记录订单日志并发布事件
+      const orderLog = {
+        ordId: order.ordId,
+        instId: order.instId,
+        side: order.side,
+        state: order.state,
+        transition: this.orderStateService.describe(transition),
+        sz: order.sz,
+        px: order.px,
+        accFillSz: order.accFillSz,
+        avgPx: order.avgPx,
+        pnl: order.pnl,
+      };
+      this.eventBus.publish({
+        category: 'ORDER',
+        type: 'order.update',
+        message: `订单更新: ${orderLog.transition}`,
+        account: account.name,
+        instId: order.instId,
+        data: {
+          ...orderLog,
+          isNew: transition.isNew,
+          prevState: transition.prevState,
+          fillDelta: transition.fillDelta,
+          ordType: order.ordType,
+          fillPx: order.fillPx,
+          uTime: order.uTime,
+        },
+      });
+      await this.loggingService.logOrder(
+        '收到订单更新',
+        orderLog,
+        account.name,
+      );
+
+      // 按通知规则决定是否发送
+      const decision = this.notifyRulesService.evaluate(account.name, order);
+      if (decision.action === 'drop') {
+        this.logger.log(
+          `[${account.name}] 订单通知被规则过滤: ${decision.rule ?? '默认规则'}`,
+        );
+        continue;
+      }
+
+      // 格式化订单信息用于通知
+      const time = formatDate(order.uTime);
+      const instId = order.instId;
+      const side = ORDER_SIDE_MAP[order.side] || order.side;
+      const size = this.formatSize(order, transition);
+      const state = this.orderStateService.describeState(transition, true);
+      const details =
+        filled && this.portfolioService.enrichNotifications
+          ? await this.describeFill(account, order)
+          : undefined;
+
+      // 发送通知
+      await this.notifyService.notify(
+        {
+          title: '订单更新',
+          time,
+          instId,
+          side,
+          size,
+          state,
+          level: decision.level,
+          details,
+          ...toNotificationOptions(account),
+        },
+        { ordId: order.ordId, rule: decision.rule },
+        { notifiers: decision.notifiers },
+      );
+    }
+  }
+
+  /**
+   * 成交通知附带的持仓说明
+   *
+   * 账户组合需要 REST 刷新，超时或失败时返回 undefined，不阻塞后续订单的通知
+   */
+  private async describeFill(
+    account: OkxAccountConfig,
+    order: OkxOrderData,
+  ): Promise<string[] | undefined> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<undefined>((resolve) => {
+      timer = setTimeout(() => resolve(undefined), ENRICH_TIMEOUT_MS);
+    });
+    try {
+      const details = await Promise.race([
+        this.portfolioService.describeFill(
+          account,
+          order.instType,
+          order.instId,
+        ),
+        timeout,
+      ]);
+      if (!details) {
+        this.logger.warn(
+          `[${account.name}] 获取账户组合超时，通知不附带持仓: ${order.ordId}`,
+        );
+      }
+      return details;
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(
+        `[${account.name}] 获取账户组合失败，通知不附带持仓: ${errorMessage}`,
+      );
+      return undefined;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * 格式化成交数量（有新增成交时显示本次成交，否则显示委托数量和均价）
+   */
+  private formatSize(order: OkxOrderData, transition: OrderTransition): string {
+    if (parseFloat(transition.fillDelta) > 0) {
+      const px = hasValue(order.fillPx) ? order.fillPx : order.avgPx;
+      return `+${transition.fillDelta} @ ${px} (累计 ${order.accFillSz}/${order.sz})`;
+    }
+
+    let result = order.sz;
+
+    // 如果有成交均价，附加上
+    if (order.avgPx && order.avgPx !== '0' && order.avgPx !== '') {
+      result += ` @ ${order.avgPx}`;
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,63 @@
+import { PositionsChannelHandler } from './positions.handler';
+import { OkxAccountConfig } from '../okx-account.config';
+import { OkxPositionData } from '../../common/interfaces/okx-order.interface';
+import { NotifyService } from '../../notify/notify.service';
+import { NotificationMessage } from '../../notify/notifier.interface';
+import { LoggingService } from '../../common/logging';
+import { RiskMonitorService } from '../../risk/risk-monitor.service';
+import { PortfolioService } from '../../portfolio/portfolio.service';
+
+describe('PositionsChannelHandler', () => {
+  const account = {
+    name: 'main',
+    wechatOpenids: [],
+  } as unknown as OkxAccountConfig;
+  let notify: jest.Mock<Promise<unknown>, [NotificationMessage]>;
+  let handler: PositionsChannelHandler;
+
+  const position = (pos: string): OkxPositionData =>
+    ({
+      posId: '1',
+      instId: 'BTC-USDT-SWAP',
+      posSide: 'long',
+      pos,
+      mgnRatio: '',
+      realizedPnl: '12',
+      uTime: '1000',
+    }) as OkxPositionData;
+
+  beforeEach(() => {
+    notify = jest
+      .fn<Promise<unknown>, [NotificationMessage]>()
+      .mockResolvedValue(undefined);
+    handler = new PositionsChannelHandler(
+      { notify } as unknown as NotifyService,
+      new Proxy(
+        {},
+        { get: () => jest.fn().mockResolvedValue(undefined) },
+      ) as LoggingService,
+      { checkPosition: jest.fn() } as unknown as RiskMonitorService,
+      { updatePositions: jest.fn() } as unknown as PortfolioService,
+    );
+  });
+
+  it('should notify when a known position is closed', async () => {
+    await handler.handle(account, [position('2')]);
+    await handler.handle(account, [position('0')]);
+
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(notify.mock.calls[0][0]).toMatchObject({
+      title: '平仓通知',
+      size: '2 收益 12',
+    });
+
+    await handler.handle(account, [position('0')]);
+    expect(notify).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not notify for an empty position on the first push', async () => {
+    await handler.handle(account, [position('0')]);
+
+    expect(notify).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { NotifyService } from '../../notify/notify.service';
+import { LoggingService } from '../../common/logging';
+import { RiskMonitorService } from '../../risk/risk-monitor.service';
+import { PortfolioService } from '../../portfolio/portfolio.service';
+import {
+  OkxPositionData,
+  OkxSubscribeArg,
+  POS_SIDE_MAP,
+} from '../../common/interfaces/okx-order.interface';
+import { formatDate, hasValue } from '../../common/utils/format.util';
+import { OkxAccountConfig, toNotificationOptions } from '../okx-account.config';
+import { OkxChannelHandler } from './okx-channel-handler.interface';
+
+/**
+ * 保证金率相对变化超过该比例时记录日志
+ */
+const MGN_RATIO_LOG_THRESHOLD = 0.1;
+
+/**
+ * 持仓最近状态
+ */
+interface PositionSnapshot {
+  pos: string;
+  mgnRatio: string;
+}
+
+/**
+ * 持仓频道处理器
+ */
+@Injectable()
+export class PositionsChannelHandler implements OkxChannelHandler<OkxPositionData> {
+  private readonly logger = new Logger(PositionsChannelHandler.name);
+  readonly channels = ['positions'];
+
+  // 账户:持仓ID -> 最近一次持仓状态
+  private readonly snapshots = new Map<string, PositionSnapshot>();
+
+  constructor(
+    private readonly notifyService: NotifyService,
+    private readonly loggingService: LoggingService,
+    private readonly riskMonitor: RiskMonitorService,
+    private readonly portfolioService: PortfolioService,
+  ) {}
+
+  getSubscribeArg(channel: string): OkxSubscribeArg {
+    return { channel, instType: 'ANY' };
+  }
+
+  async handle(account: OkxAccountConfig, positions: OkxPositionData[]) {
+    this.portfolioService.updatePositions(account.name, positions);
+
+    for (const position of positions) {
+      const key = `${account.name}:${position.posId}`;
+      const previous = this.snapshots.get(key);
+      this.snapshots.set(key, {
+        pos: position.pos,
+        mgnRatio: position.mgnRatio,
+      });
+
+      if (!previous || previous.pos !== position.pos) {
+        this.logger.log(
+          `[${account.name}] 持仓变化: ${position.instId} ${previous?.pos ?? '-'} -> ${position.pos}`,
+        );
+        await this.loggingService.logPosition(
+          '持仓变化',
+          {
+            instId: position.instId,
+            posId: position.posId,
+            posSide: position.posSide,
+            mgnMode: position.mgnMode,
+            prevPos: previous?.pos,
+            pos: position.pos,
+            avgPx: position.avgPx,
+            lever: position.lever,
+            upl: position.upl,
+            liqPx: position.liqPx,
+            mgnRatio: position.mgnRatio,
+          },
+          account.name,
+        );
+      } else if (this.isMgnRatioChanged(previous.mgnRatio, position.mgnRatio)) {
+        await this.loggingService.logPosition(
+          '保证金率变化',
+          {
+            instId: position.instId,
+            posId: position.posId,
+            prevMgnRatio: previous.mgnRatio,
+            mgnRatio: position.mgnRatio,
+            markPx: position.markPx,
+            liqPx: position.liqPx,
+          },
+          account.name,
+        );
+      }
+
+      // 已知的持仓数量归零表示已平仓（首次推送的空仓不通知）
+      if (position.pos === '0' && previous && previous.pos !== '0') {
+        await this.notifyPositionClosed(account, position, previous);
+      }
+
+      // 保证金率和强平风险检查
+      await this.riskMonitor.checkPosition(account, position);
+    }
+  }
+
+  /**
+   * 保证金率是否发生明显变化
+   */
+  private isMgnRatioChanged(previous: string, current: string): boolean {
+    if (!hasValue(previous) || !hasValue(current)) {
+      return previous !== current;
+    }
+    const prev = parseFloat(previous);
+    const curr = parseFloat(current);
+    return Math.abs(curr - prev) / Math.abs(prev) >= MGN_RATIO_LOG_THRESHOLD;
+  }
+
+  /**
+   * 发送平仓通知
+   */
+  private async notifyPositionClosed(
+    account: OkxAccountConfig,
+    position: OkxPositionData,
+    previous: PositionSnapshot,
+  ) {
+    const time = formatDate(position.uTime);
+    const instId = position.instId;
+    const side = POS_SIDE_MAP[position.posSide] || position.posSide;
+    const pnl = hasValue(position.realizedPnl)
+      ? position.realizedPnl
+      : position.pnl;
+    const size = `${previous.pos} 收益 ${pnl || '0'}`;
+    const state = '持仓已平仓';
+
+    await this.notifyService.notify(
+      {
+        title: '平仓通知',
+        time,
+        instId,
+        side,
+        size,
+        state,
+        ...toNotificationOptions(account),
+      },
+      { posId: position.posId },
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { ConfigService } from '@nestjs/config';
+import { NotificationMessage } from '../notify/notifier.interface';
+
+/**
+ * OKX账户配置
+ */
+export interface OkxAccountConfig {
+  name: string; // 账户名称（用于日志和通知中区分账户）
+  apiKey: string;
+  secretKey: string;
+  passphrase: string;
+  isSimulated: boolean; // 是否模拟盘
+  wechatOpenids: string[]; // 该账户的通知接收人，为空时使用默认 WECHAT_OPENID
+  channels: string[]; // 订阅的私有频道
+}
+
+/**
+ * 默认账户名称（未配置 OKX_ACCOUNTS 时使用）
+ */
+export const DEFAULT_ACCOUNT_NAME = 'default';
+
+/**
+ * 公共频道连接的名称（用于日志、状态和通知中区分）
+ */
+export const PUBLIC_CONNECTION_NAME = 'public';
+
+/**
+ * 账户配置变量的前缀，如 main -> OKX_MAIN_
+ */
+export function getAccountEnvPrefix(name: string): string {
+  return `OKX_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+}
+
+/**
+ * 从环境变量加载账户列表
+ *
+ * 配置了 OKX_ACCOUNTS=main,sub1 时，每个账户读取 OKX_<NAME>_API_KEY 等带前缀的变量；
+ * 否则沿用单账户的 OKX_API_KEY / OKX_SECRET_KEY / OKX_PASSPHRASE。
+ * 必填项已在启动时校验（见 config/config.loader.ts），缺失时直接抛错。
+ */
+export function loadOkxAccounts(
+  configService: ConfigService,
+): OkxAccountConfig[] {
+  const names = configService.get<string[]>('OKX_ACCOUNTS') ?? [];
+  const defaultChannels = configService.get<string[]>('OKX_CHANNELS')!;
+
+  if (names.length === 0) {
+    return [
+      {
+        name: DEFAULT_ACCOUNT_NAME,
+        apiKey: configService.getOrThrow<string>('OKX_API_KEY'),
+        secretKey: configService.getOrThrow<string>('OKX_SECRET_KEY'),
+        passphrase: configService.getOrThrow<string>('OKX_PASSPHRASE'),
+        isSimulated: configService.get<boolean>('OKX_SIMULATED')!,
+        wechatOpenids: [],
+        channels: defaultChannels,
+      },
+    ];
+  }
+
+  return names.map((name) => {
+    const prefix = getAccountEnvPrefix(name);
+    return {
+      name,
+      apiKey: configService.getOrThrow<string>(`${prefix}API_KEY`),
+      secretKey: configService.getOrThrow<string>(`${prefix}SECRET_KEY`),
+      passphrase: configService.getOrThrow<string>(`${prefix}PASSPHRASE`),
+      isSimulated: configService.get<boolean>(`${prefix}SIMULATED`)!,
+      wechatOpenids:
+        configService.get<string[]>(`${prefix}WECHAT_OPENID`) ?? [],
+      channels:
+        configService.get<string[]>(`${prefix}CHANNELS`) ?? defaultChannels,
+    };
+  });
+}
+
+/**
+ * 公共频道连接的配置（无需 API Key，OKX_PUBLIC_SIMULATED=true 时连接模拟盘行情）
+ */
+export function loadPublicAccount(
+  configService: ConfigService,
+): OkxAccountConfig {
+  return {
+    name: PUBLIC_CONNECTION_NAME,
+    apiKey: '',
+    secretKey: '',
+    passphrase: '',
+    isSimulated: configService.get<boolean>('OKX_PUBLIC_SIMULATED')!,
+    wechatOpenids: [],
+    channels: [],
+  };
+}
+
+/**
+ * 生成账户的通知选项（默认账户不在通知中显示账户名）
+ */
+export function toNotificationOptions(
+  account: OkxAccountConfig,
+): Pick<NotificationMessage, 'account' | 'recipients'> {
+  return {
+    account: account.name === DEFAULT_ACCOUNT_NAME ? undefined : account.name,
+    recipients: { wechat: account.wechatOpenids },
+  };
+}
@@ -0,0 +1,376 @@
+import { EventEmitter } from 'events';
+import { OkxConnection, OkxConnectionOptions } from './okx-connection';
+import { OkxAccountConfig } from './okx-account.config';
+import { LoggingService } from '../common/logging';
+import { EventBusService } from '../events/event-bus.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { OkxSubscribeArg } from '../common/interfaces/okx-order.interface';
+
+class FakeWebSocket extends EventEmitter {
+  static readonly OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+  readyState = 0;
+  sent: string[] = [];
+
+  constructor() {
+    super();
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.emit('open');
+  }
+
+  receive(message: unknown) {
+    this.emit(
+      'message',
+      Buffer.from(
+        typeof message === 'string' ? message : JSON.stringify(message),
+      ),
+    );
+  }
+
+  close() {
+    this.readyState = 3;
+  }
+
+  terminate() {
+    this.readyState = 3;
+    this.emit('close', 1006, Buffer.from(''));
+  }
+}
+
+jest.mock('ws', () => ({
+  __esModule: true,
+  get default() {
+    return FakeWebSocket;
+  },
+}));
+
+describe('OkxConnection', () => {
+  const options: OkxConnectionOptions = {
+    pingInterval: 25_000,
+    pongTimeout: 10_000,
+    reconnectBaseDelay: 1_000,
+    reconnectMaxDelay: 8_000,
+    alertAfterFailures: 3,
+    alertAfterMs: 0,
+  };
+  const account = {
+    name: 'main',
+    apiKey: 'api-key-123',
+    secretKey: 'secret',
+    passphrase: 'pass',
+    isSimulated: false,
+    wechatOpenids: [],
+    channels: ['orders'],
+  } as OkxAccountConfig;
+
+  let onAlert: jest.Mock;
+  let onData: jest.Mock;
+  let recordMessageError: jest.Mock;
+  let connection: OkxConnection;
+
+  const latest = () =>
+    FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+
+  /**
+   * 建立连接并登录成功
+   */
+  const connect = async () => {
+    await jest.advanceTimersByTimeAsync(0);
+    latest().open();
+    await jest.advanceTimersByTimeAsync(0);
+    latest().receive({ event: 'login', code: '0' });
+    await jest.advanceTimersByTimeAsync(0);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    FakeWebSocket.instances = [];
+    onAlert = jest.fn().mockResolvedValue(undefined);
+    onData = jest.fn().mockResolvedValue(undefined);
+    recordMessageError = jest.fn();
+
+    connection = createConnection([{ channel: 'orders', instType: 'ANY' }]);
+    connection.start();
+  });
+
+  afterEach(() => {
+    connection.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  const createConnection = (
+    subscriptions: OkxSubscribeArg[],
+    connectionOptions = options,
+  ) =>
+    new OkxConnection(
+      account,
+      subscriptions,
+      connectionOptions,
+      new Proxy(
+        {},
+        { get: () => jest.fn().mockResolvedValue(undefined) },
+      ) as LoggingService,
+      { publish: jest.fn() } as unknown as EventBusService,
+      {
+        recordReconnect: jest.fn(),
+        recordLoginFailure: jest.fn(),
+        recordMessage: jest.fn(),
+        recordMessageError,
+      } as unknown as MetricsService,
+      onData,
+      onAlert,
+    );
+
+  it('should reconnect when no pong arrives after a ping', async () => {
+    await connect();
+    const ws = latest();
+
+    await jest.advanceTimersByTimeAsync(options.pingInterval);
+    expect(ws.sent).toContain('ping');
+
+    await jest.advanceTimersByTimeAsync(options.pongTimeout);
+    expect(ws.readyState).toBe(3);
+    expect(connection.getStatus().lastError).toContain('未收到心跳响应');
+
+    await jest.advanceTimersByTimeAsync(options.reconnectBaseDelay);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+  });
+
+  it('should keep the connection when pong arrives in time', async () => {
+    await connect();
+    const ws = latest();
+
+    await jest.advanceTimersByTimeAsync(options.pingInterval);
+    ws.receive('pong');
+    await jest.advanceTimersByTimeAsync(options.pongTimeout);
+
+    expect(ws.readyState).toBe(FakeWebSocket.OPEN);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+  });
+
+  it('should back off exponentially up to the cap', async () => {
+    await connect();
+
+    const delays: number[] = [];
+    for (let i = 0; i < 5; i++) {
+      const count = FakeWebSocket.instances.length;
+      latest().terminate();
+      let waited = 0;
+      while (FakeWebSocket.instances.length === count) {
+        await jest.advanceTimersByTimeAsync(500);
+        waited += 500;
+      }
+      delays.push(waited);
+    }
+
+    expect(delays).toEqual([1_000, 2_000, 4_000, 8_000, 8_000]);
+    expect(connection.getStatus().reconnectAttempts).toBe(5);
+  });
+
+  it('should report login, subscription acknowledgement and errors', async () => {
+    expect(connection.getStatus()).toMatchObject({
+      account: 'main',
+      endpoint: 'private',
+      readyState: 'CONNECTING',
+      loggedIn: false,
+    });
+
+    await connect();
+    const connected = connection.getStatus();
+    expect(connected).toMatchObject({
+      readyState: 'OPEN',
+      loggedIn: true,
+      subscriptions: [
+        { channel: 'orders', instType: 'ANY', acknowledged: false },
+      ],
+    });
+    expect(connected.connectedAt).toBe(Date.now());
+
+    latest().receive({
+      event: 'subscribe',
+      arg: { channel: 'orders', instType: 'ANY' },
+    });
+    latest().receive({ event: 'error', code: '60012', msg: 'Invalid request' });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(connection.getStatus()).toMatchObject({
+      subscriptions: [{ channel: 'orders', acknowledged: true }],
+      lastMessageAt: Date.now(),
+      lastError: 'Invalid request (code: 60012)',
+    });
+
+    latest().terminate();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(connection.getStatus()).toMatchObject({
+      readyState: 'CLOSED',
+      loggedIn: false,
+      subscriptions: [{ channel: 'orders', acknowledged: false }],
+    });
+  });
+
+  it('should count parse and handler failures separately', async () => {
+    await connect();
+
+    latest().receive('{not json');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(recordMessageError).toHaveBeenLastCalledWith('main', 'parse');
+
+    onData.mockRejectedValueOnce(new Error('handler failed'));
+    latest().receive({
+      arg: { channel: 'orders', instType: 'ANY' },
+      data: [{ ordId: '1' }],
+    });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(onData).toHaveBeenCalledTimes(1);
+    expect(recordMessageError).toHaveBeenLastCalledWith('main', 'handler');
+    expect(recordMessageError).toHaveBeenCalledTimes(2);
+  });
+
+  it('should alert after consecutive failures and notify on recovery', async () => {
+    await connect();
+
+    for (let i = 0; i < options.alertAfterFailures + 1; i++) {
+      latest().terminate();
+      await jest.advanceTimersByTimeAsync(options.reconnectMaxDelay);
+    }
+    expect(onAlert).toHaveBeenCalledTimes(1);
+    expect(onAlert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'offline',
+        account: 'main',
+        failures: 3,
+      }),
+    );
+
+    latest().open();
+    await jest.advanceTimersByTimeAsync(0);
+    latest().receive({ event: 'login', code: '0' });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(onAlert).toHaveBeenCalledTimes(2);
+    expect(onAlert).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: 'recovered', failures: 4 }),
+    );
+    expect(connection.getStatus()).toMatchObject({
+      reconnectAttempts: 0,
+      disconnectedAt: undefined,
+    });
+  });
+
+  it('should subscribe public channels without login and update them', async () => {
+    connection.stop();
+    connection = createConnection(
+      [{ channel: 'tickers', instId: 'BTC-USDT-SWAP' }],
+      { ...options, endpoint: 'public' },
+    );
+    connection.start();
+    await jest.advanceTimersByTimeAsync(0);
+    const ws = latest();
+    ws.open();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(ws.sent.map((data) => JSON.parse(data) as unknown)).toEqual([
+      {
+        op: 'subscribe',
+        args: [{ channel: 'tickers', instId: 'BTC-USDT-SWAP' }],
+      },
+    ]);
+
+    await connection.setSubscriptions([
+      { channel: 'tickers', instId: 'ETH-USDT-SWAP' },
+    ]);
+    expect(ws.sent.slice(1).map((data) => JSON.parse(data) as unknown)).toEqual(
+      [
+        {
+          op: 'unsubscribe',
+          args: [{ channel: 'tickers', instId: 'BTC-USDT-SWAP' }],
+        },
+        {
+          op: 'subscribe',
+          args: [{ channel: 'tickers', instId: 'ETH-USDT-SWAP' }],
+        },
+      ],
+    );
+    expect(connection.getStatus()).toMatchObject({
+      endpoint: 'public',
+      loggedIn: false,
+    });
+  });
+
+  it('should correlate trade replies by request id', async () => {
+    await connect();
+    const ws = latest();
+
+    const pending = connection.request(
+      'order',
+      [{ instId: 'BTC-USDT-SWAP' }],
+      5_000,
+    );
+    const request = JSON.parse(ws.sent[ws.sent.length - 1]) as {
+      id: string;
+      op: string;
+    };
+    expect(request).toMatchObject({ op: 'order' });
+
+    ws.receive({ id: 'other', op: 'order', code: '0', msg: '', data: [] });
+    ws.receive({
+      id: request.id,
+      op: 'order',
+      code: '1',
+      msg: '',
+      data: [{ ordId: '', sCode: '51008', sMsg: 'Insufficient balance' }],
+    });
+    await expect(pending).resolves.toMatchObject({
+      code: '1',
+      data: [{ sCode: '51008' }],
+    });
+
+    const unanswered = connection.request('cancel-order', [{}], 5_000);
+    ws.terminate();
+    await expect(unanswered).rejects.toThrow('结果未知');
+  });
+
+  it('should reconnect on demand and resubscribe the current channels', async () => {
+    await connect();
+    const first = latest();
+    first.receive({
+      event: 'subscribe',
+      arg: { channel: 'orders', instType: 'ANY' },
+    });
+    await connection.setSubscriptions([
+      { channel: 'orders', instType: 'ANY' },
+      { channel: 'positions', instType: 'ANY' },
+    ]);
+    const pending = connection.request('order', [{}], 5_000);
+
+    await connection.reconnect('test');
+    await expect(pending).rejects.toThrow('结果未知');
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    expect(connection.getStatus()).toMatchObject({
+      loggedIn: false,
+      reconnectCount: 1,
+    });
+
+    // 旧连接的关闭事件不再触发重连
+    first.terminate();
+    await connect();
+    const ws = latest();
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    expect(JSON.parse(ws.sent[ws.sent.length - 1])).toEqual({
+      op: 'subscribe',
+      args: [
+        { channel: 'orders', instType: 'ANY' },
+        { channel: 'positions', instType: 'ANY' },
+      ],
+    });
+  });
+});
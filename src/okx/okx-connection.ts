@@ -0,0 +1,838 @@
+import { Logger } from '@nestjs/common';
+import WebSocket from 'ws';
+import { LoggingService } from '../common/logging';
+import { EventBusService } from '../events/event-bus.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { getBackoffDelay } from '../common/utils/backoff.util';
+import { formatDuration } from '../common/utils/format.util';
+import {
+  OkxSubscribeArg,
+  OkxWsMessage,
+  OkxWsOpResponse,
+} from '../common/interfaces/okx-order.interface';
+import { OkxAccountConfig } from './okx-account.config';
+import { signOkxRequest } from './okx-sign.util';
+
+/**
+ * 推送数据处理回调
+ */
+export type OkxDataHandler = (
+  account: OkxAccountConfig,
+  message: OkxWsMessage,
+) => Promise<void>;
+
+/**
+ * 连接端点：私有频道需要登录，公共频道（行情等）无需登录
+ */
+export type OkxEndpoint = 'private' | 'public';
+
+/**
+ * 连接参数
+ */
+export interface OkxConnectionOptions {
+  endpoint?: OkxEndpoint; // 默认 private
+  pingInterval: number; // 心跳间隔（毫秒）
+  pongTimeout: number; // 发送 ping 后等待响应的超时（毫秒），超时视为连接失效
+  reconnectBaseDelay: number; // 首次重连延迟（毫秒），之后按指数退避
+  reconnectMaxDelay: number; // 重连最大延迟（毫秒）
+  alertAfterFailures: number; // 连续重连失败达到该次数时告警，0 表示不按次数告警
+  alertAfterMs: number; // 离线超过该时长（毫秒）时告警，0 表示不按时长告警
+}
+
+/**
+ * 连接告警：离线告警或离线告警后的恢复通知
+ */
+export interface OkxConnectionAlert {
+  type: 'offline' | 'recovered';
+  account: string;
+  failures: number; // 连续重连失败次数
+  offlineMs: number; // 离线时长
+  lastError?: string;
+}
+
+/**
+ * 连接告警回调
+ */
+export type OkxConnectionAlertHandler = (
+  alert: OkxConnectionAlert,
+) => Promise<void>;
+
+/**
+ * 订阅状态
+ */
+export interface OkxSubscriptionStatus extends OkxSubscribeArg {
+  acknowledged: boolean; // 是否已收到订阅成功响应
+}
+
+/**
+ * 连接状态
+ */
+export interface OkxConnectionStatus {
+  account: string;
+  endpoint: OkxEndpoint;
+  simulated: boolean;
+  readyState: 'CONNECTING' | 'OPEN' | 'CLOSING' | 'CLOSED';
+  loggedIn: boolean;
+  subscriptions: OkxSubscriptionStatus[];
+  connectedAt?: number; // 最近一次连接建立时间（毫秒时间戳）
+  lastMessageAt?: number; // 最近一次收到消息（含 pong）的时间
+  lastPongAt?: number; // 最近一次收到 pong 的时间
+  reconnectCount: number; // 启动以来的重连次数
+  reconnectAttempts: number; // 最近一次登录成功以来的连续重连次数
+  disconnectedAt?: number; // 本次离线开始时间（已恢复时为空）
+  lastError?: string; // 最近一次错误（连接错误、登录失败、OKX 错误）
+}
+
+/**
+ * 等待响应的交易请求
+ */
+interface PendingRequest {
+  resolve: (response: OkxWsOpResponse) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+const READY_STATES: OkxConnectionStatus['readyState'][] = [
+  'CONNECTING',
+  'OPEN',
+  'CLOSING',
+  'CLOSED',
+];
+
+/**
+ * 订阅参数的唯一键
+ */
+function subscriptionKey(arg: OkxSubscribeArg): string {
+  return `${arg.channel}:${arg.instType ?? ''}:${arg.instId ?? ''}`;
+}
+
+/**
+ * 单个账户的私有频道（或公共频道）WebSocket连接
+ *
+ * 每个连接独立维护自己的登录、心跳和重连状态：
+ * 心跳超时视为连接失效并主动断开，重连按指数退避，
+ * 长时间离线时告警，告警后恢复连接再发送恢复通知
+ */
+export class OkxConnection {
+  private readonly logger: Logger;
+  private ws: WebSocket | null = null;
+  private pingInterval: NodeJS.Timeout | null = null;
+  private pongTimeout: NodeJS.Timeout | null = null;
+  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private isConnecting = false;
+  private shouldReconnect = true;
+
+  // 状态信息
+  private loggedIn = false;
+  private readonly acknowledged = new Set<string>();
+  private connectedAt?: number;
+  private lastMessageAt?: number;
+  private lastPongAt?: number;
+  private reconnectCount = 0;
+  private reconnectAttempts = 0;
+  private disconnectedAt?: number;
+  private offlineAlerted = false;
+  private lastError?: string;
+
+  // 请求 id -> 等待响应的交易请求
+  private readonly pendingRequests = new Map<string, PendingRequest>();
+  private requestSeq = 0;
+
+  constructor(
+    readonly account: OkxAccountConfig,
+    private subscriptions: OkxSubscribeArg[],
+    private readonly options: OkxConnectionOptions,
+    private readonly loggingService: LoggingService,
+    private readonly eventBus: EventBusService,
+    private readonly metrics: MetricsService,
+    private readonly onData: OkxDataHandler,
+    private readonly onAlert: OkxConnectionAlertHandler,
+  ) {
+    this.logger = new Logger(`${OkxConnection.name}:${account.name}`);
+  }
+
+  /**
+   * 启动连接
+   */
+  start() {
+    this.shouldReconnect = true;
+    this.connectWebSocket();
+  }
+
+  /**
+   * 停止连接（不再重连）
+   */
+  stop() {
+    this.shouldReconnect = false;
+    this.cleanup();
+    this.rejectPendingRequests('连接已停止');
+  }
+
+  /**
+   * 立即断开并重新连接（重新登录和订阅），停止的连接也会重新启动
+   */
+  async reconnect(reason: string) {
+    const account = this.account.name;
+    this.logger.warn(`手动重连: ${reason}`);
+    this.eventBus.publish({
+      category: 'CONNECTION',
+      type: 'connection.reconnect',
+      message: '手动重连',
+      account,
+      data: { reason },
+    });
+    await this.loggingService.logConnection('手动重连', { account, reason });
+
+    this.shouldReconnect = true;
+    this.isConnecting = false;
+    this.loggedIn = false;
+    this.rejectPendingRequests('连接已手动重连');
+    this.reconnectCount++;
+    this.metrics.recordReconnect(account);
+    this.disconnectedAt ??= Date.now();
+    void this.connectWebSocket();
+  }
+
+  /**
+   * 通过已登录的连接发送交易请求（下单、撤单、改单），按请求 id 匹配响应
+   * @param op 操作，如 order、batch-orders、cancel-order、amend-order
+   * @param timeout 等待响应的超时（毫秒）
+   */
+  request<T>(
+    op: string,
+    args: object[],
+    timeout: number,
+  ): Promise<OkxWsOpResponse<T>> {
+    const ws = this.ws;
+    if (this.endpoint !== 'private' || !ws || !this.isReady()) {
+      return Promise.reject(new Error('连接未就绪（未连接或未登录）'));
+    }
+
+    // 请求 id 只能包含字母和数字，最长 32 位
+    const id = `${Date.now()}${++this.requestSeq}`;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(id);
+        reject(new Error(`等待 ${op} 响应超时`));
+      }, timeout);
+      this.pendingRequests.set(id, {
+        resolve: (response) => resolve(response as OkxWsOpResponse<T>),
+        reject,
+        timer,
+      });
+      ws.send(JSON.stringify({ id, op, args }));
+    });
+  }
+
+  /**
+   * 连接端点
+   */
+  get endpoint(): OkxEndpoint {
+    return this.options.endpoint ?? 'private';
+  }
+
+  /**
+   * 更新订阅的频道：已连接时立即取消订阅移除的频道、订阅新增的频道
+   */
+  async setSubscriptions(subscriptions: OkxSubscribeArg[]) {
+    const keys = new Set(subscriptions.map(subscriptionKey));
+    const previous = new Set(this.subscriptions.map(subscriptionKey));
+    const removed = this.subscriptions.filter(
+      (arg) => !keys.has(subscriptionKey(arg)),
+    );
+    const added = subscriptions.filter(
+      (arg) => !previous.has(subscriptionKey(arg)),
+    );
+    this.subscriptions = subscriptions;
+
+    for (const arg of removed) {
+      this.acknowledged.delete(subscriptionKey(arg));
+    }
+    if (!this.isReady()) {
+      return;
+    }
+    if (removed.length > 0) {
+      await this.send('unsubscribe', removed);
+    }
+    if (added.length > 0) {
+      await this.send('subscribe', added);
+    }
+  }
+
+  /**
+   * 当前订阅的频道
+   */
+  getSubscriptions(): OkxSubscribeArg[] {
+    return [...this.subscriptions];
+  }
+
+  /**
+   * 获取连接状态
+   */
+  getStatus(): OkxConnectionStatus {
+    return {
+      account: this.account.name,
+      endpoint: this.endpoint,
+      simulated: this.account.isSimulated,
+      readyState: this.ws ? READY_STATES[this.ws.readyState] : 'CLOSED',
+      loggedIn: this.loggedIn,
+      subscriptions: this.subscriptions.map((arg) => ({
+        ...arg,
+        acknowledged: this.acknowledged.has(subscriptionKey(arg)),
+      })),
+      connectedAt: this.connectedAt,
+      lastMessageAt: this.lastMessageAt,
+      lastPongAt: this.lastPongAt,
+      reconnectCount: this.reconnectCount,
+      reconnectAttempts: this.reconnectAttempts,
+      disconnectedAt: this.disconnectedAt,
+      lastError: this.lastError,
+    };
+  }
+
+  private cleanup() {
+    this.stopPing();
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+  }
+
+  /**
+   * 连接WebSocket
+   */
+  private async connectWebSocket() {
+    if (this.isConnecting) {
+      this.logger.warn('正在连接中，跳过重复连接');
+      return;
+    }
+
+    this.isConnecting = true;
+    this.cleanup();
+    this.loggedIn = false;
+    this.acknowledged.clear();
+
+    // 使用正确的WebSocket地址
+    const wsUrl = this.account.isSimulated
+      ? `wss://wspap.okx.com:8443/ws/v5/${this.endpoint}?brokerId=9999`
+      : `wss://ws.okx.com:8443/ws/v5/${this.endpoint}`;
+
+    const account = this.account.name;
+    const mode = this.account.isSimulated ? '模拟盘' : '实盘';
+    this.logger.log(`连接到OKX WebSocket: ${wsUrl} (${mode})`);
+    this.eventBus.publish({
+      category: 'CONNECTION',
+      type: 'connection.connecting',
+      message: `正在连接OKX WebSocket (${mode})`,
+      account,
+      data: { url: wsUrl },
+    });
+    await this.loggingService.logConnection(`正在连接OKX WebSocket (${mode})`, {
+      account,
+      url: wsUrl,
+    });
+
+    const ws = new WebSocket(wsUrl);
+    this.ws = ws;
+
+    ws.on('open', async () => {
+      this.logger.log('WebSocket连接已建立');
+      this.eventBus.publish({
+        category: 'CONNECTION',
+        type: 'connection.open',
+        message: 'WebSocket连接已建立',
+        account,
+        data: { url: wsUrl, mode },
+      });
+      await this.loggingService.logConnection('WebSocket连接已建立', {
+        account,
+        url: wsUrl,
+        mode,
+      });
+      this.isConnecting = false;
+      this.connectedAt = Date.now();
+      this.startPing();
+      // 公共频道无需登录，连接建立即订阅
+      if (this.endpoint === 'public') {
+        await this.subscribeChannels();
+        await this.handleRecovered();
+      } else {
+        this.login();
+      }
+    });
+
+    // 已被替换或主动关闭的连接不再处理后续事件
+    ws.on('message', (data: WebSocket.Data) => {
+      if (this.ws === ws) {
+        this.handleMessage(data);
+      }
+    });
+
+    ws.on('error', async (error: Error) => {
+      if (this.ws !== ws) {
+        return;
+      }
+      this.logger.error(`WebSocket错误: ${error.message}`);
+      this.lastError = error.message;
+      this.eventBus.publish({
+        category: 'CONNECTION',
+        type: 'connection.error',
+        message: 'WebSocket连接错误',
+        account,
+        data: { error: error.message },
+      });
+      await this.loggingService.logError('CONNECTION', 'WebSocket连接错误', {
+        account,
+        error: error.message,
+      });
+      this.isConnecting = false;
+    });
+
+    ws.on('close', async (code: number, reason: Buffer) => {
+      if (this.ws !== ws) {
+        return;
+      }
+      const reasonStr = reason.toString();
+      this.logger.warn(`WebSocket连接关闭: code=${code}, reason=${reasonStr}`);
+      this.eventBus.publish({
+        category: 'CONNECTION',
+        type: 'connection.closed',
+        message: 'WebSocket连接关闭',
+        account,
+        data: { code, reason: reasonStr },
+      });
+      await this.loggingService.logConnection('WebSocket连接关闭', {
+        account,
+        code,
+        reason: reasonStr,
+      });
+      this.isConnecting = false;
+      this.loggedIn = false;
+      this.acknowledged.clear();
+      this.stopPing();
+      this.rejectPendingRequests('WebSocket连接已断开');
+      this.disconnectedAt ??= Date.now();
+      this.scheduleReconnect();
+    });
+  }
+
+  /**
+   * 登录认证
+   */
+  private async login() {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const sign = signOkxRequest(
+      this.account.secretKey,
+      timestamp,
+      'GET',
+      '/users/self/verify',
+    );
+
+    const loginMessage = {
+      op: 'login',
+      args: [
+        {
+          apiKey: this.account.apiKey,
+          passphrase: this.account.passphrase,
+          timestamp: timestamp,
+          sign: sign,
+        },
+      ],
+    };
+
+    this.logger.log('发送登录请求...');
+    await this.loggingService.logAuth('发送登录请求', true, {
+      account: this.account.name,
+      apiKey: this.account.apiKey.substring(0, 8) + '***',
+    });
+    this.ws?.send(JSON.stringify(loginMessage));
+  }
+
+  /**
+   * 订阅频道
+   */
+  private async subscribeChannels() {
+    if (this.subscriptions.length === 0) {
+      this.logger.warn('没有需要订阅的频道');
+      return;
+    }
+    await this.send('subscribe', this.subscriptions);
+  }
+
+  /**
+   * 发送订阅/取消订阅请求
+   */
+  private async send(op: 'subscribe' | 'unsubscribe', args: OkxSubscribeArg[]) {
+    const message = { op, args };
+    const describe = (arg: OkxSubscribeArg) =>
+      arg.instId ? `${arg.channel}:${arg.instId}` : arg.channel;
+
+    this.logger.log(
+      `${op === 'subscribe' ? '订阅' : '取消订阅'}频道: ${args.map(describe).join(', ')}`,
+    );
+    await this.loggingService.logSubscribe(
+      op === 'subscribe' ? '发送订阅请求' : '发送取消订阅请求',
+      { account: this.account.name, ...message },
+    );
+    this.ws?.send(JSON.stringify(message));
+  }
+
+  /**
+   * 是否可以发送订阅请求（已连接，私有频道还需已登录）
+   */
+  private isReady(): boolean {
+    return (
+      this.ws?.readyState === WebSocket.OPEN &&
+      (this.endpoint === 'public' || this.loggedIn)
+    );
+  }
+
+  /**
+   * 连接断开或停止时，未收到响应的交易请求全部失败（结果未知，需查询订单确认）
+   */
+  private rejectPendingRequests(reason: string) {
+    for (const [id, pending] of this.pendingRequests) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error(`${reason}，请求 ${id} 结果未知`));
+    }
+    this.pendingRequests.clear();
+  }
+
+  /**
+   * 开始心跳：发送 ping 后超时未收到任何消息则判定连接失效
+   */
+  private startPing() {
+    this.stopPing();
+    this.pingInterval = setInterval(() => {
+      if (this.ws?.readyState !== WebSocket.OPEN) {
+        return;
+      }
+      const sentAt = Date.now();
+      this.ws.send('ping');
+
+      if (this.pongTimeout) {
+        clearTimeout(this.pongTimeout);
+      }
+      this.pongTimeout = setTimeout(() => {
+        this.pongTimeout = null;
+        if ((this.lastMessageAt ?? 0) < sentAt) {
+          void this.handleStale();
+        }
+      }, this.options.pongTimeout);
+    }, this.options.pingInterval);
+  }
+
+  private stopPing() {
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+    if (this.pongTimeout) {
+      clearTimeout(this.pongTimeout);
+      this.pongTimeout = null;
+    }
+  }
+
+  /**
+   * 心跳超时：主动断开，由 close 事件触发重连
+   */
+  private async handleStale() {
+    const account = this.account.name;
+    const message = `${this.options.pongTimeout / 1000}秒内未收到心跳响应，断开重连`;
+    this.logger.warn(message);
+    this.lastError = message;
+    this.ws?.terminate();
+
+    this.eventBus.publish({
+      category: 'CONNECTION',
+      type: 'connection.stale',
+      message,
+      account,
+      data: { lastMessageAt: this.lastMessageAt },
+    });
+    await this.loggingService.logError('CONNECTION', '心跳超时，断开重连', {
+      account,
+      lastMessageAt: this.lastMessageAt,
+    });
+  }
+
+  /**
+   * 计划重连（指数退避），并检查是否需要离线告警
+   */
+  private async scheduleReconnect() {
+    if (!this.shouldReconnect) {
+      return;
+    }
+
+    const attempt = this.reconnectAttempts + 1;
+    const delay = getBackoffDelay(
+      attempt,
+      this.options.reconnectBaseDelay,
+      this.options.reconnectMaxDelay,
+    );
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.reconnectAttempts = attempt;
+      this.reconnectCount++;
+      this.metrics.recordReconnect(this.account.name);
+      this.connectWebSocket();
+    }, delay);
+
+    this.logger.log(
+      `${(delay / 1000).toFixed(1)}秒后尝试第${attempt}次重连...`,
+    );
+    await this.loggingService.logConnection('计划重连', {
+      account: this.account.name,
+      attempt,
+      delayMs: delay,
+    });
+    await this.checkOffline();
+  }
+
+  /**
+   * 连续重连失败次数或离线时长达到阈值时发送离线告警（每次离线只告警一次）
+   */
+  private async checkOffline() {
+    if (this.offlineAlerted || this.disconnectedAt === undefined) {
+      return;
+    }
+
+    const { alertAfterFailures, alertAfterMs } = this.options;
+    const offlineMs = Date.now() - this.disconnectedAt;
+    if (
+      (alertAfterFailures > 0 &&
+        this.reconnectAttempts >= alertAfterFailures) ||
+      (alertAfterMs > 0 && offlineMs >= alertAfterMs)
+    ) {
+      this.offlineAlerted = true;
+      await this.sendAlert('offline', this.reconnectAttempts, offlineMs);
+    }
+  }
+
+  /**
+   * 登录成功：重置重连状态，告警过的离线发送恢复通知
+   */
+  private async handleRecovered() {
+    const failures = this.reconnectAttempts;
+    const offlineMs =
+      this.disconnectedAt !== undefined ? Date.now() - this.disconnectedAt : 0;
+    const alerted = this.offlineAlerted;
+
+    this.reconnectAttempts = 0;
+    this.disconnectedAt = undefined;
+    this.offlineAlerted = false;
+
+    if (alerted) {
+      await this.sendAlert('recovered', failures, offlineMs);
+    }
+  }
+
+  /**
+   * 发布并发送连接告警
+   */
+  private async sendAlert(
+    type: OkxConnectionAlert['type'],
+    failures: number,
+    offlineMs: number,
+  ) {
+    const account = this.account.name;
+    const alert: OkxConnectionAlert = {
+      type,
+      account,
+      failures,
+      offlineMs,
+      lastError: this.lastError,
+    };
+    const message =
+      type === 'offline'
+        ? `连接已离线 ${formatDuration(offlineMs)}，连续重连失败 ${failures} 次`
+        : `连接已恢复，离线 ${formatDuration(offlineMs)}`;
+
+    if (type === 'offline') {
+      this.logger.error(message);
+    } else {
+      this.logger.log(message);
+    }
+    this.eventBus.publish({
+      category: 'CONNECTION',
+      type: `connection.${type}`,
+      message,
+      account,
+      data: alert,
+    });
+    await this.loggingService.logConnection(message, alert);
+
+    try {
+      await this.onAlert(alert);
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`发送连接告警失败: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * 处理WebSocket消息
+   */
+  private async handleMessage(data: WebSocket.Data) {
+    const messageStr = data.toString();
+    const account = this.account.name;
+
+    this.lastMessageAt = Date.now();
+
+    // 处理pong响应
+    if (messageStr === 'pong') {
+      this.lastPongAt = this.lastMessageAt;
+      return;
+    }
+
+    let message: OkxWsMessage;
+    try {
+      message = JSON.parse(messageStr) as OkxWsMessage;
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`解析消息失败: ${errorMessage}`);
+      this.metrics.recordMessageError(account, 'parse');
+      await this.loggingService.logError('SYSTEM', '解析消息失败', {
+        account,
+        error: errorMessage,
+        rawMessage: messageStr.substring(0, 500),
+      });
+      return;
+    }
+
+    try {
+      // 处理交易请求的响应
+      if (message.id && message.op) {
+        const pending = this.pendingRequests.get(message.id);
+        if (pending) {
+          clearTimeout(pending.timer);
+          this.pendingRequests.delete(message.id);
+          pending.resolve(message as OkxWsOpResponse);
+        } else {
+          this.logger.warn(`收到未知请求的响应: ${message.id} ${message.op}`);
+        }
+        return;
+      }
+
+      // 处理登录响应
+      if (message.event === 'login') {
+        if (message.code === '0') {
+          this.logger.log('登录成功');
+          this.loggedIn = true;
+          this.eventBus.publish({
+            category: 'AUTH',
+            type: 'auth.success',
+            message: '登录成功',
+            account,
+          });
+          await this.loggingService.logAuth('登录成功', true, { account });
+          this.subscribeChannels();
+          await this.handleRecovered();
+        } else {
+          this.logger.error(`登录失败: ${message.msg}`);
+          this.lastError = `登录失败: ${message.msg}`;
+          this.metrics.recordLoginFailure(account);
+          this.eventBus.publish({
+            category: 'AUTH',
+            type: 'auth.failed',
+            message: '登录失败',
+            account,
+            data: { code: message.code, msg: message.msg },
+          });
+          await this.loggingService.logAuth('登录失败', false, {
+            account,
+            code: message.code,
+            msg: message.msg,
+          });
+        }
+        return;
+      }
+
+      // 处理订阅响应
+      if (message.event === 'subscribe') {
+        this.logger.log(`订阅成功: ${JSON.stringify(message.arg)}`);
+        if (message.arg) {
+          this.acknowledged.add(subscriptionKey(message.arg));
+        }
+        this.eventBus.publish({
+          category: 'SUBSCRIBE',
+          type: 'subscribe.ack',
+          message: `订阅成功: ${message.arg?.channel}`,
+          account,
+          instId: message.arg?.instId,
+          data: message.arg,
+        });
+        await this.loggingService.logSubscribe('订阅成功', {
+          account,
+          ...message.arg,
+        });
+        return;
+      }
+
+      // 处理取消订阅响应
+      if (message.event === 'unsubscribe') {
+        this.logger.log(`取消订阅成功: ${JSON.stringify(message.arg)}`);
+        this.eventBus.publish({
+          category: 'SUBSCRIBE',
+          type: 'unsubscribe.ack',
+          message: `取消订阅成功: ${message.arg?.channel}`,
+          account,
+          instId: message.arg?.instId,
+          data: message.arg,
+        });
+        await this.loggingService.logSubscribe('取消订阅成功', {
+          account,
+          ...message.arg,
+        });
+        return;
+      }
+
+      // 处理错误
+      if (message.event === 'error') {
+        this.logger.error(`收到错误: ${message.msg} (code: ${message.code})`);
+        this.lastError = `${message.msg} (code: ${message.code})`;
+        this.eventBus.publish({
+          category: 'SYSTEM',
+          type: 'okx.error',
+          message: '收到OKX错误',
+          account,
+          data: { code: message.code, msg: message.msg },
+        });
+        await this.loggingService.logError('SYSTEM', '收到OKX错误', {
+          account,
+          code: message.code,
+          msg: message.msg,
+        });
+        return;
+      }
+
+      // 推送数据交给上层处理
+      if (message.data) {
+        if (message.arg) {
+          this.metrics.recordMessage(account, message.arg.channel);
+        }
+        await this.onData(this.account, message);
+      }
+    } catch (error: unknown) {
+      // 频道处理器等下游的异常，与解析失败分开统计
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(
+        `处理消息失败 (${message.arg?.channel ?? message.event}): ${errorMessage}`,
+      );
+      this.metrics.recordMessageError(account, 'handler');
+      await this.loggingService.logError('SYSTEM', '处理消息失败', {
+        account,
+        channel: message.arg?.channel,
+        event: message.event,
+        error: errorMessage,
+      });
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import * as crypto from 'crypto';
+
+/**
+ * 生成 OKX 请求签名：Base64(HMAC-SHA256(timestamp + method + requestPath + body))
+ *
+ * WebSocket 登录和 REST 请求共用
+ */
+export function signOkxRequest(
+  secretKey: string,
+  timestamp: string,
+  method: string,
+  requestPath: string,
+  body: string = '',
+): string {
+  const prehash = timestamp + method + requestPath + body;
+  const hmac = crypto.createHmac('sha256', secretKey);
+  return hmac.update(prehash).digest('base64');
+}
@@ -0,0 +1,83 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { OkxService } from './okx.service';
+import type {
+  OkxConnectionStatus,
+  OkxSubscriptionStatus,
+} from './okx-connection';
+import type { OkxSubscribeArg } from '../common/interfaces/okx-order.interface';
+
+@Controller('okx')
+export class OkxController {
+  constructor(private readonly okxService: OkxService) {}
+
+  /**
+   * 各账户的WebSocket连接状态
+   */
+  @Get('status')
+  getStatus(): { accounts: OkxConnectionStatus[] } {
+    return { accounts: this.okxService.getStatus() };
+  }
+
+  /**
+   * 立即重连（断开后重新登录和订阅）
+   * @param body.account 账户名称（public 为公共频道），为空时重连全部
+   */
+  @Post('reconnect')
+  @HttpCode(HttpStatus.OK)
+  async reconnect(
+    @Body() body: { account?: string; reason?: string } = {},
+  ): Promise<{ accounts: string[] }> {
+    return {
+      accounts: await this.okxService.reconnect(body.account, body.reason),
+    };
+  }
+
+  /**
+   * 各连接当前订阅的频道及确认状态
+   */
+  @Get('subscriptions')
+  getSubscriptions(): {
+    account: string;
+    endpoint: string;
+    subscriptions: OkxSubscriptionStatus[];
+  }[] {
+    return this.okxService.getSubscriptions();
+  }
+
+  /**
+   * 增加订阅（只有一个账户时可省略 account）
+   */
+  @Post('subscriptions')
+  addSubscription(
+    @Body() body: OkxSubscribeArg & { account?: string },
+  ): Promise<{ account: string; subscriptions: OkxSubscribeArg[] }> {
+    const { account, ...arg } = body ?? {};
+    return this.okxService.addSubscription(account, arg);
+  }
+
+  /**
+   * 取消订阅
+   */
+  @Delete('subscriptions')
+  removeSubscription(
+    @Query('account') account?: string,
+    @Query('channel') channel = '',
+    @Query('instType') instType?: string,
+    @Query('instId') instId?: string,
+  ): Promise<{ account: string; subscriptions: OkxSubscribeArg[] }> {
+    return this.okxService.removeSubscription(account, {
+      channel,
+      instType,
+      instId,
+    });
+  }
+}
@@ -1,10 +1,46 @@
 import { Module } from '@nestjs/common';
 import { OkxService } from './okx.service';
-import { WechatModule } from '../wechat/wechat.module';
+import { OkxController } from './okx.controller';
+import { OrderStateService } from './order-state.service';
+import { OrderRecoveryService } from './order-recovery.service';
+import { OkxRestModule } from './rest';
+import { NotifyModule } from '../notify/notify.module';
+import { RiskModule } from '../risk/risk.module';
+import { OrdersModule } from '../orders';
+import { TradesModule } from '../trades';
+import { PortfolioModule } from '../portfolio';
+import { PriceAlertsModule } from '../price-alerts';
+import {
+  OkxChannelRegistry,
+  OrdersChannelHandler,
+  AlgoOrdersChannelHandler,
+  PositionsChannelHandler,
+  BalanceAndPositionChannelHandler,
+  AccountChannelHandler,
+} from './channels';
 
 @Module({
-  imports: [WechatModule],
-  providers: [OkxService],
-  exports: [OkxService],
+  imports: [
+    NotifyModule,
+    RiskModule,
+    OrdersModule,
+    TradesModule,
+    OkxRestModule,
+    PortfolioModule,
+    PriceAlertsModule,
+  ],
+  controllers: [OkxController],
+  providers: [
+    OkxService,
+    OrderStateService,
+    OrderRecoveryService,
+    OkxChannelRegistry,
+    OrdersChannelHandler,
+    AlgoOrdersChannelHandler,
+    PositionsChannelHandler,
+    BalanceAndPositionChannelHandler,
+    AccountChannelHandler,
+  ],
+  exports: [OkxService, OkxRestModule],
 })
 export class OkxModule {}
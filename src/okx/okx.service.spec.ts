@@ -0,0 +1,252 @@
+import { ConfigService } from '@nestjs/config';
+import { OkxService } from './okx.service';
+import { OkxAccountConfig } from './okx-account.config';
+import { OkxChannelRegistry, OkxChannelHandler } from './channels';
+import { LoggingService } from '../common/logging';
+import { EventBusService } from '../events/event-bus.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { NotifyService } from '../notify/notify.service';
+import { PriceAlertService } from '../price-alerts/price-alert.service';
+import {
+  OkxSubscribeArg,
+  OkxWsMessage,
+} from '../common/interfaces/okx-order.interface';
+import { toTypedConfig } from '../config/config.loader';
+
+/**
+ * 记录创建的连接，不建立真实的 WebSocket
+ */
+class FakeConnection {
+  static instances: FakeConnection[] = [];
+  start = jest.fn();
+  stop = jest.fn();
+  reconnect = jest.fn().mockResolvedValue(undefined);
+  setSubscriptions = jest.fn((args: OkxSubscribeArg[]) => {
+    this.subscriptions = args;
+    return Promise.resolve();
+  });
+
+  constructor(
+    readonly account: OkxAccountConfig,
+    public subscriptions: OkxSubscribeArg[],
+    readonly options: { endpoint?: string },
+    _loggingService: unknown,
+    _eventBus: unknown,
+    _metrics: unknown,
+    readonly onData: (
+      account: OkxAccountConfig,
+      message: OkxWsMessage,
+    ) => Promise<void>,
+  ) {
+    FakeConnection.instances.push(this);
+  }
+
+  getSubscriptions() {
+    return this.subscriptions;
+  }
+
+  getStatus() {
+    return {
+      account: this.account.name,
+      endpoint: this.options.endpoint ?? 'private',
+      subscriptions: this.subscriptions.map((arg) => ({
+        ...arg,
+        acknowledged: true,
+      })),
+    };
+  }
+}
+
+jest.mock('./okx-connection', () => ({
+  get OkxConnection() {
+    return FakeConnection;
+  },
+}));
+
+describe('OkxService', () => {
+  let env: Record<string, string>;
+  let handlers: Record<string, OkxChannelHandler>;
+  let handles: Record<string, jest.Mock>;
+  let service: OkxService;
+
+  const handler = (channel: string): OkxChannelHandler => ({
+    channels: [channel],
+    getSubscribeArg: (name) => ({ channel: name, instType: 'ANY' }),
+    handle: (handles[channel] = jest.fn().mockResolvedValue(undefined)),
+  });
+
+  const createService = () =>
+    new OkxService(
+      new ConfigService(toTypedConfig(env)),
+      new Proxy(
+        {},
+        { get: () => jest.fn().mockResolvedValue(undefined) },
+      ) as LoggingService,
+      { publish: jest.fn() } as unknown as EventBusService,
+      {} as MetricsService,
+      { notify: jest.fn() } as unknown as NotifyService,
+      {} as PriceAlertService,
+      new OkxChannelRegistry(
+        handlers.orders as never,
+        handlers['orders-algo'] as never,
+        handlers.positions as never,
+        handlers.balance_and_position as never,
+        handlers.account as never,
+      ),
+    );
+
+  beforeEach(async () => {
+    FakeConnection.instances = [];
+    handles = {};
+    env = {
+      OKX_ACCOUNTS: 'main,sub-1',
+      OKX_MAIN_API_KEY: 'main-key',
+      OKX_MAIN_SECRET_KEY: 'main-secret',
+      OKX_MAIN_PASSPHRASE: 'main-pass',
+      OKX_SUB_1_API_KEY: 'sub-key',
+      OKX_SUB_1_SECRET_KEY: 'sub-secret',
+      OKX_SUB_1_PASSPHRASE: 'sub-pass',
+      OKX_SUB_1_SIMULATED: 'true',
+      OKX_SUB_1_CHANNELS: 'orders,positions',
+      OKX_PUBLIC_ENABLED: 'false',
+    };
+    handlers = Object.fromEntries(
+      [
+        'orders',
+        'orders-algo',
+        'positions',
+        'balance_and_position',
+        'account',
+      ].map((channel) => [channel, handler(channel)]),
+    );
+    service = createService();
+    await service.onModuleInit();
+  });
+
+  it('should open one connection per account with its own channels', () => {
+    expect(FakeConnection.instances).toHaveLength(2);
+    const [main, sub] = FakeConnection.instances;
+
+    expect(main.account).toMatchObject({
+      name: 'main',
+      apiKey: 'main-key',
+      isSimulated: false,
+    });
+    expect(main.subscriptions.map((arg) => arg.channel)).toEqual(['orders']);
+    expect(sub.account).toMatchObject({
+      name: 'sub-1',
+      apiKey: 'sub-key',
+      isSimulated: true,
+    });
+    expect(sub.subscriptions.map((arg) => arg.channel)).toEqual([
+      'orders',
+      'positions',
+    ]);
+    expect(main.start).toHaveBeenCalled();
+    expect(sub.start).toHaveBeenCalled();
+  });
+
+  it('should report the status of every account', () => {
+    expect(service.getStatus().map((status) => status.account)).toEqual([
+      'main',
+      'sub-1',
+    ]);
+  });
+
+  it('should dispatch pushed data to the channel handler with its account', async () => {
+    const sub = FakeConnection.instances[1];
+    const arg = { channel: 'positions', instType: 'ANY' };
+    await sub.onData(sub.account, { arg, data: [{ posId: '1' }] });
+
+    expect(handles.positions).toHaveBeenCalledWith(
+      sub.account,
+      [{ posId: '1' }],
+      arg,
+    );
+    expect(handles.orders).not.toHaveBeenCalled();
+  });
+
+  it('should require an account name when several accounts are configured', async () => {
+    await expect(
+      service.addSubscription(undefined, { channel: 'positions' }),
+    ).rejects.toThrow('请指定 account');
+  });
+
+  it('should tell subscriptions apart by instType', async () => {
+    const main = FakeConnection.instances[0];
+    const instTypes = () => main.subscriptions.map((arg) => arg.instType);
+
+    await service.addSubscription('main', {
+      channel: 'orders',
+      instType: 'SWAP',
+    });
+    await service.addSubscription('main', {
+      channel: 'orders',
+      instType: 'FUTURES',
+    });
+    expect(instTypes()).toEqual(['ANY', 'SWAP', 'FUTURES']);
+    await expect(
+      service.addSubscription('main', { channel: 'orders', instType: 'SWAP' }),
+    ).rejects.toThrow('已订阅: orders:SWAP');
+
+    await service.removeSubscription('main', {
+      channel: 'orders',
+      instType: 'SWAP',
+    });
+    expect(instTypes()).toEqual(['ANY', 'FUTURES']);
+    await service.removeSubscription('main', { channel: 'orders' });
+    expect(instTypes()).toEqual(['FUTURES']);
+    await expect(
+      service.removeSubscription('main', {
+        channel: 'orders',
+        instType: 'SWAP',
+      }),
+    ).rejects.toThrow('未订阅: orders:SWAP');
+  });
+
+  it('should reject a missing or unsupported channel with a bad request', async () => {
+    const missing = undefined as unknown as OkxSubscribeArg;
+    await expect(service.addSubscription('main', missing)).rejects.toThrow(
+      '不支持的频道',
+    );
+    await expect(
+      service.removeSubscription('main', missing),
+    ).rejects.toMatchObject({ status: 400 });
+    await expect(
+      service.removeSubscription('main', { channel: 'trades' }),
+    ).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('should fall back to the single account variables without OKX_ACCOUNTS', async () => {
+    await service.onModuleDestroy();
+    FakeConnection.instances = [];
+    env = {
+      OKX_API_KEY: 'key',
+      OKX_SECRET_KEY: 'secret',
+      OKX_PASSPHRASE: 'pass',
+      OKX_PUBLIC_ENABLED: 'false',
+    };
+    service = createService();
+    await service.onModuleInit();
+
+    expect(FakeConnection.instances).toHaveLength(1);
+    expect(FakeConnection.instances[0].account).toMatchObject({
+      name: 'default',
+      apiKey: 'key',
+      channels: ['orders'],
+    });
+  });
+
+  it('should fail fast when account credentials are missing', () => {
+    delete env.OKX_SUB_1_PASSPHRASE;
+    expect(() => createService()).toThrow('OKX_SUB_1_PASSPHRASE');
+  });
+
+  it('should stop every connection on shutdown', async () => {
+    await service.onModuleDestroy();
+    for (const connection of FakeConnection.instances) {
+      expect(connection.stop).toHaveBeenCalled();
+    }
+    expect(service.getStatus()).toEqual([]);
+  });
+});
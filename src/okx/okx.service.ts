@@ -1,358 +1,381 @@
 import {
+  BadRequestException,
   Injectable,
   Logger,
+  NotFoundException,
   OnModuleInit,
   OnModuleDestroy,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import WebSocket from 'ws';
-import * as crypto from 'crypto';
-import { WechatService } from '../wechat/wechat.service';
+import { Subscription } from 'rxjs';
 import { LoggingService } from '../common/logging';
+import { EventBusService } from '../events/event-bus.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { NotifyService } from '../notify/notify.service';
+import { PriceAlertService } from '../price-alerts/price-alert.service';
+import { formatDate, formatDuration } from '../common/utils/format.util';
 import {
+  OkxSubscribeArg,
   OkxWsMessage,
-  OkxOrderData,
-  ORDER_STATE_MAP,
-  ORDER_SIDE_MAP,
 } from '../common/interfaces/okx-order.interface';
+import {
+  OkxAccountConfig,
+  loadOkxAccounts,
+  loadPublicAccount,
+  PUBLIC_CONNECTION_NAME,
+  toNotificationOptions,
+} from './okx-account.config';
+import {
+  OkxConnection,
+  OkxConnectionAlert,
+  OkxConnectionOptions,
+  OkxConnectionStatus,
+  OkxSubscriptionStatus,
+} from './okx-connection';
+import { OkxChannelRegistry } from './channels';
+
+/**
+ * 订阅的简短描述，如 orders:SWAP:BTC-USDT-SWAP
+ */
+function describeSubscription(arg: OkxSubscribeArg): string {
+  return [arg.channel, arg.instType, arg.instId].filter(Boolean).join(':');
+}
 
 @Injectable()
 export class OkxService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(OkxService.name);
-  private ws: WebSocket | null = null;
-  private pingInterval: NodeJS.Timeout | null = null;
-  private reconnectTimeout: NodeJS.Timeout | null = null;
-  private isConnecting = false;
-  private shouldReconnect = true;
-
-  private readonly apiKey: string;
-  private readonly secretKey: string;
-  private readonly passphrase: string;
-  private readonly isSimulated: boolean;
+  private readonly accounts: OkxAccountConfig[];
+  private readonly connectionOptions: OkxConnectionOptions;
+  private readonly connections = new Map<string, OkxConnection>();
+  private readonly publicEnabled: boolean;
+  private publicConnection?: OkxConnection;
+  private alertSubscription?: Subscription;
 
   constructor(
     private configService: ConfigService,
-    private wechatService: WechatService,
     private loggingService: LoggingService,
+    private eventBus: EventBusService,
+    private metrics: MetricsService,
+    private notifyService: NotifyService,
+    private priceAlertService: PriceAlertService,
+    private channelRegistry: OkxChannelRegistry,
   ) {
-    this.apiKey = this.configService.get<string>('OKX_API_KEY')!;
-    this.secretKey = this.configService.get<string>('OKX_SECRET_KEY')!;
-    this.passphrase = this.configService.get<string>('OKX_PASSPHRASE')!;
-    this.isSimulated =
-      this.configService.get<string>('OKX_SIMULATED') === 'true';
+    this.accounts = loadOkxAccounts(this.configService);
+    this.publicEnabled = this.configService.get<boolean>('OKX_PUBLIC_ENABLED')!;
+    this.connectionOptions = {
+      pingInterval: this.configService.get<number>('OKX_PING_INTERVAL_MS')!,
+      pongTimeout: this.configService.get<number>('OKX_PONG_TIMEOUT_MS')!,
+      reconnectBaseDelay: this.configService.get<number>(
+        'OKX_RECONNECT_BASE_DELAY_MS',
+      )!,
+      reconnectMaxDelay: this.configService.get<number>(
+        'OKX_RECONNECT_MAX_DELAY_MS',
+      )!,
+      alertAfterFailures: this.configService.get<number>(
+        'OKX_ALERT_AFTER_FAILURES',
+      )!,
+      alertAfterMs:
+        this.configService.get<number>('OKX_ALERT_AFTER_MINUTES')! * 60000,
+    };
   }
 
   async onModuleInit() {
     this.logger.log('OKX服务初始化...');
-    await this.loggingService.logSystem('INFO', 'OKX服务初始化');
-    this.connectWebSocket();
+    await this.loggingService.logSystem('INFO', 'OKX服务初始化', {
+      accounts: this.accounts.map((account) => ({
+        name: account.name,
+        channels: account.channels,
+      })),
+    });
+
+    for (const account of this.accounts) {
+      const connection = new OkxConnection(
+        account,
+        this.channelRegistry.getSubscribeArgs(account.channels),
+        this.connectionOptions,
+        this.loggingService,
+        this.eventBus,
+        this.metrics,
+        (acc, message) => this.handleMessage(acc, message),
+        (alert) => this.notifyConnectionAlert(account, alert),
+      );
+      this.connections.set(account.name, connection);
+      connection.start();
+    }
+
+    if (this.publicEnabled) {
+      this.startPublicConnection();
+    }
   }
 
   async onModuleDestroy() {
     this.logger.log('OKX服务销毁...');
     await this.loggingService.logSystem('INFO', 'OKX服务销毁');
-    this.shouldReconnect = false;
-    this.cleanup();
-  }
-
-  private cleanup() {
-    if (this.pingInterval) {
-      clearInterval(this.pingInterval);
-      this.pingInterval = null;
-    }
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
-      this.reconnectTimeout = null;
-    }
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
+    for (const connection of this.connections.values()) {
+      connection.stop();
     }
+    this.connections.clear();
+    this.alertSubscription?.unsubscribe();
+    this.publicConnection?.stop();
+    this.publicConnection = undefined;
   }
 
   /**
-   * 生成签名
+   * 全部账户配置
    */
-  private sign(
-    timestamp: string,
-    method: string,
-    requestPath: string,
-    body: string = '',
-  ): string {
-    const prehash = timestamp + method + requestPath + body;
-    const hmac = crypto.createHmac('sha256', this.secretKey);
-    return hmac.update(prehash).digest('base64');
+  getAccounts(): OkxAccountConfig[] {
+    return this.accounts;
   }
 
   /**
-   * 连接WebSocket
+   * 按名称获取账户配置
    */
-  private async connectWebSocket() {
-    if (this.isConnecting) {
-      this.logger.warn('正在连接中，跳过重复连接');
-      return;
-    }
-
-    this.isConnecting = true;
-    this.cleanup();
-
-    // 使用正确的WebSocket地址
-    const wsUrl = this.isSimulated
-      ? 'wss://wspap.okx.com:8443/ws/v5/private?brokerId=9999'
-      : 'wss://ws.okx.com:8443/ws/v5/private';
-
-    const mode = this.isSimulated ? '模拟盘' : '实盘';
-    this.logger.log(`连接到OKX WebSocket: ${wsUrl} (${mode})`);
-    await this.loggingService.logConnection(`正在连接OKX WebSocket (${mode})`, {
-      url: wsUrl,
-    });
-
-    this.ws = new WebSocket(wsUrl);
-
-    this.ws.on('open', async () => {
-      this.logger.log('WebSocket连接已建立');
-      await this.loggingService.logConnection('WebSocket连接已建立', {
-        url: wsUrl,
-        mode,
-      });
-      this.isConnecting = false;
-      this.login();
-      this.startPing();
-    });
-
-    this.ws.on('message', (data: WebSocket.Data) => {
-      this.handleMessage(data);
-    });
-
-    this.ws.on('error', async (error: Error) => {
-      this.logger.error(`WebSocket错误: ${error.message}`);
-      await this.loggingService.logError('CONNECTION', 'WebSocket连接错误', {
-        error: error.message,
-      });
-      this.isConnecting = false;
-    });
-
-    this.ws.on('close', async (code: number, reason: Buffer) => {
-      const reasonStr = reason.toString();
-      this.logger.warn(`WebSocket连接关闭: code=${code}, reason=${reasonStr}`);
-      await this.loggingService.logConnection('WebSocket连接关闭', {
-        code,
-        reason: reasonStr,
-      });
-      this.isConnecting = false;
-      this.scheduleReconnect();
-    });
+  getAccount(name: string): OkxAccountConfig | undefined {
+    return this.accounts.find((account) => account.name === name);
   }
 
   /**
-   * 登录认证
+   * 按账户名称获取私有频道连接
    */
-  private async login() {
-    const timestamp = Math.floor(Date.now() / 1000).toString();
-    const sign = this.sign(timestamp, 'GET', '/users/self/verify');
-
-    const loginMessage = {
-      op: 'login',
-      args: [
-        {
-          apiKey: this.apiKey,
-          passphrase: this.passphrase,
-          timestamp: timestamp,
-          sign: sign,
-        },
-      ],
-    };
-
-    this.logger.log('发送登录请求...');
-    await this.loggingService.logAuth('发送登录请求', true, {
-      apiKey: this.apiKey.substring(0, 8) + '***',
-    });
-    this.ws?.send(JSON.stringify(loginMessage));
+  getConnection(name: string): OkxConnection | undefined {
+    return this.connections.get(name);
   }
 
   /**
-   * 订阅订单频道
+   * 获取所有账户的连接状态
    */
-  private async subscribeOrders() {
-    const subscribeMessage = {
-      op: 'subscribe',
-      args: [
-        {
-          channel: 'orders',
-          instType: 'ANY',
-        },
-      ],
-    };
+  getStatus(): OkxConnectionStatus[] {
+    const connections = [...this.connections.values()];
+    if (this.publicConnection) {
+      connections.push(this.publicConnection);
+    }
+    return connections.map((connection) => connection.getStatus());
+  }
 
-    this.logger.log('订阅订单频道...');
-    await this.loggingService.logSubscribe('发送订阅请求', subscribeMessage);
-    this.ws?.send(JSON.stringify(subscribeMessage));
+  /**
+   * 立即重连指定账户（为空时重连全部连接，含公共频道）
+   */
+  async reconnect(name?: string, reason = '手动重连'): Promise<string[]> {
+    const connections = name
+      ? [this.getControlConnection(name, true)]
+      : [...this.connections.values(), this.publicConnection].filter(
+          (connection): connection is OkxConnection => !!connection,
+        );
+    for (const connection of connections) {
+      await connection.reconnect(reason);
+    }
+    return connections.map((connection) => connection.account.name);
   }
 
   /**
-   * 开始心跳
+   * 各连接当前订阅的频道
    */
-  private startPing() {
-    this.pingInterval = setInterval(() => {
-      if (this.ws?.readyState === WebSocket.OPEN) {
-        this.ws.send('ping');
-      }
-    }, 25000); // 每25秒发送一次ping
+  getSubscriptions(): {
+    account: string;
+    endpoint: string;
+    subscriptions: OkxSubscriptionStatus[];
+  }[] {
+    return this.getStatus().map((status) => ({
+      account: status.account,
+      endpoint: status.endpoint,
+      subscriptions: status.subscriptions,
+    }));
   }
 
   /**
-   * 计划重连
+   * 运行时为账户增加订阅（重启后恢复为配置的频道）
    */
-  private async scheduleReconnect() {
-    if (!this.shouldReconnect) {
-      return;
+  async addSubscription(
+    name: string | undefined,
+    arg: OkxSubscribeArg,
+  ): Promise<{ account: string; subscriptions: OkxSubscribeArg[] }> {
+    const connection = this.getControlConnection(this.resolveAccountName(name));
+    const subscription = this.toSubscribeArg(arg);
+    const subscriptions = connection.getSubscriptions();
+    if (
+      subscriptions.some((item) => this.isSameSubscription(item, subscription))
+    ) {
+      throw new BadRequestException(
+        `已订阅: ${describeSubscription(subscription)}`,
+      );
     }
 
-    this.logger.log('5秒后尝试重连...');
-    await this.loggingService.logConnection('计划5秒后重连');
-    this.reconnectTimeout = setTimeout(() => {
-      this.connectWebSocket();
-    }, 5000);
+    await connection.setSubscriptions([...subscriptions, subscription]);
+    await this.loggingService.logSubscribe('运行时增加订阅', {
+      account: connection.account.name,
+      arg: subscription,
+    });
+    return {
+      account: connection.account.name,
+      subscriptions: connection.getSubscriptions(),
+    };
   }
 
   /**
-   * 处理WebSocket消息
+   * 运行时取消账户的订阅
    */
-  private async handleMessage(data: WebSocket.Data) {
-    const messageStr = data.toString();
-
-    // 处理pong响应
-    if (messageStr === 'pong') {
-      return;
+  async removeSubscription(
+    name: string | undefined,
+    arg: OkxSubscribeArg,
+  ): Promise<{ account: string; subscriptions: OkxSubscribeArg[] }> {
+    const connection = this.getControlConnection(this.resolveAccountName(name));
+    const subscription = this.toSubscribeArg(arg);
+    const subscriptions = connection.getSubscriptions();
+    const remaining = subscriptions.filter(
+      (item) => !this.isSameSubscription(item, subscription),
+    );
+    if (remaining.length === subscriptions.length) {
+      throw new NotFoundException(
+        `未订阅: ${describeSubscription(subscription)}`,
+      );
     }
 
-    try {
-      const message: OkxWsMessage = JSON.parse(messageStr);
-
-      // 处理登录响应
-      if (message.event === 'login') {
-        if (message.code === '0') {
-          this.logger.log('登录成功');
-          await this.loggingService.logAuth('登录成功', true);
-          this.subscribeOrders();
-        } else {
-          this.logger.error(`登录失败: ${message.msg}`);
-          await this.loggingService.logAuth('登录失败', false, {
-            code: message.code,
-            msg: message.msg,
-          });
-        }
-        return;
-      }
-
-      // 处理订阅响应
-      if (message.event === 'subscribe') {
-        this.logger.log(`订阅成功: ${JSON.stringify(message.arg)}`);
-        await this.loggingService.logSubscribe('订阅成功', message.arg);
-        return;
-      }
+    await connection.setSubscriptions(remaining);
+    await this.loggingService.logSubscribe('运行时取消订阅', {
+      account: connection.account.name,
+      arg: subscription,
+    });
+    return {
+      account: connection.account.name,
+      subscriptions: connection.getSubscriptions(),
+    };
+  }
 
-      // 处理错误
-      if (message.event === 'error') {
-        this.logger.error(`收到错误: ${message.msg} (code: ${message.code})`);
-        await this.loggingService.logError('SYSTEM', '收到OKX错误', {
-          code: message.code,
-          msg: message.msg,
-        });
-        return;
-      }
+  /**
+   * 只有一个账户时可省略账户名称
+   */
+  private resolveAccountName(name?: string): string {
+    if (name) {
+      return name;
+    }
+    if (this.accounts.length === 1) {
+      return this.accounts[0].name;
+    }
+    throw new BadRequestException(
+      `配置了多个账户，请指定 account（可选: ${this.accounts.map((account) => account.name).join(', ')}）`,
+    );
+  }
 
-      // 处理订单数据
-      if (message.arg?.channel === 'orders' && message.data) {
-        await this.handleOrderData(message.data);
+  /**
+   * 按名称获取可控制的连接（公共频道的订阅由价格提醒管理，只能重连）
+   */
+  private getControlConnection(
+    name: string,
+    allowPublic = false,
+  ): OkxConnection {
+    if (name === PUBLIC_CONNECTION_NAME && this.publicConnection) {
+      if (!allowPublic) {
+        throw new BadRequestException(
+          '公共频道的订阅由价格提醒规则管理，不能手动修改',
+        );
       }
-    } catch (error: unknown) {
-      const errorMessage =
-        error instanceof Error ? error.message : 'Unknown error';
-      this.logger.error(`解析消息失败: ${errorMessage}`);
-      await this.loggingService.logError('SYSTEM', '解析消息失败', {
-        error: errorMessage,
-        rawMessage: messageStr.substring(0, 500),
-      });
+      return this.publicConnection;
+    }
+    const connection = this.connections.get(name);
+    if (!connection) {
+      throw new NotFoundException(`账户不存在: ${name}`);
     }
+    return connection;
   }
 
   /**
-   * 处理订单数据
+   * 校验请求的订阅参数，按频道处理器补全默认参数（如 instType），再合并指定的 instType、instId
    */
-  private async handleOrderData(orders: OkxOrderData[]) {
-    for (const order of orders) {
-      this.logger.log(`收到订单更新: ${JSON.stringify(order)}`);
-
-      // 记录订单日志
-      await this.loggingService.logOrder('收到订单更新', {
-        ordId: order.ordId,
-        instId: order.instId,
-        side: order.side,
-        state: order.state,
-        sz: order.sz,
-        px: order.px,
-        avgPx: order.avgPx,
-        pnl: order.pnl,
-      });
-
-      // 格式化订单信息用于微信通知
-      const time = this.formatDate(order.uTime);
-      const instId = order.instId;
-      const side = ORDER_SIDE_MAP[order.side] || order.side;
-      const size = this.formatSize(order);
-      const state = ORDER_STATE_MAP[order.state] || order.state;
-
-      // 发送微信通知
-      const success = await this.wechatService.sendOrderNotification(
-        time,
-        instId,
-        side,
-        size,
-        state,
-      );
-
-      // 记录通知结果
-      await this.loggingService.logNotify(
-        success ? '微信通知发送成功' : '微信通知发送失败',
-        success,
-        {
-          ordId: order.ordId,
-          instId,
-          side,
-          size,
-          state,
-        },
+  private toSubscribeArg(arg?: OkxSubscribeArg): OkxSubscribeArg {
+    const handler = arg?.channel
+      ? this.channelRegistry.get(arg.channel)
+      : undefined;
+    if (!arg || !handler) {
+      throw new BadRequestException(
+        `不支持的频道: ${arg?.channel ?? ''}（可选: ${this.channelRegistry.getChannels().join(', ')}）`,
       );
     }
+    return {
+      ...handler.getSubscribeArg(arg.channel),
+      ...(arg.instType ? { instType: arg.instType } : {}),
+      ...(arg.instId ? { instId: arg.instId } : {}),
+    };
   }
 
   /**
-   * 格式化日期
+   * 频道、产品类型和产品ID都相同视为同一订阅
    */
-  private formatDate(timestamp: string): string {
-    const date = new Date(parseInt(timestamp));
-    return date.toLocaleString('zh-CN', {
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-    });
+  private isSameSubscription(a: OkxSubscribeArg, b: OkxSubscribeArg): boolean {
+    return (
+      a.channel === b.channel &&
+      (a.instType ?? '') === (b.instType ?? '') &&
+      (a.instId ?? '') === (b.instId ?? '')
+    );
+  }
+
+  /**
+   * 启动公共频道连接，订阅价格提醒规则需要的行情和资金费率，规则变化时同步订阅
+   */
+  private startPublicConnection() {
+    const account = loadPublicAccount(this.configService);
+    const connection = new OkxConnection(
+      account,
+      this.priceAlertService.getSubscribeArgs(),
+      { ...this.connectionOptions, endpoint: 'public' },
+      this.loggingService,
+      this.eventBus,
+      this.metrics,
+      (_account, message) => this.priceAlertService.handleData(message),
+      (alert) => this.notifyConnectionAlert(account, alert),
+    );
+    this.publicConnection = connection;
+    this.alertSubscription =
+      this.priceAlertService.subscriptionsChanged.subscribe((args) => {
+        void connection.setSubscriptions(args);
+      });
+    connection.start();
   }
 
   /**
-   * 格式化成交数量（包含均价信息）
+   * 按频道分发推送数据
    */
-  private formatSize(order: OkxOrderData): string {
-    let result = order.sz;
+  private async handleMessage(
+    account: OkxAccountConfig,
+    message: OkxWsMessage,
+  ) {
+    if (!message.arg || !message.data) {
+      return;
+    }
 
-    // 如果有成交均价，附加上
-    if (order.avgPx && order.avgPx !== '0' && order.avgPx !== '') {
-      result += ` @ ${order.avgPx}`;
+    const handler = this.channelRegistry.get(message.arg.channel);
+    if (!handler) {
+      this.logger.warn(`未注册的频道数据: ${message.arg.channel}`);
+      return;
     }
 
-    return result;
+    await handler.handle(account, message.data, message.arg);
+  }
+
+  /**
+   * 发送连接离线告警/恢复通知
+   */
+  private async notifyConnectionAlert(
+    account: OkxAccountConfig,
+    alert: OkxConnectionAlert,
+  ) {
+    const offline = alert.type === 'offline';
+    await this.notifyService.notify(
+      {
+        title: offline ? '连接告警' : '连接恢复',
+        time: formatDate(`${Date.now()}`),
+        instId: 'OKX WebSocket',
+        side: account.isSimulated ? '模拟盘' : '实盘',
+        size: offline
+          ? `连续重连失败 ${alert.failures} 次`
+          : `重连 ${alert.failures} 次`,
+        state: offline
+          ? `已离线 ${formatDuration(alert.offlineMs)}`
+          : `离线 ${formatDuration(alert.offlineMs)} 后已恢复`,
+        level: offline ? 'urgent' : 'normal',
+        details: alert.lastError ? [`最近错误：${alert.lastError}`] : undefined,
+        ...toNotificationOptions(account),
+      },
+      { connection: alert.type, failures: alert.failures },
+    );
   }
 }
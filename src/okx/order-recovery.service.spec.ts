@@ -0,0 +1,194 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ConfigService } from '@nestjs/config';
+import { OrderRecoveryService } from './order-recovery.service';
+import { OkxAccountConfig } from './okx-account.config';
+import { OkxService } from './okx.service';
+import { OrdersChannelHandler } from './channels';
+import { signOkxRequest } from './okx-sign.util';
+import { OkxRestClient } from './rest';
+import { OrderHistoryService } from '../orders';
+import { TradeLedgerService } from '../trades';
+import { LoggingService } from '../common/logging';
+import { EventBusService } from '../events/event-bus.service';
+import { toTypedConfig } from '../config/config.loader';
+
+describe('OrderRecoveryService', () => {
+  const account = {
+    name: 'main',
+    apiKey: 'api-key',
+    secretKey: 'secret',
+    passphrase: 'pass',
+    isSimulated: true,
+    wechatOpenids: [],
+    channels: ['orders'],
+  } as OkxAccountConfig;
+  const since = Date.now() - 60_000;
+
+  let server: http.Server;
+  let requests: { path: string; headers: http.IncomingHttpHeaders }[];
+  let responses: Record<string, unknown[]>;
+  let handleRecovered: jest.Mock;
+  let recordTrade: jest.Mock;
+  let service: OrderRecoveryService;
+
+  const order = (ordId: string, state: string, uTime: number) => ({
+    instType: 'SWAP',
+    instId: 'BTC-USDT-SWAP',
+    ordId,
+    state,
+    uTime: `${uTime}`,
+  });
+
+  beforeAll(async () => {
+    // 模拟 OKX REST 接口
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url!, 'http://localhost');
+      requests.push({ path: req.url!, headers: req.headers });
+      res.setHeader('Content-Type', 'application/json');
+      res.end(
+        JSON.stringify({
+          code: '0',
+          msg: '',
+          data: responses[url.pathname] ?? [],
+        }),
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    responses = {};
+    handleRecovered = jest.fn().mockResolvedValue(undefined);
+    recordTrade = jest.fn().mockReturnValue({});
+
+    const config: Record<string, string> = {
+      OKX_REST_BASE_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      OKX_RECOVERY_INST_TYPES: 'SWAP',
+    };
+    const configService = {
+      get: (key: string) => toTypedConfig(config)[key],
+    } as unknown as ConfigService;
+    service = new OrderRecoveryService(
+      configService,
+      { getAccount: () => account } as unknown as OkxService,
+      new OkxRestClient(configService),
+      { handleRecovered } as unknown as OrdersChannelHandler,
+      { getLastUpdateTime: () => since } as unknown as OrderHistoryService,
+      { recordTrade } as unknown as TradeLedgerService,
+      new Proxy(
+        {},
+        { get: () => jest.fn().mockResolvedValue(undefined) },
+      ) as LoggingService,
+      { publish: jest.fn() } as unknown as EventBusService,
+    );
+  });
+
+  it('should sign requests like the WebSocket login', async () => {
+    await service.recover(account);
+
+    expect(requests.map((request) => request.path)).toEqual([
+      `/api/v5/trade/fills?begin=${since}&limit=100`,
+      '/api/v5/trade/orders-pending?limit=100',
+      '/api/v5/trade/orders-history?instType=SWAP&limit=100',
+    ]);
+    for (const { path, headers } of requests) {
+      const timestamp = headers['ok-access-timestamp'] as string;
+      expect(headers['ok-access-key']).toBe('api-key');
+      expect(headers['ok-access-passphrase']).toBe('pass');
+      expect(headers['x-simulated-trading']).toBe('1');
+      expect(headers['ok-access-sign']).toBe(
+        signOkxRequest('secret', timestamp, 'GET', path),
+      );
+    }
+  });
+
+  it('should replay orders updated during the outage in time order', async () => {
+    responses['/api/v5/trade/orders-pending'] = [
+      order('2', 'partially_filled', since + 3000),
+    ];
+    responses['/api/v5/trade/orders-history'] = [
+      order('1', 'filled', since + 2000),
+      order('3', 'canceled', since - 1000),
+    ];
+    responses['/api/v5/trade/fills'] = [
+      {
+        instId: 'BTC-USDT-SWAP',
+        tradeId: 't2',
+        fillSz: '1',
+        ts: `${since + 2000}`,
+      },
+      {
+        instId: 'BTC-USDT-SWAP',
+        tradeId: 't1',
+        fillSz: '1',
+        ts: `${since + 1000}`,
+      },
+    ];
+
+    const result = await service.recover(account);
+
+    expect(handleRecovered).toHaveBeenCalledWith(
+      account,
+      [
+        order('1', 'filled', since + 2000),
+        order('2', 'partially_filled', since + 3000),
+      ],
+      expect.any(Map),
+    );
+    expect(
+      recordTrade.mock.calls.map(
+        ([, fill]) => (fill as { tradeId: string }).tradeId,
+      ),
+    ).toEqual(['t1', 't2']);
+    expect(result).toEqual({ account: 'main', since, orders: 2, fills: 2 });
+  });
+
+  it('should count only the fills inside the window as new', async () => {
+    responses['/api/v5/trade/orders-history'] = [
+      { ...order('1', 'filled', since + 2000), accFillSz: '3' },
+      { ...order('2', 'filled', since + 3000), accFillSz: '0.5' },
+    ];
+    responses['/api/v5/trade/fills'] = [
+      { ordId: '1', tradeId: 't2', fillSz: '0.7', ts: `${since + 2000}` },
+      { ordId: '1', tradeId: 't1', fillSz: '0.6', ts: `${since + 1000}` },
+    ];
+
+    await service.recover(account);
+
+    const [[, , processed]] = handleRecovered.mock.calls as [
+      unknown,
+      unknown,
+      Map<string, string>,
+    ][];
+    expect([...processed]).toEqual([
+      ['1', '1.7'],
+      ['2', '0.5'],
+    ]);
+  });
+
+  it('should page backwards until the outage is covered', async () => {
+    responses['/api/v5/trade/orders-history'] = Array.from(
+      { length: 100 },
+      (_, i) => order(`${1000 - i}`, 'filled', since + 1000 - i),
+    );
+
+    await service.recover(account);
+
+    const historyRequests = requests
+      .map((request) => request.path)
+      .filter((path) => path.includes('orders-history'));
+    expect(historyRequests).toEqual([
+      '/api/v5/trade/orders-history?instType=SWAP&limit=100',
+      '/api/v5/trade/orders-history?instType=SWAP&after=901&limit=100',
+      '/api/v5/trade/orders-history?instType=SWAP&after=901&limit=100',
+      '/api/v5/trade/orders-history?instType=SWAP&after=901&limit=100',
+      '/api/v5/trade/orders-history?instType=SWAP&after=901&limit=100',
+    ]);
+  });
+});
@@ -0,0 +1,301 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Subscription, filter } from 'rxjs';
+import { LoggingService } from '../common/logging';
+import { EventBusService } from '../events/event-bus.service';
+import { OrderHistoryService } from '../orders';
+import { TradeLedgerService } from '../trades';
+import {
+  OkxFillData,
+  OkxOrderData,
+  OkxSubscribeArg,
+} from '../common/interfaces/okx-order.interface';
+import { subtractDecimal } from '../common/utils/format.util';
+import { OkxAccountConfig } from './okx-account.config';
+import { OkxService } from './okx.service';
+import { OrdersChannelHandler } from './channels';
+import { OkxRestClient } from './rest';
+
+/**
+ * 每页条数（OKX 上限 100）
+ */
+const PAGE_LIMIT = 100;
+
+/**
+ * 补拉结果
+ */
+export interface OrderRecoveryResult {
+  account: string;
+  since: number; // 补拉起始时间（毫秒时间戳）
+  orders: number; // 期间有更新的订单数（重复的更新由订单处理器丢弃）
+  fills: number; // 新补记的成交数
+}
+
+/**
+ * 断线补单
+ *
+ * 订单频道订阅确认后，从最近一次处理的订单更新时间开始，
+ * 通过 REST 接口拉取未完成订单、历史订单和成交明细：
+ * 成交补记到成交账本，订单交给订单处理器（与实时推送一起去重）后发送通知；
+ * 重启后订单状态为空，按成交明细推算窗口前已处理的成交，避免重复计入
+ */
+@Injectable()
+export class OrderRecoveryService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(OrderRecoveryService.name);
+  private readonly running = new Set<string>();
+  private subscription?: Subscription;
+
+  private readonly enabled: boolean;
+  private readonly lookbackMs: number;
+  private readonly instTypes: string[];
+  private readonly maxPages: number;
+
+  constructor(
+    private configService: ConfigService,
+    private okxService: OkxService,
+    private restClient: OkxRestClient,
+    private ordersHandler: OrdersChannelHandler,
+    private orderHistoryService: OrderHistoryService,
+    private tradeLedgerService: TradeLedgerService,
+    private loggingService: LoggingService,
+    private eventBus: EventBusService,
+  ) {
+    this.enabled = this.configService.get<boolean>('OKX_RECOVERY_ENABLED')!;
+    this.lookbackMs =
+      this.configService.get<number>('OKX_RECOVERY_LOOKBACK_HOURS')! * 3600000;
+    this.instTypes = this.configService
+      .get<string[]>('OKX_RECOVERY_INST_TYPES')!
+      .map((instType) => instType.toUpperCase());
+    this.maxPages = this.configService.get<number>('OKX_RECOVERY_MAX_PAGES')!;
+  }
+
+  onModuleInit() {
+    if (!this.enabled) {
+      return;
+    }
+
+    // 订阅确认后的更新由推送送达，之前错过的由 REST 补齐
+    this.subscription = this.eventBus
+      .stream({ categories: ['SUBSCRIBE'] }, 0)
+      .pipe(
+        filter(
+          (event) =>
+            event.type === 'subscribe.ack' &&
+            (event.data as OkxSubscribeArg | undefined)?.channel === 'orders',
+        ),
+      )
+      .subscribe((event) => {
+        const account = event.account
+          ? this.okxService.getAccount(event.account)
+          : undefined;
+        if (account) {
+          void this.recover(account);
+        }
+      });
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * 补拉账户错过的订单更新和成交
+   *
+   * 没有订单历史（首次运行）或正在补拉时跳过，返回 null
+   */
+  async recover(
+    account: OkxAccountConfig,
+  ): Promise<OrderRecoveryResult | null> {
+    // 须在任何 await 之前读取，避免被订阅确认后新到的推送推进
+    const lastUTime = this.orderHistoryService.getLastUpdateTime(account.name);
+    if (lastUTime === undefined || this.running.has(account.name)) {
+      return null;
+    }
+
+    this.running.add(account.name);
+    const since = Math.max(lastUTime, Date.now() - this.lookbackMs);
+    try {
+      // 先按成交明细补记（带单笔手续费和收益），再处理订单
+      const fills = await this.fetchFills(account, since);
+      let recordedFills = 0;
+      for (const fill of fills) {
+        if (this.tradeLedgerService.recordTrade(account.name, fill)) {
+          recordedFills++;
+        }
+      }
+
+      const orders = await this.fetchOrders(account, since);
+      await this.ordersHandler.handleRecovered(
+        account,
+        orders,
+        this.getProcessedFillSizes(orders, fills),
+      );
+
+      const result: OrderRecoveryResult = {
+        account: account.name,
+        since,
+        orders: orders.length,
+        fills: recordedFills,
+      };
+      this.logger.log(
+        `[${account.name}] 补单完成: ${orders.length} 个订单, ${recordedFills} 笔成交`,
+      );
+      this.eventBus.publish({
+        category: 'SYSTEM',
+        type: 'recovery.completed',
+        message: '断线补单完成',
+        account: account.name,
+        data: result,
+      });
+      await this.loggingService.logSystem('INFO', '断线补单完成', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`[${account.name}] 补单失败: ${errorMessage}`);
+      this.eventBus.publish({
+        category: 'SYSTEM',
+        type: 'recovery.failed',
+        message: '断线补单失败',
+        account: account.name,
+        data: { since, error: errorMessage },
+      });
+      await this.loggingService.logError('SYSTEM', '断线补单失败', {
+        account: account.name,
+        since,
+        error: errorMessage,
+      });
+      return null;
+    } finally {
+      this.running.delete(account.name);
+    }
+  }
+
+  /**
+   * 拉取 since 之后有更新的订单（每个订单保留最新一次），按更新时间排序
+   */
+  private async fetchOrders(
+    account: OkxAccountConfig,
+    since: number,
+  ): Promise<OkxOrderData[]> {
+    const uTimeOf = (order: OkxOrderData) => parseInt(order.uTime);
+    const pages = [
+      await this.fetchPages(
+        (after) =>
+          this.restClient.getOrdersPending(account, {
+            after,
+            limit: PAGE_LIMIT,
+          }),
+        (order) => order.ordId,
+        uTimeOf,
+        since,
+      ),
+    ];
+    for (const instType of this.instTypes) {
+      pages.push(
+        await this.fetchPages(
+          (after) =>
+            this.restClient.getOrdersHistory(account, {
+              instType,
+              after,
+              limit: PAGE_LIMIT,
+            }),
+          (order) => order.ordId,
+          uTimeOf,
+          since,
+        ),
+      );
+    }
+
+    const latest = new Map<string, OkxOrderData>();
+    for (const order of pages.flat()) {
+      const uTime = uTimeOf(order);
+      const previous = latest.get(order.ordId);
+      if (uTime > since && (!previous || uTime >= uTimeOf(previous))) {
+        latest.set(order.ordId, order);
+      }
+    }
+    return [...latest.values()].sort((a, b) => uTimeOf(a) - uTimeOf(b));
+  }
+
+  /**
+   * 推算每个订单在补拉窗口之前已处理的累计成交数量（累计成交减去窗口内的成交）
+   */
+  private getProcessedFillSizes(
+    orders: OkxOrderData[],
+    fills: OkxFillData[],
+  ): Map<string, string> {
+    const processed = new Map<string, string>();
+    for (const order of orders) {
+      processed.set(order.ordId, order.accFillSz || '0');
+    }
+    for (const fill of fills) {
+      const accFillSz = processed.get(fill.ordId);
+      if (accFillSz !== undefined) {
+        processed.set(fill.ordId, subtractDecimal(accFillSz, fill.fillSz));
+      }
+    }
+    for (const [ordId, fillSz] of processed) {
+      if (parseFloat(fillSz) < 0) {
+        processed.set(ordId, '0');
+      }
+    }
+    return processed;
+  }
+
+  /**
+   * 拉取 since 之后的成交明细，按成交时间排序
+   */
+  private async fetchFills(
+    account: OkxAccountConfig,
+    since: number,
+  ): Promise<OkxFillData[]> {
+    const fills = await this.fetchPages(
+      (after) =>
+        this.restClient.getFills(account, {
+          begin: since,
+          after,
+          limit: PAGE_LIMIT,
+        }),
+      (fill) => fill.billId,
+      (fill) => parseInt(fill.ts),
+      since,
+    );
+    return fills
+      .filter((fill) => parseInt(fill.ts) > since)
+      .sort((a, b) => parseInt(a.ts) - parseInt(b.ts));
+  }
+
+  /**
+   * 按 after 游标向更早的数据翻页，
+   * 不足一页、整页都早于 since 或达到最大页数时停止
+   */
+  private async fetchPages<T>(
+    fetchPage: (after?: string) => Promise<T[]>,
+    cursorOf: (item: T) => string,
+    timeOf: (item: T) => number,
+    since: number,
+  ): Promise<T[]> {
+    const items: T[] = [];
+    let after: string | undefined;
+
+    for (let page = 0; page < this.maxPages; page++) {
+      const data = await fetchPage(after);
+      items.push(...data);
+
+      if (
+        data.length < PAGE_LIMIT ||
+        data.every((item) => timeOf(item) <= since)
+      ) {
+        break;
+      }
+      after = cursorOf(data[data.length - 1]);
+    }
+    return items;
+  }
+}
@@ -0,0 +1,90 @@
+import { OrderStateService } from './order-state.service';
+import { OkxOrderData } from '../common/interfaces/okx-order.interface';
+
+describe('OrderStateService', () => {
+  let orderStateService: OrderStateService;
+
+  const order = (overrides: Partial<OkxOrderData>): OkxOrderData =>
+    ({
+      ordId: '1',
+      state: 'live',
+      accFillSz: '0',
+      uTime: '1000',
+      ...overrides,
+    }) as OkxOrderData;
+
+  beforeEach(() => {
+    orderStateService = new OrderStateService();
+  });
+
+  it('should describe state transitions with fill delta', () => {
+    orderStateService.track('main', order({}));
+    const transition = orderStateService.track(
+      'main',
+      order({ state: 'partially_filled', accFillSz: '0.3', uTime: '2000' }),
+    );
+
+    expect(transition).toMatchObject({ isNew: false, fillDelta: '0.3' });
+    expect(orderStateService.describe(transition!)).toBe(
+      'live → partially_filled +0.3',
+    );
+    expect(orderStateService.describeState(transition!, true)).toBe(
+      '等待成交 → 部分成交',
+    );
+
+    const next = orderStateService.track(
+      'main',
+      order({ state: 'partially_filled', accFillSz: '0.4', uTime: '3000' }),
+    );
+    expect(orderStateService.describe(next!)).toBe('partially_filled +0.1');
+  });
+
+  it('should start from the processed fill size for unknown orders', () => {
+    const recovered = orderStateService.track(
+      'main',
+      order({ state: 'filled', accFillSz: '1', uTime: '3000' }),
+      '0.7',
+    );
+    expect(recovered).toMatchObject({ isNew: true, fillDelta: '0.3' });
+
+    // 已有状态时忽略推算值
+    orderStateService.track(
+      'main',
+      order({ ordId: '2', state: 'partially_filled', accFillSz: '0.5' }),
+    );
+    expect(
+      orderStateService.track(
+        'main',
+        order({ ordId: '2', state: 'filled', accFillSz: '1', uTime: '2000' }),
+        '0',
+      ),
+    ).toMatchObject({ fillDelta: '0.5' });
+  });
+
+  it('should drop duplicate and stale updates', () => {
+    orderStateService.track(
+      'main',
+      order({ state: 'filled', accFillSz: '1', uTime: '3000' }),
+    );
+
+    expect(
+      orderStateService.track(
+        'main',
+        order({ state: 'filled', accFillSz: '1', uTime: '3000' }),
+      ),
+    ).toBeNull();
+    expect(
+      orderStateService.track(
+        'main',
+        order({ state: 'partially_filled', accFillSz: '0.5', uTime: '2000' }),
+      ),
+    ).toBeNull();
+  });
+
+  it('should track orders per account', () => {
+    orderStateService.track('main', order({}));
+    expect(orderStateService.track('sub', order({}))).toMatchObject({
+      isNew: true,
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { Injectable } from '@nestjs/common';
+import {
+  OkxOrderData,
+  ORDER_STATE_MAP,
+} from '../common/interfaces/okx-order.interface';
+import { subtractDecimal } from '../common/utils/format.util';
+
+/**
+ * 已结束的订单状态保留时间（毫秒）
+ */
+const FINISHED_ORDER_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * 清理间隔（毫秒）
+ */
+const PRUNE_INTERVAL = 60 * 1000;
+
+/**
+ * 订单结束状态
+ */
+const FINISHED_STATES = ['filled', 'canceled', 'mmp_canceled'];
+
+/**
+ * 订单最近一次处理的状态
+ */
+interface OrderState {
+  uTime: number;
+  state: string;
+  accFillSz: string;
+  seenAt: number; // 最近处理时间
+}
+
+/**
+ * 订单状态变化
+ */
+export interface OrderTransition {
+  ordId: string;
+  isNew: boolean; // 首次收到该订单
+  prevState?: string;
+  state: string;
+  prevAccFillSz?: string;
+  accFillSz: string;
+  fillDelta: string; // 本次新增成交数量
+}
+
+/**
+ * 订单状态存储
+ *
+ * 按 ordId 记录最近一次处理的 uTime/state/accFillSz，
+ * 重连或重新订阅后 OKX 重发的重复、过期推送会被丢弃
+ */
+@Injectable()
+export class OrderStateService {
+  // 账户:订单ID -> 最近状态
+  private readonly states = new Map<string, OrderState>();
+  private lastPrunedAt = 0;
+
+  /**
+   * 记录订单更新，重复或过期的更新返回 null
+   *
+   * processedFillSz 为本进程之前已处理过的累计成交数量（断线补单时由成交明细推算），
+   * 仅在没有该订单状态时（如重启后）作为计算新增成交的起点
+   */
+  track(
+    account: string,
+    order: OkxOrderData,
+    processedFillSz?: string,
+  ): OrderTransition | null {
+    this.prune();
+
+    const key = `${account}:${order.ordId}`;
+    const previous = this.states.get(key);
+    const uTime = parseInt(order.uTime) || 0;
+    const accFillSz = order.accFillSz || '0';
+
+    if (previous) {
+      // 更新时间更早，或累计成交数量回退，视为过期推送
+      if (
+        uTime < previous.uTime ||
+        parseFloat(accFillSz) < parseFloat(previous.accFillSz)
+      ) {
+        return null;
+      }
+      // 状态和成交数量都没有变化，视为重复推送
+      if (
+        uTime === previous.uTime &&
+        order.state === previous.state &&
+        accFillSz === previous.accFillSz
+      ) {
+        return null;
+      }
+    }
+
+    this.states.set(key, {
+      uTime,
+      state: order.state,
+      accFillSz,
+      seenAt: Date.now(),
+    });
+
+    return {
+      ordId: order.ordId,
+      isNew: !previous,
+      prevState: previous?.state,
+      state: order.state,
+      prevAccFillSz: previous?.accFillSz,
+      accFillSz,
+      fillDelta: subtractDecimal(
+        accFillSz,
+        previous?.accFillSz ?? processedFillSz ?? '0',
+      ),
+    };
+  }
+
+  /**
+   * 描述状态变化，如 live → partially_filled +0.3
+   */
+  describe(transition: OrderTransition): string {
+    const result = this.describeState(transition);
+    return parseFloat(transition.fillDelta) > 0
+      ? `${result} +${transition.fillDelta}`
+      : result;
+  }
+
+  /**
+   * 描述状态变化（不含成交数量），localized 为 true 时使用中文状态名
+   */
+  describeState(transition: OrderTransition, localized = false): string {
+    const label = (state: string) =>
+      localized ? ORDER_STATE_MAP[state] || state : state;
+
+    return transition.prevState && transition.prevState !== transition.state
+      ? `${label(transition.prevState)} → ${label(transition.state)}`
+      : label(transition.state);
+  }
+
+  /**
+   * 清理已结束且超过保留时间的订单
+   */
+  private prune() {
+    const now = Date.now();
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL) {
+      return;
+    }
+    this.lastPrunedAt = now;
+
+    for (const [key, state] of this.states) {
+      if (
+        FINISHED_STATES.includes(state.state) &&
+        now - state.seenAt > FINISHED_ORDER_TTL
+      ) {
+        this.states.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,3 @@
+export * from './okx-rest.interface';
+export * from './okx-rest.client';
+export * from './okx-rest.module';
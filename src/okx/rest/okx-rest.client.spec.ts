@@ -0,0 +1,172 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ConfigService } from '@nestjs/config';
+import { OkxApiError, OkxRestClient } from './okx-rest.client';
+import { OkxAccountConfig } from '../okx-account.config';
+import { signOkxRequest } from '../okx-sign.util';
+import { toTypedConfig } from '../../config/config.loader';
+
+interface MockRequest {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('OkxRestClient', () => {
+  const account = {
+    name: 'main',
+    apiKey: 'api-key',
+    secretKey: 'secret',
+    passphrase: 'pass',
+    isSimulated: false,
+    wechatOpenids: [],
+    channels: ['orders'],
+  } as OkxAccountConfig;
+
+  let server: http.Server;
+  let requests: MockRequest[];
+  // 按顺序返回的响应，用完后返回空数据
+  let replies: { status: number; body: unknown }[];
+  let client: OkxRestClient;
+
+  beforeAll(async () => {
+    // 模拟 OKX REST 接口
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk.toString('utf-8')));
+      req.on('end', () => {
+        requests.push({
+          method: req.method!,
+          path: req.url!,
+          headers: req.headers,
+          body,
+        });
+        const reply = replies.shift() ?? {
+          status: 200,
+          body: { code: '0', msg: '', data: [] },
+        };
+        res.statusCode = reply.status;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    replies = [];
+    const config: Record<string, string> = {
+      OKX_REST_BASE_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}/`,
+      OKX_REST_RETRY_BASE_DELAY_MS: '1',
+    };
+    client = new OkxRestClient({
+      get: (key: string) => toTypedConfig(config)[key],
+    } as unknown as ConfigService);
+  });
+
+  it('should sign private requests and return typed data', async () => {
+    replies.push({
+      status: 200,
+      body: {
+        code: '0',
+        msg: '',
+        data: [{ instId: 'BTC-USDT-SWAP', pos: '1' }],
+      },
+    });
+
+    const positions = await client.getPositions(
+      { ...account, isSimulated: true },
+      { instType: 'SWAP' },
+    );
+
+    expect(positions).toEqual([{ instId: 'BTC-USDT-SWAP', pos: '1' }]);
+    const [{ path, headers }] = requests;
+    expect(path).toBe('/api/v5/account/positions?instType=SWAP');
+    expect(headers['ok-access-key']).toBe('api-key');
+    expect(headers['ok-access-passphrase']).toBe('pass');
+    expect(headers['x-simulated-trading']).toBe('1');
+    expect(headers['ok-access-sign']).toBe(
+      signOkxRequest(
+        'secret',
+        headers['ok-access-timestamp'] as string,
+        'GET',
+        path,
+      ),
+    );
+  });
+
+  it('should sign the POST body', async () => {
+    await client.post(account, '/api/v5/trade/cancel-order', {
+      instId: 'BTC-USDT',
+      ordId: '1',
+    });
+
+    const [{ method, body, headers }] = requests;
+    expect(method).toBe('POST');
+    expect(headers['x-simulated-trading']).toBeUndefined();
+    expect(headers['ok-access-sign']).toBe(
+      signOkxRequest(
+        'secret',
+        headers['ok-access-timestamp'] as string,
+        'POST',
+        '/api/v5/trade/cancel-order',
+        body,
+      ),
+    );
+  });
+
+  it('should not sign public requests', async () => {
+    await client.getInstruments({ instType: 'SPOT', instId: 'BTC-USDT' });
+
+    expect(requests[0].path).toBe(
+      '/api/v5/public/instruments?instType=SPOT&instId=BTC-USDT',
+    );
+    expect(requests[0].headers['ok-access-key']).toBeUndefined();
+  });
+
+  it('should retry rate-limited requests', async () => {
+    replies.push(
+      { status: 429, body: { code: '50011', msg: 'Too Many Requests' } },
+      { status: 200, body: { code: '50011', msg: 'Too Many Requests' } },
+      { status: 200, body: { code: '0', msg: '', data: [{ ordId: '1' }] } },
+    );
+
+    const order = await client.getOrder(account, {
+      instId: 'BTC-USDT',
+      ordId: '1',
+    });
+
+    expect(order).toEqual({ ordId: '1' });
+    expect(requests).toHaveLength(3);
+  });
+
+  it('should throw business errors without retrying', async () => {
+    replies.push({
+      status: 200,
+      body: { code: '51603', msg: 'Order does not exist' },
+    });
+
+    const error = await client
+      .getOrder(account, { instId: 'BTC-USDT', ordId: '1' })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(OkxApiError);
+    expect(error).toMatchObject({ code: '51603', isRateLimited: false });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should give up after the maximum retries', async () => {
+    for (let i = 0; i < 5; i++) {
+      replies.push({ status: 503, body: 'Service Unavailable' });
+    }
+
+    await expect(client.getFills(account)).rejects.toThrow();
+    expect(requests).toHaveLength(4);
+  });
+});
@@ -0,0 +1,286 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosError } from 'axios';
+import {
+  OkxAccountData,
+  OkxFillData,
+  OkxOrderData,
+  OkxPositionData,
+  OkxRestResponse,
+} from '../../common/interfaces/okx-order.interface';
+import { getBackoffDelay } from '../../common/utils/backoff.util';
+import { OkxAccountConfig } from '../okx-account.config';
+import { signOkxRequest } from '../okx-sign.util';
+import {
+  OkxFillParams,
+  OkxInstrumentData,
+  OkxInstrumentParams,
+  OkxOrderListParams,
+  OkxOrderParams,
+} from './okx-rest.interface';
+
+/**
+ * 限速错误码：请求过于频繁 / 子账户下单频率超限
+ */
+const RATE_LIMIT_CODES = ['50011', '50061'];
+
+/**
+ * OKX REST 接口返回的业务错误
+ */
+export class OkxApiError extends Error {
+  constructor(
+    readonly path: string,
+    readonly code: string,
+    readonly msg: string,
+    readonly status?: number,
+  ) {
+    super(`${path} 请求失败: ${msg} (code: ${code})`);
+    this.name = OkxApiError.name;
+  }
+
+  /**
+   * 是否为限速错误
+   */
+  get isRateLimited(): boolean {
+    return this.status === 429 || RATE_LIMIT_CODES.includes(this.code);
+  }
+}
+
+type QueryParams = Record<string, string | number | undefined>;
+
+/**
+ * OKX REST 客户端
+ *
+ * 私有接口按账户签名（模拟盘附加 x-simulated-trading），
+ * 限速错误按指数退避重试；GET 请求在网络错误和 5xx 时也会重试
+ */
+@Injectable()
+export class OkxRestClient {
+  private readonly logger = new Logger(OkxRestClient.name);
+  private readonly baseUrl: string;
+  private readonly timeout: number;
+  private readonly maxRetries: number;
+  private readonly retryBaseDelay: number;
+
+  constructor(private configService: ConfigService) {
+    this.baseUrl = this.configService
+      .get<string>('OKX_REST_BASE_URL')!
+      .replace(/\/+$/, '');
+    this.timeout = this.configService.get<number>('OKX_REST_TIMEOUT_MS')!;
+    this.maxRetries = this.configService.get<number>('OKX_REST_MAX_RETRIES')!;
+    this.retryBaseDelay = this.configService.get<number>(
+      'OKX_REST_RETRY_BASE_DELAY_MS',
+    )!;
+  }
+
+  /**
+   * 账户余额
+   * @param ccy 币种，逗号分隔，为空返回全部
+   */
+  async getBalance(
+    account: OkxAccountConfig,
+    ccy?: string,
+  ): Promise<OkxAccountData | undefined> {
+    const data = await this.get<OkxAccountData>(
+      account,
+      '/api/v5/account/balance',
+      { ccy },
+    );
+    return data[0];
+  }
+
+  /**
+   * 持仓
+   */
+  getPositions(
+    account: OkxAccountConfig,
+    params: { instType?: string; instId?: string } = {},
+  ): Promise<OkxPositionData[]> {
+    return this.get(account, '/api/v5/account/positions', { ...params });
+  }
+
+  /**
+   * 订单详情
+   */
+  async getOrder(
+    account: OkxAccountConfig,
+    params: OkxOrderParams,
+  ): Promise<OkxOrderData | undefined> {
+    const data = await this.get<OkxOrderData>(account, '/api/v5/trade/order', {
+      ...params,
+    });
+    return data[0];
+  }
+
+  /**
+   * 未完成订单
+   */
+  getOrdersPending(
+    account: OkxAccountConfig,
+    params: OkxOrderListParams = {},
+  ): Promise<OkxOrderData[]> {
+    return this.get(account, '/api/v5/trade/orders-pending', { ...params });
+  }
+
+  /**
+   * 历史订单（近七天）
+   */
+  getOrdersHistory(
+    account: OkxAccountConfig,
+    params: OkxOrderListParams & { instType: string },
+  ): Promise<OkxOrderData[]> {
+    return this.get(account, '/api/v5/trade/orders-history', { ...params });
+  }
+
+  /**
+   * 成交明细（近三天）
+   */
+  getFills(
+    account: OkxAccountConfig,
+    params: OkxFillParams = {},
+  ): Promise<OkxFillData[]> {
+    return this.get(account, '/api/v5/trade/fills', { ...params });
+  }
+
+  /**
+   * 产品信息（公共接口，传入账户时按其实盘/模拟盘环境查询）
+   */
+  getInstruments(
+    params: OkxInstrumentParams,
+    account?: OkxAccountConfig,
+  ): Promise<OkxInstrumentData[]> {
+    return this.get(account, '/api/v5/public/instruments', { ...params });
+  }
+
+  /**
+   * 发送 GET 请求，account 为空时不签名（公共接口）
+   */
+  get<T>(
+    account: OkxAccountConfig | undefined,
+    path: string,
+    params: QueryParams = {},
+  ): Promise<T[]> {
+    const query = new URLSearchParams(
+      Object.entries(params)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([key, value]) => [key, `${value}`]),
+    ).toString();
+    return this.request<T>(account, 'GET', query ? `${path}?${query}` : path);
+  }
+
+  /**
+   * 发送 POST 请求（只在限速时重试）
+   */
+  post<T>(
+    account: OkxAccountConfig,
+    path: string,
+    body: unknown,
+  ): Promise<T[]> {
+    return this.request<T>(account, 'POST', path, JSON.stringify(body));
+  }
+
+  private async request<T>(
+    account: OkxAccountConfig | undefined,
+    method: 'GET' | 'POST',
+    requestPath: string,
+    body = '',
+  ): Promise<T[]> {
+    const path = requestPath.split('?')[0];
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(account, method, requestPath, body);
+      } catch (error: unknown) {
+        if (attempt >= this.maxRetries || !this.isRetryable(error, method)) {
+          throw error;
+        }
+        const delay = getBackoffDelay(
+          attempt + 1,
+          this.retryBaseDelay,
+          this.retryBaseDelay * 16,
+        );
+        this.logger.warn(
+          `${path} 请求失败，${delay}ms 后重试 (${attempt + 1}/${this.maxRetries}): ${(error as Error).message}`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private async send<T>(
+    account: OkxAccountConfig | undefined,
+    method: 'GET' | 'POST',
+    requestPath: string,
+    body: string,
+  ): Promise<T[]> {
+    const path = requestPath.split('?')[0];
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (account) {
+      const timestamp = new Date().toISOString();
+      headers['OK-ACCESS-KEY'] = account.apiKey;
+      headers['OK-ACCESS-SIGN'] = signOkxRequest(
+        account.secretKey,
+        timestamp,
+        method,
+        requestPath,
+        body,
+      );
+      headers['OK-ACCESS-TIMESTAMP'] = timestamp;
+      headers['OK-ACCESS-PASSPHRASE'] = account.passphrase;
+      if (account.isSimulated) {
+        headers['x-simulated-trading'] = '1';
+      }
+    }
+
+    let result: OkxRestResponse<T>;
+    try {
+      const response = await axios.request<OkxRestResponse<T>>({
+        method,
+        url: `${this.baseUrl}${requestPath}`,
+        headers,
+        data: body || undefined,
+        timeout: this.timeout,
+      });
+      result = response.data;
+    } catch (error: unknown) {
+      // 业务错误（如限速 429）同样带有 code/msg
+      const data = (error as AxiosError<Partial<OkxRestResponse<T>>>).response
+        ?.data;
+      if (data?.code) {
+        throw new OkxApiError(
+          path,
+          data.code,
+          data.msg ?? '',
+          (error as AxiosError).response?.status,
+        );
+      }
+      throw error;
+    }
+
+    if (result.code !== '0') {
+      throw new OkxApiError(path, result.code, result.msg);
+    }
+    return result.data;
+  }
+
+  /**
+   * 限速错误总是可以重试；GET 请求在网络错误和 5xx 时也重试
+   */
+  private isRetryable(error: unknown, method: 'GET' | 'POST'): boolean {
+    if (error instanceof OkxApiError) {
+      return (
+        error.isRateLimited || (method === 'GET' && (error.status ?? 0) >= 500)
+      );
+    }
+    if (axios.isAxiosError(error)) {
+      const status = error.response?.status;
+      return (
+        status === 429 ||
+        (method === 'GET' && (status === undefined || status >= 500))
+      );
+    }
+    return false;
+  }
+}
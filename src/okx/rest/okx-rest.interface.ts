@@ -0,0 +1,73 @@
+/**
+ * 分页参数（按 ID 游标翻页）
+ */
+export interface OkxPageParams {
+  after?: string; // 返回早于该 ID 的数据
+  before?: string; // 返回晚于该 ID 的数据
+  limit?: number; // 每页条数，最大 100
+}
+
+/**
+ * 订单列表查询参数
+ */
+export interface OkxOrderListParams extends OkxPageParams {
+  instType?: string; // 产品类型（查询历史订单时必填）
+  instId?: string;
+  ordType?: string;
+  state?: string;
+}
+
+/**
+ * 成交明细查询参数
+ */
+export interface OkxFillParams extends OkxPageParams {
+  instType?: string;
+  instId?: string;
+  ordId?: string;
+  begin?: number; // 开始时间（毫秒时间戳）
+  end?: number; // 结束时间（毫秒时间戳）
+}
+
+/**
+ * 单个订单查询参数（ordId 和 clOrdId 二选一）
+ */
+export interface OkxOrderParams {
+  instId: string;
+  ordId?: string;
+  clOrdId?: string;
+}
+
+/**
+ * 产品信息查询参数
+ */
+export interface OkxInstrumentParams {
+  instType: string; // SPOT、MARGIN、SWAP、FUTURES、OPTION
+  instFamily?: string; // 交易品种（OPTION 必填）
+  instId?: string;
+}
+
+/**
+ * OKX产品信息（/api/v5/public/instruments）
+ */
+export interface OkxInstrumentData {
+  instType: string; // 产品类型
+  instId: string; // 产品ID
+  uly: string; // 标的指数
+  instFamily: string; // 交易品种
+  baseCcy: string; // 交易货币币种（币币/币币杠杆）
+  quoteCcy: string; // 计价货币币种（币币/币币杠杆）
+  settleCcy: string; // 盈亏结算和保证金币种（衍生品）
+  ctVal: string; // 合约面值
+  ctMult: string; // 合约乘数
+  ctValCcy: string; // 合约面值计价币种
+  ctType: string; // linear：正向合约 inverse：反向合约
+  lotSz: string; // 下单数量精度
+  tickSz: string; // 下单价格精度
+  minSz: string; // 最小下单数量
+  maxLmtSz: string; // 限价单的单笔最大委托数量
+  maxMktSz: string; // 市价单的单笔最大委托数量
+  lever: string; // 最大杠杆倍数
+  state: string; // 产品状态 live、suspend、preopen、test
+  listTime: string; // 上线时间
+  expTime: string; // 交割/行权日期
+}
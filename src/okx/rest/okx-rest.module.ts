@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { OkxRestClient } from './okx-rest.client';
+
+@Module({
+  providers: [OkxRestClient],
+  exports: [OkxRestClient],
+})
+export class OkxRestModule {}
@@ -0,0 +1,4 @@
+export * from './order-record.interface';
+export * from './order-history.service';
+export * from './orders.controller';
+export * from './orders.module';
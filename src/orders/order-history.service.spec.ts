@@ -0,0 +1,162 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigService } from '@nestjs/config';
+import { OrderHistoryService } from './order-history.service';
+import { OkxOrderData } from '../common/interfaces/okx-order.interface';
+import { toTypedConfig } from '../config/config.loader';
+
+describe('OrderHistoryService', () => {
+  const cwd = process.cwd();
+  const now = Date.UTC(2026, 0, 31);
+  const day = 86400000;
+
+  let env: Record<string, string>;
+  let tmpDir: string;
+  let service: OrderHistoryService;
+
+  const order = (
+    ordId: string,
+    uTime: number,
+    fields: Partial<OkxOrderData> = {},
+  ) =>
+    ({
+      instType: 'SWAP',
+      instId: 'BTC-USDT-SWAP',
+      ordId,
+      side: 'buy',
+      state: 'live',
+      uTime: `${uTime}`,
+      ...fields,
+    }) as OkxOrderData;
+
+  const createService = () => {
+    const created = new OrderHistoryService({
+      get: (key: string) => toTypedConfig(env)[key],
+    } as unknown as ConfigService);
+    created.onModuleInit();
+    return created;
+  };
+
+  const dataLines = () =>
+    fs
+      .readFileSync(path.join(tmpDir, 'data', 'orders.jsonl'), 'utf-8')
+      .trim()
+      .split('\n');
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'order-history-'));
+    process.chdir(tmpDir);
+    env = {};
+    service = createService();
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.useRealTimers();
+    process.chdir(cwd);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should return the latest update of each order, newest first', () => {
+    service.record('main', order('1', now - 3000));
+    service.record('main', order('2', now - 2000));
+    service.record('main', order('1', now - 1000, { state: 'filled' }));
+
+    const result = service.query({ page: 1, pageSize: 10 });
+    expect(result.total).toBe(2);
+    expect(result.items.map((item) => [item.ordId, item.state])).toEqual([
+      ['1', 'filled'],
+      ['2', 'live'],
+    ]);
+    expect(service.getTimeline('1').map((item) => item.state)).toEqual([
+      'live',
+      'filled',
+    ]);
+    expect(service.getLastUpdateTime('main')).toBe(now - 1000);
+    expect(service.getLastUpdateTime('sub')).toBeUndefined();
+  });
+
+  it('should filter by account, instId, side, state and time', () => {
+    service.record('main', order('1', now - 3000));
+    service.record('sub', order('2', now - 2000, { side: 'sell' }));
+    service.record('main', order('3', now - 1000, { instId: 'ETH-USDT' }));
+    service.record('sub', order('4', now, { state: 'filled' }));
+
+    const ids = (query: Record<string, unknown>) =>
+      service
+        .query({ page: 1, pageSize: 10, ...query })
+        .items.map((item) => item.ordId);
+
+    expect(ids({ account: 'sub' })).toEqual(['4', '2']);
+    expect(ids({ instId: 'ETH-USDT' })).toEqual(['3']);
+    expect(ids({ side: 'sell' })).toEqual(['2']);
+    expect(ids({ state: 'filled' })).toEqual(['4']);
+    expect(ids({ from: now - 2000, to: now - 1000 })).toEqual(['3', '2']);
+  });
+
+  it('should paginate results', () => {
+    for (let i = 1; i <= 5; i++) {
+      service.record('main', order(`${i}`, now - i * 1000));
+    }
+
+    const page = service.query({ page: 2, pageSize: 2 });
+    expect(page).toMatchObject({ total: 5, page: 2, pageSize: 2 });
+    expect(page.items.map((item) => item.ordId)).toEqual(['3', '4']);
+    expect(service.query({ page: 4, pageSize: 2 }).items).toEqual([]);
+  });
+
+  it('should keep timelines of the same ordId per account', () => {
+    service.record('main', order('1', now - 2000));
+    service.record('sub', order('1', now - 1000));
+
+    expect(service.getTimeline('1')).toHaveLength(2);
+    expect(service.getTimeline('1', 'sub')).toEqual([
+      expect.objectContaining({ account: 'sub' }),
+    ]);
+    expect(service.getTimeline('missing')).toEqual([]);
+  });
+
+  it('should reload the history from disk', () => {
+    service.record('main', order('1', now - 2000));
+    service.record('main', order('1', now - 1000, { state: 'filled' }));
+    service.onModuleDestroy();
+
+    service = createService();
+    expect(service.getTimeline('1').map((item) => item.state)).toEqual([
+      'live',
+      'filled',
+    ]);
+    expect(service.getLastUpdateTime('main')).toBe(now - 1000);
+  });
+
+  it('should drop expired orders and compact the file on startup', () => {
+    service.record('main', order('old', now - 40 * day));
+    service.record('main', order('recent', now - 10 * day));
+    service.onModuleDestroy();
+
+    env = { ORDER_HISTORY_RETENTION_DAYS: '30' };
+    service = createService();
+
+    expect(service.getTimeline('old')).toEqual([]);
+    expect(service.getTimeline('recent')).toHaveLength(1);
+    expect(dataLines()).toHaveLength(1);
+  });
+
+  it('should keep only the newest orders over the limit', () => {
+    service.onModuleDestroy();
+    env = { ORDER_HISTORY_MAX_ORDERS: '2' };
+    service = createService();
+    for (let i = 1; i <= 4; i++) {
+      service.record('main', order(`${i}`, now - (5 - i) * 1000));
+    }
+
+    expect(service.prune()).toBe(2);
+    expect(
+      service.query({ page: 1, pageSize: 10 }).items.map((item) => item.ordId),
+    ).toEqual(['4', '3']);
+    expect(dataLines()).toHaveLength(2);
+    expect(service.prune()).toBe(0);
+  });
+});
@@ -0,0 +1,195 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JsonlFileStore } from '../common/storage/jsonl-file.store';
+import { OkxOrderData } from '../common/interfaces/okx-order.interface';
+import { OrderQuery, OrderRecord, PagedResult } from './order-record.interface';
+
+/**
+ * 定期清理的间隔
+ */
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * 订单更新时间（缺失时使用收到推送的时间）
+ */
+function updateTimeOf(record: OrderRecord): number {
+  return parseInt(record.uTime) || record.receivedAt;
+}
+
+/**
+ * 订单历史存储
+ *
+ * 每次订单更新完整追加到 data/orders.jsonl，启动时加载到内存建立索引；
+ * 启动时和每小时清理超过保留期或超出数量上限的订单，并压缩数据文件
+ */
+@Injectable()
+export class OrderHistoryService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(OrderHistoryService.name);
+  private readonly store = new JsonlFileStore<OrderRecord>('orders.jsonl');
+  // 账户:订单ID -> 按时间排列的更新记录
+  private readonly timelines = new Map<string, OrderRecord[]>();
+  // 订单ID -> 账户:订单ID
+  private readonly ordIdIndex = new Map<string, Set<string>>();
+  // 账户 -> 最近一次处理的订单更新时间
+  private readonly lastUpdateTimes = new Map<string, number>();
+  private pruneInterval: NodeJS.Timeout | null = null;
+
+  private readonly retentionMs: number;
+  private readonly maxOrders: number;
+
+  constructor(private configService: ConfigService) {
+    this.retentionMs =
+      this.configService.get<number>('ORDER_HISTORY_RETENTION_DAYS')! *
+      86400000;
+    this.maxOrders = this.configService.get<number>(
+      'ORDER_HISTORY_MAX_ORDERS',
+    )!;
+  }
+
+  onModuleInit() {
+    const records = this.store.readAll();
+    for (const record of records) {
+      this.index(record);
+    }
+    this.prune();
+    this.logger.log(
+      `已加载订单历史: ${this.timelines.size} 个订单, ${records.length} 条更新`,
+    );
+
+    this.pruneInterval = setInterval(() => this.prune(), PRUNE_INTERVAL_MS);
+  }
+
+  onModuleDestroy() {
+    if (this.pruneInterval) {
+      clearInterval(this.pruneInterval);
+      this.pruneInterval = null;
+    }
+  }
+
+  /**
+   * 记录一次订单更新
+   */
+  record(account: string, order: OkxOrderData): OrderRecord {
+    const record: OrderRecord = { ...order, account, receivedAt: Date.now() };
+    this.store.append(record);
+    this.index(record);
+    return record;
+  }
+
+  /**
+   * 查询订单（每个订单返回最新一次更新），按更新时间倒序
+   */
+  query(query: OrderQuery): PagedResult<OrderRecord> {
+    const matched = [...this.timelines.values()]
+      .map((timeline) => timeline[timeline.length - 1])
+      .filter((order) => {
+        const uTime = updateTimeOf(order);
+        return (
+          (!query.account || order.account === query.account) &&
+          (!query.instId || order.instId === query.instId) &&
+          (!query.side || order.side === query.side) &&
+          (!query.state || order.state === query.state) &&
+          (query.from === undefined || uTime >= query.from) &&
+          (query.to === undefined || uTime <= query.to)
+        );
+      })
+      .sort((a, b) => updateTimeOf(b) - updateTimeOf(a));
+
+    const start = (query.page - 1) * query.pageSize;
+    return {
+      total: matched.length,
+      page: query.page,
+      pageSize: query.pageSize,
+      items: matched.slice(start, start + query.pageSize),
+    };
+  }
+
+  /**
+   * 获取订单的完整更新时间线（多账户下同一 ordId 的记录都会返回）
+   */
+  getTimeline(ordId: string, account?: string): OrderRecord[] {
+    const records: OrderRecord[] = [];
+    for (const key of this.ordIdIndex.get(ordId) ?? []) {
+      const timeline = this.timelines.get(key);
+      if (timeline && (!account || timeline[0].account === account)) {
+        records.push(...timeline);
+      }
+    }
+    return records.sort((a, b) => updateTimeOf(a) - updateTimeOf(b));
+  }
+
+  /**
+   * 账户最近一次处理的订单更新时间，没有记录时返回 undefined
+   */
+  getLastUpdateTime(account: string): number | undefined {
+    return this.lastUpdateTimes.get(account);
+  }
+
+  /**
+   * 遍历全部订单更新记录
+   */
+  getAllRecords(): OrderRecord[] {
+    return [...this.timelines.values()].flat();
+  }
+
+  /**
+   * 清理最新一次更新超过保留期的订单，以及超出数量上限的最早的订单，
+   * 有清理时压缩数据文件，返回清理的订单数
+   */
+  prune(): number {
+    const lastUpdateOf = (timeline: OrderRecord[]) =>
+      updateTimeOf(timeline[timeline.length - 1]);
+    const cutoff = this.retentionMs > 0 ? Date.now() - this.retentionMs : 0;
+    const sorted = [...this.timelines.entries()].sort(
+      ([, a], [, b]) => lastUpdateOf(a) - lastUpdateOf(b),
+    );
+
+    const expired = sorted.filter(
+      ([, timeline]) => lastUpdateOf(timeline) < cutoff,
+    ).length;
+    const overflow =
+      this.maxOrders > 0 ? sorted.length - expired - this.maxOrders : 0;
+    const removed = sorted.slice(0, expired + Math.max(overflow, 0));
+    if (removed.length === 0) {
+      return 0;
+    }
+
+    for (const [key, timeline] of removed) {
+      this.timelines.delete(key);
+      const keys = this.ordIdIndex.get(timeline[0].ordId);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        this.ordIdIndex.delete(timeline[0].ordId);
+      }
+    }
+    this.store.rewrite(
+      this.getAllRecords().sort((a, b) => a.receivedAt - b.receivedAt),
+    );
+    this.logger.log(
+      `已清理订单历史: ${removed.length} 个订单，剩余 ${this.timelines.size} 个`,
+    );
+    return removed.length;
+  }
+
+  private index(record: OrderRecord) {
+    const key = `${record.account}:${record.ordId}`;
+    const timeline = this.timelines.get(key);
+    if (timeline) {
+      timeline.push(record);
+    } else {
+      this.timelines.set(key, [record]);
+      const keys = this.ordIdIndex.get(record.ordId) ?? new Set<string>();
+      this.ordIdIndex.set(record.ordId, keys.add(key));
+    }
+
+    const uTime = parseInt(record.uTime);
+    if (uTime > (this.lastUpdateTimes.get(record.account) ?? 0)) {
+      this.lastUpdateTimes.set(record.account, uTime);
+    }
+  }
+}
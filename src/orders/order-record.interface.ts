@@ -0,0 +1,33 @@
+import { OkxOrderData } from '../common/interfaces/okx-order.interface';
+
+/**
+ * 订单更新记录
+ */
+export interface OrderRecord extends OkxOrderData {
+  account: string; // 所属账户
+  receivedAt: number; // 收到推送的时间（毫秒时间戳）
+}
+
+/**
+ * 订单查询条件
+ */
+export interface OrderQuery {
+  account?: string;
+  instId?: string;
+  side?: string;
+  state?: string;
+  from?: number; // 更新时间下限（毫秒时间戳，含）
+  to?: number; // 更新时间上限（毫秒时间戳，含）
+  page: number; // 页码，从 1 开始
+  pageSize: number;
+}
+
+/**
+ * 分页结果
+ */
+export interface PagedResult<T> {
+  total: number;
+  page: number;
+  pageSize: number;
+  items: T[];
+}
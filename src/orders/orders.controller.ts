@@ -0,0 +1,66 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  NotFoundException,
+} from '@nestjs/common';
+import { OrderHistoryService } from './order-history.service';
+import type { OrderRecord, PagedResult } from './order-record.interface';
+import { parseTimeParam } from '../common/utils/query.util';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+@Controller('orders')
+export class OrdersController {
+  constructor(private readonly orderHistoryService: OrderHistoryService) {}
+
+  /**
+   * 查询订单历史
+   * @param from 开始时间（毫秒时间戳或 ISO 时间）
+   * @param to 结束时间（毫秒时间戳或 ISO 时间）
+   * @param page 页码，默认 1
+   * @param pageSize 每页条数，默认 50，最大 500
+   */
+  @Get()
+  getOrders(
+    @Query('account') account?: string,
+    @Query('instId') instId?: string,
+    @Query('side') side?: string,
+    @Query('state') state?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('page') page?: string,
+    @Query('pageSize') pageSize?: string,
+  ): PagedResult<OrderRecord> {
+    return this.orderHistoryService.query({
+      account,
+      instId,
+      side,
+      state,
+      from: parseTimeParam('from', from),
+      to: parseTimeParam('to', to),
+      page: Math.max(1, parseInt(page || '1', 10) || 1),
+      pageSize: Math.min(
+        MAX_PAGE_SIZE,
+        Math.max(1, parseInt(pageSize || '', 10) || DEFAULT_PAGE_SIZE),
+      ),
+    });
+  }
+
+  /**
+   * 获取订单的完整更新时间线
+   */
+  @Get(':ordId')
+  getOrderTimeline(
+    @Param('ordId') ordId: string,
+    @Query('account') account?: string,
+  ): { ordId: string; updates: OrderRecord[] } {
+    const updates = this.orderHistoryService.getTimeline(ordId, account);
+    if (updates.length === 0) {
+      throw new NotFoundException(`订单不存在: ${ordId}`);
+    }
+    return { ordId, updates };
+  }
+}
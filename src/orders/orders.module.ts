@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { OrderHistoryService } from './order-history.service';
+import { OrdersController } from './orders.controller';
+
+@Module({
+  controllers: [OrdersController],
+  providers: [OrderHistoryService],
+  exports: [OrderHistoryService],
+})
+export class OrdersModule {}
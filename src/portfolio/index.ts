@@ -0,0 +1,4 @@
+export * from './portfolio.interface';
+export * from './portfolio.service';
+export * from './portfolio.controller';
+export * from './portfolio.module';
@@ -0,0 +1,34 @@
+import { Controller, Get, NotFoundException, Query } from '@nestjs/common';
+import { PortfolioService } from './portfolio.service';
+import type { PortfolioSnapshot } from './portfolio.interface';
+
+@Controller('portfolio')
+export class PortfolioController {
+  constructor(private readonly portfolioService: PortfolioService) {}
+
+  /**
+   * 账户组合快照：各币种余额、持仓和总权益
+   * @param account 账户名称，为空时返回全部账户
+   * @param refresh 为 true 时忽略缓存，从 REST 接口刷新
+   */
+  @Get()
+  async getPortfolio(
+    @Query('account') account?: string,
+    @Query('refresh') refresh?: string,
+  ): Promise<{ accounts: PortfolioSnapshot[] }> {
+    const accounts = this.portfolioService
+      .getAccounts()
+      .filter((item) => !account || item.name === account);
+    if (account && accounts.length === 0) {
+      throw new NotFoundException(`账户不存在: ${account}`);
+    }
+
+    return {
+      accounts: await Promise.all(
+        accounts.map((item) =>
+          this.portfolioService.getSnapshot(item, refresh === 'true'),
+        ),
+      ),
+    };
+  }
+}
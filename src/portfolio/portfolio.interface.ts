@@ -0,0 +1,43 @@
+/**
+ * 币种余额
+ */
+export interface PortfolioBalance {
+  ccy: string; // 币种
+  eq: string; // 币种总权益
+  availBal: string; // 可用余额
+  frozenBal: string; // 占用金额
+  upl: string; // 未实现盈亏
+  eqUsd: string; // 权益美元价值
+}
+
+/**
+ * 持仓
+ */
+export interface PortfolioPosition {
+  instType: string;
+  instId: string;
+  posSide: string; // 持仓方向 long/short/net
+  mgnMode: string; // 保证金模式 cross/isolated
+  pos: string; // 持仓数量
+  avgPx: string; // 开仓均价
+  markPx: string; // 标记价格
+  upl: string; // 未实现盈亏
+  uplRatio: string; // 未实现收益率
+  lever: string; // 杠杆倍数
+  liqPx: string; // 预估强平价
+  notionalUsd: string; // 持仓美元价值
+}
+
+/**
+ * 账户组合快照
+ */
+export interface PortfolioSnapshot {
+  account: string;
+  totalEqUsd: number; // 总权益（美元）
+  totalEqUsdt: number; // 总权益（USDT）
+  balances: PortfolioBalance[]; // 按权益美元价值从大到小
+  positions: PortfolioPosition[];
+  balanceUpdatedAt?: number; // 余额最近更新时间
+  positionsUpdatedAt?: number; // 持仓最近更新时间
+  error?: string; // 刷新失败时的错误（返回的是缓存数据）
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PortfolioService } from './portfolio.service';
+import { PortfolioController } from './portfolio.controller';
+import { OkxRestModule } from '../okx/rest/okx-rest.module';
+
+@Module({
+  imports: [OkxRestModule],
+  controllers: [PortfolioController],
+  providers: [PortfolioService],
+  exports: [PortfolioService],
+})
+export class PortfolioModule {}
@@ -0,0 +1,104 @@
+import { ConfigService } from '@nestjs/config';
+import { PortfolioService } from './portfolio.service';
+import { toTypedConfig } from '../config/config.loader';
+import { OkxRestClient } from '../okx/rest/okx-rest.client';
+import {
+  OkxAccountData,
+  OkxPositionData,
+} from '../common/interfaces/okx-order.interface';
+
+describe('PortfolioService', () => {
+  let getBalance: jest.Mock;
+  let getPositions: jest.Mock;
+  let service: PortfolioService;
+
+  const balance = (
+    totalEq: string,
+    details: Partial<OkxAccountData['details'][number]>[],
+  ) => ({ totalEq, details }) as OkxAccountData;
+
+  const position = (posId: string, instId: string, pos: string) =>
+    ({
+      posId,
+      instId,
+      instType: 'SWAP',
+      posSide: 'long',
+      pos,
+      avgPx: '100',
+      upl: '5',
+      lever: '10',
+    }) as OkxPositionData;
+
+  beforeEach(() => {
+    getBalance = jest
+      .fn()
+      .mockResolvedValue(
+        balance('1000', [{ ccy: 'USDT', eq: '500', eqUsd: '499.5' }]),
+      );
+    getPositions = jest
+      .fn()
+      .mockResolvedValue([position('1', 'BTC-USDT-SWAP', '2')]);
+
+    const configService = new ConfigService(
+      toTypedConfig({
+        OKX_API_KEY: 'key',
+        OKX_SECRET_KEY: 'secret',
+        OKX_PASSPHRASE: 'pass',
+      }),
+    );
+    service = new PortfolioService(configService, {
+      getBalance,
+      getPositions,
+    } as unknown as OkxRestClient);
+  });
+
+  it('should load from REST once and serve from cache', async () => {
+    const [account] = service.getAccounts();
+    const snapshot = await service.getSnapshot(account);
+    await service.getSnapshot(account);
+
+    expect(getBalance).toHaveBeenCalledTimes(1);
+    expect(snapshot.totalEqUsd).toBe(1000);
+    expect(snapshot.totalEqUsdt).toBe(1001);
+    expect(snapshot.positions.map((item) => item.instId)).toEqual([
+      'BTC-USDT-SWAP',
+    ]);
+  });
+
+  it('should apply channel updates and refresh after fills', async () => {
+    const [account] = service.getAccounts();
+    await service.getSnapshot(account);
+
+    service.updateBalance(account.name, [
+      balance('1200', [{ ccy: 'BTC', eq: '0.01', eqUsd: '700' }]),
+    ]);
+    service.updatePositions(account.name, [
+      position('1', 'BTC-USDT-SWAP', '0'),
+      position('2', 'ETH-USDT-SWAP', '-3'),
+    ]);
+    const updated = await service.getSnapshot(account);
+    expect(getBalance).toHaveBeenCalledTimes(1);
+    expect(updated.balances.map((item) => item.ccy)).toEqual(['BTC', 'USDT']);
+    expect(updated.positions.map((item) => item.instId)).toEqual([
+      'ETH-USDT-SWAP',
+    ]);
+
+    service.invalidate(account.name);
+    const lines = await service.describeFill(account, 'SWAP', 'BTC-USDT-SWAP');
+    expect(getBalance).toHaveBeenCalledTimes(2);
+    expect(lines).toEqual([
+      '当前持仓：多头 2 均价 100 未实现盈亏 5 10x',
+      '账户总权益：1001 USDT',
+    ]);
+  });
+
+  it('should return cached data with the error when refresh fails', async () => {
+    const [account] = service.getAccounts();
+    await service.getSnapshot(account);
+    getBalance.mockRejectedValue(new Error('timeout'));
+
+    const snapshot = await service.getSnapshot(account, true);
+    expect(snapshot.error).toBe('timeout');
+    expect(snapshot.totalEqUsd).toBe(1000);
+  });
+});
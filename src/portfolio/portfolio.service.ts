@@ -0,0 +1,280 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  OkxAccountData,
+  OkxPositionData,
+  POS_SIDE_MAP,
+} from '../common/interfaces/okx-order.interface';
+import { OkxAccountConfig, loadOkxAccounts } from '../okx/okx-account.config';
+import { OkxRestClient } from '../okx/rest/okx-rest.client';
+import {
+  PortfolioBalance,
+  PortfolioPosition,
+  PortfolioSnapshot,
+} from './portfolio.interface';
+
+/**
+ * 单个账户缓存的余额和持仓
+ */
+interface AccountPortfolio {
+  balance?: OkxAccountData;
+  positions: Map<string, OkxPositionData>; // 持仓ID -> 持仓
+  balanceUpdatedAt?: number;
+  positionsUpdatedAt?: number;
+  stale: boolean; // 有新成交，下次读取时从 REST 刷新
+}
+
+/**
+ * 保留 2 位小数
+ */
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * 账户组合
+ *
+ * 缓存各账户的余额和持仓：account/positions 频道推送时直接更新，
+ * 有新成交或缓存过期时读取会先通过 REST 刷新
+ */
+@Injectable()
+export class PortfolioService {
+  private readonly logger = new Logger(PortfolioService.name);
+  private readonly accounts: OkxAccountConfig[];
+  private readonly portfolios = new Map<string, AccountPortfolio>();
+  private readonly refreshing = new Map<string, Promise<void>>();
+  private readonly cacheTtl: number;
+  readonly enrichNotifications: boolean;
+
+  constructor(
+    private configService: ConfigService,
+    private restClient: OkxRestClient,
+  ) {
+    this.accounts = loadOkxAccounts(this.configService);
+    this.cacheTtl =
+      this.configService.get<number>('PORTFOLIO_CACHE_TTL_SEC')! * 1000;
+    this.enrichNotifications = this.configService.get<boolean>(
+      'PORTFOLIO_ENRICH_NOTIFICATIONS',
+    )!;
+  }
+
+  /**
+   * 全部账户
+   */
+  getAccounts(): OkxAccountConfig[] {
+    return this.accounts;
+  }
+
+  /**
+   * 更新余额（account 频道推送，只包含变化的币种时按币种合并）
+   */
+  updateBalance(account: string, balances: OkxAccountData[]) {
+    const portfolio = this.getPortfolio(account);
+    for (const balance of balances) {
+      const details = new Map(
+        (portfolio.balance?.details ?? []).map((detail) => [
+          detail.ccy,
+          detail,
+        ]),
+      );
+      for (const detail of balance.details ?? []) {
+        details.set(detail.ccy, detail);
+      }
+      portfolio.balance = { ...balance, details: [...details.values()] };
+    }
+    portfolio.balanceUpdatedAt = Date.now();
+  }
+
+  /**
+   * 更新持仓（positions 频道推送，持仓数量为 0 表示已平仓）
+   */
+  updatePositions(account: string, positions: OkxPositionData[]) {
+    const portfolio = this.getPortfolio(account);
+    for (const position of positions) {
+      if (this.isOpen(position)) {
+        portfolio.positions.set(position.posId, position);
+      } else {
+        portfolio.positions.delete(position.posId);
+      }
+    }
+    portfolio.positionsUpdatedAt = Date.now();
+  }
+
+  /**
+   * 标记需要刷新（有新成交）
+   */
+  invalidate(account: string) {
+    this.getPortfolio(account).stale = true;
+  }
+
+  /**
+   * 获取账户组合快照，缓存过期、有新成交或 refresh 为 true 时先从 REST 刷新
+   */
+  async getSnapshot(
+    account: OkxAccountConfig,
+    refresh = false,
+  ): Promise<PortfolioSnapshot> {
+    const portfolio = this.getPortfolio(account.name);
+    let error: string | undefined;
+
+    if (refresh || this.needsRefresh(portfolio)) {
+      try {
+        await this.refresh(account);
+      } catch (e: unknown) {
+        error = e instanceof Error ? e.message : 'Unknown error';
+        this.logger.warn(`[${account.name}] 刷新账户组合失败: ${error}`);
+      }
+    }
+    return this.toSnapshot(account.name, portfolio, error);
+  }
+
+  /**
+   * 成交后的持仓和权益摘要，用作通知的附加明细（调用前应先 invalidate）
+   */
+  async describeFill(
+    account: OkxAccountConfig,
+    instType: string,
+    instId: string,
+  ): Promise<string[]> {
+    const snapshot = await this.getSnapshot(account);
+    if (snapshot.error) {
+      return [];
+    }
+
+    const lines: string[] = [];
+    if (instType === 'SPOT') {
+      const ccy = instId.split('-')[0];
+      const balance = snapshot.balances.find((item) => item.ccy === ccy);
+      lines.push(`当前余额：${ccy} ${balance?.eq ?? '0'}`);
+    } else {
+      const positions = snapshot.positions.filter(
+        (position) => position.instId === instId,
+      );
+      for (const position of positions) {
+        lines.push(
+          `当前持仓：${POS_SIDE_MAP[position.posSide] || position.posSide} ${position.pos} ` +
+            `均价 ${position.avgPx} 未实现盈亏 ${position.upl} ${position.lever}x`,
+        );
+      }
+      if (positions.length === 0) {
+        lines.push('当前持仓：无');
+      }
+    }
+    lines.push(`账户总权益：${snapshot.totalEqUsdt} USDT`);
+    return lines;
+  }
+
+  /**
+   * 从 REST 接口刷新余额和持仓（同一账户同时只有一个刷新请求）
+   */
+  refresh(account: OkxAccountConfig): Promise<void> {
+    const pending = this.refreshing.get(account.name);
+    if (pending) {
+      return pending;
+    }
+
+    const task = (async () => {
+      const [balance, positions] = await Promise.all([
+        this.restClient.getBalance(account),
+        this.restClient.getPositions(account),
+      ]);
+      const portfolio = this.getPortfolio(account.name);
+      const now = Date.now();
+      portfolio.balance = balance;
+      portfolio.positions = new Map(
+        positions
+          .filter((position) => this.isOpen(position))
+          .map((position) => [position.posId, position]),
+      );
+      portfolio.balanceUpdatedAt = now;
+      portfolio.positionsUpdatedAt = now;
+      portfolio.stale = false;
+    })().finally(() => this.refreshing.delete(account.name));
+
+    this.refreshing.set(account.name, task);
+    return task;
+  }
+
+  private getPortfolio(account: string): AccountPortfolio {
+    let portfolio = this.portfolios.get(account);
+    if (!portfolio) {
+      portfolio = { positions: new Map(), stale: false };
+      this.portfolios.set(account, portfolio);
+    }
+    return portfolio;
+  }
+
+  private needsRefresh(portfolio: AccountPortfolio): boolean {
+    if (
+      portfolio.stale ||
+      portfolio.balanceUpdatedAt === undefined ||
+      portfolio.positionsUpdatedAt === undefined
+    ) {
+      return true;
+    }
+    const updatedAt = Math.min(
+      portfolio.balanceUpdatedAt,
+      portfolio.positionsUpdatedAt,
+    );
+    return Date.now() - updatedAt > this.cacheTtl;
+  }
+
+  private isOpen(position: OkxPositionData): boolean {
+    return parseFloat(position.pos || '0') !== 0;
+  }
+
+  private toSnapshot(
+    account: string,
+    portfolio: AccountPortfolio,
+    error?: string,
+  ): PortfolioSnapshot {
+    const details = portfolio.balance?.details ?? [];
+    const balances: PortfolioBalance[] = details
+      .filter((detail) => parseFloat(detail.eq || '0') !== 0)
+      .map((detail) => ({
+        ccy: detail.ccy,
+        eq: detail.eq,
+        availBal: detail.availBal,
+        frozenBal: detail.frozenBal,
+        upl: detail.upl,
+        eqUsd: detail.eqUsd,
+      }))
+      .sort((a, b) => parseFloat(b.eqUsd) - parseFloat(a.eqUsd));
+
+    const positions: PortfolioPosition[] = [...portfolio.positions.values()]
+      .map((position) => ({
+        instType: position.instType,
+        instId: position.instId,
+        posSide: position.posSide,
+        mgnMode: position.mgnMode,
+        pos: position.pos,
+        avgPx: position.avgPx,
+        markPx: position.markPx,
+        upl: position.upl,
+        uplRatio: position.uplRatio,
+        lever: position.lever,
+        liqPx: position.liqPx,
+        notionalUsd: position.notionalUsd,
+      }))
+      .sort((a, b) => a.instId.localeCompare(b.instId));
+
+    // 按账户中 USDT 的美元价值折算，没有 USDT 余额时按 1:1
+    const totalEqUsd = parseFloat(portfolio.balance?.totalEq || '0');
+    const usdt = details.find((detail) => detail.ccy === 'USDT');
+    const usdtRate =
+      usdt && parseFloat(usdt.eq) > 0 && parseFloat(usdt.eqUsd) > 0
+        ? parseFloat(usdt.eqUsd) / parseFloat(usdt.eq)
+        : 1;
+
+    return {
+      account,
+      totalEqUsd: round2(totalEqUsd),
+      totalEqUsdt: round2(totalEqUsd / usdtRate),
+      balances,
+      positions,
+      balanceUpdatedAt: portfolio.balanceUpdatedAt,
+      positionsUpdatedAt: portfolio.positionsUpdatedAt,
+      error,
+    };
+  }
+}
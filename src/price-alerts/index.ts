@@ -0,0 +1,4 @@
+export * from './price-alert.interface';
+export * from './price-alert.service';
+export * from './price-alerts.controller';
+export * from './price-alerts.module';
@@ -0,0 +1,72 @@
+import type { NotificationLevel } from '../notify/notifier.interface';
+
+/**
+ * 提醒类型：价格、窗口内涨跌幅、资金费率
+ */
+export type PriceAlertType = 'price' | 'change' | 'funding';
+
+/**
+ * 触发条件
+ *
+ * price: above 高于 / below 低于 / cross 穿越；
+ * change: up 上涨 / down 下跌 / any 涨跌均可；
+ * funding: above 高于 / below 低于
+ */
+export type PriceAlertCondition =
+  | 'above'
+  | 'below'
+  | 'cross'
+  | 'up'
+  | 'down'
+  | 'any';
+
+/**
+ * 价格提醒规则
+ */
+export interface PriceAlertRule {
+  id: string;
+  instId: string; // 产品ID，如 BTC-USDT-SWAP
+  type: PriceAlertType;
+  condition: PriceAlertCondition;
+  value: number; // 价格，或涨跌幅/资金费率百分比
+  windowMinutes?: number; // 涨跌幅统计窗口（分钟），change 类型使用
+  repeat: boolean; // 重复提醒；否则触发一次后停用
+  cooldownMinutes: number; // 重复提醒的最小间隔（分钟）
+  enabled: boolean;
+  note?: string; // 备注，附加在通知中
+  level?: NotificationLevel; // 通知级别，默认 normal
+  notifiers?: string[]; // 只发送到指定渠道，默认全部已启用渠道
+  createdAt: number;
+  updatedAt: number;
+  lastTriggeredAt?: number; // 最近一次触发时间
+  triggerCount: number; // 累计触发次数
+}
+
+/**
+ * 创建/修改规则的请求参数
+ */
+export type PriceAlertInput = Partial<
+  Pick<
+    PriceAlertRule,
+    | 'instId'
+    | 'type'
+    | 'condition'
+    | 'value'
+    | 'windowMinutes'
+    | 'repeat'
+    | 'cooldownMinutes'
+    | 'enabled'
+    | 'note'
+    | 'level'
+    | 'notifiers'
+  >
+>;
+
+/**
+ * 规则评估结果
+ */
+export interface PriceAlertMatch {
+  value: number; // 最新价，funding 类型为资金费率百分比
+  change?: number; // 窗口内涨跌幅百分比，change 类型使用
+  timestamp: number; // 行情时间
+}
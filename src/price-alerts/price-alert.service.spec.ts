@@ -0,0 +1,147 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PriceAlertService } from './price-alert.service';
+import { NotifyService } from '../notify/notify.service';
+import { NotificationMessage } from '../notify/notifier.interface';
+import { LoggingService } from '../common/logging';
+import { EventBusService } from '../events/event-bus.service';
+import {
+  OkxSubscribeArg,
+  OkxTickerData,
+} from '../common/interfaces/okx-order.interface';
+import { toTypedConfig } from '../config/config.loader';
+
+describe('PriceAlertService', () => {
+  const cwd = process.cwd();
+  const t0 = Date.UTC(2025, 11, 1, 12);
+  let tmpDir: string;
+  let notify: jest.Mock<Promise<unknown>, [NotificationMessage]>;
+  let service: PriceAlertService;
+
+  const ticker = (last: number, ts: number) =>
+    ({
+      instId: 'BTC-USDT-SWAP',
+      last: `${last}`,
+      ts: `${ts}`,
+    }) as OkxTickerData;
+
+  const createService = () => {
+    const instance = new PriceAlertService(
+      {
+        get: (key: string) => toTypedConfig({})[key],
+      } as unknown as ConfigService,
+      { notify } as unknown as NotifyService,
+      new Proxy(
+        {},
+        { get: () => jest.fn().mockResolvedValue(undefined) },
+      ) as LoggingService,
+      { publish: jest.fn() } as unknown as EventBusService,
+    );
+    instance.onModuleInit();
+    return instance;
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'price-alerts-'));
+    process.chdir(tmpDir);
+    notify = jest
+      .fn<Promise<unknown>, [NotificationMessage]>()
+      .mockResolvedValue({});
+    service = createService();
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should trigger a one-shot cross alert once and persist it', async () => {
+    const subscriptions: OkxSubscribeArg[][] = [];
+    service.subscriptionsChanged.subscribe((args) => subscriptions.push(args));
+
+    const rule = await service.create({
+      instId: 'btc-usdt-swap',
+      type: 'price',
+      value: 100000,
+    });
+    expect(rule).toMatchObject({ instId: 'BTC-USDT-SWAP', condition: 'cross' });
+    expect(service.getSubscribeArgs()).toEqual([
+      { channel: 'tickers', instId: 'BTC-USDT-SWAP' },
+    ]);
+
+    await service.handleTicker(ticker(99000, t0));
+    await service.handleTicker(ticker(100500, t0 + 1000));
+    await service.handleTicker(ticker(99000, t0 + 2000));
+
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(notify.mock.calls[0][0]).toMatchObject({
+      title: '价格提醒',
+      instId: 'BTC-USDT-SWAP',
+      side: '价格穿越 100000',
+      size: '最新价 100500',
+    });
+    expect(subscriptions[subscriptions.length - 1]).toEqual([]);
+    expect(createService().get(rule.id)).toMatchObject({
+      enabled: false,
+      triggerCount: 1,
+    });
+  });
+
+  it('should re-arm a repeating change alert after the move fades', async () => {
+    await service.create({
+      instId: 'BTC-USDT-SWAP',
+      type: 'change',
+      value: 5,
+      windowMinutes: 15,
+      repeat: true,
+      cooldownMinutes: 0,
+    });
+
+    await service.handleTicker(ticker(100, t0));
+    await service.handleTicker(ticker(106, t0 + 60_000));
+    await service.handleTicker(ticker(107, t0 + 120_000));
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(notify.mock.calls[0][0].size).toBe('最新价 106（+6.00%）');
+
+    await service.handleTicker(ticker(104, t0 + 180_000));
+    await service.handleTicker(ticker(98, t0 + 240_000));
+    expect(notify).toHaveBeenCalledTimes(2);
+    expect(notify.mock.calls[1][0]).toMatchObject({
+      side: '15分钟内涨跌超过 5%',
+      state: '已触发 2 次',
+    });
+  });
+
+  it('should check funding rates in percent', async () => {
+    await service.create({
+      instId: 'BTC-USDT-SWAP',
+      type: 'funding',
+      condition: 'below',
+      value: -0.01,
+    });
+    expect(service.getSubscribeArgs()).toEqual([
+      { channel: 'funding-rate', instId: 'BTC-USDT-SWAP' },
+    ]);
+
+    await service.handleData({
+      arg: { channel: 'funding-rate', instId: 'BTC-USDT-SWAP' },
+      data: [{ instId: 'BTC-USDT-SWAP', fundingRate: '-0.0002', ts: `${t0}` }],
+    });
+    expect(notify.mock.calls[0][0].size).toBe('资金费率 -0.0200%');
+  });
+
+  it('should reject invalid rules', async () => {
+    await expect(
+      service.create({ instId: 'BTC-USDT', type: 'funding', value: 0.1 }),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      service.create({ instId: 'BTC-USDT', type: 'price', condition: 'up' }),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      service.create({ instId: 'BTC-USDT', type: 'price', value: 0 }),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,584 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { Subject } from 'rxjs';
+import { LoggingService } from '../common/logging';
+import { EventBusService } from '../events/event-bus.service';
+import { NotifyService } from '../notify/notify.service';
+import { JsonFileStore } from '../common/storage/json-file.store';
+import { formatDate } from '../common/utils/format.util';
+import {
+  OkxFundingRateData,
+  OkxSubscribeArg,
+  OkxTickerData,
+  OkxWsMessage,
+} from '../common/interfaces/okx-order.interface';
+import {
+  PriceAlertCondition,
+  PriceAlertInput,
+  PriceAlertMatch,
+  PriceAlertRule,
+  PriceAlertType,
+} from './price-alert.interface';
+
+/**
+ * 涨跌幅统计的价格采样间隔（毫秒）
+ */
+const SAMPLE_INTERVAL = 1000;
+
+/**
+ * 涨跌幅统计窗口默认值和上限（分钟）
+ */
+const DEFAULT_WINDOW_MINUTES = 15;
+const MAX_WINDOW_MINUTES = 240;
+
+/**
+ * 各类型订阅的公共频道
+ */
+const TYPE_CHANNELS: Record<PriceAlertType, string> = {
+  price: 'tickers',
+  change: 'tickers',
+  funding: 'funding-rate',
+};
+
+/**
+ * 各类型支持的条件（第一个为默认值）
+ */
+const TYPE_CONDITIONS: Record<PriceAlertType, PriceAlertCondition[]> = {
+  price: ['cross', 'above', 'below'],
+  change: ['any', 'up', 'down'],
+  funding: ['above', 'below'],
+};
+
+/**
+ * 条件的文字描述
+ */
+const CONDITION_NAMES: Record<PriceAlertCondition, string> = {
+  above: '高于',
+  below: '低于',
+  cross: '穿越',
+  up: '上涨',
+  down: '下跌',
+  any: '涨跌',
+};
+
+/**
+ * 价格采样
+ */
+interface PriceSample {
+  ts: number;
+  px: number;
+}
+
+/**
+ * 价格提醒
+ *
+ * 规则持久化在 data/price-alerts.json，按规则订阅公共频道的行情和资金费率。
+ * 条件满足时触发一次，条件解除后才会再次触发（重复提醒还需超过冷却时间），
+ * 一次性提醒触发后自动停用
+ */
+@Injectable()
+export class PriceAlertService implements OnModuleInit {
+  private readonly logger = new Logger(PriceAlertService.name);
+  private readonly store = new JsonFileStore<PriceAlertRule[]>(
+    'price-alerts.json',
+    [],
+  );
+  private readonly rules = new Map<string, PriceAlertRule>();
+  // 条件正在满足的规则ID（满足期间不重复触发）
+  private readonly active = new Set<string>();
+  // 产品ID -> 上一次的最新价（判断穿越）
+  private readonly lastPrices = new Map<string, number>();
+  // 产品ID -> 价格采样（统计涨跌幅）
+  private readonly samples = new Map<string, PriceSample[]>();
+  private readonly defaultCooldownMinutes: number;
+
+  /**
+   * 需要订阅的公共频道发生变化
+   */
+  readonly subscriptionsChanged = new Subject<OkxSubscribeArg[]>();
+
+  constructor(
+    private configService: ConfigService,
+    private notifyService: NotifyService,
+    private loggingService: LoggingService,
+    private eventBus: EventBusService,
+  ) {
+    this.defaultCooldownMinutes = this.configService.get<number>(
+      'PRICE_ALERT_COOLDOWN_MINUTES',
+    )!;
+  }
+
+  onModuleInit() {
+    for (const rule of this.store.load()) {
+      this.rules.set(rule.id, rule);
+    }
+    if (this.rules.size > 0) {
+      this.logger.log(`已加载价格提醒 ${this.rules.size} 条`);
+    }
+  }
+
+  /**
+   * 全部规则（按创建时间排序）
+   */
+  list(instId?: string): PriceAlertRule[] {
+    return [...this.rules.values()]
+      .filter((rule) => !instId || rule.instId === instId.toUpperCase())
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  get(id: string): PriceAlertRule | undefined {
+    return this.rules.get(id);
+  }
+
+  /**
+   * 创建规则
+   */
+  async create(input: PriceAlertInput): Promise<PriceAlertRule> {
+    const now = Date.now();
+    const rule = this.validate({
+      id: crypto.randomUUID(),
+      instId: '',
+      type: 'price',
+      condition: 'cross',
+      value: NaN,
+      repeat: false,
+      cooldownMinutes: this.defaultCooldownMinutes,
+      enabled: true,
+      createdAt: now,
+      updatedAt: now,
+      triggerCount: 0,
+      ...this.pickInput(input),
+      ...(input.type && !input.condition
+        ? { condition: TYPE_CONDITIONS[input.type]?.[0] }
+        : {}),
+    });
+
+    this.rules.set(rule.id, rule);
+    this.persist();
+    await this.loggingService.logAlert('INFO', '创建价格提醒', { ...rule });
+    return rule;
+  }
+
+  /**
+   * 修改规则，规则不存在时返回 undefined
+   */
+  async update(
+    id: string,
+    input: PriceAlertInput,
+  ): Promise<PriceAlertRule | undefined> {
+    const existing = this.rules.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const changes = this.pickInput(input);
+    const rule = this.validate({
+      ...existing,
+      ...changes,
+      // 只修改类型时使用新类型的默认条件
+      ...(input.type && input.type !== existing.type && !input.condition
+        ? { condition: TYPE_CONDITIONS[input.type]?.[0] }
+        : {}),
+      updatedAt: Date.now(),
+    });
+
+    this.rules.set(id, rule);
+    this.active.delete(id);
+    this.persist();
+    await this.loggingService.logAlert('INFO', '修改价格提醒', {
+      id,
+      changes,
+    });
+    return rule;
+  }
+
+  /**
+   * 删除规则
+   */
+  async remove(id: string): Promise<boolean> {
+    const rule = this.rules.get(id);
+    if (!rule) {
+      return false;
+    }
+
+    this.rules.delete(id);
+    this.active.delete(id);
+    this.persist();
+    await this.loggingService.logAlert('INFO', '删除价格提醒', { ...rule });
+    return true;
+  }
+
+  /**
+   * 已启用规则需要订阅的公共频道
+   */
+  getSubscribeArgs(): OkxSubscribeArg[] {
+    const args = new Map<string, OkxSubscribeArg>();
+    for (const rule of this.rules.values()) {
+      if (rule.enabled) {
+        const channel = TYPE_CHANNELS[rule.type];
+        args.set(`${channel}:${rule.instId}`, { channel, instId: rule.instId });
+      }
+    }
+    return [...args.values()];
+  }
+
+  /**
+   * 处理公共频道推送
+   */
+  async handleData(message: OkxWsMessage) {
+    if (message.arg?.channel === 'tickers') {
+      for (const ticker of (message.data ?? []) as OkxTickerData[]) {
+        await this.handleTicker(ticker);
+      }
+    } else if (message.arg?.channel === 'funding-rate') {
+      for (const data of (message.data ?? []) as OkxFundingRateData[]) {
+        await this.handleFundingRate(data);
+      }
+    }
+  }
+
+  /**
+   * 按最新价检查价格和涨跌幅规则
+   */
+  async handleTicker(ticker: OkxTickerData) {
+    const price = parseFloat(ticker.last);
+    if (isNaN(price)) {
+      return;
+    }
+    const timestamp = parseInt(ticker.ts) || Date.now();
+    const previous = this.lastPrices.get(ticker.instId);
+    this.lastPrices.set(ticker.instId, price);
+
+    const rules = this.getEnabledRules(ticker.instId, ['price', 'change']);
+    const samples = this.addSample(ticker.instId, price, timestamp, rules);
+
+    for (const rule of rules) {
+      if (rule.type === 'price') {
+        await this.check(
+          rule,
+          this.matchPrice(rule, price, previous)
+            ? { value: price, timestamp }
+            : null,
+        );
+      } else {
+        const change = this.getChange(rule, samples, price, timestamp);
+        await this.check(
+          rule,
+          change !== undefined ? { value: price, change, timestamp } : null,
+        );
+      }
+    }
+  }
+
+  /**
+   * 按当前资金费率检查资金费率规则
+   */
+  async handleFundingRate(data: OkxFundingRateData) {
+    const rate = parseFloat(data.fundingRate) * 100;
+    if (isNaN(rate)) {
+      return;
+    }
+    const timestamp = parseInt(data.ts) || Date.now();
+
+    for (const rule of this.getEnabledRules(data.instId, ['funding'])) {
+      const matched =
+        rule.condition === 'above' ? rate >= rule.value : rate <= rule.value;
+      await this.check(rule, matched ? { value: rate, timestamp } : null);
+    }
+  }
+
+  /**
+   * 规则的文字描述，如 价格穿越 100000、15分钟内涨跌超过 5%
+   */
+  describe(rule: PriceAlertRule): string {
+    const condition = CONDITION_NAMES[rule.condition];
+    switch (rule.type) {
+      case 'price':
+        return `价格${condition} ${rule.value}`;
+      case 'change':
+        return `${rule.windowMinutes}分钟内${condition}超过 ${rule.value}%`;
+      case 'funding':
+        return `资金费率${condition} ${rule.value}%`;
+    }
+  }
+
+  /**
+   * 条件满足时触发，条件解除后重新生效
+   */
+  private async check(rule: PriceAlertRule, match: PriceAlertMatch | null) {
+    if (!match) {
+      this.active.delete(rule.id);
+      return;
+    }
+    if (this.active.has(rule.id)) {
+      return;
+    }
+    this.active.add(rule.id);
+
+    const cooldown = rule.cooldownMinutes * 60000;
+    if (
+      rule.lastTriggeredAt !== undefined &&
+      Date.now() - rule.lastTriggeredAt < cooldown
+    ) {
+      return;
+    }
+    await this.trigger(rule, match);
+  }
+
+  /**
+   * 触发提醒：更新规则状态并发送通知
+   */
+  private async trigger(rule: PriceAlertRule, match: PriceAlertMatch) {
+    rule.lastTriggeredAt = Date.now();
+    rule.triggerCount++;
+    if (!rule.repeat) {
+      rule.enabled = false;
+      this.active.delete(rule.id);
+    }
+    this.persist(!rule.repeat);
+
+    const description = this.describe(rule);
+    const size =
+      rule.type === 'funding'
+        ? `资金费率 ${match.value.toFixed(4)}%`
+        : match.change !== undefined
+          ? `最新价 ${match.value}（${match.change > 0 ? '+' : ''}${match.change.toFixed(2)}%）`
+          : `最新价 ${match.value}`;
+    const data = {
+      id: rule.id,
+      instId: rule.instId,
+      type: rule.type,
+      condition: rule.condition,
+      threshold: rule.value,
+      value: match.value,
+      change: match.change,
+      triggerCount: rule.triggerCount,
+    };
+
+    this.logger.log(`价格提醒触发: ${rule.instId} ${description} ${size}`);
+    this.eventBus.publish({
+      category: 'ALERT',
+      type: 'alert.triggered',
+      message: `价格提醒: ${description}`,
+      instId: rule.instId,
+      data,
+    });
+    await this.loggingService.logAlert('INFO', '价格提醒触发', data);
+
+    await this.notifyService.notify(
+      {
+        title: '价格提醒',
+        time: formatDate(`${match.timestamp}`),
+        instId: rule.instId,
+        side: description,
+        size,
+        state: rule.repeat
+          ? `已触发 ${rule.triggerCount} 次`
+          : '已触发（提醒已停用）',
+        level: rule.level,
+        details: rule.note ? [`备注：${rule.note}`] : undefined,
+      },
+      { alertId: rule.id },
+      { notifiers: rule.notifiers },
+    );
+  }
+
+  private matchPrice(
+    rule: PriceAlertRule,
+    price: number,
+    previous?: number,
+  ): boolean {
+    switch (rule.condition) {
+      case 'above':
+        return price >= rule.value;
+      case 'below':
+        return price <= rule.value;
+      default:
+        return (
+          previous !== undefined &&
+          ((previous < rule.value && price >= rule.value) ||
+            (previous > rule.value && price <= rule.value))
+        );
+    }
+  }
+
+  /**
+   * 窗口内相对最低价的涨幅或相对最高价的跌幅，未达到阈值时返回 undefined
+   */
+  private getChange(
+    rule: PriceAlertRule,
+    samples: PriceSample[],
+    price: number,
+    timestamp: number,
+  ): number | undefined {
+    const since =
+      timestamp - (rule.windowMinutes ?? DEFAULT_WINDOW_MINUTES) * 60000;
+    let min = price;
+    let max = price;
+    for (const sample of samples) {
+      if (sample.ts >= since) {
+        min = Math.min(min, sample.px);
+        max = Math.max(max, sample.px);
+      }
+    }
+
+    const rise = ((price - min) / min) * 100;
+    const fall = ((price - max) / max) * 100;
+    const candidates = [
+      rule.condition !== 'down' ? rise : 0,
+      rule.condition !== 'up' ? fall : 0,
+    ].filter((change) => Math.abs(change) >= rule.value);
+    if (candidates.length === 0) {
+      return undefined;
+    }
+    return candidates.reduce((a, b) => (Math.abs(b) > Math.abs(a) ? b : a));
+  }
+
+  /**
+   * 记录价格采样，只保留涨跌幅规则最长窗口内的数据
+   */
+  private addSample(
+    instId: string,
+    price: number,
+    timestamp: number,
+    rules: PriceAlertRule[],
+  ): PriceSample[] {
+    const windows = rules
+      .filter((rule) => rule.type === 'change')
+      .map((rule) => rule.windowMinutes ?? DEFAULT_WINDOW_MINUTES);
+    if (windows.length === 0) {
+      this.samples.delete(instId);
+      return [];
+    }
+
+    const samples = this.samples.get(instId) ?? [];
+    const last = samples[samples.length - 1];
+    if (!last || timestamp - last.ts >= SAMPLE_INTERVAL) {
+      samples.push({ ts: timestamp, px: price });
+    }
+    const since = timestamp - Math.max(...windows) * 60000;
+    const expired = samples.findIndex((sample) => sample.ts >= since);
+    samples.splice(0, expired < 0 ? samples.length : expired);
+    this.samples.set(instId, samples);
+    return samples;
+  }
+
+  private getEnabledRules(
+    instId: string,
+    types: PriceAlertType[],
+  ): PriceAlertRule[] {
+    return [...this.rules.values()].filter(
+      (rule) =>
+        rule.enabled && rule.instId === instId && types.includes(rule.type),
+    );
+  }
+
+  /**
+   * 只保留可修改的字段
+   */
+  private pickInput(input: PriceAlertInput): PriceAlertInput {
+    const keys: (keyof PriceAlertInput)[] = [
+      'instId',
+      'type',
+      'condition',
+      'value',
+      'windowMinutes',
+      'repeat',
+      'cooldownMinutes',
+      'enabled',
+      'note',
+      'level',
+      'notifiers',
+    ];
+    return Object.fromEntries(
+      keys
+        .filter((key) => input[key] !== undefined)
+        .map((key) => [key, input[key]]),
+    );
+  }
+
+  /**
+   * 校验并规范化规则，不合法时抛出 BadRequestException
+   */
+  private validate(rule: PriceAlertRule): PriceAlertRule {
+    const instId = String(rule.instId ?? '')
+      .trim()
+      .toUpperCase();
+    if (!/^[A-Z0-9]+(-[A-Z0-9]+)+$/.test(instId)) {
+      throw new BadRequestException(`instId 不是有效的产品ID: ${rule.instId}`);
+    }
+
+    const conditions = TYPE_CONDITIONS[rule.type];
+    if (!conditions) {
+      throw new BadRequestException(
+        `type 不支持: ${rule.type}（可选: ${Object.keys(TYPE_CONDITIONS).join(', ')}）`,
+      );
+    }
+    if (!conditions.includes(rule.condition)) {
+      throw new BadRequestException(
+        `${rule.type} 类型的 condition 不支持: ${rule.condition}（可选: ${conditions.join(', ')}）`,
+      );
+    }
+    if (rule.type === 'funding' && !instId.endsWith('-SWAP')) {
+      throw new BadRequestException('资金费率提醒只支持永续合约（-SWAP）');
+    }
+
+    const value = Number(rule.value);
+    if (!isFinite(value) || (rule.type !== 'funding' && value <= 0)) {
+      throw new BadRequestException(`value 不是有效的数值: ${rule.value}`);
+    }
+
+    let windowMinutes: number | undefined;
+    if (rule.type === 'change') {
+      windowMinutes = Number(rule.windowMinutes ?? DEFAULT_WINDOW_MINUTES);
+      if (
+        !isFinite(windowMinutes) ||
+        windowMinutes <= 0 ||
+        windowMinutes > MAX_WINDOW_MINUTES
+      ) {
+        throw new BadRequestException(
+          `windowMinutes 须在 0 到 ${MAX_WINDOW_MINUTES} 之间: ${rule.windowMinutes}`,
+        );
+      }
+    }
+
+    const cooldownMinutes = Number(rule.cooldownMinutes);
+    if (!isFinite(cooldownMinutes) || cooldownMinutes < 0) {
+      throw new BadRequestException(
+        `cooldownMinutes 不是有效的数值: ${rule.cooldownMinutes}`,
+      );
+    }
+    if (rule.level && !['normal', 'urgent'].includes(rule.level)) {
+      throw new BadRequestException(`level 不支持: ${rule.level}`);
+    }
+    if (rule.notifiers && !Array.isArray(rule.notifiers)) {
+      throw new BadRequestException('notifiers 须为渠道名称数组');
+    }
+
+    return {
+      ...rule,
+      instId,
+      value,
+      windowMinutes,
+      cooldownMinutes,
+      repeat: !!rule.repeat,
+      enabled: rule.enabled !== false,
+    };
+  }
+
+  /**
+   * 保存规则，并在需要时通知订阅变化
+   */
+  private persist(subscriptionsChanged = true) {
+    this.store.save([...this.rules.values()]);
+    if (subscriptionsChanged) {
+      this.subscriptionsChanged.next(this.getSubscribeArgs());
+    }
+  }
+}
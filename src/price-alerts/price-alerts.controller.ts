@@ -0,0 +1,73 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { PriceAlertService } from './price-alert.service';
+import type { PriceAlertInput, PriceAlertRule } from './price-alert.interface';
+
+@Controller('price-alerts')
+export class PriceAlertsController {
+  constructor(private readonly priceAlertService: PriceAlertService) {}
+
+  /**
+   * 查看价格提醒规则
+   * @param instId 只返回指定产品的规则
+   */
+  @Get()
+  list(@Query('instId') instId?: string): PriceAlertRule[] {
+    return this.priceAlertService.list(instId);
+  }
+
+  /**
+   * 查看指定规则
+   */
+  @Get(':id')
+  get(@Param('id') id: string): PriceAlertRule {
+    const rule = this.priceAlertService.get(id);
+    if (!rule) {
+      throw new NotFoundException(`价格提醒不存在: ${id}`);
+    }
+    return rule;
+  }
+
+  /**
+   * 创建规则
+   */
+  @Post()
+  create(@Body() body: PriceAlertInput = {}): Promise<PriceAlertRule> {
+    return this.priceAlertService.create(body);
+  }
+
+  /**
+   * 修改规则（只修改传入的字段，如 {"enabled": true} 重新启用已触发的一次性提醒）
+   */
+  @Patch(':id')
+  async update(
+    @Param('id') id: string,
+    @Body() body: PriceAlertInput = {},
+  ): Promise<PriceAlertRule> {
+    const rule = await this.priceAlertService.update(id, body);
+    if (!rule) {
+      throw new NotFoundException(`价格提醒不存在: ${id}`);
+    }
+    return rule;
+  }
+
+  /**
+   * 删除规则
+   */
+  @Delete(':id')
+  async remove(@Param('id') id: string): Promise<{ message: string }> {
+    if (!(await this.priceAlertService.remove(id))) {
+      throw new NotFoundException(`价格提醒不存在: ${id}`);
+    }
+    return { message: '价格提醒已删除' };
+  }
+}
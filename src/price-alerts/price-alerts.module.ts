@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PriceAlertService } from './price-alert.service';
+import { PriceAlertsController } from './price-alerts.controller';
+import { NotifyModule } from '../notify/notify.module';
+
+@Module({
+  imports: [NotifyModule],
+  controllers: [PriceAlertsController],
+  providers: [PriceAlertService],
+  exports: [PriceAlertService],
+})
+export class PriceAlertsModule {}
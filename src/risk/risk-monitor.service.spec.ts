@@ -0,0 +1,99 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { RiskMonitorService } from './risk-monitor.service';
+import { toTypedConfig } from '../config/config.loader';
+import { NotifyService } from '../notify/notify.service';
+import { LoggingService } from '../common/logging';
+import { OkxPositionData } from '../common/interfaces/okx-order.interface';
+
+describe('RiskMonitorService', () => {
+  let riskMonitor: RiskMonitorService;
+
+  const config: Record<string, string> = {
+    RISK_MGN_RATIO_THRESHOLDS: '2,3',
+    RISK_LIQ_DISTANCE_PCT: '5',
+    RISK_HYSTERESIS_PCT: '10',
+  };
+
+  const position = (overrides: Partial<OkxPositionData>): OkxPositionData =>
+    ({
+      posId: '1',
+      instId: 'BTC-USDT-SWAP',
+      pos: '1',
+      mgnRatio: '10',
+      markPx: '100000',
+      liqPx: '50000',
+      ...overrides,
+    }) as OkxPositionData;
+
+  beforeEach(async () => {
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        RiskMonitorService,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => toTypedConfig(config)[key] },
+        },
+        { provide: NotifyService, useValue: {} },
+        { provide: LoggingService, useValue: {} },
+      ],
+    }).compile();
+
+    riskMonitor = app.get<RiskMonitorService>(RiskMonitorService);
+  });
+
+  describe('margin ratio', () => {
+    it('should alert once per threshold crossed', () => {
+      expect(riskMonitor.evaluate('a', position({ mgnRatio: '2.5' }))).toEqual([
+        {
+          type: 'MARGIN_RATIO',
+          recovered: false,
+          threshold: 3,
+          value: 2.5,
+        },
+      ]);
+      expect(riskMonitor.evaluate('a', position({ mgnRatio: '2.4' }))).toEqual(
+        [],
+      );
+      expect(
+        riskMonitor.evaluate('a', position({ mgnRatio: '1.5' }))[0],
+      ).toMatchObject({ threshold: 2, recovered: false });
+    });
+
+    it('should only recover above threshold plus hysteresis', () => {
+      riskMonitor.evaluate('a', position({ mgnRatio: '2.5' }));
+
+      expect(riskMonitor.evaluate('a', position({ mgnRatio: '3.1' }))).toEqual(
+        [],
+      );
+      expect(
+        riskMonitor.evaluate('a', position({ mgnRatio: '3.5' }))[0],
+      ).toMatchObject({ type: 'MARGIN_RATIO', recovered: true });
+      expect(
+        riskMonitor.evaluate('a', position({ mgnRatio: '2.9' }))[0],
+      ).toMatchObject({ type: 'MARGIN_RATIO', recovered: false });
+    });
+  });
+
+  describe('liquidation distance', () => {
+    it('should alert when mark price nears liquidation price', () => {
+      expect(
+        riskMonitor.evaluate('a', position({ markPx: '52000' }))[0],
+      ).toMatchObject({ type: 'LIQUIDATION_DISTANCE', recovered: false });
+      expect(riskMonitor.evaluate('a', position({ markPx: '52100' }))).toEqual(
+        [],
+      );
+      expect(
+        riskMonitor.evaluate('a', position({ markPx: '60000' }))[0],
+      ).toMatchObject({ type: 'LIQUIDATION_DISTANCE', recovered: true });
+    });
+
+    it('should reset state when position is closed', () => {
+      riskMonitor.evaluate('a', position({ markPx: '52000' }));
+      expect(riskMonitor.evaluate('a', position({ pos: '0' }))).toEqual([]);
+      expect(
+        riskMonitor.evaluate('a', position({ markPx: '52000' }))[0],
+      ).toMatchObject({ type: 'LIQUIDATION_DISTANCE', recovered: false });
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NotifyService } from '../notify/notify.service';
+import { LoggingService } from '../common/logging';
+import {
+  OkxPositionData,
+  POS_SIDE_MAP,
+} from '../common/interfaces/okx-order.interface';
+import { formatDate, hasValue } from '../common/utils/format.util';
+import {
+  OkxAccountConfig,
+  toNotificationOptions,
+} from '../okx/okx-account.config';
+
+/**
+ * 风险告警类型
+ */
+export type RiskAlertType = 'MARGIN_RATIO' | 'LIQUIDATION_DISTANCE';
+
+/**
+ * 风险评估结果
+ */
+export interface RiskEvent {
+  type: RiskAlertType;
+  recovered: boolean; // true 表示风险解除
+  threshold: number; // 触发的阈值（保证金率倍数或距强平价百分比）
+  value: number; // 当前值
+}
+
+/**
+ * 单个持仓的告警状态
+ */
+interface RiskState {
+  mgnLevel: number; // 已跌破的保证金率阈值个数
+  liqAlerted: boolean; // 是否已发出强平距离告警
+}
+
+/**
+ * 持仓风险监控
+ *
+ * 保证金率跌破阈值或标记价格接近强平价时发送告警，
+ * 恢复到阈值之上（含回差）后才会再次告警，避免反复推送
+ */
+@Injectable()
+export class RiskMonitorService {
+  private readonly logger = new Logger(RiskMonitorService.name);
+  private readonly mgnRatioThresholds: number[];
+  private readonly liqDistancePct: number;
+  private readonly hysteresis: number;
+
+  // 账户:持仓ID -> 告警状态
+  private readonly states = new Map<string, RiskState>();
+
+  constructor(
+    private configService: ConfigService,
+    private notifyService: NotifyService,
+    private loggingService: LoggingService,
+  ) {
+    this.mgnRatioThresholds = this.configService
+      .get<string[]>('RISK_MGN_RATIO_THRESHOLDS')!
+      .map((item) => parseFloat(item))
+      .filter((item) => !isNaN(item) && item > 0)
+      .sort((a, b) => b - a);
+    this.liqDistancePct = this.configService.get<number>(
+      'RISK_LIQ_DISTANCE_PCT',
+    )!;
+    this.hysteresis =
+      this.configService.get<number>('RISK_HYSTERESIS_PCT')! / 100;
+  }
+
+  /**
+   * 检查持仓风险并发送告警
+   */
+  async checkPosition(account: OkxAccountConfig, position: OkxPositionData) {
+    const events = this.evaluate(`${account.name}:${position.posId}`, position);
+
+    for (const event of events) {
+      const data = {
+        instId: position.instId,
+        posId: position.posId,
+        posSide: position.posSide,
+        pos: position.pos,
+        lever: position.lever,
+        mgnRatio: position.mgnRatio,
+        markPx: position.markPx,
+        liqPx: position.liqPx,
+        threshold: event.threshold,
+        value: event.value,
+      };
+
+      if (event.recovered) {
+        this.logger.log(`[${account.name}] 风险解除: ${position.instId}`);
+        await this.loggingService.logRisk(
+          'INFO',
+          this.describe(event),
+          data,
+          account.name,
+        );
+        continue;
+      }
+
+      this.logger.warn(
+        `[${account.name}] 风险告警: ${position.instId} ${this.describe(event)}`,
+      );
+      await this.loggingService.logRisk(
+        'WARN',
+        this.describe(event),
+        data,
+        account.name,
+      );
+
+      const time = formatDate(
+        hasValue(position.uTime) ? position.uTime : `${Date.now()}`,
+      );
+      const side = POS_SIDE_MAP[position.posSide] || position.posSide;
+      const detail = `保证金率 ${this.formatPercent(position.mgnRatio)} 标记价 ${position.markPx} 强平价 ${position.liqPx} ${position.lever}x`;
+
+      await this.notifyService.notify(
+        {
+          title: '风险告警',
+          time,
+          instId: position.instId,
+          side,
+          size: detail,
+          state: this.describe(event),
+          level: 'urgent',
+          ...toNotificationOptions(account),
+        },
+        { posId: position.posId },
+      );
+    }
+  }
+
+  /**
+   * 评估持仓风险，返回需要处理的告警/解除事件
+   */
+  evaluate(key: string, position: OkxPositionData): RiskEvent[] {
+    // 已平仓，清除状态
+    if (!hasValue(position.pos)) {
+      this.states.delete(key);
+      return [];
+    }
+
+    const state = this.states.get(key) ?? { mgnLevel: 0, liqAlerted: false };
+    const events: RiskEvent[] = [];
+
+    // 保证金率阈值（降序排列，跌破的个数即风险等级）
+    if (hasValue(position.mgnRatio) && this.mgnRatioThresholds.length > 0) {
+      const ratio = parseFloat(position.mgnRatio);
+      const crossed = this.mgnRatioThresholds.filter((t) => ratio < t).length;
+
+      if (crossed > state.mgnLevel) {
+        state.mgnLevel = crossed;
+        events.push({
+          type: 'MARGIN_RATIO',
+          recovered: false,
+          threshold: this.mgnRatioThresholds[crossed - 1],
+          value: ratio,
+        });
+      } else {
+        const held = this.mgnRatioThresholds.filter(
+          (t) => ratio < t * (1 + this.hysteresis),
+        ).length;
+        if (held < state.mgnLevel) {
+          events.push({
+            type: 'MARGIN_RATIO',
+            recovered: true,
+            threshold: this.mgnRatioThresholds[state.mgnLevel - 1],
+            value: ratio,
+          });
+          state.mgnLevel = held;
+        }
+      }
+    }
+
+    // 标记价格与强平价的距离
+    if (
+      hasValue(position.markPx) &&
+      hasValue(position.liqPx) &&
+      this.liqDistancePct > 0
+    ) {
+      const markPx = parseFloat(position.markPx);
+      const liqPx = parseFloat(position.liqPx);
+      const distance = (Math.abs(markPx - liqPx) / markPx) * 100;
+
+      if (!state.liqAlerted && distance <= this.liqDistancePct) {
+        state.liqAlerted = true;
+        events.push({
+          type: 'LIQUIDATION_DISTANCE',
+          recovered: false,
+          threshold: this.liqDistancePct,
+          value: distance,
+        });
+      } else if (
+        state.liqAlerted &&
+        distance > this.liqDistancePct * (1 + this.hysteresis)
+      ) {
+        state.liqAlerted = false;
+        events.push({
+          type: 'LIQUIDATION_DISTANCE',
+          recovered: true,
+          threshold: this.liqDistancePct,
+          value: distance,
+        });
+      }
+    }
+
+    this.states.set(key, state);
+    return events;
+  }
+
+  /**
+   * 生成风险事件描述
+   */
+  private describe(event: RiskEvent): string {
+    if (event.type === 'MARGIN_RATIO') {
+      const threshold = this.formatPercent(`${event.threshold}`);
+      return event.recovered
+        ? `保证金率恢复至 ${threshold} 以上`
+        : `保证金率跌破 ${threshold}`;
+    }
+    const distance = event.value.toFixed(2);
+    return event.recovered
+      ? `距强平价恢复至 ${distance}%`
+      : `距强平价仅剩 ${distance}%`;
+  }
+
+  /**
+   * 保证金率倍数转百分比
+   */
+  private formatPercent(ratio: string): string {
+    return `${(parseFloat(ratio) * 100).toFixed(2)}%`;
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { RiskMonitorService } from './risk-monitor.service';
+import { NotifyModule } from '../notify/notify.module';
+
+@Module({
+  imports: [NotifyModule],
+  providers: [RiskMonitorService],
+  exports: [RiskMonitorService],
+})
+export class RiskModule {}
@@ -0,0 +1,5 @@
+export * from './trade.interface';
+export * from './trade.service';
+export * from './trade-api.guard';
+export * from './trade.controller';
+export * from './trade.module';
@@ -0,0 +1,59 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TradeApiGuard } from './trade-api.guard';
+import { AuthService } from '../auth/auth.service';
+import { toTypedConfig } from '../config/config.loader';
+
+describe('TradeApiGuard', () => {
+  const env: Record<string, string> = {
+    TRADE_API_ENABLED: 'true',
+    TRADE_API_TOKEN: 'trade-token',
+  };
+
+  const createGuard = (authEnabled: boolean) =>
+    new TradeApiGuard(
+      {
+        get: (key: string) => toTypedConfig(env)[key],
+      } as unknown as ConfigService,
+      { enabled: authEnabled } as AuthService,
+    );
+
+  const contextWith = (headers: Record<string, string>) =>
+    ({
+      switchToHttp: () => ({ getRequest: () => ({ headers }) }),
+    }) as unknown as ExecutionContext;
+
+  it('should accept X-Api-Token alongside the auth Bearer key', () => {
+    const guard = createGuard(true);
+    expect(
+      guard.canActivate(
+        contextWith({
+          authorization: 'Bearer admin-auth-key',
+          'x-api-token': 'trade-token',
+        }),
+      ),
+    ).toBe(true);
+  });
+
+  it('should not take the auth Bearer key as the trade token', () => {
+    const guard = createGuard(true);
+    expect(() =>
+      guard.canActivate(contextWith({ authorization: 'Bearer trade-token' })),
+    ).toThrow(UnauthorizedException);
+  });
+
+  it('should accept a Bearer trade token when auth is disabled', () => {
+    const guard = createGuard(false);
+    expect(
+      guard.canActivate(contextWith({ authorization: 'Bearer trade-token' })),
+    ).toBe(true);
+    expect(() =>
+      guard.canActivate(
+        contextWith({
+          authorization: 'Bearer trade-token',
+          'x-api-token': 'wrong',
+        }),
+      ),
+    ).toThrow(UnauthorizedException);
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import type { Request } from 'express';
+import { AuthService } from '../auth/auth.service';
+
+/**
+ * 交易接口守卫
+ *
+ * 默认关闭：需配置 TRADE_API_ENABLED=true 和 TRADE_API_TOKEN，
+ * 请求须携带 X-Api-Token 请求头；未开启接口认证时也可使用 Authorization: Bearer <token>
+ * （开启后 Authorization 用于接口认证，不再作为交易 Token）
+ */
+@Injectable()
+export class TradeApiGuard implements CanActivate {
+  private readonly enabled: boolean;
+  private readonly token: string;
+
+  constructor(
+    private configService: ConfigService,
+    private authService: AuthService,
+  ) {
+    this.enabled = this.configService.get<boolean>('TRADE_API_ENABLED')!;
+    this.token = this.configService.get<string>('TRADE_API_TOKEN') || '';
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    if (!this.enabled) {
+      throw new ForbiddenException(
+        '交易接口未启用（需配置 TRADE_API_ENABLED=true）',
+      );
+    }
+    if (!this.token) {
+      throw new ForbiddenException('交易接口未配置 TRADE_API_TOKEN');
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const authorization = request.headers.authorization ?? '';
+    const token =
+      request.headers['x-api-token'] ??
+      (!this.authService.enabled && authorization.startsWith('Bearer ')
+        ? authorization.slice('Bearer '.length)
+        : undefined);
+    if (typeof token !== 'string' || !this.matches(token)) {
+      throw new UnauthorizedException('API Token 无效');
+    }
+    return true;
+  }
+
+  /**
+   * 按固定时间比较，避免通过响应时间猜测 token
+   */
+  private matches(token: string): boolean {
+    const expected = crypto.createHash('sha256').update(this.token).digest();
+    const actual = crypto.createHash('sha256').update(token).digest();
+    return crypto.timingSafeEqual(expected, actual);
+  }
+}
@@ -0,0 +1,103 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { TradeService } from './trade.service';
+import { TradeApiGuard } from './trade-api.guard';
+import type { OkxWsOpResponse } from '../common/interfaces/okx-order.interface';
+import type {
+  TradeAmendArgs,
+  TradeBatchRequest,
+  TradeCancelArgs,
+  TradeOrderArgs,
+  TradeRequest,
+  TradeResult,
+} from './trade.interface';
+
+/**
+ * 交易接口（通过私有频道 WebSocket 下单、撤单、改单）
+ *
+ * 返回 OKX 的响应：code 为 0 表示全部成功，否则查看 data 中各笔的 sCode/sMsg
+ */
+@Controller('trade')
+@UseGuards(TradeApiGuard)
+export class TradeController {
+  constructor(private readonly tradeService: TradeService) {}
+
+  /**
+   * 下单
+   */
+  @Post('order')
+  @HttpCode(HttpStatus.OK)
+  placeOrder(
+    @Body() body: TradeRequest<TradeOrderArgs>,
+  ): Promise<OkxWsOpResponse<TradeResult>> {
+    const { account, ...order } = body;
+    return this.tradeService.placeOrders(account, [order]);
+  }
+
+  /**
+   * 批量下单（最多 20 条）
+   */
+  @Post('batch-orders')
+  @HttpCode(HttpStatus.OK)
+  placeOrders(
+    @Body() body: TradeBatchRequest<TradeOrderArgs>,
+  ): Promise<OkxWsOpResponse<TradeResult>> {
+    return this.tradeService.placeOrders(body.account, body.orders ?? [], true);
+  }
+
+  /**
+   * 撤单
+   */
+  @Post('cancel')
+  @HttpCode(HttpStatus.OK)
+  cancelOrder(
+    @Body() body: TradeRequest<TradeCancelArgs>,
+  ): Promise<OkxWsOpResponse<TradeResult>> {
+    const { account, ...order } = body;
+    return this.tradeService.cancelOrders(account, [order]);
+  }
+
+  /**
+   * 批量撤单（最多 20 条）
+   */
+  @Post('batch-cancel')
+  @HttpCode(HttpStatus.OK)
+  cancelOrders(
+    @Body() body: TradeBatchRequest<TradeCancelArgs>,
+  ): Promise<OkxWsOpResponse<TradeResult>> {
+    return this.tradeService.cancelOrders(
+      body.account,
+      body.orders ?? [],
+      true,
+    );
+  }
+
+  /**
+   * 改单
+   */
+  @Post('amend')
+  @HttpCode(HttpStatus.OK)
+  amendOrder(
+    @Body() body: TradeRequest<TradeAmendArgs>,
+  ): Promise<OkxWsOpResponse<TradeResult>> {
+    const { account, ...order } = body;
+    return this.tradeService.amendOrders(account, [order]);
+  }
+
+  /**
+   * 批量改单（最多 20 条）
+   */
+  @Post('batch-amend')
+  @HttpCode(HttpStatus.OK)
+  amendOrders(
+    @Body() body: TradeBatchRequest<TradeAmendArgs>,
+  ): Promise<OkxWsOpResponse<TradeResult>> {
+    return this.tradeService.amendOrders(body.account, body.orders ?? [], true);
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * 下单参数（字段与 OKX 下单接口一致）
+ */
+export interface TradeOrderArgs {
+  instId: string; // 产品ID
+  tdMode: string; // 交易模式 cash/cross/isolated
+  side: string; // 订单方向 buy/sell
+  ordType: string; // 订单类型 market/limit/post_only/fok/ioc
+  sz: string; // 委托数量
+  px?: string; // 委托价格（限价单必填）
+  posSide?: string; // 持仓方向（开平仓模式必填）long/short
+  ccy?: string; // 保证金币种
+  clOrdId?: string; // 客户自定义订单ID
+  tag?: string; // 订单标签
+  reduceOnly?: boolean; // 是否只减仓
+  tgtCcy?: string; // 市价单委托数量的类型 base_ccy/quote_ccy
+}
+
+/**
+ * 撤单参数（ordId 和 clOrdId 必须传一个）
+ */
+export interface TradeCancelArgs {
+  instId: string;
+  ordId?: string;
+  clOrdId?: string;
+}
+
+/**
+ * 改单参数（ordId 和 clOrdId 必须传一个，newSz 和 newPx 至少传一个）
+ */
+export interface TradeAmendArgs {
+  instId: string;
+  ordId?: string;
+  clOrdId?: string;
+  reqId?: string; // 用户自定义修改事件ID
+  newSz?: string; // 修改后的数量（含已成交数量）
+  newPx?: string; // 修改后的价格
+  cxlOnFail?: boolean; // 修改失败时是否自动撤单
+}
+
+/**
+ * 单笔请求的结果
+ */
+export interface TradeResult {
+  ordId: string;
+  clOrdId: string;
+  tag?: string;
+  reqId?: string;
+  sCode: string; // 0 表示成功
+  sMsg: string; // 失败原因
+}
+
+/**
+ * 交易操作
+ */
+export type TradeOp =
+  | 'order'
+  | 'batch-orders'
+  | 'cancel-order'
+  | 'batch-cancel-orders'
+  | 'amend-order'
+  | 'batch-amend-orders';
+
+/**
+ * 交易接口请求体：单笔时参数直接放在请求体中，批量时放在 orders 中
+ */
+export type TradeRequest<T> = T & { account?: string };
+export type TradeBatchRequest<T> = { account?: string; orders: T[] };
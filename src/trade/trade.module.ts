@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TradeService } from './trade.service';
+import { TradeController } from './trade.controller';
+import { TradeApiGuard } from './trade-api.guard';
+import { OkxModule } from '../okx/okx.module';
+
+@Module({
+  imports: [OkxModule],
+  controllers: [TradeController],
+  providers: [TradeService, TradeApiGuard],
+  exports: [TradeService],
+})
+export class TradeModule {}
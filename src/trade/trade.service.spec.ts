@@ -0,0 +1,99 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TradeService } from './trade.service';
+import { OkxService } from '../okx/okx.service';
+import { OkxAccountConfig } from '../okx/okx-account.config';
+import { LoggingService } from '../common/logging';
+import { EventBusService } from '../events/event-bus.service';
+import { toTypedConfig } from '../config/config.loader';
+
+describe('TradeService', () => {
+  const accounts = [{ name: 'main' }, { name: 'sub' }] as OkxAccountConfig[];
+  let request: jest.Mock;
+  let service: TradeService;
+
+  const order = {
+    instId: 'BTC-USDT-SWAP',
+    tdMode: 'cross',
+    side: 'buy',
+    ordType: 'limit',
+    sz: '1',
+    px: '90000',
+  };
+
+  beforeEach(() => {
+    request = jest.fn().mockResolvedValue({
+      id: '1',
+      op: 'order',
+      code: '0',
+      msg: '',
+      data: [{ ordId: '123', clOrdId: '', sCode: '0', sMsg: '' }],
+    });
+    service = new TradeService(
+      {
+        get: (key: string) => toTypedConfig({})[key],
+      } as unknown as ConfigService,
+      {
+        getAccounts: () => accounts,
+        getAccount: (name: string) => accounts.find((a) => a.name === name),
+        getConnection: () => ({ request }),
+      } as unknown as OkxService,
+      new Proxy(
+        {},
+        { get: () => jest.fn().mockResolvedValue(undefined) },
+      ) as LoggingService,
+      { publish: jest.fn() } as unknown as EventBusService,
+    );
+  });
+
+  it('should send orders over the account connection', async () => {
+    await expect(service.placeOrders('main', [order])).resolves.toMatchObject({
+      code: '0',
+      data: [{ ordId: '123' }],
+    });
+    expect(request).toHaveBeenCalledWith('order', [order], 10000);
+
+    await service.cancelOrders(
+      'sub',
+      [
+        { instId: 'BTC-USDT-SWAP', ordId: '1' },
+        { instId: 'ETH-USDT-SWAP', clOrdId: 'a' },
+      ],
+      true,
+    );
+    expect(request).toHaveBeenLastCalledWith(
+      'batch-cancel-orders',
+      expect.any(Array),
+      10000,
+    );
+  });
+
+  it('should validate requests before sending', async () => {
+    await expect(service.placeOrders(undefined, [order])).rejects.toThrow(
+      '必须指定 account',
+    );
+    await expect(
+      service.amendOrders('main', [{ instId: 'BTC-USDT-SWAP', ordId: '1' }]),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      service.placeOrders('main', [order, { ...order, sz: '' }], true),
+    ).rejects.toThrow('第 2 条：缺少参数: sz');
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('should reject malformed order lists with a bad request', async () => {
+    await expect(
+      service.placeOrders('main', 'x' as never, true),
+    ).rejects.toThrow(new BadRequestException('orders 必须是数组'));
+    await expect(
+      service.cancelOrders('main', {} as never, true),
+    ).rejects.toThrow(new BadRequestException('orders 必须是数组'));
+    await expect(
+      service.amendOrders('main', [null] as never, true),
+    ).rejects.toThrow(new BadRequestException('第 1 条：订单参数必须是对象'));
+    await expect(
+      service.placeOrders('main', [order, null] as never, true),
+    ).rejects.toThrow(BadRequestException);
+    expect(request).not.toHaveBeenCalled();
+  });
+});
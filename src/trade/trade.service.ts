@@ -0,0 +1,260 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LoggingService } from '../common/logging';
+import { EventBusService } from '../events/event-bus.service';
+import { OkxWsOpResponse } from '../common/interfaces/okx-order.interface';
+import { OkxService } from '../okx/okx.service';
+import { OkxAccountConfig } from '../okx/okx-account.config';
+import {
+  TradeAmendArgs,
+  TradeCancelArgs,
+  TradeOp,
+  TradeOrderArgs,
+  TradeResult,
+} from './trade.interface';
+
+/**
+ * 批量请求的最大条数（OKX 上限 20）
+ */
+const MAX_BATCH_SIZE = 20;
+
+/**
+ * 操作的中文名称
+ */
+const OP_NAMES: Record<TradeOp, string> = {
+  order: '下单',
+  'batch-orders': '批量下单',
+  'cancel-order': '撤单',
+  'batch-cancel-orders': '批量撤单',
+  'amend-order': '改单',
+  'batch-amend-orders': '批量改单',
+};
+
+/**
+ * 交易服务
+ *
+ * 通过账户已登录的私有频道 WebSocket 发送下单、撤单、改单请求，
+ * 按请求 id 等待 OKX 响应后原样返回（code 非 0 时各笔的 sCode/sMsg 给出失败原因）
+ */
+@Injectable()
+export class TradeService {
+  private readonly logger = new Logger(TradeService.name);
+  private readonly timeout: number;
+
+  constructor(
+    private configService: ConfigService,
+    private okxService: OkxService,
+    private loggingService: LoggingService,
+    private eventBus: EventBusService,
+  ) {
+    this.timeout = this.configService.get<number>('TRADE_REQUEST_TIMEOUT_MS')!;
+  }
+
+  /**
+   * 下单（多笔时批量下单）
+   */
+  async placeOrders(
+    accountName: string | undefined,
+    orders: TradeOrderArgs[],
+    batch = false,
+  ): Promise<OkxWsOpResponse<TradeResult>> {
+    this.requireOrders(orders, batch);
+    orders.forEach((order, index) =>
+      this.requireFields(
+        order,
+        ['instId', 'tdMode', 'side', 'ordType', 'sz'],
+        this.position(index, batch),
+      ),
+    );
+    return await this.send(
+      accountName,
+      batch ? 'batch-orders' : 'order',
+      orders,
+    );
+  }
+
+  /**
+   * 撤单（多笔时批量撤单）
+   */
+  async cancelOrders(
+    accountName: string | undefined,
+    orders: TradeCancelArgs[],
+    batch = false,
+  ): Promise<OkxWsOpResponse<TradeResult>> {
+    this.requireOrders(orders, batch);
+    orders.forEach((order, index) => {
+      const position = this.position(index, batch);
+      this.requireFields(order, ['instId'], position);
+      this.requireOrderId(order, position);
+    });
+    return await this.send(
+      accountName,
+      batch ? 'batch-cancel-orders' : 'cancel-order',
+      orders,
+    );
+  }
+
+  /**
+   * 改单（多笔时批量改单）
+   */
+  async amendOrders(
+    accountName: string | undefined,
+    orders: TradeAmendArgs[],
+    batch = false,
+  ): Promise<OkxWsOpResponse<TradeResult>> {
+    this.requireOrders(orders, batch);
+    orders.forEach((order, index) => {
+      const position = this.position(index, batch);
+      this.requireFields(order, ['instId'], position);
+      this.requireOrderId(order, position);
+      if (!order.newSz && !order.newPx) {
+        throw new BadRequestException(`${position}newSz 和 newPx 至少需要一个`);
+      }
+    });
+    return await this.send(
+      accountName,
+      batch ? 'batch-amend-orders' : 'amend-order',
+      orders,
+    );
+  }
+
+  /**
+   * 发送交易请求并记录结果
+   */
+  private async send(
+    accountName: string | undefined,
+    op: TradeOp,
+    args: object[],
+  ): Promise<OkxWsOpResponse<TradeResult>> {
+    if (args.length === 0) {
+      throw new BadRequestException('orders 不能为空');
+    }
+    if (args.length > MAX_BATCH_SIZE) {
+      throw new BadRequestException(`批量请求最多 ${MAX_BATCH_SIZE} 条`);
+    }
+
+    const account = this.resolveAccount(accountName);
+    const connection = this.okxService.getConnection(account.name);
+    if (!connection) {
+      throw new ServiceUnavailableException(`账户未连接: ${account.name}`);
+    }
+
+    const name = OP_NAMES[op];
+    this.logger.log(
+      `[${account.name}] 发送${name}请求: ${JSON.stringify(args)}`,
+    );
+    await this.loggingService.logOrder(
+      `发送${name}请求`,
+      { op, args },
+      account.name,
+    );
+
+    let response: OkxWsOpResponse<TradeResult>;
+    try {
+      response = await connection.request<TradeResult>(op, args, this.timeout);
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`[${account.name}] ${name}请求失败: ${errorMessage}`);
+      await this.loggingService.logError('ORDER', `${name}请求失败`, {
+        account: account.name,
+        op,
+        args,
+        error: errorMessage,
+      });
+      throw new ServiceUnavailableException(`${name}请求失败: ${errorMessage}`);
+    }
+
+    const data = {
+      op,
+      id: response.id,
+      code: response.code,
+      msg: response.msg,
+      results: response.data,
+    };
+    if (response.code === '0') {
+      this.logger.log(
+        `[${account.name}] ${name}成功: ${JSON.stringify(response.data)}`,
+      );
+    } else {
+      this.logger.warn(
+        `[${account.name}] ${name}失败: ${response.msg} (code: ${response.code}) ${JSON.stringify(response.data)}`,
+      );
+    }
+    this.eventBus.publish({
+      category: 'ORDER',
+      type: 'trade.result',
+      message: `${name}${response.code === '0' ? '成功' : '失败'}`,
+      account: account.name,
+      data,
+    });
+    await this.loggingService.logOrder(`${name}响应`, data, account.name);
+    return response;
+  }
+
+  /**
+   * 解析账户：只有一个账户时可以不指定
+   */
+  private resolveAccount(name?: string): OkxAccountConfig {
+    if (name) {
+      const account = this.okxService.getAccount(name);
+      if (!account) {
+        throw new NotFoundException(`账户不存在: ${name}`);
+      }
+      return account;
+    }
+
+    const accounts = this.okxService.getAccounts();
+    if (accounts.length !== 1) {
+      throw new BadRequestException('配置了多个账户时必须指定 account');
+    }
+    return accounts[0];
+  }
+
+  /**
+   * 请求体来自外部，遍历前确认 orders 是对象数组
+   */
+  private requireOrders(orders: unknown, batch: boolean) {
+    if (!Array.isArray(orders)) {
+      throw new BadRequestException('orders 必须是数组');
+    }
+    orders.forEach((order: unknown, index) => {
+      if (typeof order !== 'object' || order === null || Array.isArray(order)) {
+        throw new BadRequestException(
+          `${this.position(index, batch)}订单参数必须是对象`,
+        );
+      }
+    });
+  }
+
+  private requireFields(item: object, fields: string[], position: string) {
+    const values = item as Record<string, unknown>;
+    const missing = fields.filter(
+      (field) => values[field] === undefined || values[field] === '',
+    );
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `${position}缺少参数: ${missing.join(', ')}`,
+      );
+    }
+  }
+
+  private requireOrderId(order: TradeCancelArgs, position: string) {
+    if (!order.ordId && !order.clOrdId) {
+      throw new BadRequestException(`${position}ordId 和 clOrdId 至少需要一个`);
+    }
+  }
+
+  /**
+   * 批量请求的错误信息前缀，如 第 2 条：
+   */
+  private position(index: number, batch: boolean): string {
+    return batch ? `第 ${index + 1} 条：` : '';
+  }
+}
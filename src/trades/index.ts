@@ -0,0 +1,4 @@
+export * from './trade-record.interface';
+export * from './trade-ledger.service';
+export * from './trades.controller';
+export * from './trades.module';
@@ -0,0 +1,114 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigService } from '@nestjs/config';
+import { TradeLedgerService } from './trade-ledger.service';
+import { OkxOrderData } from '../common/interfaces/okx-order.interface';
+import { toTypedConfig } from '../config/config.loader';
+
+describe('TradeLedgerService', () => {
+  const cwd = process.cwd();
+  let tmpDir: string;
+  let ledger: TradeLedgerService;
+
+  const fill = (overrides: Partial<OkxOrderData>): OkxOrderData =>
+    ({
+      ordId: '1',
+      instType: 'SWAP',
+      instId: 'BTC-USDT-SWAP',
+      side: 'sell',
+      tradeId: '100',
+      fillSz: '1',
+      fillPx: '100000',
+      fillTime: String(Date.UTC(2025, 11, 1, 12)),
+      fillFee: '',
+      fillPnl: '',
+      fee: '-5',
+      feeCcy: 'USDT',
+      rebate: '0',
+      rebateCcy: 'USDT',
+      pnl: '50',
+      ...overrides,
+    }) as OkxOrderData;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'trade-ledger-'));
+    process.chdir(tmpDir);
+    ledger = new TradeLedgerService({
+      get: (key: string) => (key === 'REPORT_TIMEZONE' ? 'UTC' : undefined),
+    } as ConfigService);
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should record each fill once and derive per-fill fee and pnl', () => {
+    expect(ledger.recordFill('main', fill({}))).toMatchObject({
+      fee: -5,
+      pnl: 50,
+    });
+    expect(ledger.recordFill('main', fill({}))).toBeNull();
+    expect(
+      ledger.recordFill(
+        'main',
+        fill({ tradeId: '101', fee: '-8', pnl: '80', rebate: '1' }),
+      ),
+    ).toMatchObject({ fee: -3, pnl: 30, rebate: 1 });
+    expect(ledger.recordFill('main', fill({ tradeId: '', fillSz: '0' }))).toBe(
+      null,
+    );
+  });
+
+  it('should aggregate report rows by group', () => {
+    ledger.recordFill('main', fill({}));
+    ledger.recordFill(
+      'main',
+      fill({ tradeId: '101', fee: '-8', pnl: '80', rebate: '1' }),
+    );
+    ledger.recordFill(
+      'sub',
+      fill({
+        ordId: '2',
+        tradeId: '200',
+        instId: 'ETH-USDT-SWAP',
+        fillPx: '3000',
+        fillTime: String(Date.UTC(2025, 11, 2, 12)),
+      }),
+    );
+
+    expect(ledger.report({}, 'instId')).toEqual([
+      {
+        group: 'BTC-USDT-SWAP',
+        ccy: 'USDT',
+        trades: 2,
+        volume: 2,
+        notional: 200000,
+        pnl: 80,
+        fee: -8,
+        rebate: 1,
+        net: 73,
+      },
+      expect.objectContaining({ group: 'ETH-USDT-SWAP', trades: 1 }),
+    ]);
+    expect(ledger.report({}, 'day').map((row) => row.group)).toEqual([
+      '2025-12-01',
+      '2025-12-02',
+    ]);
+    expect(
+      ledger.report({ account: 'sub' }, 'account').map((row) => row.group),
+    ).toEqual(['sub']);
+  });
+
+  it('should reload fills from disk', () => {
+    ledger.recordFill('main', fill({}));
+
+    const reloaded = new TradeLedgerService({
+      get: (key: string) => toTypedConfig({})[key],
+    } as unknown as ConfigService);
+    reloaded.onModuleInit();
+    expect(reloaded.recordFill('main', fill({}))).toBeNull();
+    expect(reloaded.query({})).toHaveLength(1);
+  });
+});
@@ -0,0 +1,224 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JsonlFileStore } from '../common/storage/jsonl-file.store';
+import {
+  OkxFillData,
+  OkxOrderData,
+} from '../common/interfaces/okx-order.interface';
+import { hasValue } from '../common/utils/format.util';
+import {
+  TradeQuery,
+  TradeRecord,
+  TradeReportGroupBy,
+  TradeReportRow,
+} from './trade-record.interface';
+
+/**
+ * 保留 8 位小数，消除浮点累加误差
+ */
+function round(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+/**
+ * 成交账本
+ *
+ * 从订单推送中提取每笔成交（按 tradeId 去重）追加写入 data/trades.jsonl，
+ * 并按产品、日期、账户汇总已实现收益、手续费和返佣
+ */
+@Injectable()
+export class TradeLedgerService implements OnModuleInit {
+  private readonly logger = new Logger(TradeLedgerService.name);
+  private readonly store = new JsonlFileStore<TradeRecord>('trades.jsonl');
+  private readonly trades: TradeRecord[] = [];
+  // 账户:产品ID:成交ID
+  private readonly tradeKeys = new Set<string>();
+  // 账户:订单ID -> 已记录成交的累计手续费/收益/返佣
+  private readonly orderTotals = new Map<
+    string,
+    { fee: number; pnl: number; rebate: number }
+  >();
+  readonly timeZone: string;
+
+  constructor(private configService: ConfigService) {
+    this.timeZone =
+      this.configService.get<string>('REPORT_TIMEZONE') ||
+      Intl.DateTimeFormat().resolvedOptions().timeZone;
+  }
+
+  onModuleInit() {
+    for (const trade of this.store.readAll()) {
+      this.index(trade);
+    }
+    this.logger.log(`已加载成交记录: ${this.trades.length} 笔`);
+  }
+
+  /**
+   * 从订单推送中记录成交，非成交推送或重复成交返回 null
+   */
+  recordFill(account: string, order: OkxOrderData): TradeRecord | null {
+    if (!hasValue(order.tradeId) || !(parseFloat(order.fillSz) > 0)) {
+      return null;
+    }
+    if (this.tradeKeys.has(`${account}:${order.instId}:${order.tradeId}`)) {
+      return null;
+    }
+
+    // 优先使用单笔成交字段，否则用订单累计值减去已记录的部分
+    const totals = this.orderTotals.get(`${account}:${order.ordId}`) ?? {
+      fee: 0,
+      pnl: 0,
+      rebate: 0,
+    };
+    const fee = hasValue(order.fillFee)
+      ? parseFloat(order.fillFee)
+      : parseFloat(order.fee || '0') - totals.fee;
+    const pnl = hasValue(order.fillPnl)
+      ? parseFloat(order.fillPnl)
+      : parseFloat(order.pnl || '0') - totals.pnl;
+    const rebate = parseFloat(order.rebate || '0') - totals.rebate;
+
+    const trade: TradeRecord = {
+      account,
+      tradeId: order.tradeId,
+      ordId: order.ordId,
+      clOrdId: order.clOrdId,
+      tag: order.tag,
+      instType: order.instType,
+      instId: order.instId,
+      side: order.side,
+      posSide: order.posSide,
+      fillSz: order.fillSz,
+      fillPx: order.fillPx,
+      fillTime: parseInt(order.fillTime) || parseInt(order.uTime) || Date.now(),
+      fee: round(fee),
+      feeCcy: order.fillFeeCcy || order.feeCcy,
+      rebate: round(rebate),
+      rebateCcy: order.rebateCcy,
+      pnl: round(pnl),
+    };
+
+    this.store.append(trade);
+    this.index(trade);
+    return trade;
+  }
+
+  /**
+   * 从成交明细（REST 补拉）中记录成交，重复成交返回 null
+   */
+  recordTrade(account: string, fill: OkxFillData): TradeRecord | null {
+    if (!(parseFloat(fill.fillSz) > 0)) {
+      return null;
+    }
+    if (this.tradeKeys.has(`${account}:${fill.instId}:${fill.tradeId}`)) {
+      return null;
+    }
+
+    const trade: TradeRecord = {
+      account,
+      tradeId: fill.tradeId,
+      ordId: fill.ordId,
+      clOrdId: fill.clOrdId,
+      tag: fill.tag,
+      instType: fill.instType,
+      instId: fill.instId,
+      side: fill.side,
+      posSide: fill.posSide,
+      fillSz: fill.fillSz,
+      fillPx: fill.fillPx,
+      fillTime: parseInt(fill.fillTime) || parseInt(fill.ts) || Date.now(),
+      fee: round(parseFloat(fill.fee || '0')),
+      feeCcy: fill.feeCcy,
+      rebate: 0,
+      rebateCcy: fill.feeCcy,
+      pnl: round(parseFloat(fill.fillPnl || '0')),
+    };
+
+    this.store.append(trade);
+    this.index(trade);
+    return trade;
+  }
+
+  /**
+   * 查询成交记录，按成交时间倒序
+   */
+  query(query: TradeQuery): TradeRecord[] {
+    return this.trades
+      .filter(
+        (trade) =>
+          (!query.account || trade.account === query.account) &&
+          (!query.instId || trade.instId === query.instId) &&
+          (query.from === undefined || trade.fillTime >= query.from) &&
+          (query.to === undefined || trade.fillTime <= query.to),
+      )
+      .sort((a, b) => b.fillTime - a.fillTime);
+  }
+
+  /**
+   * 汇总报表（同一分组内按手续费币种拆分）
+   */
+  report(
+    query: TradeQuery,
+    groupBy: TradeReportGroupBy,
+    timeZone: string = this.timeZone,
+  ): TradeReportRow[] {
+    const dayFormat = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    });
+    const rows = new Map<string, TradeReportRow>();
+
+    for (const trade of this.query(query)) {
+      const group =
+        groupBy === 'day'
+          ? dayFormat.format(new Date(trade.fillTime))
+          : trade[groupBy];
+      const key = `${group}|${trade.feeCcy}`;
+      const row = rows.get(key) ?? {
+        group,
+        ccy: trade.feeCcy,
+        trades: 0,
+        volume: 0,
+        notional: 0,
+        pnl: 0,
+        fee: 0,
+        rebate: 0,
+        net: 0,
+      };
+
+      const fillSz = parseFloat(trade.fillSz) || 0;
+      row.trades++;
+      row.volume = round(row.volume + fillSz);
+      row.notional = round(
+        row.notional + fillSz * (parseFloat(trade.fillPx) || 0),
+      );
+      row.pnl = round(row.pnl + trade.pnl);
+      row.fee = round(row.fee + trade.fee);
+      row.rebate = round(row.rebate + trade.rebate);
+      row.net = round(row.pnl + row.fee + row.rebate);
+      rows.set(key, row);
+    }
+
+    return [...rows.values()].sort(
+      (a, b) => a.group.localeCompare(b.group) || a.ccy.localeCompare(b.ccy),
+    );
+  }
+
+  private index(trade: TradeRecord) {
+    this.trades.push(trade);
+    this.tradeKeys.add(`${trade.account}:${trade.instId}:${trade.tradeId}`);
+
+    const orderKey = `${trade.account}:${trade.ordId}`;
+    const totals = this.orderTotals.get(orderKey) ?? {
+      fee: 0,
+      pnl: 0,
+      rebate: 0,
+    };
+    totals.fee += trade.fee;
+    totals.pnl += trade.pnl;
+    totals.rebate += trade.rebate;
+    this.orderTotals.set(orderKey, totals);
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * 成交记录（每笔成交一条）
+ */
+export interface TradeRecord {
+  account: string; // 所属账户
+  tradeId: string; // 成交ID
+  ordId: string; // 订单ID
+  clOrdId: string; // 客户自定义订单ID
+  tag: string; // 订单标签
+  instType: string; // 产品类型
+  instId: string; // 产品ID
+  side: string; // 订单方向
+  posSide: string; // 持仓方向
+  fillSz: string; // 成交数量
+  fillPx: string; // 成交价格
+  fillTime: number; // 成交时间（毫秒时间戳）
+  fee: number; // 手续费（负数为扣除）
+  feeCcy: string; // 手续费币种
+  rebate: number; // 返佣
+  rebateCcy: string; // 返佣币种
+  pnl: number; // 收益
+}
+
+/**
+ * 报表分组维度
+ */
+export type TradeReportGroupBy = 'instId' | 'day' | 'account';
+
+/**
+ * 成交查询条件
+ */
+export interface TradeQuery {
+  account?: string;
+  instId?: string;
+  from?: number; // 成交时间下限（毫秒时间戳，含）
+  to?: number; // 成交时间上限（毫秒时间戳，含）
+}
+
+/**
+ * 报表行（同一分组内按手续费币种拆分）
+ */
+export interface TradeReportRow {
+  group: string; // 分组值（产品ID、日期或账户）
+  ccy: string; // 手续费币种
+  trades: number; // 成交笔数
+  volume: number; // 成交数量合计
+  notional: number; // 成交金额合计（价格 × 数量）
+  pnl: number; // 已实现收益
+  fee: number; // 手续费
+  rebate: number; // 返佣
+  net: number; // 净收益 = 收益 + 手续费 + 返佣
+}
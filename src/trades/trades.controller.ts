@@ -0,0 +1,159 @@
+import {
+  Controller,
+  Get,
+  Query,
+  Res,
+  BadRequestException,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { TradeLedgerService } from './trade-ledger.service';
+import type {
+  TradeRecord,
+  TradeReportGroupBy,
+  TradeReportRow,
+} from './trade-record.interface';
+import type { PagedResult } from '../orders';
+import { toCsv } from '../common/utils/csv.util';
+import { parseTimeParam } from '../common/utils/query.util';
+
+const GROUP_BY_OPTIONS: TradeReportGroupBy[] = ['instId', 'day', 'account'];
+
+const TRADE_COLUMNS: (keyof TradeRecord)[] = [
+  'account',
+  'tradeId',
+  'ordId',
+  'clOrdId',
+  'tag',
+  'instType',
+  'instId',
+  'side',
+  'posSide',
+  'fillSz',
+  'fillPx',
+  'fillTime',
+  'fee',
+  'feeCcy',
+  'rebate',
+  'rebateCcy',
+  'pnl',
+];
+
+const REPORT_COLUMNS: (keyof TradeReportRow)[] = [
+  'group',
+  'ccy',
+  'trades',
+  'volume',
+  'notional',
+  'pnl',
+  'fee',
+  'rebate',
+  'net',
+];
+
+/**
+ * 校验导出格式
+ */
+function parseFormat(format?: string): 'json' | 'csv' {
+  if (!format || format === 'json') {
+    return 'json';
+  }
+  if (format === 'csv') {
+    return 'csv';
+  }
+  throw new BadRequestException(`不支持的导出格式: ${format}`);
+}
+
+@Controller('trades')
+export class TradesController {
+  constructor(private readonly tradeLedgerService: TradeLedgerService) {}
+
+  /**
+   * 查询成交记录
+   * @param format json（默认，分页）或 csv（导出全部）
+   */
+  @Get()
+  getTrades(
+    @Res({ passthrough: true }) res: Response,
+    @Query('account') account?: string,
+    @Query('instId') instId?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('page') page?: string,
+    @Query('pageSize') pageSize?: string,
+    @Query('format') format?: string,
+  ): PagedResult<TradeRecord> | string {
+    const trades = this.tradeLedgerService.query({
+      account,
+      instId,
+      from: parseTimeParam('from', from),
+      to: parseTimeParam('to', to),
+    });
+
+    if (parseFormat(format) === 'csv') {
+      this.setCsvHeaders(res, 'trades.csv');
+      return toCsv(trades, TRADE_COLUMNS);
+    }
+
+    const pageNum = Math.max(1, parseInt(page || '1', 10) || 1);
+    const size = Math.min(500, Math.max(1, parseInt(pageSize || '', 10) || 50));
+    return {
+      total: trades.length,
+      page: pageNum,
+      pageSize: size,
+      items: trades.slice((pageNum - 1) * size, pageNum * size),
+    };
+  }
+
+  /**
+   * 收益、手续费和返佣汇总报表
+   * @param groupBy 分组维度 instId（默认）、day、account
+   * @param tz 按日分组使用的时区，默认 REPORT_TIMEZONE
+   * @param format json（默认）或 csv
+   */
+  @Get('report')
+  getReport(
+    @Res({ passthrough: true }) res: Response,
+    @Query('groupBy') groupBy?: string,
+    @Query('account') account?: string,
+    @Query('instId') instId?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('tz') tz?: string,
+    @Query('format') format?: string,
+  ): { groupBy: TradeReportGroupBy; rows: TradeReportRow[] } | string {
+    const group = (groupBy || 'instId') as TradeReportGroupBy;
+    if (!GROUP_BY_OPTIONS.includes(group)) {
+      throw new BadRequestException(`不支持的分组维度: ${groupBy}`);
+    }
+
+    let rows: TradeReportRow[];
+    try {
+      rows = this.tradeLedgerService.report(
+        {
+          account,
+          instId,
+          from: parseTimeParam('from', from),
+          to: parseTimeParam('to', to),
+        },
+        group,
+        tz || undefined,
+      );
+    } catch (error: unknown) {
+      if (error instanceof RangeError) {
+        throw new BadRequestException(`无效的时区: ${tz}`);
+      }
+      throw error;
+    }
+
+    if (parseFormat(format) === 'csv') {
+      this.setCsvHeaders(res, `trade-report-${group}.csv`);
+      return toCsv(rows, REPORT_COLUMNS);
+    }
+    return { groupBy: group, rows };
+  }
+
+  private setCsvHeaders(res: Response, fileName: string) {
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { TradeLedgerService } from './trade-ledger.service';
+import { TradesController } from './trades.controller';
+
+@Module({
+  controllers: [TradesController],
+  providers: [TradeLedgerService],
+  exports: [TradeLedgerService],
+})
+export class TradesModule {}
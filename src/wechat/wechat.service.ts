@@ -1,6 +1,8 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import axios from 'axios';
+import { NotificationMessage, Notifier } from '../notify/notifier.interface';
+import { MetricsService } from '../metrics/metrics.service';
 
 export interface WechatTemplateData {
   keyword1: { value: string; color?: string }; // 交易时间
@@ -11,16 +13,25 @@ export interface WechatTemplateData {
 }
 
 @Injectable()
-export class WechatService {
+export class WechatService implements Notifier {
+  readonly name = 'wechat';
   private readonly logger = new Logger(WechatService.name);
   private readonly apiUrl: string;
   private readonly openid: string;
   private readonly templateId: string;
 
-  constructor(private configService: ConfigService) {
-    this.apiUrl = this.configService.get<string>('WECHAT_API_URL')!;
-    this.openid = this.configService.get<string>('WECHAT_OPENID')!;
-    this.templateId = this.configService.get<string>('WECHAT_TEMPLATE_ID')!;
+  constructor(
+    private configService: ConfigService,
+    private metrics: MetricsService,
+  ) {
+    this.apiUrl = this.configService.get<string>('WECHAT_API_URL') || '';
+    this.openid = this.configService.get<string>('WECHAT_OPENID') || '';
+    this.templateId =
+      this.configService.get<string>('WECHAT_TEMPLATE_ID') || '';
+  }
+
+  isEnabled(): boolean {
+    return !!this.apiUrl && !!this.templateId;
   }
 
   /**
@@ -29,10 +40,12 @@ export class WechatService {
   async sendTemplateMessage(
     data: WechatTemplateData,
     url?: string,
+    openid?: string,
   ): Promise<boolean> {
+    const startedAt = Date.now();
     try {
       const payload = {
-        openid: this.openid,
+        openid: openid || this.openid,
         templateId: this.templateId,
         data,
         url: url || '',
@@ -48,11 +61,17 @@ export class WechatService {
 
       this.logger.log(`微信通知响应: ${JSON.stringify(response.data)}`);
       const resData = response.data as { errcode?: number; success?: boolean };
-      return resData?.errcode === 0 || resData?.success !== false;
+      const success = resData?.errcode === 0 || resData?.success !== false;
+      this.metrics.recordWechatRequest(
+        success,
+        (Date.now() - startedAt) / 1000,
+      );
+      return success;
     } catch (error: unknown) {
       const err = error as Error & {
         response?: { status: number; data: unknown };
       };
+      this.metrics.recordWechatRequest(false, (Date.now() - startedAt) / 1000);
       this.logger.error(`发送微信通知失败: ${err.message}`);
       if (err.response) {
         this.logger.error(`响应状态: ${err.response.status}`);
@@ -63,26 +82,32 @@ export class WechatService {
   }
 
   /**
-   * 发送订单通知
-   * @param time 交易时间
-   * @param instId 交易品种
-   * @param side 交易方向
-   * @param size 成交数量
-   * @param state 订单状态
+   * 发送通知（紧急通知以红色高亮状态和数量）
    */
-  async sendOrderNotification(
-    time: string,
-    instId: string,
-    side: string,
-    size: string,
-    state: string,
-  ): Promise<boolean> {
-    return this.sendTemplateMessage({
-      keyword1: { value: time },
-      keyword2: { value: instId },
-      keyword3: { value: side },
-      keyword4: { value: size },
-      keyword5: { value: state },
-    });
+  async send(message: NotificationMessage): Promise<boolean> {
+    const color = message.level === 'urgent' ? '#FF0000' : undefined;
+    const data: WechatTemplateData = {
+      keyword1: { value: message.time },
+      keyword2: {
+        value: message.account
+          ? `${message.instId} [${message.account}]`
+          : message.instId,
+      },
+      keyword3: { value: message.side },
+      keyword4: { value: message.size, color },
+      keyword5: { value: message.state, color },
+    };
+
+    // 发送给所有接收人，全部成功才返回 true
+    const openids = message.recipients?.[this.name]?.length
+      ? message.recipients[this.name]
+      : [undefined];
+    let success = true;
+    for (const openid of openids) {
+      if (!(await this.sendTemplateMessage(data, undefined, openid))) {
+        success = false;
+      }
+    }
+    return success;
   }
 }